@@ -1,7 +1,7 @@
 import { ClientError } from "./utils/ClientError";
 import { checkRequired, normalizeUrl } from "./utils/helpers";
 import { Fetcher } from "./utils/Fetcher";
-import { KeyValuePair, ClientOptions } from "./types";
+import { KeyValuePair, ClientOptions, MiddlewareFunction } from "./types";
 import { AuthManager } from "./AuthManager";
 import { EndpointManager } from "./EndpointManager";
 import { CacheManager } from "./CacheManager";
@@ -40,8 +40,9 @@ const DEFAULT_OPTIONS = {
  *
  * @export
  * @class AltogicClient
+ * @template M The map of model names to model object types, which is used to type the query builders of the models
  */
-export class AltogicClient {
+export class AltogicClient<M extends object = {}> {
   /**
    * Altogic client options
    * @protected
@@ -90,7 +91,7 @@ export class AltogicClient {
    * DatabaseManager object is used to perform CRUD (create, read, update and delete) and run queries in your app's database
    * @type {DatabaseManager}
    */
-  #databaseManager: DatabaseManager | null;
+  #databaseManager: DatabaseManager<M> | null;
 
   /**
    * StorageManager object is used to manage the buckets and files of your app's cloud storage
@@ -158,13 +159,31 @@ export class AltogicClient {
     // If apiKey is provided, add it to the default headers
     if (this.settings.apiKey) headers.Authorization = this.settings.apiKey;
     // Create the http client to manage RESTful API calls
-    this.#fetcher = new Fetcher(this, normalizeUrl(envUrl), headers);
+    this.#fetcher = new Fetcher(
+      this,
+      normalizeUrl(envUrl),
+      headers,
+      this.settings
+    );
 
     // If there is current session info stored in local storage get it an update fetcher session info
     const session = this.auth.getSession();
     this.#fetcher.setSession(session);
   }
 
+  /**
+   * Registers a middleware function that intercepts the RESTful API calls made to your app backend (e.g., database, storage, cache, endpoint or authentication requests). The middleware can inspect and modify the outgoing request, transform the returned `data` and `errors`, or return a response without sending the request at all. Middleware functions are called in the order they are registered, after the ones specified in the `middleware` option of {@link ClientOptions}.
+   *
+   * > *Middleware functions do not intercept the realtime (websocket) messages.*
+   * @param {MiddlewareFunction} middleware The middleware function to register
+   * @returns Returns the client object so that multiple middleware functions can be registered in a chain
+   */
+  use(middleware: MiddlewareFunction): AltogicClient<M> {
+    checkRequired("middleware", middleware);
+    this.#fetcher.use(middleware);
+    return this;
+  }
+
   /**
    * Returns the authentication manager that can be used to perform user and session management activities.
    * @readonly
@@ -235,10 +254,13 @@ export class AltogicClient {
    * @readonly
    * @type {DatabaseManager}
    */
-  get db(): DatabaseManager {
+  get db(): DatabaseManager<M> {
     if (this.#databaseManager) return this.#databaseManager;
     else {
-      this.#databaseManager = new DatabaseManager(this.#fetcher);
+      this.#databaseManager = new DatabaseManager<M>(
+        this.#fetcher,
+        () => this.realtime
+      );
       return this.#databaseManager;
     }
   }
@@ -9,7 +9,13 @@ import {
   APIError,
   UserEventListenerFunction,
 } from "./types";
-import { getParamValue, setCookie, getCookie } from "./utils/helpers";
+import { RequestError } from "./utils/RequestError";
+import {
+  getParamValue,
+  setCookie,
+  getCookie,
+  createRequestError,
+} from "./utils/helpers";
 
 /**
  * Handles the authentication process of your application users. Provides methods to manage users, sessions and authentication.
@@ -42,7 +48,7 @@ export class AuthManager extends APIBase {
    * Reference to the Altogic client library realtime manager
    * @type {string}
    */
-  #client: AltogicClient;
+  #client: AltogicClient<any>;
 
   /**
    * Creates an instance of AuthManager to manage your application users and user sessions.
@@ -50,7 +56,7 @@ export class AuthManager extends APIBase {
    * @param {ClientOptions} options Altogic client options
    */
   constructor(
-    client: AltogicClient,
+    client: AltogicClient<any>,
     fetcher: Fetcher,
     { localStorage, signInRedirect }: ClientOptions
   ) {
@@ -194,31 +200,38 @@ export class AuthManager extends APIBase {
   }> {
     const sessionToken = getCookie(req, res, "session_token");
     if (!sessionToken) {
-      return {
-        user: null,
-        errors: {
-          status: 400,
-          statusText: "Bad Request",
-          items: [
-            {
-              origin: "session_token_error",
-              code: "session_token_not_found",
-              message:
-                "Cannot identify the session token 'session_token' from the request headers",
-            },
-          ],
-        },
+      const errors: APIError = {
+        status: 400,
+        statusText: "Bad Request",
+        items: [
+          {
+            origin: "session_token_error",
+            code: "session_token_not_found",
+            message:
+              "Cannot identify the session token 'session_token' from the request headers",
+          },
+        ],
       };
+
+      if (this.fetcher.throwsOnError()) throw createRequestError(errors);
+      return { user: null, errors };
     }
 
     // Set the session token of the fetcher
     const tmpSession: any = { token: sessionToken };
     this.setSession(tmpSession);
     // Get user data from the server
-    const { user, errors } = await this.getUserFromDB();
-    if (errors) this.removeSessionCookie(req, res);
+    try {
+      const { user, errors } = await this.getUserFromDB();
+      if (errors) this.removeSessionCookie(req, res);
 
-    return { user, errors };
+      return { user, errors };
+    } catch (err) {
+      // In throwOnError mode the request errors are thrown, a request that could not be sent has the status 0
+      if (err instanceof RequestError && err.status !== 0)
+        this.removeSessionCookie(req, res);
+      throw err;
+    }
   }
 
   /**
@@ -447,6 +460,7 @@ export class AuthManager extends APIBase {
 
       return { errors };
     } catch (err) {
+      if (this.fetcher.throwsOnError()) throw err;
       return { errors: null };
     }
   }
@@ -1,7 +1,13 @@
 import { APIBase } from "./APIBase";
 import { Fetcher } from "./utils/Fetcher";
-import { APIError, FileListOptions, FileUploadOptions } from "./types";
+import {
+  APIError,
+  FileListOptions,
+  FileUploadOptions,
+  RequestOptions,
+} from "./types";
 import { FileManager } from "./FileManager";
+import { Expression } from "./Expression";
 
 const DEFAULT_FILE_OPTIONS = {
   contentType: "text/plain;charset=UTF-8",
@@ -38,14 +44,24 @@ export class BucketManager extends APIBase {
    * Check if the bucket exists.
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns true if bucket exists, false otherwise
    */
-  async exists(): Promise<{ data: boolean | null; errors: APIError | null }> {
+  async exists(
+    requestOptions?: RequestOptions
+  ): Promise<{ data: boolean | null; errors: APIError | null }> {
     if (this.#bucketNameOrId === "root") return { data: true, errors: null };
 
-    return await this.fetcher.post(`/_api/rest/v1/storage/bucket/exists`, {
-      bucket: this.#bucketNameOrId,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/bucket/exists`,
+      {
+        bucket: this.#bucketNameOrId,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -53,28 +69,44 @@ export class BucketManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {boolean} detailed Specifies whether to get detailed bucket statistics or not
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns basic bucket metadata informaton. If `detailed=true` provides additional information about contained files.
    */
   async getInfo(
-    detailed: boolean = false
+    detailed: boolean = false,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/storage/bucket/get`, {
-      detailed,
-      bucket: this.#bucketNameOrId,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/bucket/get`,
+      {
+        detailed,
+        bucket: this.#bucketNameOrId,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
    * Removes all objects (e.g., files) inside the bucket. This method does not delete the bucket itself. If you also want to delete the bucket, including all its contained objects, you can use {@link delete} method.
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    */
-  async empty(): Promise<{ errors: APIError | null }> {
+  async empty(
+    requestOptions?: RequestOptions
+  ): Promise<{ errors: APIError | null }> {
     const { errors } = await this.fetcher.post(
       `/_api/rest/v1/storage/bucket/empty`,
       {
         bucket: this.#bucketNameOrId,
-      }
+      },
+      null,
+      null,
+      "json",
+      requestOptions
     );
 
     return { errors };
@@ -85,28 +117,44 @@ export class BucketManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string} newName The new name of the bucket. `root` is a reserved name and cannot be used.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the updated bucket information
    */
   async rename(
-    newName: string
+    newName: string,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/storage/bucket/rename`, {
-      newName,
-      bucket: this.#bucketNameOrId,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/bucket/rename`,
+      {
+        newName,
+        bucket: this.#bucketNameOrId,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
    * Deletes the bucket and all objects (e.g., files) inside the bucket. Returns an error if `root` bucket is tried to be deleted.
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    */
-  async delete(): Promise<{ errors: APIError | null }> {
+  async delete(
+    requestOptions?: RequestOptions
+  ): Promise<{ errors: APIError | null }> {
     const { errors } = await this.fetcher.post(
       `/_api/rest/v1/storage/bucket/delete`,
       {
         bucket: this.#bucketNameOrId,
-      }
+      },
+      null,
+      null,
+      "json",
+      requestOptions
     );
 
     return { errors };
@@ -117,15 +165,24 @@ export class BucketManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {boolean} includeFiles Specifies whether to make each file in the bucket public.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the updated bucket information
    */
   async makePublic(
-    includeFiles: boolean = false
+    includeFiles: boolean = false,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/storage/bucket/make-public`, {
-      includeFiles,
-      bucket: this.#bucketNameOrId,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/bucket/make-public`,
+      {
+        includeFiles,
+        bucket: this.#bucketNameOrId,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -133,17 +190,23 @@ export class BucketManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {boolean} includeFiles Specifies whether to make each file in the bucket private.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the updated bucket information
    */
   async makePrivate(
-    includeFiles: boolean = false
+    includeFiles: boolean = false,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
     return await this.fetcher.post(
       `/_api/rest/v1/storage/bucket/make-private`,
       {
         includeFiles,
         bucket: this.#bucketNameOrId,
-      }
+      },
+      null,
+      null,
+      "json",
+      requestOptions
     );
   }
 
@@ -168,53 +231,65 @@ export class BucketManager extends APIBase {
    * You can paginate through your files and sort them using the input {@link FileListOptions} parameter.
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
-   * @param {string} expression The query expression string that will be used to filter file objects
+   * @param {string | Expression} expression The query expression string or the built {@link Expression} that will be used to filter file objects
    * @param {FileListOptions} options Pagination and sorting options
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the array of files. If `returnCountInfo=true` in {@link FileListOptions}, returns an object which includes count information and array of files.
    */
   async listFiles(
-    expression?: string,
-    options?: FileListOptions
+    expression?: string | Expression,
+    options?: FileListOptions,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | object[] | null; errors: APIError | null }> {
     let expVal = null;
     let optionsVal = null;
 
     if (expression) {
-      if (typeof expression === "string") expVal = expression;
+      if (typeof expression === "string" || expression instanceof Expression)
+        expVal = expression.toString();
       else if (typeof expression === "object") optionsVal = expression;
     }
 
     if (options && typeof options === "object") optionsVal = options;
 
-    return await this.fetcher.post(`/_api/rest/v1/storage/bucket/list-files`, {
-      expression: expVal,
-      options: optionsVal,
-      bucket: this.#bucketNameOrId,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/bucket/list-files`,
+      {
+        expression: expVal,
+        options: optionsVal,
+        bucket: this.#bucketNameOrId,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
    * Uploads a file to an existing bucket. If there already exists a file with the same name in destination bucket, it ensures the uploaded file name to be unique in its bucket.
    *
-   * If `onProgress` callback function is defined in {@link FileUploadOptions}, it periodically calls this function to inform about upload progress. Please note that for the moment **`onProgress` callback function can only be used in clients where `XMLHttpRequest` object is available (e.g., browsers).**
+   * If `onProgress` callback function is defined in {@link FileUploadOptions}, it periodically calls this function to inform about upload progress. Please note that **`onProgress` callback function can only be used in clients where `XMLHttpRequest` object is available (e.g., browsers) or when an `upload` function is provided in the `transport` option of {@link ClientOptions}.**
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string} fileName The name of the file e.g., *filename.jpg*
    * @param {any} fileBody The body of the file that will be stored in the bucket
    * @param {FileUploadOptions} options Content type of the file, privacy setting of the file and whether to create the bucket if not exists. `contentType` is ignored, if `fileBody` is `Blob`, `File` or `FormData`, otherwise `contentType` option needs to be specified. If not specified, `contentType` will default to `text/plain;charset=UTF-8`. If `isPublic` is not specified, defaults to the bucket's privacy setting. If `createBucket` is set to true (defaults to false), then creates a new bucket if the bucket does not exist.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the metadata of the uploaded file
    */
   async upload(
     fileName: string,
     fileBody: any,
-    options?: FileUploadOptions
+    options?: FileUploadOptions,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
     if (
       (typeof FormData !== "undefined" && fileBody instanceof FormData) ||
       (typeof Blob !== "undefined" && fileBody instanceof Blob) ||
       (typeof File !== "undefined" && fileBody instanceof File)
     ) {
-      if (typeof XMLHttpRequest !== "undefined" && options?.onProgress) {
+      if (this.fetcher.canTrackUploadProgress() && options?.onProgress) {
         return await this.fetcher.upload(
           `/_api/rest/v1/storage/bucket/upload-formdata`,
           fileBody,
@@ -228,7 +303,8 @@ export class BucketManager extends APIBase {
             },
           },
           null,
-          options.onProgress
+          options.onProgress,
+          requestOptions
         );
       } else {
         return await this.fetcher.post(
@@ -242,7 +318,10 @@ export class BucketManager extends APIBase {
               ...options,
               onProgress: undefined,
             },
-          }
+          },
+          null,
+          "json",
+          requestOptions
         );
       }
     } else {
@@ -259,7 +338,9 @@ export class BucketManager extends APIBase {
           fileName,
           options: optionsVal,
         },
-        { "Content-Type": optionsVal.contentType }
+        { "Content-Type": optionsVal.contentType },
+        "json",
+        requestOptions
       );
     }
   }
@@ -279,16 +360,22 @@ export class BucketManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string[]} fileNamesOrIds Array of name or ids of the files to delete
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    */
   async deleteFiles(
-    fileNamesOrIds: string[]
+    fileNamesOrIds: string[],
+    requestOptions?: RequestOptions
   ): Promise<{ errors: APIError | null }> {
     const { errors } = await this.fetcher.post(
       `/_api/rest/v1/storage/bucket/delete-files`,
       {
         fileNamesOrIds,
         bucket: this.#bucketNameOrId,
-      }
+      },
+      null,
+      null,
+      "json",
+      requestOptions
     );
 
     return { errors };
@@ -299,15 +386,24 @@ export class BucketManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string | string[]} tags A single tag or an array of tags to add to bucket's metadata
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the updated bucket information
    */
   async addTags(
-    tags: string | string[]
+    tags: string | string[],
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/storage/bucket/add-tags`, {
-      tags,
-      bucket: this.#bucketNameOrId,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/bucket/add-tags`,
+      {
+        tags,
+        bucket: this.#bucketNameOrId,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -315,15 +411,24 @@ export class BucketManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string | string[]} tags A single tag or an array of tags to remove from bucket's metadata
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the updated bucket information
    */
   async removeTags(
-    tags: string | string[]
+    tags: string | string[],
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/storage/bucket/remove-tags`, {
-      tags,
-      bucket: this.#bucketNameOrId,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/bucket/remove-tags`,
+      {
+        tags,
+        bucket: this.#bucketNameOrId,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -334,20 +439,29 @@ export class BucketManager extends APIBase {
    * @param {boolean} isPublic The default privacy setting that will be applied to the files uploaded to this bucket.
    * @param {string[]} tags Array of string values that will be set as the bucket metadata.
    * @param {boolean} includeFiles Specifies whether to make each file in the bucket to have the same privacy setting of the bucket.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the updated bucket information
    */
   async updateInfo(
     newName: string,
     isPublic: boolean,
     tags: string | string[],
-    includeFiles: boolean = false
+    includeFiles: boolean = false,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/storage/bucket/update`, {
-      newName,
-      isPublic,
-      tags,
-      includeFiles,
-      bucket: this.#bucketNameOrId,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/bucket/update`,
+      {
+        newName,
+        isPublic,
+        tags,
+        includeFiles,
+        bucket: this.#bucketNameOrId,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 }
@@ -1,6 +1,6 @@
 import { APIBase } from "./APIBase";
 import { Fetcher } from "./utils/Fetcher";
-import { APIError } from "./types";
+import { APIError, RequestOptions } from "./types";
 
 /**
  * The cache manager provides simple key-value storage at a high-speed data storage layer (Redis) speeding up data set and get operations.
@@ -26,11 +26,19 @@ export class CacheManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string} key The key to retrieve
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    */
   async get(
-    key: string
+    key: string,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | object[] | null; errors: APIError | null }> {
-    return await this.fetcher.get(`/_api/rest/v1/cache?key=${key}`);
+    return await this.fetcher.get(
+      `/_api/rest/v1/cache?key=${key}`,
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -40,17 +48,26 @@ export class CacheManager extends APIBase {
    * @param {string} key The key to update
    * @param {any} value The value to set
    * @param {number} ttl Time to live in seconds
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    */
   async set(
     key: string,
     value: any,
-    ttl?: number
+    ttl?: number,
+    requestOptions?: RequestOptions
   ): Promise<{ errors: APIError | null }> {
-    const { errors } = await this.fetcher.post("/_api/rest/v1/cache", {
-      key,
-      value,
-      ttl: ttl ? ttl : undefined,
-    });
+    const { errors } = await this.fetcher.post(
+      "/_api/rest/v1/cache",
+      {
+        key,
+        value,
+        ttl: ttl ? ttl : undefined,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
     return { errors };
   }
 
@@ -59,15 +76,26 @@ export class CacheManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string | string[]} keys A single key or an array of keys (string) to delete
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    */
-  async delete(keys: string | string[]): Promise<{ errors: APIError | null }> {
+  async delete(
+    keys: string | string[],
+    requestOptions?: RequestOptions
+  ): Promise<{ errors: APIError | null }> {
     let keysVal = null;
     if (Array.isArray(keys)) keysVal = keys;
     else keysVal = [keys];
 
-    const { errors } = await this.fetcher.delete(`/_api/rest/v1/cache`, {
-      keys: keysVal,
-    });
+    const { errors } = await this.fetcher.delete(
+      `/_api/rest/v1/cache`,
+      {
+        keys: keysVal,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
     return { errors };
   }
 
@@ -78,12 +106,14 @@ export class CacheManager extends APIBase {
    * @param {string} key The key to increment
    * @param {number} [increment=1] The amount to increment the value by
    * @param {number} ttl Time to live in seconds
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the value of key after the increment
    */
   async increment(
     key: string,
     increment: number = 1,
-    ttl?: number
+    ttl?: number,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
     const { data, errors } = await this.fetcher.post(
       "/_api/rest/v1/cache/increment",
@@ -91,7 +121,11 @@ export class CacheManager extends APIBase {
         key,
         increment,
         ttl: ttl ? ttl : undefined,
-      }
+      },
+      null,
+      null,
+      "json",
+      requestOptions
     );
     return { data, errors };
   }
@@ -103,12 +137,14 @@ export class CacheManager extends APIBase {
    * @param {string} key The key to decrement
    * @param {number} [decrement=1] The amount to decrement the value by
    * @param {number} ttl Time to live in seconds
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the value of key after the decrement
    */
   async decrement(
     key: string,
     decrement: number = 1,
-    ttl?: number
+    ttl?: number,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
     const { data, errors } = await this.fetcher.post(
       "/_api/rest/v1/cache/decrement",
@@ -116,7 +152,11 @@ export class CacheManager extends APIBase {
         key,
         decrement,
         ttl: ttl ? ttl : undefined,
-      }
+      },
+      null,
+      null,
+      "json",
+      requestOptions
     );
     return { data, errors };
   }
@@ -127,12 +167,24 @@ export class CacheManager extends APIBase {
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string} key The key to set its expiry duration
    * @param {number} ttl Time to live in seconds
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    */
-  async expire(key: string, ttl: number): Promise<{ errors: APIError | null }> {
-    const { errors } = await this.fetcher.post("/_api/rest/v1/cache/expire", {
-      key,
-      ttl,
-    });
+  async expire(
+    key: string,
+    ttl: number,
+    requestOptions?: RequestOptions
+  ): Promise<{ errors: APIError | null }> {
+    const { errors } = await this.fetcher.post(
+      "/_api/rest/v1/cache/expire",
+      {
+        key,
+        ttl,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
     return { errors };
   }
 
@@ -140,10 +192,19 @@ export class CacheManager extends APIBase {
    * Returns the overall information about your apps cache including total number of keys and total storage size (bytes), daily and monthly ingress and egress volumes (bytes).
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns information about your app's cache storage
    */
-  async getStats(): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.get(`/_api/rest/v1/cache/stats`);
+  async getStats(
+    requestOptions?: RequestOptions
+  ): Promise<{ data: object | null; errors: APIError | null }> {
+    return await this.fetcher.get(
+      `/_api/rest/v1/cache/stats`,
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -0,0 +1,157 @@
+import { Expression } from "./Expression";
+import { ClientError } from "./utils/ClientError";
+import { GroupComputation } from "./types";
+
+/**
+ * Represents a typed group computation of {@link QueryBuilder.compute}, which is created by the {@link count}, {@link countIf}, {@link sum}, {@link avg}, {@link min} and {@link max} functions. The name of the computation is specified by its key in the computations object passed to `compute`, and the type of its result is inferred from the computation type.
+ *
+ * > **Example:**
+ * > ```
+ * > const { data } = await altogic.db
+ * >   .model<Order>("orders")
+ * >   .group("status")
+ * >   .compute({ total: sum("amount").sort("desc"), n: count(), late: countIf("isLate") });
+ * > // data: { groupby: string; total: number; n: number; late: number }[]
+ * > ```
+ *
+ * Computations are immutable, {@link sort} returns a new computation.
+ * @export
+ * @class Computation
+ * @template V The type of the computed value
+ */
+export class Computation<V = number | null> {
+  /**
+   * The type of the computation
+   * @type {GroupComputation["type"]}
+   */
+  readonly type: GroupComputation["type"];
+
+  /**
+   * The expression whose values are computed, not specified for `count`
+   * @type {string | Expression}
+   */
+  readonly expression?: string | Expression;
+
+  /**
+   * The sort direction of the computed groups
+   * @type {GroupComputation["sort"]}
+   */
+  readonly direction?: GroupComputation["sort"];
+
+  /**
+   * Creates an instance of Computation.
+   * @param {GroupComputation["type"]} type The type of the computation
+   * @param {string | Expression} [expression] The expression whose values are computed
+   * @param {GroupComputation["sort"]} [direction] The sort direction of the computed groups
+   * @throws Throws an `invalid_computation` error if the expression is not specified for a computation type other than `count`
+   */
+  constructor(
+    type: GroupComputation["type"],
+    expression?: string | Expression,
+    direction?: GroupComputation["sort"]
+  ) {
+    if (
+      type !== "count" &&
+      (expression === undefined || expression.toString().trim() === "")
+    )
+      throw new ClientError(
+        "invalid_computation",
+        `Expression of '${type}' computation needs to be specified`
+      );
+
+    this.type = type;
+    this.expression = expression;
+    this.direction = direction;
+  }
+
+  /**
+   * Sorts the computed groups by the value of this computation.
+   * @param {"asc" | "desc"} direction The sort direction
+   * @returns {Computation<V>} Returns a new computation with the sort direction
+   */
+  sort(direction: "asc" | "desc"): Computation<V> {
+    return new Computation<V>(this.type, this.expression, direction);
+  }
+
+  /**
+   * Returns the group computation instruction sent to the app backend.
+   * @param {string} name The name of the computation in the results
+   * @returns {GroupComputation} The group computation
+   */
+  toGroupComputation(name: string): GroupComputation {
+    const computation: GroupComputation = { name, type: this.type };
+    if (this.expression !== undefined) computation.expression = this.expression;
+    if (this.direction) computation.sort = this.direction;
+    return computation;
+  }
+}
+
+/**
+ * Counts the number of objects in each group.
+ * @export
+ * @returns {Computation<number>} Returns the count computation
+ */
+export function count(): Computation<number> {
+  return new Computation<number>("count");
+}
+
+/**
+ * Counts the number of objects in each group for which the condition evaluates to true.
+ * @export
+ * @param {string | Expression} condition The condition expression
+ * @throws Throws an `invalid_computation` error if the condition is not specified
+ * @returns {Computation<number>} Returns the conditional count computation
+ */
+export function countIf(condition: string | Expression): Computation<number> {
+  return new Computation<number>("countif", condition);
+}
+
+/**
+ * Sums the values of the numeric expression (e.g., a field name) for each group.
+ * @export
+ * @param {string | Expression} expression The numeric expression
+ * @throws Throws an `invalid_computation` error if the expression is not specified
+ * @returns {Computation<number>} Returns the sum computation
+ */
+export function sum(expression: string | Expression): Computation<number> {
+  return new Computation<number>("sum", expression);
+}
+
+/**
+ * Averages the values of the numeric expression (e.g., a field name) for each group. The average is `null` if the group has no numeric values.
+ * @export
+ * @param {string | Expression} expression The numeric expression
+ * @throws Throws an `invalid_computation` error if the expression is not specified
+ * @returns {Computation<number | null>} Returns the average computation
+ */
+export function avg(
+  expression: string | Expression
+): Computation<number | null> {
+  return new Computation("avg", expression);
+}
+
+/**
+ * Calculates the minimum value of the numeric expression (e.g., a field name) for each group. The minimum is `null` if the group has no numeric values.
+ * @export
+ * @param {string | Expression} expression The numeric expression
+ * @throws Throws an `invalid_computation` error if the expression is not specified
+ * @returns {Computation<number | null>} Returns the minimum computation
+ */
+export function min(
+  expression: string | Expression
+): Computation<number | null> {
+  return new Computation("min", expression);
+}
+
+/**
+ * Calculates the maximum value of the numeric expression (e.g., a field name) for each group. The maximum is `null` if the group has no numeric values.
+ * @export
+ * @param {string | Expression} expression The numeric expression
+ * @throws Throws an `invalid_computation` error if the expression is not specified
+ * @returns {Computation<number | null>} Returns the maximum computation
+ */
+export function max(
+  expression: string | Expression
+): Computation<number | null> {
+  return new Computation("max", expression);
+}
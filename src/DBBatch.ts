@@ -0,0 +1,450 @@
+import { APIBase } from "./APIBase";
+import { FieldUpdateBuilder } from "./FieldUpdateBuilder";
+import { DBObject } from "./DBObject";
+import { Fetcher } from "./utils/Fetcher";
+import { createRequestError, settleRequest } from "./utils/helpers";
+import {
+  APIError,
+  BatchOptions,
+  BatchValue,
+  FieldUpdate,
+  KeyValuePair,
+  RequestOptions,
+} from "./types";
+
+/**
+ * Defines the structure of an operation collected by the batch
+ * @interface BatchOperation
+ */
+interface BatchOperation {
+  type: "create" | "set" | "append" | "update" | "updateFields" | "delete";
+  modelName: string;
+  values?: BatchValue<object>;
+  id?: BatchValue<string>;
+  parentId?: BatchValue<string>;
+  fieldUpdates?: BatchValue<
+    FieldUpdate | FieldUpdate[] | FieldUpdateBuilder<any>
+  >;
+}
+
+/**
+ * Defines the result of a batch operation and the function that reverts the changes of the operation
+ * @interface OperationResult
+ */
+interface OperationResult {
+  data: any;
+  errors: APIError | null;
+  undo?: () => Promise<{ errors: APIError | null }>;
+}
+
+/**
+ * Collects database operations, possibly on different models, and executes them as a single unit. The operations are executed one by one in the order they are added. If an operation fails, the changes made by the previous operations are reverted by compensating operations, namely the created objects are deleted, and the updated or deleted objects are restored with their values captured before the operation.
+ *
+ * Since the compensating operations are run by the client, the batch is not isolated from the other requests and the rollback itself may fail (e.g., due to a network failure). The rollback failures are reported in the errors of the batch.
+ *
+ * The values, ids and parent ids of the operations can be specified as functions of the results of the previous operations, which allows creating a parent object and appending its children in the same batch.
+ *
+ * > **Example:**
+ * > ```
+ * > const { data, errors } = await altogic.db
+ * >   .batch()
+ * >   .create('users', { name: 'John' })
+ * >   .append('users.addresses', { city: 'Paris' }, (results) => results[0]._id)
+ * >   .execute();
+ * > ```
+ * @export
+ * @class DBBatch
+ */
+export class DBBatch extends APIBase {
+  /**
+   * The operations of the batch
+   * @private
+   * @type {BatchOperation[]}
+   */
+  #operations: BatchOperation[];
+
+  /**
+   * Whether to revert the changes of the executed operations when an operation fails
+   * @private
+   * @type {boolean}
+   */
+  #rollback: boolean;
+
+  /**
+   * Creates an instance of DBBatch to execute multiple database operations as a single unit.
+   * @param {Fetcher} fetcher The http client to make RESTful API calls to the application's execution engine
+   * @param {BatchOptions} [options] The rollback options of the batch
+   */
+  constructor(fetcher: Fetcher, options?: BatchOptions) {
+    super(fetcher);
+    this.#operations = [];
+    this.#rollback = options?.rollback ?? true;
+  }
+
+  /**
+   * Adds an operation that creates a top-level object in the specified model. The operation is reverted by deleting the created object.
+   * @param {string} modelName The name of the top-level model
+   * @param {BatchValue<object>} values The fields and their values of the object, or a function that returns them from the results of the previous operations
+   * @returns {DBBatch} Returns the batch itself so that you can chain other operations
+   */
+  create(modelName: string, values: BatchValue<object>): DBBatch {
+    this.#operations.push({ type: "create", modelName, values });
+    return this;
+  }
+
+  /**
+   * Adds an operation that sets the `object` field value of a parent object. The operation is reverted by restoring the previous value of the field, or deleting the created object if the field was empty.
+   * @param {string} modelName The name of the sub-model in dot-notation (e.g., `users.address`)
+   * @param {BatchValue<object>} values The fields and their values of the sub-model object, or a function that returns them from the results of the previous operations
+   * @param {BatchValue<string>} parentId The id of the parent object, or a function that returns it from the results of the previous operations
+   * @returns {DBBatch} Returns the batch itself so that you can chain other operations
+   */
+  set(
+    modelName: string,
+    values: BatchValue<object>,
+    parentId: BatchValue<string>
+  ): DBBatch {
+    this.#operations.push({ type: "set", modelName, values, parentId });
+    return this;
+  }
+
+  /**
+   * Adds an operation that appends an object to the `object-list` field of a parent object. The operation is reverted by deleting the appended object.
+   * @param {string} modelName The name of the sub-model in dot-notation (e.g., `users.addresses`)
+   * @param {BatchValue<object>} values The fields and their values of the sub-model object, or a function that returns them from the results of the previous operations
+   * @param {BatchValue<string>} parentId The id of the parent object, or a function that returns it from the results of the previous operations
+   * @returns {DBBatch} Returns the batch itself so that you can chain other operations
+   */
+  append(
+    modelName: string,
+    values: BatchValue<object>,
+    parentId: BatchValue<string>
+  ): DBBatch {
+    this.#operations.push({ type: "append", modelName, values, parentId });
+    return this;
+  }
+
+  /**
+   * Adds an operation that updates the fields of an object. The operation is reverted by restoring the previous values of the updated fields.
+   * @param {string} modelName The name of the model
+   * @param {BatchValue<string>} id The id of the object, or a function that returns it from the results of the previous operations
+   * @param {BatchValue<object>} values The fields and their new values, or a function that returns them from the results of the previous operations
+   * @returns {DBBatch} Returns the batch itself so that you can chain other operations
+   */
+  update(
+    modelName: string,
+    id: BatchValue<string>,
+    values: BatchValue<object>
+  ): DBBatch {
+    this.#operations.push({ type: "update", modelName, id, values });
+    return this;
+  }
+
+  /**
+   * Adds an operation that updates the fields of an object using update instructions (e.g., increment). The operation is reverted by restoring the previous values of the updated fields.
+   * @param {string} modelName The name of the model
+   * @param {BatchValue<string>} id The id of the object, or a function that returns it from the results of the previous operations
+   * @param {BatchValue<FieldUpdate | FieldUpdate[] | FieldUpdateBuilder<any>>} fieldUpdates The field update instructions, or a function that returns them from the results of the previous operations
+   * @returns {DBBatch} Returns the batch itself so that you can chain other operations
+   */
+  updateFields(
+    modelName: string,
+    id: BatchValue<string>,
+    fieldUpdates: BatchValue<
+      FieldUpdate | FieldUpdate[] | FieldUpdateBuilder<any>
+    >
+  ): DBBatch {
+    this.#operations.push({
+      type: "updateFields",
+      modelName,
+      id,
+      fieldUpdates,
+    });
+    return this;
+  }
+
+  /**
+   * Adds an operation that deletes an object. The operation is reverted by creating the object again with its previous values and id.
+   * @param {string} modelName The name of the model
+   * @param {BatchValue<string>} id The id of the object, or a function that returns it from the results of the previous operations
+   * @returns {DBBatch} Returns the batch itself so that you can chain other operations
+   */
+  delete(modelName: string, id: BatchValue<string>): DBBatch {
+    this.#operations.push({ type: "delete", modelName, id });
+    return this;
+  }
+
+  /**
+   * Executes the operations of the batch one by one in the order they are added. If an operation fails, the remaining operations are not executed and the changes of the executed operations are reverted in reverse order, unless the rollback is disabled in {@link BatchOptions}.
+   *
+   * If the batch fails, the returned errors start with the error entries of the failed operation, followed by a `batch_failed` error entry. Its details provide the index, type and model of the failed operation, whether the changes have been rolled back and the errors of the failed compensating operations, if any.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the requests
+   * @returns Returns the results of the operations in the order they are added, e.g., the created objects
+   */
+  async execute(
+    requestOptions?: RequestOptions
+  ): Promise<{ data: any[] | null; errors: APIError | null }> {
+    const results: any[] = [];
+    const undos: (() => Promise<{ errors: APIError | null }>)[] = [];
+
+    for (let index = 0; index < this.#operations.length; index++) {
+      const operation = this.#operations[index];
+      let result: OperationResult;
+      try {
+        result = await this.#runOperation(operation, results, requestOptions);
+      } catch (err) {
+        // The value functions of the operations may throw
+        await this.#rollbackOperations(undos);
+        throw err;
+      }
+
+      if (result.errors) {
+        const rollbackErrors = await this.#rollbackOperations(undos);
+        const errors: APIError = {
+          ...result.errors,
+          items: [
+            ...(result.errors.items ?? []),
+            {
+              origin: "client_error",
+              code: "batch_failed",
+              message: `Operation ${index} (${operation.type} on ${operation.modelName}) of the batch has failed`,
+              details: {
+                index,
+                type: operation.type,
+                model: operation.modelName,
+                rolledBack: this.#rollback && rollbackErrors.length === 0,
+                rollbackErrors,
+              },
+            },
+          ],
+        };
+
+        if (this.fetcher.throwsOnError()) throw createRequestError(errors);
+        return { data: null, errors };
+      }
+
+      results.push(result.data);
+      if (result.undo && this.#rollback) undos.push(result.undo);
+    }
+
+    return { data: results, errors: null };
+  }
+
+  /**
+   * Runs the operation and creates its compensating operation.
+   * @private
+   * @param {BatchOperation} operation The operation to run
+   * @param {any[]} results The results of the previous operations
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the requests
+   * @returns Returns the result of the operation and the function that reverts it
+   */
+  async #runOperation(
+    operation: BatchOperation,
+    results: any[],
+    requestOptions?: RequestOptions
+  ): Promise<OperationResult> {
+    const { type, modelName } = operation;
+    const values = resolveValue(operation.values, results) ?? {};
+    const id = resolveValue(operation.id, results);
+    const parentId = resolveValue(operation.parentId, results);
+    const dbObject = (objectId?: string) =>
+      new DBObject(modelName, this.fetcher, objectId);
+
+    // Capture the previous state of the object before changing it
+    let prior: any = null;
+    if (this.#rollback && type !== "create" && type !== "append") {
+      const captured =
+        type === "set"
+          ? await this.#getFieldValue(modelName, parentId!, requestOptions)
+          : await settleRequest(() =>
+              dbObject(id).get(undefined, requestOptions)
+            );
+      if (captured.errors) return captured;
+      prior = captured.data;
+    }
+
+    switch (type) {
+      case "create":
+      case "append": {
+        const result = await settleRequest(() =>
+          type === "create"
+            ? dbObject().create(values, undefined, requestOptions)
+            : dbObject().append(values, parentId!, undefined, requestOptions)
+        );
+        const createdId = (result.data as KeyValuePair | null)?._id;
+        return {
+          ...result,
+          undo: createdId
+            ? () => settleRequest(() => dbObject(createdId).delete())
+            : undefined,
+        };
+      }
+      case "set": {
+        const result = await settleRequest(() =>
+          dbObject().set(values, parentId!, undefined, requestOptions)
+        );
+        const createdId = (result.data as KeyValuePair | null)?._id;
+        return {
+          ...result,
+          undo: prior
+            ? () =>
+                settleRequest(() =>
+                  dbObject(prior._id).set(withoutParent(prior), parentId!)
+                )
+            : createdId
+            ? () => settleRequest(() => dbObject(createdId).delete())
+            : undefined,
+        };
+      }
+      case "update":
+      case "updateFields": {
+        const resolved = resolveValue(operation.fieldUpdates, results);
+        const fieldUpdates =
+          resolved instanceof FieldUpdateBuilder ? resolved.build() : resolved;
+        const fields =
+          type === "update"
+            ? Object.keys(values)
+            : ([] as FieldUpdate[])
+                .concat(fieldUpdates ?? [])
+                .map((entry) => entry.field.split(".")[0]);
+        const result = await settleRequest(() =>
+          type === "update"
+            ? dbObject(id).update(values, undefined, requestOptions)
+            : dbObject(id).updateFields(
+                fieldUpdates ?? [],
+                undefined,
+                requestOptions
+              )
+        );
+        return {
+          ...result,
+          undo: prior
+            ? () =>
+                settleRequest(() =>
+                  dbObject(id).update(pickFields(prior, fields))
+                )
+            : undefined,
+        };
+      }
+      case "delete": {
+        // Deleted sub-model objects are restored by setting or appending them to their parent
+        let isListItem = false;
+        if (prior && prior._parent) {
+          const parentField = await this.#getFieldValue(
+            modelName,
+            prior._parent,
+            requestOptions
+          );
+          if (parentField.errors) return parentField;
+          isListItem = parentField.isList;
+        }
+
+        const result = await settleRequest(() =>
+          dbObject(id).delete(undefined, requestOptions)
+        );
+        return {
+          ...result,
+          undo: !prior
+            ? undefined
+            : !prior._parent
+            ? () => settleRequest(() => dbObject().create(prior))
+            : isListItem
+            ? () =>
+                settleRequest(() =>
+                  dbObject(prior._id).append(
+                    withoutParent(prior),
+                    prior._parent
+                  )
+                )
+            : () =>
+                settleRequest(() =>
+                  dbObject(prior._id).set(withoutParent(prior), prior._parent)
+                ),
+        };
+      }
+    }
+  }
+
+  /**
+   * Gets the value of the sub-model field of the parent object, which holds the objects of the specified sub-model.
+   * @private
+   * @param {string} modelName The name of the sub-model in dot-notation (e.g., `users.address`)
+   * @param {string} parentId The id of the parent object
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the field value and whether the field is an object list or not
+   */
+  async #getFieldValue(
+    modelName: string,
+    parentId: string,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: any; errors: APIError | null; isList: boolean }> {
+    const index = modelName.lastIndexOf(".");
+    const { data, errors } = await settleRequest(() =>
+      new DBObject(modelName.substring(0, index), this.fetcher, parentId).get(
+        undefined,
+        requestOptions
+      )
+    );
+    const value = (data as KeyValuePair | null)?.[
+      modelName.substring(index + 1)
+    ];
+    return { data: value ?? null, errors, isList: Array.isArray(value) };
+  }
+
+  /**
+   * Runs the compensating operations of the executed operations in reverse order.
+   * @private
+   * @param {Function[]} undos The compensating operations
+   * @returns Returns the errors of the failed compensating operations
+   */
+  async #rollbackOperations(
+    undos: (() => Promise<{ errors: APIError | null }>)[]
+  ): Promise<APIError[]> {
+    const errors: APIError[] = [];
+    for (const undo of [...undos].reverse()) {
+      const result = await undo();
+      if (result.errors) errors.push(result.errors);
+    }
+
+    return errors;
+  }
+}
+
+/**
+ * Returns the value, or if it is a function, calls it with the results of the previous operations.
+ * @param {BatchValue<V> | undefined} value The value or the function
+ * @param {any[]} results The results of the previous operations
+ * @returns The resolved value
+ */
+function resolveValue<V>(
+  value: BatchValue<V> | undefined,
+  results: any[]
+): V | undefined {
+  return typeof value === "function"
+    ? (value as (results: any[]) => V)(results)
+    : value;
+}
+
+/**
+ * Returns the object without its `_parent` field, which is set by the database when the object is restored.
+ * @param {KeyValuePair} object The object
+ * @returns The object values
+ */
+function withoutParent(object: KeyValuePair): KeyValuePair {
+  const { _parent, ...values } = object;
+  return values;
+}
+
+/**
+ * Returns the values of the specified fields of the object. The fields that the object does not have are set to `null`.
+ * @param {KeyValuePair} object The object
+ * @param {string[]} fields The field names
+ * @returns The field values
+ */
+function pickFields(object: KeyValuePair, fields: string[]): KeyValuePair {
+  const values: KeyValuePair = {};
+  for (const field of fields) values[field] = object[field] ?? null;
+  return values;
+}
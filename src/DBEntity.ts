@@ -0,0 +1,151 @@
+import { DBObject } from "./DBObject";
+import { getFieldChanges } from "./utils/changes";
+import {
+  APIError,
+  FieldUpdate,
+  GetOptions,
+  KeyValuePair,
+  RequestOptions,
+  UpdateOptions,
+} from "./types";
+
+/**
+ * A tracked, active-record style copy of a model object, which is created by {@link DBObject.load}. The object fields are modified directly on {@link data} and the changes are tracked against the copy loaded from the database. {@link save} sends only the changed fields to the database as a minimal list of {@link FieldUpdate} instructions, so that concurrent changes made to other fields are not overwritten.
+ *
+ * ```ts
+ * const { data: user } = await altogic.db.model("users").object(id).load();
+ * user.data.name = "John";
+ * user.data.loginCount++;
+ * user.data.tags.push("premium");
+ * console.log(user.changes()); // set name, increment loginCount, push tags
+ * await user.save();
+ * ```
+ * @export
+ * @class DBEntity
+ * @template T The type of the model object
+ */
+export class DBEntity<T extends object = object> {
+  /**
+   * The db object that refers to the tracked object in the database
+   * @private
+   * @type {DBObject<T>}
+   */
+  #object: DBObject<T>;
+
+  /**
+   * The copy of the object as it was last loaded from or saved to the database
+   * @private
+   * @type {KeyValuePair}
+   */
+  #original: KeyValuePair;
+
+  /**
+   * The tracked object whose fields are modified
+   * @private
+   * @type {T}
+   */
+  #data: T;
+
+  /**
+   * Creates an instance of DBEntity
+   * @param {DBObject<T>} object The db object that refers to the tracked object in the database
+   * @param {T} data The object loaded from the database
+   */
+  constructor(object: DBObject<T>, data: T) {
+    this.#object = object;
+    this.#data = data;
+    this.#original = copy(data);
+  }
+
+  /**
+   * The tracked object. Modify the fields of this object and call {@link save} to store the changes in the database. The same object instance is kept up to date when the entity is saved or reloaded.
+   * @type {T}
+   */
+  get data(): T {
+    return this.#data;
+  }
+
+  /**
+   * Whether the tracked object has changes that are not saved to the database yet.
+   * @type {boolean}
+   */
+  get isDirty(): boolean {
+    return this.changes().length > 0;
+  }
+
+  /**
+   * Returns the field update instructions that will be sent to the database by {@link save}. Changes of integer fields are returned as `increment`, values appended to or removed from basic values lists as `push` or `pull`, cleared fields as `unset`, and all other changes as `set` instructions. Changes in sub-model objects are returned in dot-notation. System managed fields are ignored.
+   * @returns {FieldUpdate[]} The list of field updates, empty if the object is not changed
+   */
+  changes(): FieldUpdate[] {
+    return getFieldChanges(this.#original, this.#data);
+  }
+
+  /**
+   * Saves the changes of the tracked object to the database using {@link DBObject.updateFields}. If there are no changes, the object is returned without making a request. After a successful save, the tracked object is refreshed with the object returned from the database.
+   *
+   * The update options can specify preconditions, e.g., `ifUnmodifiedSince` to save only if the object has not been modified by someone else since it was loaded. `returnTop` option is ignored since the entity always tracks its own object.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {UpdateOptions} [options] Update operation options
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the saved object or null if the object no longer exists in the database
+   */
+  async save(
+    options?: UpdateOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | null; errors: APIError | null }> {
+    const updates = this.changes();
+    if (updates.length === 0) return { data: this.#data, errors: null };
+
+    const { data, errors } = await this.#object.updateFields(
+      updates,
+      { ...options, returnTop: false },
+      requestOptions
+    );
+    if (errors || !data) return { data: null, errors };
+
+    this.#apply(data as T);
+    return { data: this.#data, errors: null };
+  }
+
+  /**
+   * Reloads the tracked object from the database, discarding its unsaved changes.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {GetOptions} [options] Get operation options. By default no caching of the retrieved object in Redis store.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the reloaded object or null if the object no longer exists in the database
+   */
+  async reload(
+    options?: GetOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | null; errors: APIError | null }> {
+    const { data, errors } = await this.#object.get(options, requestOptions);
+    if (errors || !data) return { data: null, errors };
+
+    this.#apply(data);
+    return { data: this.#data, errors: null };
+  }
+
+  /**
+   * Replaces the fields of the tracked object with the fields of the object returned from the database and takes it as the new original copy.
+   * @private
+   * @param {T} data The object returned from the database
+   */
+  #apply(data: T) {
+    const target = this.#data as KeyValuePair;
+    for (const key of Object.keys(target)) delete target[key];
+    Object.assign(target, data);
+    this.#original = copy(data);
+  }
+}
+
+/**
+ * Creates a deep copy of the object.
+ * @param {object} data The object to copy
+ * @returns The copied object
+ */
+function copy(data: object): KeyValuePair {
+  return JSON.parse(JSON.stringify(data));
+}
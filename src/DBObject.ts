@@ -1,5 +1,10 @@
 import { APIBase } from "./APIBase";
+import { FieldUpdateBuilder } from "./FieldUpdateBuilder";
 import { Fetcher } from "./utils/Fetcher";
+import { QueryBuilder } from "./QueryBuilder";
+import { DBEntity } from "./DBEntity";
+import { expr } from "./ExpressionBuilder";
+import { createRequestError } from "./utils/helpers";
 import {
   APIError,
   GetOptions,
@@ -11,6 +16,9 @@ import {
   SimpleLookup,
   ComplexLookup,
   FieldUpdate,
+  RequestOptions,
+  UpdateInfo,
+  ConflictDetails,
 } from "./types";
 
 const DEFAULT_GET_OPTIONS = { cache: "nocache" };
@@ -23,15 +31,18 @@ const DEFAULT_UPDATE_OPTIONS = { cache: "nocache", returnTop: false };
 /**
  * References an object stored in a specific model of your application. It provides the methods to get, update, delete an existing object identified by its id or create, set or append a new object.
  *
- * If id is provided when creatign an instance, you can use {@link get}, {@link update}, {@link delete} and {@link updateFields} methods. If no id specified in constructor, you can use {@link create}, {@link set}, and {@link append} methods to create a new object in the database.
+ * If id is provided when creatign an instance, you can use {@link get}, {@link load}, {@link update}, {@link delete} and {@link updateFields} methods. If no id specified in constructor, you can use {@link create}, {@link set}, and {@link append} methods to create a new object in the database.
  *
  * {@link create} method is used to creat a top-level object, which does not have any parent. {@link set} method is used to set the value of an `object` field of a parent object and finally {@link append} is used to add a child object to an `object-list` field of a parent object.
  *
  * Since both {@link set} and {@link append} operate on a sub-model or sub-model list object respectively, you need to pass a `parentId` as an input parameter.
+ *
+ * The db object can be typed with the model's object type, which types the returned objects and the input field values.
  * @export
  * @class DBObject
+ * @template T The type of the model objects
  */
-export class DBObject extends APIBase {
+export class DBObject<T extends object = object> extends APIBase {
   /**
    * The name of the model that the db object will be operating on
    * @private
@@ -63,44 +74,73 @@ export class DBObject extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {GetOptions} options Get operation options. By default no caching of the retrieved object in Redis store.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the object identified by the `id` or null if no such object exists in the database
    */
   async get(
-    options?: GetOptions
-  ): Promise<{ data: object | null; errors: APIError | null }>;
+    options?: GetOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | null; errors: APIError | null }>;
   /**
    * Gets the object referred to by this db object and identified by the `id` from the database. While getting the object it also performs the specified lookups. If the `id` of the db object is not specified, it returns an error.
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {SimpleLookup[] | ComplexLookup[]} lookups The list of lookups to make (left outer join) while getting the object from the database
    * @param {GetOptions} options Get operation options. By default no caching of the retrieved object in Redis store.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the object identified by the `id` or null if no such object exists in the database
    */
   async get(
     lookups: SimpleLookup[] | ComplexLookup[],
-    options?: GetOptions
-  ): Promise<{ data: object | null; errors: APIError | null }>;
+    options?: GetOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | null; errors: APIError | null }>;
   async get(
     optionsOrLookups?: SimpleLookup[] | ComplexLookup[] | GetOptions,
-    options?: GetOptions
-  ): Promise<{ data: object | null; errors: APIError | null }> {
+    optionsOrRequestOptions?: GetOptions | RequestOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | null; errors: APIError | null }> {
     let lookupsVal = optionsOrLookups;
-    let optionsVal = options;
+    let optionsVal = optionsOrRequestOptions as GetOptions | undefined;
+    let requestOptionsVal = requestOptions;
 
-    if (
-      !Array.isArray(optionsOrLookups) &&
-      typeof optionsOrLookups === "object"
-    ) {
+    if (!Array.isArray(optionsOrLookups)) {
       optionsVal = optionsOrLookups;
       lookupsVal = undefined;
+      requestOptionsVal = optionsOrRequestOptions as RequestOptions | undefined;
     }
 
-    return await this.fetcher.post(`/_api/rest/v1/db/object/get`, {
-      options: { ...DEFAULT_GET_OPTIONS, ...optionsVal },
-      id: this.#id,
-      lookups: lookupsVal,
-      model: this.#modelName,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/db/object/get`,
+      {
+        options: { ...DEFAULT_GET_OPTIONS, ...optionsVal },
+        id: this.#id,
+        lookups: lookupsVal,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptionsVal
+    );
+  }
+
+  /**
+   * Loads the object referred to by this db object and identified by the `id` from the database as a tracked {@link DBEntity}. The fields of the loaded object can be modified directly and saved back to the database with {@link DBEntity.save}, which sends only the changed fields. If the `id` of the db object is not specified, it returns an error.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {GetOptions} [options] Get operation options. By default no caching of the retrieved object in Redis store.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the tracked entity of the object identified by the `id` or null if no such object exists in the database
+   */
+  async load(
+    options?: GetOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: DBEntity<T> | null; errors: APIError | null }> {
+    const { data, errors } = await this.get(options, requestOptions);
+    if (errors || !data) return { data: null, errors };
+
+    return { data: new DBEntity<T>(this, data), errors: null };
   }
 
   /**
@@ -111,17 +151,26 @@ export class DBObject extends APIBase {
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {object} values An object that contains the fields and their values to create in the database
    * @param {CreateOptions} options Create operation options. By default no caching of the newly created object in Redis store.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the newly create object in the database.
    */
   async create(
-    values: object,
-    options?: CreateOptions
-  ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/object/create`, {
-      values,
-      options: { ...DEFAULT_CREATE_OPTIONS, ...options },
-      model: this.#modelName,
-    });
+    values: Partial<T>,
+    options?: CreateOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | null; errors: APIError | null }> {
+    return await this.fetcher.post(
+      `/_api/rest/v1/db/object/create`,
+      {
+        values,
+        options: { ...DEFAULT_CREATE_OPTIONS, ...options },
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -133,20 +182,53 @@ export class DBObject extends APIBase {
    * @param {object} values An object that contains the fields and their values to create in the database
    * @param {string} parentId the id of the parent object.
    * @param {SetOptions} options Create operation options. By default no caching of the newly created object in Redis store and no top level object return
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the updated top-level object in the database, since `returnTop` is set to true.
+   */
+  async set(
+    values: Partial<T>,
+    parentId: string,
+    options: SetOptions & { returnTop: true },
+    requestOptions?: RequestOptions
+  ): Promise<{ data: object | null; errors: APIError | null }>;
+  /**
+   * Sets the **object field** value of a parent object identified by `parentId`. This method is valid only for **sub-model objects**, objects with a parent. If this method is called for a top-level model object or sub-model object-list, an error will be returned.
+   *
+   * If the `id` is provided as input to this DBObject, its value will be ignored by this method since Altogic will automatically assign an id for new objects created in the database.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {object} values An object that contains the fields and their values to create in the database
+   * @param {string} parentId the id of the parent object.
+   * @param {SetOptions} options Create operation options. By default no caching of the newly created object in Redis store and no top level object return
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the newly create object in the database.
    */
   async set(
-    values: object,
+    values: Partial<T>,
     parentId: string,
-    options?: SetOptions
-  ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/object/set`, {
-      values,
-      options: { ...DEFAULT_SET_OPTIONS, ...options },
-      id: this.#id,
-      parentId,
-      model: this.#modelName,
-    });
+    options?: SetOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | null; errors: APIError | null }>;
+  async set(
+    values: Partial<T>,
+    parentId: string,
+    options?: SetOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | object | null; errors: APIError | null }> {
+    return await this.fetcher.post(
+      `/_api/rest/v1/db/object/set`,
+      {
+        values,
+        options: { ...DEFAULT_SET_OPTIONS, ...options },
+        id: this.#id,
+        parentId,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -158,20 +240,53 @@ export class DBObject extends APIBase {
    * @param {object} values An object that contains the fields and their values to create in the database
    * @param {string} parentId the id of the parent object.
    * @param {AppendOptions} options Create operation options. By default no caching of the newly created object in Redis store and no top level object return
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the updated top-level object in the database, since `returnTop` is set to true.
+   */
+  async append(
+    values: Partial<T>,
+    parentId: string,
+    options: AppendOptions & { returnTop: true },
+    requestOptions?: RequestOptions
+  ): Promise<{ data: object | null; errors: APIError | null }>;
+  /**
+   * Appends the input object to the **object list field** of a parent object identified by `parentId`. This method is valid only for **sub-model object-lists**, object-lists with a parent. If this method is called for a top-level model object or sub-model object, an error will be returned.
+   *
+   * If the `id` is provided as input to this DBObject, its value will be ignored by this method since Altogic will automatically assign an id for new objects created in the database.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {object} values An object that contains the fields and their values to create in the database
+   * @param {string} parentId the id of the parent object.
+   * @param {AppendOptions} options Create operation options. By default no caching of the newly created object in Redis store and no top level object return
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the newly create object in the database.
    */
   async append(
-    values: object,
+    values: Partial<T>,
     parentId: string,
-    options?: AppendOptions
-  ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/object/append`, {
-      values,
-      options: { ...DEFAULT_APPEND_OPTIONS, ...options },
-      id: this.#id,
-      parentId,
-      model: this.#modelName,
-    });
+    options?: AppendOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | null; errors: APIError | null }>;
+  async append(
+    values: Partial<T>,
+    parentId: string,
+    options?: AppendOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | object | null; errors: APIError | null }> {
+    return await this.fetcher.post(
+      `/_api/rest/v1/db/object/append`,
+      {
+        values,
+        options: { ...DEFAULT_APPEND_OPTIONS, ...options },
+        id: this.#id,
+        parentId,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -179,59 +294,248 @@ export class DBObject extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {DeleteOptions} options Delete operation options. By default removes deleted object from Redis cache (if cached already) and no top level object return.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns null if the deleted object is a top-level object. If the deleted object is a sub-model object and if `returnTop` is set to true in {@link DeleteOptions}, it returns the updated top-level object.
    */
   async delete(
-    options?: DeleteOptions
+    options?: DeleteOptions,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/object/delete`, {
-      options: { ...DEFAULT_DELETE_OPTIONS, ...options },
-      id: this.#id,
-      model: this.#modelName,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/db/object/delete`,
+      {
+        options: { ...DEFAULT_DELETE_OPTIONS, ...options },
+        id: this.#id,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
    * Updates the object referred to by this db object and identified by the `id` using the input values. This method directly sets the field values of the object in the database with the values provided in the input.
    *
+   * The update can be made conditional with the `ifUnmodifiedSince` or `expectedVersion` preconditions of {@link UpdateOptions}.
+   *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {object} values An object that contains the fields and their values to update in the database
    * @param {UpdateOptions} options Update operation options. By default no caching of the updated object in Redis store and no top level object return
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the updated object in the database. If `returnTop` is set to true in {@link UpdateOptions} and if the updated object is a sub-model or sub-model-list object, it returns the updated top-level object.
    */
   async update(
-    values: object,
-    options?: UpdateOptions
-  ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/object/update`, {
-      values,
-      options: { ...DEFAULT_UPDATE_OPTIONS, ...options },
-      id: this.#id,
-      model: this.#modelName,
-    });
+    values: Partial<T>,
+    options: UpdateOptions & { returnTop: true },
+    requestOptions?: RequestOptions
+  ): Promise<{ data: object | null; errors: APIError | null }>;
+  /**
+   * Updates the object referred to by this db object and identified by the `id` using the input values. This method directly sets the field values of the object in the database with the values provided in the input.
+   *
+   * The update can be made conditional with the `ifUnmodifiedSince` or `expectedVersion` preconditions of {@link UpdateOptions}.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {object} values An object that contains the fields and their values to update in the database
+   * @param {UpdateOptions} options Update operation options. By default no caching of the updated object in Redis store and no top level object return
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the updated object in the database. If `returnTop` is set to true in {@link UpdateOptions} and if the updated object is a sub-model or sub-model-list object, it returns the updated top-level object.
+   */
+  async update(
+    values: Partial<T>,
+    options?: UpdateOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | null; errors: APIError | null }>;
+  async update(
+    values: Partial<T>,
+    options?: UpdateOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | object | null; errors: APIError | null }> {
+    const { expectedVersion } = options ?? {};
+    if (options?.ifUnmodifiedSince !== undefined || expectedVersion)
+      return await this.#updateIfUnmodified(
+        (query) =>
+          query.update(
+            expectedVersion
+              ? {
+                  [expectedVersion.field]: expectedVersion.value + 1,
+                  ...values,
+                }
+              : values,
+            requestOptions
+          ),
+        options!,
+        requestOptions
+      );
+
+    return await this.fetcher.post(
+      `/_api/rest/v1/db/object/update`,
+      {
+        values,
+        options: { ...DEFAULT_UPDATE_OPTIONS, ...options },
+        id: this.#id,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
    * Updates the fields of object referred to by this db object and identified by the `id` using the input {@link FieldUpdate} instruction(s).
    *
+   * The update can be made conditional with the `ifUnmodifiedSince` or `expectedVersion` preconditions of {@link UpdateOptions}.
+   *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
-   * @param {FieldUpdate | FieldUpdate[]} fieldUpdates Field update instruction(s)
+   * @param {FieldUpdate | FieldUpdate[] | FieldUpdateBuilder<T>} fieldUpdates Field update instruction(s), or the {@link FieldUpdateBuilder} that builds them
    * @param {UpdateOptions} options Update operation options. By default no caching of the updated object in Redis store and no top level object return
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the updated object in the database. If `returnTop` is set to true in {@link UpdateOptions} and if the updated object is a sub-model or sub-model-list object, it returns the updated top-level object.
    */
   async updateFields(
-    fieldUpdates: FieldUpdate | FieldUpdate[],
-    options?: UpdateOptions
-  ): Promise<{ data: object | null; errors: APIError | null }> {
+    fieldUpdates: FieldUpdate | FieldUpdate[] | FieldUpdateBuilder<T>,
+    options: UpdateOptions & { returnTop: true },
+    requestOptions?: RequestOptions
+  ): Promise<{ data: object | null; errors: APIError | null }>;
+  /**
+   * Updates the fields of object referred to by this db object and identified by the `id` using the input {@link FieldUpdate} instruction(s).
+   *
+   * The update can be made conditional with the `ifUnmodifiedSince` or `expectedVersion` preconditions of {@link UpdateOptions}.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {FieldUpdate | FieldUpdate[] | FieldUpdateBuilder<T>} fieldUpdates Field update instruction(s), or the {@link FieldUpdateBuilder} that builds them
+   * @param {UpdateOptions} options Update operation options. By default no caching of the updated object in Redis store and no top level object return
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the updated object in the database. If `returnTop` is set to true in {@link UpdateOptions} and if the updated object is a sub-model or sub-model-list object, it returns the updated top-level object.
+   */
+  async updateFields(
+    fieldUpdates: FieldUpdate | FieldUpdate[] | FieldUpdateBuilder<T>,
+    options?: UpdateOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | null; errors: APIError | null }>;
+  async updateFields(
+    fieldUpdates: FieldUpdate | FieldUpdate[] | FieldUpdateBuilder<T>,
+    options?: UpdateOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | object | null; errors: APIError | null }> {
     let updates = null;
-    if (Array.isArray(fieldUpdates)) updates = fieldUpdates;
+    if (fieldUpdates instanceof FieldUpdateBuilder)
+      updates = fieldUpdates.build();
+    else if (Array.isArray(fieldUpdates)) updates = fieldUpdates;
     else updates = [fieldUpdates];
 
-    return await this.fetcher.post(`/_api/rest/v1/db/object/update-fields`, {
-      updates,
-      options: { ...DEFAULT_UPDATE_OPTIONS, ...options },
-      id: this.#id,
-      model: this.#modelName,
-    });
+    const { expectedVersion } = options ?? {};
+    if (options?.ifUnmodifiedSince !== undefined || expectedVersion) {
+      if (
+        expectedVersion &&
+        !updates.some((entry) => entry.field === expectedVersion.field)
+      )
+        updates = [
+          ...updates,
+          {
+            field: expectedVersion.field,
+            updateType: "increment" as const,
+            value: 1,
+          },
+        ];
+
+      const conditionalUpdates = updates;
+      return await this.#updateIfUnmodified(
+        (query) => query.updateFields(conditionalUpdates, requestOptions),
+        options!,
+        requestOptions
+      );
+    }
+
+    return await this.fetcher.post(
+      `/_api/rest/v1/db/object/update-fields`,
+      {
+        updates,
+        options: { ...DEFAULT_UPDATE_OPTIONS, ...options },
+        id: this.#id,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
+  }
+
+  /**
+   * Runs the update as a conditional update, which is applied only if the object matches the preconditions specified in update options. If the object does not match the preconditions, returns a `conflict` error with the current copy of the object. Since the multi-object update does not return the objects, the updated object, which is cached if the `cache` option is specified, and the current copy of a conflicting object are read after the update.
+   * @private
+   * @param {(query: QueryBuilder<T>) => Promise<{ data: UpdateInfo | null; errors: APIError | null }>} update The function that runs the update on the query builder filtered by the preconditions
+   * @param {UpdateOptions} options The update options that include the preconditions
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the requests
+   * @returns Returns the updated object, or the top-level object if `returnTop` is set to true
+   */
+  async #updateIfUnmodified(
+    update: (
+      query: QueryBuilder<T>
+    ) => Promise<{ data: UpdateInfo | null; errors: APIError | null }>,
+    options: UpdateOptions,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | object | null; errors: APIError | null }> {
+    const { ifUnmodifiedSince, expectedVersion } = options;
+    const query = new QueryBuilder<T>(this.#modelName, this.fetcher).filter(
+      expr.and(
+        expr.eq("_id", this.#id ?? null),
+        ...(ifUnmodifiedSince !== undefined
+          ? [expr.lte("updatedAt", new Date(ifUnmodifiedSince))]
+          : []),
+        ...(expectedVersion
+          ? [expr.eq(expectedVersion.field, expectedVersion.value)]
+          : [])
+      )
+    );
+
+    const { data: info, errors } = await update(query);
+    if (errors) return { data: null, errors };
+
+    const current = await this.get(
+      info?.totalMatch && options.cache ? { cache: options.cache } : undefined,
+      requestOptions
+    );
+    if (current.errors || !current.data || info?.totalMatch) {
+      if (!options.returnTop || current.errors || !current.data) return current;
+
+      // Find the top-level object of the updated sub-model object
+      let modelName = this.#modelName;
+      let object: any = current.data;
+      while (object && modelName.includes(".")) {
+        modelName = modelName.substring(0, modelName.lastIndexOf("."));
+        const parent = await new DBObject(
+          modelName,
+          this.fetcher,
+          object._parent
+        ).get(undefined, requestOptions);
+        if (parent.errors) return parent;
+        object = parent.data;
+      }
+
+      return { data: object, errors: null };
+    }
+
+    const details: ConflictDetails = { current: current.data };
+    const conflict: APIError = {
+      status: 409,
+      statusText: "Conflict",
+      items: [
+        {
+          origin: "client_error",
+          code: "conflict",
+          message:
+            "The object has been modified since it was read, the update precondition has failed",
+          details,
+        },
+      ],
+    };
+
+    if (this.fetcher.throwsOnError()) throw createRequestError(conflict);
+    return { data: null, errors: conflict };
   }
 }
@@ -1,21 +1,60 @@
 import { APIBase } from "./APIBase";
 import { Fetcher } from "./utils/Fetcher";
 import { QueryBuilder } from "./QueryBuilder";
-import { APIError } from "./types";
+import { DBBatch } from "./DBBatch";
+import { RealtimeManager } from "./RealtimeManager";
+import { OfflineReplica } from "./OfflineReplica";
+import { QueryCache } from "./QueryCache";
+import {
+  APIError,
+  BatchOptions,
+  OfflineOptions,
+  QueryCacheOptions,
+  RequestOptions,
+  SerializedQuery,
+} from "./types";
 
 /**
  * The database manager allows you manage your applications database. With DatabaseManager you can create new objects in your data model, update or delete existing ones, run queries and paginate over large data sets.
  *
+ * If the client is created with a model map type (e.g., generated by the `altogic-codegen` CLI), which maps the model names to their object types, the query builders of these models are typed automatically.
+ *
  * @export
  * @class DatabaseManager
+ * @template M The map of model names to model object types
  */
-export class DatabaseManager extends APIBase {
+export class DatabaseManager<M extends object = {}> extends APIBase {
+  /**
+   * Returns the realtime manager used by the live queries of the query builders
+   * @private
+   * @type {() => RealtimeManager}
+   */
+  #getRealtime?: () => RealtimeManager;
+
+  /**
+   * The offline replica of the database, `null` until it is enabled
+   * @private
+   * @type {OfflineReplica | null}
+   */
+  #offline: OfflineReplica | null;
+
+  /**
+   * The client-side query result cache, `null` until it is enabled
+   * @private
+   * @type {QueryCache | null}
+   */
+  #queryCache: QueryCache | null;
+
   /**
    * Creates an instance of DatabaseManager to manage data of your application.
    * @param {Fetcher} fetcher The http client to make RESTful API calls to the application's execution engine
+   * @param {() => RealtimeManager} [getRealtime] Returns the realtime manager used by the live queries of the query builders
    */
-  constructor(fetcher: Fetcher) {
+  constructor(fetcher: Fetcher, getRealtime?: () => RealtimeManager) {
     super(fetcher);
+    this.#getRealtime = getRealtime;
+    this.#offline = null;
+    this.#queryCache = null;
   }
 
   /**
@@ -27,20 +66,100 @@ export class DatabaseManager extends APIBase {
    *
    * In case you need to work on a sub-model object, such as your users might have a list of addresses and these addresses are stored under a users object, you can create a {@link QueryBuilder} for `addresses` sub-model using the *dot-notation* by calling `altogic.db.model('users.addresses')`
    *
+   * Since the client is created with a model map type, the query builder is typed with the object type of the model, e.g., `altogic.db.model('users')` returns a `QueryBuilder<User>`.
+   *
+   * @param {string} name The name of the model
+   * @returns Returns a new query builder object that will be issuing database commands (e.g., CRUD operations, queries) on the specified model
+   */
+  model<K extends keyof M & string>(
+    name: K
+  ): QueryBuilder<M[K] extends object ? M[K] : object>;
+  /**
+   * Creates a new {@link QueryBuilder} for the specified model.
+   *
+   * In Altogic, models define the data structure and data validation rules of your applications. A model is composed of basic, advanced, and sub-model fields. As an analogy, you can think of models as tables and fields as columns in relational databases.
+   *
+   * You can specify a top-level model or a sub-model name for this method. As an example if you have a model named `users` where you keep your app users information you can create a {@link QueryBuilder} for `users` model by calling `altogic.db.model('users')`
+   *
+   * In case you need to work on a sub-model object, such as your users might have a list of addresses and these addresses are stored under a users object, you can create a {@link QueryBuilder} for `addresses` sub-model using the *dot-notation* by calling `altogic.db.model('users.addresses')`
+   *
+   * You can also specify the type of the model objects, so that the query builder returns typed objects and checks the field names used in the query modifiers, e.g., `altogic.db.model<User>('users')`
+   *
    * @param {string} name The name of the model
    * @returns Returns a new query builder object that will be issuing database commands (e.g., CRUD operations, queries) on the specified model
    */
-  model(name: string): QueryBuilder {
-    return new QueryBuilder(name, this.fetcher);
+  model<T extends object = object>(name: string): QueryBuilder<T>;
+  model(name: string): QueryBuilder<object> {
+    return new QueryBuilder(name, this.fetcher, this.#getRealtime);
+  }
+
+  /**
+   * Creates a {@link QueryBuilder} from the query serialized by {@link QueryBuilder.toJSON}, e.g., to run a saved search. The query builder can be typed with the model's object type, e.g., `altogic.db.fromJSON<User>(savedSearch)`.
+   *
+   * @param {SerializedQuery | string} json The serialized query or its JSON string
+   * @throws Throws an `invalid_query_json` error if the serialized query is malformed
+   * @returns Returns a new query builder with the model, query modifiers and cursor of the serialized query
+   */
+  fromJSON<T extends object = object>(
+    json: SerializedQuery | string
+  ): QueryBuilder<T> {
+    return QueryBuilder.fromJSON<T>(json, this.fetcher, this.#getRealtime);
+  }
+
+  /**
+   * Creates a new {@link DBBatch} to execute multiple database operations (create, set, append, update, updateFields and delete), possibly on different models, as a single unit. If an operation of the batch fails, the changes of the previously executed operations are reverted by compensating operations.
+   *
+   * @param {BatchOptions} [options] The rollback options of the batch
+   * @returns Returns a new batch object that collects the database operations to execute
+   */
+  batch(options?: BatchOptions): DBBatch {
+    return new DBBatch(this.fetcher, options);
+  }
+
+  /**
+   * Enables the offline replica of the database, which keeps a local copy of the fetched objects, serves the reads from the local copies and queues the `create`, `update`, `updateFields` and `delete` mutations of the {@link DBObject}s while your app backend cannot be reached, and replays the queued mutations when the connectivity is restored. See {@link OfflineReplica} for the requests supported offline.
+   *
+   * The replica is enabled once per client, the subsequent calls return the same replica.
+   *
+   * @param {OfflineOptions} [options] The local store, conflict resolution policy and synchronization options of the replica. By default the objects are stored in memory and the queued mutations overwrite the changes made on the app backend (last write wins).
+   * @returns Returns the offline replica
+   */
+  offline(options?: OfflineOptions): OfflineReplica {
+    if (!this.#offline)
+      this.#offline = new OfflineReplica(this.fetcher, options);
+    return this.#offline;
+  }
+
+  /**
+   * Enables the client-side cache of the query results, which returns the cached results of the identical `DBObject.get` and `QueryBuilder` queries until their `ttl` elapses, shares the requests of the identical queries in progress and invalidates the results of a model when the model is changed through the client. See {@link QueryCache} for the cached queries. Unlike the `cache` option of {@link GetOptions}, which caches the objects on your app backend, this cache avoids the requests altogether.
+   *
+   * The cache is enabled once per client, the subsequent calls return the same cache.
+   *
+   * @param {QueryCacheOptions} [options] The expiration, size and persistence options of the cache. By default the results are kept in memory for 30 seconds.
+   * @returns Returns the query result cache
+   */
+  queryCache(options?: QueryCacheOptions): QueryCache {
+    if (!this.#queryCache)
+      this.#queryCache = new QueryCache(this.fetcher, options);
+    return this.#queryCache;
   }
 
   /**
    * Returns the overall information about your apps database and its models.
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns information about your app's database
    */
-  async getStats(): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.get(`/_api/rest/v1/db/stats`);
+  async getStats(
+    requestOptions?: RequestOptions
+  ): Promise<{ data: object | null; errors: APIError | null }> {
+    return await this.fetcher.get(
+      `/_api/rest/v1/db/stats`,
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 }
@@ -1,6 +1,6 @@
 import { APIBase } from "./APIBase";
 import { Fetcher } from "./utils/Fetcher";
-import { KeyValuePair, APIError } from "./types";
+import { KeyValuePair, APIError, RequestOptions } from "./types";
 
 /**
  * Provides the methods to execute your app backend services by making http request to your app endpoints.
@@ -28,19 +28,22 @@ export class EndpointManager extends APIBase {
    * @param {KeyValuePair} [queryParams] Query string parameters as a "key":"value" pair object
    * @param {KeyValuePair} [headers] Additional request headers as a "key":"value" pair object
    * @param {'json' | 'text' | 'blob' | 'arraybuffer'} resolveType Type of data to return as a response of the request. By default response data is parsed to JSON. Possible values are json, text, blob and arraybuffer.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns a promise. The returned response includes two components *data* and *errors*. If errors occured during the execution of the request then errors object is returned and tha data is marked as `null`. If no errors occured then depending on the type of the request the data object holds a *single JSON object*, an *array of json objects*, *plain text*, *Blob* or *ArrayBuffer* and the errors object is marked as `null`. If the response returns no data back then both erros and data marked as `null`.
    */
   async get(
     path: string,
     queryParams?: KeyValuePair,
     headers?: KeyValuePair,
-    resolveType?: "json" | "text" | "blob" | "arraybuffer"
+    resolveType?: "json" | "text" | "blob" | "arraybuffer",
+    requestOptions?: RequestOptions
   ): Promise<{ data: any | null; errors: APIError | null }> {
     return await this.fetcher.get(
       path,
       queryParams,
       headers,
-      resolveType || "json"
+      resolveType || "json",
+      requestOptions
     );
   }
 
@@ -53,6 +56,7 @@ export class EndpointManager extends APIBase {
    * @param {KeyValuePair} [queryParams] Query string parameters as a key:value pair object
    * @param {KeyValuePair} [headers] Additional request headers as a key:value pair object
    * @param {'json' | 'text' | 'blob' | 'arraybuffer'} resolveType Type of data to return as a response of the request. By default response data is parsed to JSON. Possible values are json, text, blob and arraybuffer.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns a promise. The returned response includes two components *data* and *errors*. If errors occured during the execution of the request then errors object is returned and tha data is marked as `null`. If no errors occured then depending on the type of the request the data object holds a *single JSON object*, an *array of json objects*, *plain text*, *Blob* or *ArrayBuffer* and the errors object is marked as `null`. If the response returns no data back then both erros and data marked as `null`.
    */
   async post(
@@ -60,14 +64,16 @@ export class EndpointManager extends APIBase {
     body?: FormData | object,
     queryParams?: KeyValuePair,
     headers?: KeyValuePair,
-    resolveType?: "json" | "text" | "blob" | "arraybuffer"
+    resolveType?: "json" | "text" | "blob" | "arraybuffer",
+    requestOptions?: RequestOptions
   ): Promise<{ data: any | null; errors: APIError | null }> {
     return await this.fetcher.post(
       path,
       body,
       queryParams,
       headers,
-      resolveType || "json"
+      resolveType || "json",
+      requestOptions
     );
   }
 
@@ -80,6 +86,7 @@ export class EndpointManager extends APIBase {
    * @param {KeyValuePair} [queryParams] Query string parameters as a key:value pair object
    * @param {KeyValuePair} [headers] Additional request headers as a key:value pair object
    * @param {'json' | 'text' | 'blob' | 'arraybuffer'} resolveType Type of data to return as a response of the request. By default response data is parsed to JSON. Possible values are json, text, blob and arraybuffer.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns a promise. The returned response includes two components *data* and *errors*. If errors occured during the execution of the request then errors object is returned and tha data is marked as `null`. If no errors occured then depending on the type of the request the data object holds a *single JSON object*, an *array of json objects*, *plain text*, *Blob* or *ArrayBuffer* and the errors object is marked as `null`. If the response returns no data back then both erros and data marked as `null`.
    */
   async put(
@@ -87,14 +94,16 @@ export class EndpointManager extends APIBase {
     body?: FormData | object,
     queryParams?: KeyValuePair,
     headers?: KeyValuePair,
-    resolveType?: "json" | "text" | "blob" | "arraybuffer"
+    resolveType?: "json" | "text" | "blob" | "arraybuffer",
+    requestOptions?: RequestOptions
   ): Promise<{ data: any | null; errors: APIError | null }> {
     return await this.fetcher.put(
       path,
       body,
       queryParams,
       headers,
-      resolveType || "json"
+      resolveType || "json",
+      requestOptions
     );
   }
 
@@ -107,6 +116,7 @@ export class EndpointManager extends APIBase {
    * @param {KeyValuePair} [queryParams] Query string parameters as a key:value pair object
    * @param {KeyValuePair} [headers] Additional request headers as a key:value pair object
    * @param {'json' | 'text' | 'blob' | 'arraybuffer'} resolveType Type of data to return as a response of the request. By default response data is parsed to JSON. Possible values are json, text, blob and arraybuffer.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns a promise. The returned response includes two components *data* and *errors*. If errors occured during the execution of the request then errors object is returned and tha data is marked as `null`. If no errors occured then depending on the type of the request the data object holds a *single JSON object*, an *array of json objects*, *plain text*, *Blob* or *ArrayBuffer* and the errors object is marked as `null`. If the response returns no data back then both erros and data marked as `null`.
    */
   async delete(
@@ -114,14 +124,16 @@ export class EndpointManager extends APIBase {
     body?: FormData | object,
     queryParams?: KeyValuePair,
     headers?: KeyValuePair,
-    resolveType?: "json" | "text" | "blob" | "arraybuffer"
+    resolveType?: "json" | "text" | "blob" | "arraybuffer",
+    requestOptions?: RequestOptions
   ): Promise<{ data: any | null; errors: APIError | null }> {
     return await this.fetcher.delete(
       path,
       body,
       queryParams,
       headers,
-      resolveType || "json"
+      resolveType || "json",
+      requestOptions
     );
   }
 }
@@ -0,0 +1,123 @@
+// Precedence of the binary operators, operators with higher precedence are evaluated first
+const OPERATOR_PRECEDENCE: { [operator: string]: number } = {
+  "||": 1,
+  "&&": 2,
+  "==": 3,
+  "!=": 3,
+  "<": 4,
+  "<=": 4,
+  ">": 4,
+  ">=": 4,
+  "+": 5,
+  "-": 5,
+  "*": 6,
+  "/": 6,
+};
+// The operators whose operands can be regrouped without changing the result
+const ASSOCIATIVE_OPERATORS = ["||", "&&", "+", "*"];
+export const UNARY_PRECEDENCE = 7;
+
+/**
+ * Represents a serialized Altogic expression, which is created by the methods of the {@link ExpressionBuilder}. Expressions can be passed to {@link QueryBuilder.filter}, the `query` of {@link ComplexLookup}, the `expression` of {@link GroupComputation}, {@link BucketManager.listFiles} and {@link StorageManager.searchFiles} in place of expression strings.
+ *
+ * Expressions are immutable, combining an expression with others creates a new expression. Composite operands are enclosed in parentheses based on the operator precedence, so that the expression is evaluated in the order it is built.
+ * @export
+ * @class Expression
+ */
+export class Expression {
+  /**
+   * The expression string
+   * @private
+   * @type {string}
+   */
+  #text: string;
+
+  /**
+   * The precedence of the outermost operator of the expression. Literals, field references and function calls have the highest precedence, raw expression strings have the lowest precedence so that they are always enclosed in parentheses when combined with other expressions.
+   * @type {number}
+   */
+  readonly precedence: number;
+
+  /**
+   * Creates an instance of Expression.
+   * @param {string} text The expression string
+   * @param {number} [precedence] The precedence of the outermost operator of the expression
+   */
+  constructor(text: string, precedence: number = UNARY_PRECEDENCE + 1) {
+    this.#text = text;
+    this.precedence = precedence;
+  }
+
+  /**
+   * Combines this expression with the other expressions using logical AND (`&&`).
+   * @param {...Expression[]} expressions The expressions to combine with
+   * @returns {Expression} Returns the combined expression
+   */
+  and(...expressions: Expression[]): Expression {
+    return combineExpressions("&&", [this, ...expressions]);
+  }
+
+  /**
+   * Combines this expression with the other expressions using logical OR (`||`).
+   * @param {...Expression[]} expressions The expressions to combine with
+   * @returns {Expression} Returns the combined expression
+   */
+  or(...expressions: Expression[]): Expression {
+    return combineExpressions("||", [this, ...expressions]);
+  }
+
+  /**
+   * Negates this expression using logical NOT (`!`).
+   * @returns {Expression} Returns the negated expression
+   */
+  not(): Expression {
+    return new Expression(
+      `!${this.precedence < UNARY_PRECEDENCE ? `(${this.#text})` : this.#text}`,
+      UNARY_PRECEDENCE
+    );
+  }
+
+  /**
+   * Returns the expression string.
+   * @returns {string} The expression string
+   */
+  toString(): string {
+    return this.#text;
+  }
+
+  /**
+   * Returns the expression string, so that the expressions are serialized as strings in request bodies and query string parameters.
+   * @returns {string} The expression string
+   */
+  toJSON(): string {
+    return this.#text;
+  }
+}
+
+/**
+ * Combines the operands with the specified binary operator. Operands with a lower precedence than the operator are enclosed in parentheses. The right-hand operands with the same precedence are also enclosed in parentheses unless the operator is associative (e.g., `a - (b - c)`).
+ * @export
+ * @param {string} operator The binary operator, e.g., `&&` or `==`
+ * @param {Expression[]} operands The operands of the operator
+ * @returns {Expression} Returns the combined expression
+ */
+export function combineExpressions(
+  operator: string,
+  operands: Expression[]
+): Expression {
+  const precedence = OPERATOR_PRECEDENCE[operator];
+  if (operands.length === 1) return operands[0];
+
+  const text = operands
+    .map((operand, index) =>
+      operand.precedence < precedence ||
+      (index > 0 &&
+        operand.precedence === precedence &&
+        !ASSOCIATIVE_OPERATORS.includes(operator))
+        ? `(${operand})`
+        : operand.toString()
+    )
+    .join(` ${operator} `);
+
+  return new Expression(text, precedence);
+}
@@ -0,0 +1,531 @@
+import { Expression, combineExpressions, UNARY_PRECEDENCE } from "./Expression";
+import { ClientError } from "./utils/ClientError";
+import { ExpressionValue, FieldPath } from "./types";
+
+const FIELD_NAME_PATTERN =
+  /^[A-Za-z_$][A-Za-z0-9_$]*(\.[A-Za-z_$][A-Za-z0-9_$]*)*$/;
+const FUNCTION_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Throws an invalid expression error.
+ * @param {string} message The error message
+ * @param {object} [details] The error details
+ * @throws Throws the invalid expression error
+ */
+function throwInvalidExpression(message: string, details?: object): never {
+  throw new ClientError("invalid_expression", message, details);
+}
+
+/**
+ * Serializes the literal value to its expression string. Text values are enclosed in double quotes where the backslash and double quote characters are escaped, dates are converted to `TODATE("<ISO 8601 date>")` function calls.
+ * @param {ExpressionValue} value The literal value
+ * @throws Throws an `invalid_expression` error if the value is not a finite number, an invalid date or an unsupported type
+ * @returns The serialized literal value
+ */
+function serializeValue(value: ExpressionValue): string {
+  if (value === null || value === undefined) return "null";
+
+  switch (typeof value) {
+    case "string":
+      return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+    case "number":
+      if (!Number.isFinite(value))
+        throwInvalidExpression(
+          `Number values in expressions need to be finite, '${value}' is not supported`
+        );
+      return String(value);
+    case "boolean":
+      return value ? "true" : "false";
+  }
+
+  if (value instanceof Date) {
+    if (isNaN(value.getTime()))
+      throwInvalidExpression("Invalid date value in expression");
+    return `TODATE(${serializeValue(value.toISOString())})`;
+  }
+
+  if (Array.isArray(value))
+    return `[${value.map((entry) => serializeValue(entry)).join(", ")}]`;
+
+  return throwInvalidExpression(
+    `Values of type '${typeof value}' cannot be used in expressions`
+  );
+}
+
+/**
+ * Provides the methods to build Altogic expressions without string concatenation. The built {@link Expression} can be passed to {@link QueryBuilder.filter}, the `query` of {@link ComplexLookup}, the `expression` of {@link GroupComputation}, {@link BucketManager.listFiles} and {@link StorageManager.searchFiles}.
+ *
+ * The first parameter of the comparison and field functions is a field name, and the other parameters are literal values. Literal values are serialized with proper quoting and escaping, so user input can be safely used in expressions. To compare a field with another field, use {@link field} to create the field reference (e.g., `eq("total", field("limit"))`). Operands are enclosed in parentheses based on the operator precedence.
+ *
+ * > **Example:**
+ * > ```
+ * > const { data, errors } = await altogic.db
+ * >   .model("users")
+ * >   .filter((e) =>
+ * >     e.and(e.eq("status", input), e.or(e.gt("age", 18), e.in("role", ["admin", "editor"])))
+ * >   )
+ * >   .get();
+ * > ```
+ *
+ * If the builder is typed with the model's object type, the field names are type checked. The builder instance passed to the filter callback of {@link QueryBuilder} is typed with the model type of the query builder. For untyped expressions you can use the {@link expr} builder instance.
+ * @export
+ * @class ExpressionBuilder
+ * @template T The type of the model objects
+ */
+export class ExpressionBuilder<T extends object = object> {
+  /**
+   * Creates a reference to the field of the model object, e.g., `this.address.city`.
+   * @param {FieldPath<T>} name The field name, can be in dot-notation to specify sub-object fields (e.g., address.city)
+   * @throws Throws an `invalid_expression` error if the field name is not valid
+   * @returns {Expression} Returns the field reference
+   */
+  field(name: FieldPath<T>): Expression {
+    return this.#createFieldReference("this", name);
+  }
+
+  /**
+   * Creates a reference to the field of the looked up object, which can be used in the `query` of a {@link ComplexLookup}, e.g., `lookup._id`.
+   * @param {string} name The field name of the looked up object
+   * @throws Throws an `invalid_expression` error if the field name is not valid
+   * @returns {Expression} Returns the field reference
+   */
+  lookupField(name: string): Expression {
+    return this.#createFieldReference("lookup", name);
+  }
+
+  /**
+   * Creates a literal value expression. Text values are quoted and escaped, dates are converted to date values and lists are serialized with their entries.
+   * @param {ExpressionValue} value The literal value
+   * @throws Throws an `invalid_expression` error if the value is not a finite number, an invalid date or an unsupported type
+   * @returns {Expression} Returns the literal value expression
+   */
+  value(value: ExpressionValue): Expression {
+    const precedence =
+      typeof value === "number" && value < 0 ? UNARY_PRECEDENCE : undefined;
+    return new Expression(serializeValue(value), precedence);
+  }
+
+  /**
+   * Wraps the expression string, so that it can be combined with the built expressions. The expression string is used as is and it is always enclosed in parentheses when combined with other expressions. **Do not build raw expression strings from user input, use {@link value} or the comparison methods instead.**
+   * @param {string} expression The expression string
+   * @returns {Expression} Returns the expression
+   */
+  raw(expression: string): Expression {
+    return new Expression(expression, 0);
+  }
+
+  /**
+   * Creates a function call expression, which can be used to call the Altogic expression functions that do not have a dedicated builder method, e.g., `fn("ROUND", field("price"), 2)`. Text arguments are treated as literal values, use {@link field} to pass a field value.
+   * @param {string} name The name of the function, e.g., `ROUND`
+   * @param {...(ExpressionValue | Expression)[]} args The function arguments
+   * @throws Throws an `invalid_expression` error if the function name is not valid
+   * @returns {Expression} Returns the function call expression
+   */
+  fn(name: string, ...args: (ExpressionValue | Expression)[]): Expression {
+    if (!FUNCTION_NAME_PATTERN.test(name))
+      throwInvalidExpression(`Invalid function name '${name}' in expression`, {
+        name,
+      });
+
+    return new Expression(
+      `${name.toUpperCase()}(${args
+        .map((arg) => this.#toValue(arg).toString())
+        .join(", ")})`
+    );
+  }
+
+  /**
+   * Checks whether the field value is equal to the specified value (`==`).
+   * @param {FieldPath<T> | Expression} field The field name or the expression to compare
+   * @param {ExpressionValue | Expression} value The value to compare with
+   * @returns {Expression} Returns the comparison expression
+   */
+  eq(
+    field: FieldPath<T> | Expression,
+    value: ExpressionValue | Expression
+  ): Expression {
+    return this.#compare("==", field, value);
+  }
+
+  /**
+   * Checks whether the field value is not equal to the specified value (`!=`).
+   * @param {FieldPath<T> | Expression} field The field name or the expression to compare
+   * @param {ExpressionValue | Expression} value The value to compare with
+   * @returns {Expression} Returns the comparison expression
+   */
+  ne(
+    field: FieldPath<T> | Expression,
+    value: ExpressionValue | Expression
+  ): Expression {
+    return this.#compare("!=", field, value);
+  }
+
+  /**
+   * Checks whether the field value is greater than the specified value (`>`).
+   * @param {FieldPath<T> | Expression} field The field name or the expression to compare
+   * @param {ExpressionValue | Expression} value The value to compare with
+   * @returns {Expression} Returns the comparison expression
+   */
+  gt(
+    field: FieldPath<T> | Expression,
+    value: ExpressionValue | Expression
+  ): Expression {
+    return this.#compare(">", field, value);
+  }
+
+  /**
+   * Checks whether the field value is greater than or equal to the specified value (`>=`).
+   * @param {FieldPath<T> | Expression} field The field name or the expression to compare
+   * @param {ExpressionValue | Expression} value The value to compare with
+   * @returns {Expression} Returns the comparison expression
+   */
+  gte(
+    field: FieldPath<T> | Expression,
+    value: ExpressionValue | Expression
+  ): Expression {
+    return this.#compare(">=", field, value);
+  }
+
+  /**
+   * Checks whether the field value is less than the specified value (`<`).
+   * @param {FieldPath<T> | Expression} field The field name or the expression to compare
+   * @param {ExpressionValue | Expression} value The value to compare with
+   * @returns {Expression} Returns the comparison expression
+   */
+  lt(
+    field: FieldPath<T> | Expression,
+    value: ExpressionValue | Expression
+  ): Expression {
+    return this.#compare("<", field, value);
+  }
+
+  /**
+   * Checks whether the field value is less than or equal to the specified value (`<=`).
+   * @param {FieldPath<T> | Expression} field The field name or the expression to compare
+   * @param {ExpressionValue | Expression} value The value to compare with
+   * @returns {Expression} Returns the comparison expression
+   */
+  lte(
+    field: FieldPath<T> | Expression,
+    value: ExpressionValue | Expression
+  ): Expression {
+    return this.#compare("<=", field, value);
+  }
+
+  /**
+   * Checks whether the field value is between the specified minimum and maximum values, inclusive.
+   * @param {FieldPath<T> | Expression} field The field name or the expression to compare
+   * @param {ExpressionValue | Expression} min The minimum value
+   * @param {ExpressionValue | Expression} max The maximum value
+   * @returns {Expression} Returns the comparison expression
+   */
+  between(
+    field: FieldPath<T> | Expression,
+    min: ExpressionValue | Expression,
+    max: ExpressionValue | Expression
+  ): Expression {
+    return this.and(this.gte(field, min), this.lte(field, max));
+  }
+
+  /**
+   * Checks whether the field value is one of the specified values (`IN`).
+   * @param {FieldPath<T> | Expression} field The field name or the expression to check
+   * @param {ExpressionValue[] | Expression} values The list of values
+   * @returns {Expression} Returns the function call expression
+   */
+  in(
+    field: FieldPath<T> | Expression,
+    values: ExpressionValue[] | Expression
+  ): Expression {
+    return this.fn("IN", values, this.#toField(field));
+  }
+
+  /**
+   * Checks whether the field value is not one of the specified values (`NIN`).
+   * @param {FieldPath<T> | Expression} field The field name or the expression to check
+   * @param {ExpressionValue[] | Expression} values The list of values
+   * @returns {Expression} Returns the function call expression
+   */
+  nin(
+    field: FieldPath<T> | Expression,
+    values: ExpressionValue[] | Expression
+  ): Expression {
+    return this.fn("NIN", values, this.#toField(field));
+  }
+
+  /**
+   * Checks whether the text field value contains the specified text or the list field value contains the specified value (`INCLUDES`).
+   * @param {FieldPath<T> | Expression} field The field name or the expression to check
+   * @param {ExpressionValue | Expression} value The text or the list entry to search for
+   * @returns {Expression} Returns the function call expression
+   */
+  includes(
+    field: FieldPath<T> | Expression,
+    value: ExpressionValue | Expression
+  ): Expression {
+    return this.fn("INCLUDES", this.#toField(field), value);
+  }
+
+  /**
+   * Checks whether the text field value starts with the specified text (`STARTSWITH`).
+   * @param {FieldPath<T> | Expression} field The field name or the expression to check
+   * @param {string | Expression} text The text to search for
+   * @returns {Expression} Returns the function call expression
+   */
+  startsWith(
+    field: FieldPath<T> | Expression,
+    text: string | Expression
+  ): Expression {
+    return this.fn("STARTSWITH", this.#toField(field), text);
+  }
+
+  /**
+   * Checks whether the text field value ends with the specified text (`ENDSWITH`).
+   * @param {FieldPath<T> | Expression} field The field name or the expression to check
+   * @param {string | Expression} text The text to search for
+   * @returns {Expression} Returns the function call expression
+   */
+  endsWith(
+    field: FieldPath<T> | Expression,
+    text: string | Expression
+  ): Expression {
+    return this.fn("ENDSWITH", this.#toField(field), text);
+  }
+
+  /**
+   * Checks whether the field has a value, namely it is not `null` (`EXISTS`).
+   * @param {FieldPath<T> | Expression} field The field name or the expression to check
+   * @returns {Expression} Returns the function call expression
+   */
+  exists(field: FieldPath<T> | Expression): Expression {
+    return this.fn("EXISTS", this.#toField(field));
+  }
+
+  /**
+   * Checks whether the field value is `null` (`ISNULL`).
+   * @param {FieldPath<T> | Expression} field The field name or the expression to check
+   * @returns {Expression} Returns the function call expression
+   */
+  isNull(field: FieldPath<T> | Expression): Expression {
+    return this.fn("ISNULL", this.#toField(field));
+  }
+
+  /**
+   * Checks whether the field value is `null`, an empty text or an empty list (`ISEMPTY`).
+   * @param {FieldPath<T> | Expression} field The field name or the expression to check
+   * @returns {Expression} Returns the function call expression
+   */
+  isEmpty(field: FieldPath<T> | Expression): Expression {
+    return this.fn("ISEMPTY", this.#toField(field));
+  }
+
+  /**
+   * Combines the conditions using logical AND (`&&`). Text conditions are treated as raw expression strings. If no condition is specified, the expression evaluates to `true`.
+   * @param {...(Expression | string)[]} conditions The conditions to combine
+   * @returns {Expression} Returns the combined expression
+   */
+  and(...conditions: (Expression | string)[]): Expression {
+    if (conditions.length === 0) return this.value(true);
+    return combineExpressions(
+      "&&",
+      conditions.map((condition) => this.#toCondition(condition))
+    );
+  }
+
+  /**
+   * Combines the conditions using logical OR (`||`). Text conditions are treated as raw expression strings. If no condition is specified, the expression evaluates to `false`.
+   * @param {...(Expression | string)[]} conditions The conditions to combine
+   * @returns {Expression} Returns the combined expression
+   */
+  or(...conditions: (Expression | string)[]): Expression {
+    if (conditions.length === 0) return this.value(false);
+    return combineExpressions(
+      "||",
+      conditions.map((condition) => this.#toCondition(condition))
+    );
+  }
+
+  /**
+   * Negates the condition using logical NOT (`!`). Text conditions are treated as raw expression strings.
+   * @param {Expression | string} condition The condition to negate
+   * @returns {Expression} Returns the negated expression
+   */
+  not(condition: Expression | string): Expression {
+    return this.#toCondition(condition).not();
+  }
+
+  /**
+   * Converts the field text value to lowercase (`LOWER`).
+   * @param {FieldPath<T> | Expression} field The field name or the text expression
+   * @returns {Expression} Returns the function call expression
+   */
+  lower(field: FieldPath<T> | Expression): Expression {
+    return this.fn("LOWER", this.#toField(field));
+  }
+
+  /**
+   * Converts the field text value to uppercase (`UPPER`).
+   * @param {FieldPath<T> | Expression} field The field name or the text expression
+   * @returns {Expression} Returns the function call expression
+   */
+  upper(field: FieldPath<T> | Expression): Expression {
+    return this.fn("UPPER", this.#toField(field));
+  }
+
+  /**
+   * Returns the number of characters of the field text value (`LENGTH`).
+   * @param {FieldPath<T> | Expression} field The field name or the text expression
+   * @returns {Expression} Returns the function call expression
+   */
+  length(field: FieldPath<T> | Expression): Expression {
+    return this.fn("LENGTH", this.#toField(field));
+  }
+
+  /**
+   * Returns the number of entries of the field list value (`SIZE`).
+   * @param {FieldPath<T> | Expression} field The field name or the list expression
+   * @returns {Expression} Returns the function call expression
+   */
+  size(field: FieldPath<T> | Expression): Expression {
+    return this.fn("SIZE", this.#toField(field));
+  }
+
+  /**
+   * Returns the current date and time (`NOW`).
+   * @returns {Expression} Returns the function call expression
+   */
+  now(): Expression {
+    return this.fn("NOW");
+  }
+
+  /**
+   * Converts the text value in ISO 8601 format or the date to a date value (`TODATE`).
+   * @param {string | Date | Expression} value The value to convert
+   * @returns {Expression} Returns the function call expression
+   */
+  toDate(value: string | Date | Expression): Expression {
+    return value instanceof Date ? this.value(value) : this.fn("TODATE", value);
+  }
+
+  /**
+   * Returns the year of the date field value (`YEAR`).
+   * @param {FieldPath<T> | Expression} field The field name or the date expression
+   * @returns {Expression} Returns the function call expression
+   */
+  year(field: FieldPath<T> | Expression): Expression {
+    return this.fn("YEAR", this.#toField(field));
+  }
+
+  /**
+   * Returns the month of the date field value between 1 (January) and 12 (December) (`MONTH`).
+   * @param {FieldPath<T> | Expression} field The field name or the date expression
+   * @returns {Expression} Returns the function call expression
+   */
+  month(field: FieldPath<T> | Expression): Expression {
+    return this.fn("MONTH", this.#toField(field));
+  }
+
+  /**
+   * Returns the day of the month of the date field value between 1 and 31 (`DAYOFMONTH`).
+   * @param {FieldPath<T> | Expression} field The field name or the date expression
+   * @returns {Expression} Returns the function call expression
+   */
+  dayOfMonth(field: FieldPath<T> | Expression): Expression {
+    return this.fn("DAYOFMONTH", this.#toField(field));
+  }
+
+  /**
+   * Returns the day of the week of the date field value between 1 (Sunday) and 7 (Saturday) (`DAYOFWEEK`).
+   * @param {FieldPath<T> | Expression} field The field name or the date expression
+   * @returns {Expression} Returns the function call expression
+   */
+  dayOfWeek(field: FieldPath<T> | Expression): Expression {
+    return this.fn("DAYOFWEEK", this.#toField(field));
+  }
+
+  /**
+   * Returns the hour of the date field value between 0 and 23 (`HOUR`).
+   * @param {FieldPath<T> | Expression} field The field name or the date expression
+   * @returns {Expression} Returns the function call expression
+   */
+  hour(field: FieldPath<T> | Expression): Expression {
+    return this.fn("HOUR", this.#toField(field));
+  }
+
+  /**
+   * Returns the minute of the date field value between 0 and 59 (`MINUTE`).
+   * @param {FieldPath<T> | Expression} field The field name or the date expression
+   * @returns {Expression} Returns the function call expression
+   */
+  minute(field: FieldPath<T> | Expression): Expression {
+    return this.fn("MINUTE", this.#toField(field));
+  }
+
+  /**
+   * Creates the field reference with the specified prefix.
+   * @param {string} prefix The prefix of the field reference, `this` or `lookup`
+   * @param {string} name The field name
+   * @returns {Expression} Returns the field reference
+   */
+  #createFieldReference(prefix: string, name: string): Expression {
+    if (typeof name !== "string" || !FIELD_NAME_PATTERN.test(name))
+      throwInvalidExpression(`Invalid field name '${name}' in expression`, {
+        name,
+      });
+
+    return new Expression(`${prefix}.${name}`);
+  }
+
+  /**
+   * Converts the field name to a field reference, expressions are returned as is.
+   * @param {string | Expression} field The field name or the expression
+   * @returns {Expression} Returns the field expression
+   */
+  #toField(field: string | Expression): Expression {
+    return field instanceof Expression
+      ? field
+      : this.#createFieldReference("this", field);
+  }
+
+  /**
+   * Converts the literal value to a value expression, expressions are returned as is.
+   * @param {ExpressionValue | Expression} value The literal value or the expression
+   * @returns {Expression} Returns the value expression
+   */
+  #toValue(value: ExpressionValue | Expression): Expression {
+    return value instanceof Expression ? value : this.value(value);
+  }
+
+  /**
+   * Converts the raw expression string to an expression, expressions are returned as is.
+   * @param {Expression | string} condition The condition
+   * @returns {Expression} Returns the condition expression
+   */
+  #toCondition(condition: Expression | string): Expression {
+    return condition instanceof Expression ? condition : this.raw(condition);
+  }
+
+  /**
+   * Creates the comparison expression of the field and the value.
+   * @param {string} operator The comparison operator
+   * @param {string | Expression} field The field name or the expression to compare
+   * @param {ExpressionValue | Expression} value The value to compare with
+   * @returns {Expression} Returns the comparison expression
+   */
+  #compare(
+    operator: string,
+    field: string | Expression,
+    value: ExpressionValue | Expression
+  ): Expression {
+    return combineExpressions(operator, [
+      this.#toField(field),
+      this.#toValue(value),
+    ]);
+  }
+}
+
+/**
+ * The expression builder instance that can be used to build untyped expressions, e.g., to filter files in {@link BucketManager.listFiles}.
+ * @export
+ */
+export const expr = new ExpressionBuilder();
@@ -0,0 +1,268 @@
+import { ClientError } from "./utils/ClientError";
+import {
+  FieldPath,
+  FieldPathOfType,
+  FieldPathValue,
+  FieldUpdate,
+} from "./types";
+
+// System managed fields cannot be updated
+const SYSTEM_FIELDS = ["_id", "_parent", "createdAt", "updatedAt"];
+
+// The type of the entries of a list field
+type ListEntry<V> = NonNullable<V> extends ReadonlyArray<infer E> ? E : never;
+
+/**
+ * Throws an invalid field update error.
+ * @param {string} message The error message
+ * @param {object} [details] The error details
+ * @throws Throws the invalid field update error
+ */
+function throwInvalidFieldUpdate(message: string, details?: object): never {
+  throw new ClientError("invalid_field_update", message, details);
+}
+
+/**
+ * Provides the methods to build the {@link FieldUpdate} instructions of {@link DBObject.updateFields} and {@link QueryBuilder.updateFields} without writing the instruction objects by hand. Each method adds one instruction and checks its arguments against the rules of its update type, e.g., an increment requires a finite number and a push requires a basic list value. The instructions are applied in the order they are added.
+ *
+ * > **Example:**
+ * > ```
+ * > const { data, errors } = await altogic.db
+ * >   .model("products")
+ * >   .object(id)
+ * >   .updateFields(updates().inc("stock", -1).push("tags", "sale").unset("note"));
+ * > ```
+ *
+ * If the builder is typed with the model's object type (e.g., `updates<Product>()`), the field names and values are type checked per update type, e.g., only numeric fields can be incremented and only list fields can be pushed to.
+ * @export
+ * @class FieldUpdateBuilder
+ * @template T The type of the model objects
+ */
+export class FieldUpdateBuilder<T extends object = object> {
+  /**
+   * The field update instructions added to the builder
+   * @private
+   * @type {FieldUpdate[]}
+   */
+  #updates: FieldUpdate[];
+
+  /**
+   * Creates an instance of FieldUpdateBuilder.
+   */
+  constructor() {
+    this.#updates = [];
+  }
+
+  /**
+   * Sets (overwrites) the value of the field.
+   * @param {FieldPath<T>} field The field name, can be in dot-notation to specify sub-object fields (e.g., address.city)
+   * @param {any} value The new value of the field
+   * @throws Throws an `invalid_field_update` error if the value is not specified
+   * @returns {FieldUpdateBuilder<T>} Returns the builder itself so that you can chain other updates
+   */
+  set<P extends FieldPath<T>>(
+    field: P,
+    value: FieldPathValue<T, P>
+  ): FieldUpdateBuilder<T> {
+    return this.#add(field, "set", value);
+  }
+
+  /**
+   * Clears the value of the field.
+   * @param {FieldPath<T>} field The field name, can be in dot-notation to specify sub-object fields (e.g., address.city)
+   * @returns {FieldUpdateBuilder<T>} Returns the builder itself so that you can chain other updates
+   */
+  unset(field: FieldPath<T>): FieldUpdateBuilder<T> {
+    return this.#add(field, "unset");
+  }
+
+  /**
+   * Increments the value of the numeric field by the specified amount. Use a negative amount to decrease the value.
+   * @param {FieldPathOfType<T, number>} field The name of the integer or decimal field
+   * @param {number} [amount] The increment amount, by default 1
+   * @throws Throws an `invalid_field_update` error if the amount is not a finite number
+   * @returns {FieldUpdateBuilder<T>} Returns the builder itself so that you can chain other updates
+   */
+  inc(
+    field: FieldPathOfType<T, number>,
+    amount: number = 1
+  ): FieldUpdateBuilder<T> {
+    return this.#add(field, "increment", amount);
+  }
+
+  /**
+   * Decrements the value of the numeric field by the specified amount.
+   * @param {FieldPathOfType<T, number>} field The name of the integer or decimal field
+   * @param {number} [amount] The decrement amount, by default 1
+   * @throws Throws an `invalid_field_update` error if the amount is not a finite number
+   * @returns {FieldUpdateBuilder<T>} Returns the builder itself so that you can chain other updates
+   */
+  dec(
+    field: FieldPathOfType<T, number>,
+    amount: number = 1
+  ): FieldUpdateBuilder<T> {
+    return this.#add(field, "decrement", amount);
+  }
+
+  /**
+   * Multiplies the value of the numeric field by the specified amount.
+   * @param {FieldPathOfType<T, number>} field The name of the integer or decimal field
+   * @param {number} amount The multiplication amount
+   * @throws Throws an `invalid_field_update` error if the amount is not a finite number
+   * @returns {FieldUpdateBuilder<T>} Returns the builder itself so that you can chain other updates
+   */
+  mul(
+    field: FieldPathOfType<T, number>,
+    amount: number
+  ): FieldUpdateBuilder<T> {
+    return this.#add(field, "multiply", amount);
+  }
+
+  /**
+   * Sets the value of the numeric field to the specified value if the value is less than the current field value.
+   * @param {FieldPathOfType<T, number>} field The name of the integer or decimal field
+   * @param {number} value The value to compare against the current field value
+   * @throws Throws an `invalid_field_update` error if the value is not a finite number
+   * @returns {FieldUpdateBuilder<T>} Returns the builder itself so that you can chain other updates
+   */
+  min(field: FieldPathOfType<T, number>, value: number): FieldUpdateBuilder<T> {
+    return this.#add(field, "min", value);
+  }
+
+  /**
+   * Sets the value of the numeric field to the specified value if the value is greater than the current field value.
+   * @param {FieldPathOfType<T, number>} field The name of the integer or decimal field
+   * @param {number} value The value to compare against the current field value
+   * @throws Throws an `invalid_field_update` error if the value is not a finite number
+   * @returns {FieldUpdateBuilder<T>} Returns the builder itself so that you can chain other updates
+   */
+  max(field: FieldPathOfType<T, number>, value: number): FieldUpdateBuilder<T> {
+    return this.#add(field, "max", value);
+  }
+
+  /**
+   * Adds the value to the end of the basic values list field.
+   * @param {FieldPathOfType<T, ReadonlyArray<any>>} field The name of the basic values list field
+   * @param {any} value The list item to add
+   * @throws Throws an `invalid_field_update` error if the value is not specified or it is not a basic value (e.g., an object)
+   * @returns {FieldUpdateBuilder<T>} Returns the builder itself so that you can chain other updates
+   */
+  push<P extends FieldPathOfType<T, ReadonlyArray<any>>>(
+    field: P,
+    value: ListEntry<FieldPathValue<T, P>>
+  ): FieldUpdateBuilder<T> {
+    return this.#add(field, "push", value);
+  }
+
+  /**
+   * Removes all occurrences of the value from the basic values list field.
+   * @param {FieldPathOfType<T, ReadonlyArray<any>>} field The name of the basic values list field
+   * @param {any} value The list item to remove
+   * @throws Throws an `invalid_field_update` error if the value is not specified or it is not a basic value (e.g., an object)
+   * @returns {FieldUpdateBuilder<T>} Returns the builder itself so that you can chain other updates
+   */
+  pull<P extends FieldPathOfType<T, ReadonlyArray<any>>>(
+    field: P,
+    value: ListEntry<FieldPathValue<T, P>>
+  ): FieldUpdateBuilder<T> {
+    return this.#add(field, "pull", value);
+  }
+
+  /**
+   * Removes the last item of the basic values list field.
+   * @param {FieldPathOfType<T, ReadonlyArray<any>>} field The name of the basic values list field
+   * @returns {FieldUpdateBuilder<T>} Returns the builder itself so that you can chain other updates
+   */
+  pop(field: FieldPathOfType<T, ReadonlyArray<any>>): FieldUpdateBuilder<T> {
+    return this.#add(field, "pop");
+  }
+
+  /**
+   * Removes the first item of the basic values list field.
+   * @param {FieldPathOfType<T, ReadonlyArray<any>>} field The name of the basic values list field
+   * @returns {FieldUpdateBuilder<T>} Returns the builder itself so that you can chain other updates
+   */
+  shift(field: FieldPathOfType<T, ReadonlyArray<any>>): FieldUpdateBuilder<T> {
+    return this.#add(field, "shift");
+  }
+
+  /**
+   * Returns the field update instructions added to the builder.
+   * @returns {FieldUpdate[]} The list of field update instructions
+   */
+  build(): FieldUpdate[] {
+    return this.#updates.map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Validates the arguments of the field update instruction and adds it to the builder.
+   * @private
+   * @param {string} field The field name
+   * @param {FieldUpdate["updateType"]} updateType The update type
+   * @param {any} [value] The value of the update, not specified for the update types that do not need a value
+   * @throws Throws an `invalid_field_update` error if the field name or the value is not valid for the update type
+   * @returns {FieldUpdateBuilder<T>} Returns the builder itself
+   */
+  #add(
+    field: string,
+    updateType: FieldUpdate["updateType"],
+    ...args: [value?: any]
+  ): FieldUpdateBuilder<T> {
+    if (typeof field !== "string" || field.length === 0)
+      throwInvalidFieldUpdate("Field name of the update needs to be specified");
+    if (SYSTEM_FIELDS.includes(field))
+      throwInvalidFieldUpdate(
+        `System managed field '${field}' cannot be updated`
+      );
+
+    const value = args[0];
+    const details = { field, updateType, value };
+    switch (updateType) {
+      case "set":
+        if (value === undefined)
+          throwInvalidFieldUpdate(
+            `Value of '${field}' needs to be specified for a 'set' update, use 'unset' to clear the field`,
+            details
+          );
+        break;
+      case "increment":
+      case "decrement":
+      case "multiply":
+      case "min":
+      case "max":
+        if (typeof value !== "number" || !Number.isFinite(value))
+          throwInvalidFieldUpdate(
+            `Value of '${field}' needs to be a finite number for '${updateType}' update`,
+            details
+          );
+        break;
+      case "push":
+      case "pull":
+        if (
+          value === undefined ||
+          value === null ||
+          (typeof value === "object" && !(value instanceof Date))
+        )
+          throwInvalidFieldUpdate(
+            `Value of '${field}' needs to be a basic list value for '${updateType}' update`,
+            details
+          );
+        break;
+    }
+
+    this.#updates.push(
+      args.length > 0 ? { field, updateType, value } : { field, updateType }
+    );
+    return this;
+  }
+}
+
+/**
+ * Creates a new {@link FieldUpdateBuilder} to build the field update instructions of an `updateFields` call. The builder can be typed with the model's object type to type check the field names and values.
+ * @export
+ * @template T The type of the model objects
+ * @returns {FieldUpdateBuilder<T>} Returns the field update builder
+ */
+export function updates<T extends object = object>(): FieldUpdateBuilder<T> {
+  return new FieldUpdateBuilder<T>();
+}
@@ -1,6 +1,6 @@
 import { APIBase } from "./APIBase";
 import { Fetcher } from "./utils/Fetcher";
-import { APIError, FileUploadOptions } from "./types";
+import { APIError, FileUploadOptions, RequestOptions } from "./types";
 
 const DEFAULT_FILE_OPTIONS = {
   contentType: "text/plain;charset=UTF-8",
@@ -43,26 +43,46 @@ export class FileManager extends APIBase {
    * Check if the file exists. It returns false if file does not exist.
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns true if file exists, false otherwise
    */
-  async exists(): Promise<{ data: boolean | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/storage/bucket/file/exists`, {
-      file: this.#fileNameOrId,
-      bucket: this.#bucketNameOrId,
-    });
+  async exists(
+    requestOptions?: RequestOptions
+  ): Promise<{ data: boolean | null; errors: APIError | null }> {
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/bucket/file/exists`,
+      {
+        file: this.#fileNameOrId,
+        bucket: this.#bucketNameOrId,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
    * Gets information about the file.
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns basic file metadata informaton.
    */
-  async getInfo(): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/storage/bucket/file/get`, {
-      file: this.#fileNameOrId,
-      bucket: this.#bucketNameOrId,
-    });
+  async getInfo(
+    requestOptions?: RequestOptions
+  ): Promise<{ data: object | null; errors: APIError | null }> {
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/bucket/file/get`,
+      {
+        file: this.#fileNameOrId,
+        bucket: this.#bucketNameOrId,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -107,9 +127,12 @@ export class FileManager extends APIBase {
    * Downloads the file.
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the contents of the file in a `Blob`
    */
-  async download(): Promise<{ data: Blob | null; errors: APIError | null }> {
+  async download(
+    requestOptions?: RequestOptions
+  ): Promise<{ data: Blob | null; errors: APIError | null }> {
     return await this.fetcher.post(
       `/_api/rest/v1/storage/bucket/file/download`,
       {
@@ -118,7 +141,8 @@ export class FileManager extends APIBase {
       },
       null,
       null,
-      "blob"
+      "blob",
+      requestOptions
     );
   }
 
@@ -127,16 +151,25 @@ export class FileManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string} newName The new name of the file.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the updated file information
    */
   async rename(
-    newName: string
+    newName: string,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/storage/bucket/file/rename`, {
-      newName,
-      file: this.#fileNameOrId,
-      bucket: this.#bucketNameOrId,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/bucket/file/rename`,
+      {
+        newName,
+        file: this.#fileNameOrId,
+        bucket: this.#bucketNameOrId,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -144,10 +177,12 @@ export class FileManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string} duplicateName The new duplicate file name. If not specified, uses the `fileName` as template and ensures the duplicated file name to be unique in its bucket.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the new duplicate file information
    */
   async duplicate(
-    duplicateName?: string
+    duplicateName?: string,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
     return await this.fetcher.post(
       `/_api/rest/v1/storage/bucket/file/duplicate`,
@@ -155,7 +190,11 @@ export class FileManager extends APIBase {
         duplicateName,
         file: this.#fileNameOrId,
         bucket: this.#bucketNameOrId,
-      }
+      },
+      null,
+      null,
+      "json",
+      requestOptions
     );
   }
 
@@ -163,14 +202,21 @@ export class FileManager extends APIBase {
    * Deletes the file from the bucket.
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    */
-  async delete(): Promise<{ errors: APIError | null }> {
+  async delete(
+    requestOptions?: RequestOptions
+  ): Promise<{ errors: APIError | null }> {
     const { errors } = await this.fetcher.post(
       `/_api/rest/v1/storage/bucket/file/delete`,
       {
         file: this.#fileNameOrId,
         bucket: this.#bucketNameOrId,
-      }
+      },
+      null,
+      null,
+      "json",
+      requestOptions
     );
 
     return { errors };
@@ -179,23 +225,25 @@ export class FileManager extends APIBase {
   /**
    * Replaces an existing file with another. It keeps the name of the file but replaces file contents, size, encoding and mime-type with the newly uploaded file info.
    *
-   * If `onProgress` callback function is defined in {@link FileUploadOptions}, it periodically calls this function to inform about upload progress. Please note that for the moment **`onProgress` callback function can only be used in clients where `XMLHttpRequest` object is available (e.g., browsers).**
+   * If `onProgress` callback function is defined in {@link FileUploadOptions}, it periodically calls this function to inform about upload progress. Please note that **`onProgress` callback function can only be used in clients where `XMLHttpRequest` object is available (e.g., browsers) or when an `upload` function is provided in the `transport` option of {@link ClientOptions}.**
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {any} fileBody The body of the new file that will be used to replace the existing file
    * @param {FileOptions} options Content type and privacy setting of the new file. `contentType` is ignored, if `fileBody` is `Blob`, `File` or `FormData`, otherwise `contentType` option needs to be specified. If not specified, `contentType` will default to `text/plain;charset=UTF-8`. If `isPublic` is not specified, defaults to the bucket's privacy setting.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the metadata of the file after replacement
    */
   async replace(
     fileBody: any,
-    options: FileUploadOptions
+    options: FileUploadOptions,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
     if (
       (typeof FormData !== "undefined" && fileBody instanceof FormData) ||
       (typeof Blob !== "undefined" && fileBody instanceof Blob) ||
       (typeof File !== "undefined" && fileBody instanceof File)
     ) {
-      if (typeof XMLHttpRequest !== "undefined" && options?.onProgress) {
+      if (this.fetcher.canTrackUploadProgress() && options?.onProgress) {
         return await this.fetcher.upload(
           `/_api/rest/v1/storage/bucket/file/replace-formdata`,
           fileBody,
@@ -209,7 +257,8 @@ export class FileManager extends APIBase {
             },
           },
           null,
-          options.onProgress
+          options.onProgress,
+          requestOptions
         );
       } else {
         return await this.fetcher.post(
@@ -223,7 +272,10 @@ export class FileManager extends APIBase {
               ...options,
               onProgress: undefined,
             },
-          }
+          },
+          null,
+          "json",
+          requestOptions
         );
       }
     } else {
@@ -240,7 +292,9 @@ export class FileManager extends APIBase {
           bucket: this.#bucketNameOrId,
           options: optionsVal,
         },
-        { "Content-Type": optionsVal.contentType }
+        { "Content-Type": optionsVal.contentType },
+        "json",
+        requestOptions
       );
     }
   }
@@ -250,16 +304,25 @@ export class FileManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string} bucketNameOrId The name or id of the bucket to move the file into.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the moved file information
    */
   async moveTo(
-    bucketNameOrId: string
+    bucketNameOrId: string,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/storage/bucket/file/move`, {
-      bucketNameOrId,
-      file: this.#fileNameOrId,
-      bucket: this.#bucketNameOrId,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/bucket/file/move`,
+      {
+        bucketNameOrId,
+        file: this.#fileNameOrId,
+        bucket: this.#bucketNameOrId,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -267,16 +330,25 @@ export class FileManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string} bucketNameOrId The name or id of the bucket to copy the file into.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the copied file information
    */
   async copyTo(
-    bucketNameOrId: string
+    bucketNameOrId: string,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/storage/bucket/file/copy`, {
-      bucketNameOrId,
-      file: this.#fileNameOrId,
-      bucket: this.#bucketNameOrId,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/bucket/file/copy`,
+      {
+        bucketNameOrId,
+        file: this.#fileNameOrId,
+        bucket: this.#bucketNameOrId,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -284,10 +356,12 @@ export class FileManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string | string[]} tags A single tag or an array of tags to add to file's metadata
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the updated file information
    */
   async addTags(
-    tags: string | string[]
+    tags: string | string[],
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
     return await this.fetcher.post(
       `/_api/rest/v1/storage/bucket/file/add-tags`,
@@ -295,7 +369,11 @@ export class FileManager extends APIBase {
         tags,
         file: this.#fileNameOrId,
         bucket: this.#bucketNameOrId,
-      }
+      },
+      null,
+      null,
+      "json",
+      requestOptions
     );
   }
 
@@ -304,10 +382,12 @@ export class FileManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string | string[]} tags A single tag or an array of tags to remove from file's metadata
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the updated file information
    */
   async removeTags(
-    tags: string | string[]
+    tags: string | string[],
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
     return await this.fetcher.post(
       `/_api/rest/v1/storage/bucket/file/remove-tags`,
@@ -315,7 +395,11 @@ export class FileManager extends APIBase {
         tags,
         file: this.#fileNameOrId,
         bucket: this.#bucketNameOrId,
-      }
+      },
+      null,
+      null,
+      "json",
+      requestOptions
     );
   }
 
@@ -326,19 +410,28 @@ export class FileManager extends APIBase {
    * @param {string} newName The new name of the file.
    * @param {boolean} isPublic The privacy setting of the file.
    * @param {string[]} tags Array of string values that will be added to the file metadata.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the updated file information
    */
   async updateInfo(
     newName: string,
     isPublic: boolean,
-    tags: string | string[]
+    tags: string | string[],
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/storage/bucket/file/update`, {
-      newName,
-      isPublic,
-      tags,
-      file: this.#fileNameOrId,
-      bucket: this.#bucketNameOrId,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/bucket/file/update`,
+      {
+        newName,
+        isPublic,
+        tags,
+        file: this.#fileNameOrId,
+        bucket: this.#bucketNameOrId,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 }
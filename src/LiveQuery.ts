@@ -0,0 +1,371 @@
+import { RealtimeManager } from "./RealtimeManager";
+import { createNetworkError, settleRequest } from "./utils/helpers";
+import { compileFilter, sortItems } from "./utils/expression";
+import {
+  APIError,
+  DBAction,
+  EventData,
+  KeyValuePair,
+  LiveQueryListener,
+  LiveQueryOptions,
+  LiveQueryUpdate,
+  SerializedQuery,
+} from "./types";
+
+const DEFAULT_POLL_INTERVAL = 30000;
+// The realtime events that notify the changes of the model objects
+const CHANGE_EVENTS: LiveQueryUpdate<any>["type"][] = [
+  "create",
+  "update",
+  "delete",
+];
+// The number of live queries using each channel, a channel is left when it is no longer used
+const channelUsage = new WeakMap<RealtimeManager, Map<string, number>>();
+
+/**
+ * Keeps the result of a query up to date using the realtime change events of its model, which is created by {@link QueryBuilder.subscribe}. After the initial fetch, the created, updated and deleted objects sent to the channel of the model are applied to the local result, considering the filter, sort and limit of the query. The listener is called with the new result after the initial fetch and after each change of the result.
+ *
+ * The change events are realtime messages sent to the `db:<model name>` channel (e.g., from a service of your app or using {@link RealtimeManager.send}), where the event name is `create`, `update` or `delete` and the message is the created, updated or deleted object (or the id of the deleted object).
+ *
+ * If the query cannot be evaluated locally, namely it has lookups, a field selection, omitted fields, grouping, a page number other than 1 or a filter expression that is not supported locally, the query is fetched again on each change event. The query is also fetched periodically while the realtime socket is disconnected, and once when it is reconnected to catch up with the missed events.
+ * @export
+ * @class LiveQuery
+ * @template R The type of the retrieved objects
+ */
+export class LiveQuery<R = object> {
+  /**
+   * The function that fetches the result of the query
+   * @private
+   * @type {() => Promise<{ data: R[] | null; errors: APIError | null }>}
+   */
+  #fetch: () => Promise<{ data: R[] | null; errors: APIError | null }>;
+
+  /**
+   * The realtime manager that receives the change events
+   * @private
+   * @type {RealtimeManager}
+   */
+  #realtime: RealtimeManager;
+
+  /**
+   * The function called with the result of the query whenever it changes
+   * @private
+   * @type {LiveQueryListener<R>}
+   */
+  #listener: LiveQueryListener<R>;
+
+  /**
+   * The name of the channel of the change events
+   * @private
+   * @type {string}
+   */
+  #channel: string;
+
+  /**
+   * The db action of the query
+   * @private
+   * @type {DBAction}
+   */
+  #action: DBAction;
+
+  /**
+   * The function that checks whether an object matches the filter of the query, `null` if the query cannot be evaluated locally
+   * @private
+   * @type {((object: KeyValuePair) => boolean) | null}
+   */
+  #isMatch: ((object: KeyValuePair) => boolean) | null;
+
+  /**
+   * The current result of the query
+   * @private
+   * @type {R[]}
+   */
+  #data: R[];
+
+  /**
+   * The errors of the last fetch of the query
+   * @private
+   * @type {APIError | null}
+   */
+  #errors: APIError | null;
+
+  /**
+   * The sequence number of the last fetch, the results of the earlier fetches are ignored
+   * @private
+   * @type {number}
+   */
+  #fetchId: number;
+
+  /**
+   * The change events received while the query is being fetched, which are applied to the fetched result since it may not include them. `null` if no fetch is in progress.
+   * @private
+   * @type {{ type: LiveQueryUpdate<R>["type"]; message: any }[] | null}
+   */
+  #changes: { type: LiveQueryUpdate<R>["type"]; message: any }[] | null;
+
+  /**
+   * The duration between the fetches of the query while the realtime socket is disconnected, in milliseconds
+   * @private
+   * @type {number}
+   */
+  #pollInterval: number;
+
+  /**
+   * The timer of the periodic fetches while the realtime socket is disconnected
+   * @private
+   * @type {any}
+   */
+  #pollTimer: any;
+
+  /**
+   * Whether the live query is still subscribed to the changes
+   * @private
+   * @type {boolean}
+   */
+  #active: boolean;
+
+  /**
+   * The realtime event handlers registered by the live query, keyed by the event names
+   * @private
+   * @type {Map<string, (payload: any) => void>}
+   */
+  #handlers: Map<string, (payload: any) => void>;
+
+  /**
+   * Creates an instance of LiveQuery and starts keeping the result of the query up to date.
+   * @param {SerializedQuery} query The query whose result is kept up to date
+   * @param {() => Promise<{ data: R[] | null; errors: APIError | null }>} fetch The function that fetches the result of the query
+   * @param {RealtimeManager} realtime The realtime manager that receives the change events
+   * @param {LiveQueryListener<R>} listener The function called with the result of the query whenever it changes
+   * @param {LiveQueryOptions} [options] The channel and polling options
+   */
+  constructor(
+    query: SerializedQuery,
+    fetch: () => Promise<{ data: R[] | null; errors: APIError | null }>,
+    realtime: RealtimeManager,
+    listener: LiveQueryListener<R>,
+    options?: LiveQueryOptions
+  ) {
+    const { model, action, select } = query;
+    this.#fetch = fetch;
+    this.#realtime = realtime;
+    this.#listener = listener;
+    this.#channel = options?.channel ?? `db:${model}`;
+    this.#action = action;
+    // The changed objects are not projected to the selected fields locally
+    this.#isMatch = select?.length ? null : this.#compileQuery();
+    this.#data = [];
+    this.#errors = null;
+    this.#fetchId = 0;
+    this.#changes = null;
+    this.#pollInterval = options?.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    this.#pollTimer = null;
+    this.#active = true;
+    this.#handlers = new Map();
+
+    for (const type of CHANGE_EVENTS)
+      this.#handlers.set(type, (payload: EventData) => {
+        if (payload?.channel === this.#channel)
+          this.#applyChange(type, payload.message);
+      });
+    this.#handlers.set("connect", () => {
+      this.#stopPolling();
+      this.refresh();
+    });
+    this.#handlers.set("disconnect", () => this.#startPolling());
+    this.#handlers.forEach((handler, eventName) =>
+      realtime.on(eventName, handler)
+    );
+
+    const usage = channelUsage.get(realtime) ?? new Map<string, number>();
+    channelUsage.set(realtime, usage);
+    if (!usage.get(this.#channel)) realtime.join(this.#channel);
+    usage.set(this.#channel, (usage.get(this.#channel) ?? 0) + 1);
+
+    if (!realtime.isConnected()) this.#startPolling();
+    this.refresh();
+  }
+
+  /**
+   * The current result of the query.
+   * @type {R[]}
+   */
+  get data(): R[] {
+    return this.#data;
+  }
+
+  /**
+   * The errors of the last fetch of the query, `null` if the last fetch has succeeded.
+   * @type {APIError | null}
+   */
+  get errors(): APIError | null {
+    return this.#errors;
+  }
+
+  /**
+   * Fetches the query again and calls the listener with the new result. If the fetch fails, e.g., due to a network error, the listener is called with the errors and the last result is kept.
+   * @returns Resolves when the query is fetched, it is not rejected if the fetch fails
+   */
+  async refresh(): Promise<void> {
+    const fetchId = ++this.#fetchId;
+    let changes: { type: LiveQueryUpdate<R>["type"]; message: any }[] = [];
+    this.#changes = [];
+    let result: { data: R[] | null; errors: APIError | null };
+    try {
+      result = await settleRequest(this.#fetch);
+    } catch (err) {
+      result = { data: null, errors: createNetworkError(err).toAPIError() };
+    } finally {
+      // The changes are buffered only while the latest fetch is running
+      if (fetchId === this.#fetchId) {
+        changes = this.#changes ?? [];
+        this.#changes = null;
+      }
+    }
+    if (!this.#active || fetchId !== this.#fetchId) return;
+
+    const { data, errors } = result;
+    if (!errors) {
+      this.#data = data ?? [];
+      // The changes received during the fetch may have been made after the query has run on the app backend
+      for (const { type, message } of changes) {
+        this.#mergeChange(type, message);
+        // The change could not be applied locally and the query is fetched again
+        if (fetchId !== this.#fetchId) break;
+      }
+    }
+    this.#errors = errors;
+    this.#notify("fetch");
+  }
+
+  /**
+   * Stops keeping the result of the query up to date. The listener is not called anymore and the channel of the model is left if no other live query uses it.
+   */
+  unsubscribe(): void {
+    if (!this.#active) return;
+    this.#active = false;
+    this.#stopPolling();
+    this.#handlers.forEach((handler, eventName) =>
+      this.#realtime.off(eventName, handler)
+    );
+
+    const usage = channelUsage.get(this.#realtime);
+    const count = (usage?.get(this.#channel) ?? 1) - 1;
+    if (count > 0) usage?.set(this.#channel, count);
+    else {
+      usage?.delete(this.#channel);
+      this.#realtime.leave(this.#channel);
+    }
+  }
+
+  /**
+   * Returns the function that checks whether an object matches the filter of the query, or `null` if the changes cannot be applied locally.
+   * @private
+   * @returns The filter function or `null`
+   */
+  #compileQuery(): ((object: KeyValuePair) => boolean) | null {
+    const { expression, lookups, omit, group, page } = this.#action;
+    if (lookups?.length || omit?.length || group || (page ?? 1) > 1)
+      return null;
+    if (!expression) return () => true;
+
+    try {
+      return compileFilter(expression);
+    } catch (err) {
+      return null;
+    }
+  }
+
+  /**
+   * Applies the created, updated or deleted object to the result of the query and calls the listener if the result has changed. If the query is being fetched, the change is also applied to the fetched result.
+   * @private
+   * @param {LiveQueryUpdate<R>["type"]} type The type of the change
+   * @param {any} message The changed object, or the id of the deleted object
+   */
+  #applyChange(type: LiveQueryUpdate<R>["type"], message: any) {
+    this.#changes?.push({ type, message });
+    if (this.#mergeChange(type, message)) this.#notify(type);
+  }
+
+  /**
+   * Merges the created, updated or deleted object into the local result of the query, or fetches the query again if the change cannot be applied locally.
+   * @private
+   * @param {LiveQueryUpdate<R>["type"]} type The type of the change
+   * @param {any} message The changed object, or the id of the deleted object
+   * @returns True if the local result has changed, false otherwise
+   */
+  #mergeChange(type: LiveQueryUpdate<R>["type"], message: any): boolean {
+    const id = typeof message === "string" ? message : message?._id;
+    if (!this.#isMatch || id === undefined) {
+      this.refresh();
+      return false;
+    }
+
+    const items = this.#data as KeyValuePair[];
+    const index = items.findIndex((item) => item._id === id);
+    const isMatch =
+      type !== "delete" &&
+      typeof message === "object" &&
+      this.#isMatch(message);
+    if (index === -1 && !isMatch) return false;
+
+    const { sort, limit } = this.#action;
+    // A removed object leaves room for an object that is not in the local result
+    if (index !== -1 && !isMatch && limit && items.length >= limit) {
+      this.refresh();
+      return false;
+    }
+
+    let result = [...items];
+    if (isMatch && index !== -1 && !sort?.length) result[index] = message;
+    else {
+      if (index !== -1) result.splice(index, 1);
+      if (isMatch) result.push(message);
+      result = sortItems(result, sort, (item) => item);
+    }
+    // The objects exceeding the limit are not part of the result anymore
+    if (limit && result.length > limit) result = result.slice(0, limit);
+    // An updated object moved to the end of a full result may come after the objects that are not in the local result
+    if (
+      index !== -1 &&
+      limit &&
+      result.length >= limit &&
+      result[result.length - 1]._id === id
+    ) {
+      this.refresh();
+      return false;
+    }
+
+    this.#data = result as R[];
+    return true;
+  }
+
+  /**
+   * Calls the listener with the current result of the query.
+   * @private
+   * @param {LiveQueryUpdate<R>["type"]} type The reason of the update
+   */
+  #notify(type: LiveQueryUpdate<R>["type"]) {
+    if (this.#active)
+      this.#listener({ data: this.#data, errors: this.#errors, type });
+  }
+
+  /**
+   * Starts fetching the query periodically while the realtime socket is disconnected.
+   * @private
+   */
+  #startPolling() {
+    if (this.#pollTimer || !this.#active) return;
+    this.#pollTimer = setInterval(() => this.refresh(), this.#pollInterval);
+  }
+
+  /**
+   * Stops the periodic fetches of the query.
+   * @private
+   */
+  #stopPolling() {
+    if (!this.#pollTimer) return;
+    clearInterval(this.#pollTimer);
+    this.#pollTimer = null;
+  }
+}
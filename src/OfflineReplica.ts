@@ -0,0 +1,671 @@
+import { Fetcher } from "./utils/Fetcher";
+import { ClientError } from "./utils/ClientError";
+import { MemoryOfflineStore } from "./utils/MemoryOfflineStore";
+import { applyFieldUpdates } from "./utils/changes";
+import { compileFilter, sortItems } from "./utils/expression";
+import { createNetworkError, settleRequest } from "./utils/helpers";
+import {
+  APIError,
+  ConflictPolicy,
+  DBAction,
+  KeyValuePair,
+  MiddlewareRequest,
+  OfflineMutation,
+  OfflineOptions,
+  OfflineStore,
+  OfflineSyncResult,
+} from "./types";
+
+const DB_PATH = "/_api/rest/v1/db";
+const OBJECT_PREFIX = "object:";
+const OUTBOX_PREFIX = "outbox:";
+// The routes whose results are stored in and served from the replica
+const READ_ROUTES = ["/object/get", "/get-list", "/get-single"];
+// The routes of the mutations that are queued while offline
+const MUTATION_ROUTES: { [path: string]: OfflineMutation["type"] } = {
+  "/object/create": "create",
+  "/object/update": "update",
+  "/object/update-fields": "updateFields",
+  "/object/delete": "delete",
+};
+// The system managed fields of the database objects that cannot be updated
+const SYSTEM_FIELDS = ["_id", "_parent", "createdAt", "updatedAt"];
+
+let localIdCounter = 0;
+
+/**
+ * Generates the temporary id of an object created while offline.
+ * @returns The temporary id starting with `local_`
+ */
+function createLocalId(): string {
+  localIdCounter++;
+  return `local_${Date.now().toString(36)}${localIdCounter.toString(36)}`;
+}
+
+/**
+ * Returns the store key of the object.
+ * @param {string} model The name of the model
+ * @param {string} id The id of the object
+ * @returns The store key
+ */
+function getObjectKey(model: string, id: string): string {
+  return `${OBJECT_PREFIX}${model}:${id}`;
+}
+
+/**
+ * Returns the store key of the pending mutation. The sequence number is zero padded so that the keys are ordered.
+ * @param {number} seq The sequence number of the mutation
+ * @returns The store key
+ */
+function getOutboxKey(seq: number): string {
+  return `${OUTBOX_PREFIX}${String(seq).padStart(12, "0")}`;
+}
+
+/**
+ * Checks whether the errors of a request are caused by the lack of connectivity, namely the request could not be sent or has timed out.
+ * @param {APIError | null} errors The errors of the request
+ * @returns True if the app backend could not be reached, false otherwise
+ */
+function isNetworkFailure(errors: APIError | null): boolean {
+  const code = errors?.items?.[0]?.code;
+  return code === "network_error" || code === "request_timeout";
+}
+
+/**
+ * Checks whether the query returns the complete objects of its model, namely it does not have lookups, omitted fields or grouping. Only the complete objects are stored in the replica and only these queries can be run on the replica.
+ * @param {DBAction | null} query The query
+ * @returns True if the query returns complete objects, false otherwise
+ */
+function isCompleteQuery(query: DBAction | null | undefined): boolean {
+  return !(query?.lookups?.length || query?.omit?.length || query?.group);
+}
+
+/**
+ * Creates a deep copy of the object.
+ * @param {object} data The object to copy
+ * @returns The copied object
+ */
+function copy(data: object): KeyValuePair {
+  return JSON.parse(JSON.stringify(data));
+}
+
+/**
+ * An opt-in offline layer of the database, which is enabled by {@link DatabaseManager.offline}. The replica intercepts the database requests of the {@link QueryBuilder} and {@link DBObject} methods and keeps a local copy of the fetched objects in an {@link OfflineStore}.
+ *
+ * When the app backend cannot be reached, `DBObject.get` and the `QueryBuilder.get` and `getSingle` queries are run on the local copies, and the `create`, `update`, `updateFields` and `delete` requests of `DBObject` are applied to the local copies and queued in an outbox. The queued mutations are replayed in order when the connectivity is restored, or when {@link sync} is called. Objects created while offline have a temporary id, which is replaced with the id assigned by the app backend when the creation is replayed.
+ *
+ * While the outbox has pending mutations, new mutations are also queued so that they are replayed in order. The objects with lookups, field selections or omitted fields, the grouping queries and the sub-model objects are not stored in the replica, and these requests fail as usual while offline.
+ *
+ * If an object has been modified on the app backend after it was fetched and before its pending mutation is replayed, the conflict is resolved according to the `conflictPolicy` of the {@link OfflineOptions}.
+ * @export
+ * @class OfflineReplica
+ */
+export class OfflineReplica {
+  /**
+   * The http client used to replay the pending mutations
+   * @private
+   * @type {Fetcher}
+   */
+  #fetcher: Fetcher;
+
+  /**
+   * The local store of the objects and the pending mutations
+   * @private
+   * @type {OfflineStore}
+   */
+  #store: OfflineStore;
+
+  /**
+   * The conflict resolution policy of the pending mutations
+   * @private
+   * @type {ConflictPolicy}
+   */
+  #conflictPolicy: ConflictPolicy;
+
+  /**
+   * Whether to replay the pending mutations automatically when the connectivity is restored
+   * @private
+   * @type {boolean}
+   */
+  #autoSync: boolean;
+
+  /**
+   * Whether the last request has reached the app backend
+   * @private
+   * @type {boolean}
+   */
+  #online: boolean;
+
+  /**
+   * The sequence number of the last queued mutation, `null` until it is read from the store
+   * @private
+   * @type {number | null}
+   */
+  #seq: number | null;
+
+  /**
+   * The replay of the pending mutations in progress
+   * @private
+   * @type {Promise<OfflineSyncResult> | null}
+   */
+  #syncing: Promise<OfflineSyncResult> | null;
+
+  /**
+   * The bodies of the requests sent by the replica itself, which are not intercepted
+   * @private
+   * @type {WeakSet<object>}
+   */
+  #ownRequests: WeakSet<object>;
+
+  /**
+   * Creates an instance of OfflineReplica and registers its middleware to the http client.
+   * @param {Fetcher} fetcher The http client to make RESTful API calls to the application's execution engine
+   * @param {OfflineOptions} [options] The store, conflict policy and synchronization options
+   */
+  constructor(fetcher: Fetcher, options?: OfflineOptions) {
+    this.#fetcher = fetcher;
+    this.#store = options?.store ?? new MemoryOfflineStore();
+    this.#conflictPolicy = options?.conflictPolicy ?? "last-write-wins";
+    this.#autoSync = options?.autoSync ?? true;
+    this.#online = true;
+    this.#seq = null;
+    this.#syncing = null;
+    this.#ownRequests = new WeakSet();
+
+    fetcher.use((request, next) => this.#intercept(request, next));
+    // Browsers notify when the connectivity is restored
+    if (typeof globalThis.addEventListener === "function")
+      globalThis.addEventListener("online", () => this.#scheduleSync());
+  }
+
+  /**
+   * Whether the last database request has reached the app backend. Becomes `false` when a request fails due to the lack of connectivity and `true` again when a request succeeds.
+   * @type {boolean}
+   */
+  get isOnline(): boolean {
+    return this.#online;
+  }
+
+  /**
+   * Returns the mutations waiting in the outbox in the order they will be replayed.
+   * @returns {Promise<OfflineMutation[]>} The pending mutations
+   */
+  async getPendingMutations(): Promise<OfflineMutation[]> {
+    const keys = await this.#store.keys(OUTBOX_PREFIX);
+    const mutations: OfflineMutation[] = [];
+    for (const key of keys) {
+      const mutation = await this.#store.get(key);
+      if (mutation) mutations.push(mutation);
+    }
+
+    return mutations.sort((left, right) => left.seq - right.seq);
+  }
+
+  /**
+   * Replays the pending mutations on the app backend in order. The replay stops when the app backend cannot be reached, the remaining mutations stay in the outbox. The mutations rejected by the app backend are removed from the outbox together with the local copies of their objects, so that the objects are fetched again.
+   *
+   * If the replay is already in progress, returns the result of the ongoing replay.
+   * @returns {Promise<OfflineSyncResult>} The number of replayed, conflicting and pending mutations and the rejected mutations
+   */
+  sync(): Promise<OfflineSyncResult> {
+    if (!this.#syncing)
+      this.#syncing = (async () => {
+        try {
+          return await this.#replay();
+        } finally {
+          this.#syncing = null;
+        }
+      })();
+
+    return this.#syncing;
+  }
+
+  /**
+   * Removes the local copies of the objects and the pending mutations from the store.
+   * @returns Resolves when the store is cleared
+   */
+  async clear(): Promise<void> {
+    const keys = [
+      ...(await this.#store.keys(OBJECT_PREFIX)),
+      ...(await this.#store.keys(OUTBOX_PREFIX)),
+    ];
+    for (const key of keys) await this.#store.delete(key);
+    this.#seq = null;
+  }
+
+  /**
+   * The middleware of the replica. Stores the objects returned by the database requests, and serves the reads from and queues the mutations in the replica when the app backend cannot be reached.
+   * @private
+   * @param {MiddlewareRequest} request The outgoing request
+   * @param {Function} next Sends the request to the next middleware
+   * @returns The response of the app backend or the replica
+   */
+  async #intercept(
+    request: MiddlewareRequest,
+    next: () => Promise<{ data: any | null; errors: APIError | null }>
+  ): Promise<{ data: any | null; errors: APIError | null }> {
+    const { method, path, body } = request;
+    const route = path.startsWith(DB_PATH)
+      ? path.substring(DB_PATH.length)
+      : "";
+    const type = MUTATION_ROUTES[route];
+    if (
+      method !== "POST" ||
+      (!type && !READ_ROUTES.includes(route)) ||
+      typeof body?.model !== "string" ||
+      // Sub-model objects are stored in their top-level objects
+      body.model.includes(".") ||
+      this.#ownRequests.has(body)
+    )
+      return await next();
+
+    // A mutation cannot overtake the pending mutations
+    if (type && (await this.#store.keys(OUTBOX_PREFIX)).length > 0) {
+      const queued = await this.#enqueue(type, body);
+      if (this.#online) this.#scheduleSync();
+      return queued;
+    }
+
+    let response: { data: any | null; errors: APIError | null };
+    try {
+      response = await next();
+    } catch (err) {
+      if (err instanceof ClientError) throw err;
+      return await this.#handleOffline(route, body, () => {
+        throw err;
+      });
+    }
+
+    if (isNetworkFailure(response.errors))
+      return await this.#handleOffline(route, body, () => response);
+
+    if (!this.#online) {
+      this.#online = true;
+      this.#scheduleSync();
+    }
+    if (!response.errors) await this.#storeResult(route, body, response.data);
+    return response;
+  }
+
+  /**
+   * Serves the read request from the replica or queues the mutation while the app backend cannot be reached.
+   * @private
+   * @param {string} route The path of the database route
+   * @param {KeyValuePair} body The body of the request
+   * @param {Function} fail Returns or throws the original failure if the request cannot be served from the replica
+   * @returns The response of the replica
+   */
+  async #handleOffline(
+    route: string,
+    body: KeyValuePair,
+    fail: () => { data: any | null; errors: APIError | null }
+  ): Promise<{ data: any | null; errors: APIError | null }> {
+    this.#online = false;
+    const type = MUTATION_ROUTES[route];
+    if (type) return await this.#enqueue(type, body);
+
+    const data = await this.#readLocal(route, body);
+    return data === undefined ? fail() : { data, errors: null };
+  }
+
+  /**
+   * Runs the read request on the local copies of the objects.
+   * @private
+   * @param {string} route The path of the database route
+   * @param {KeyValuePair} body The body of the request
+   * @returns The result of the request, `undefined` if the request cannot be run on the replica
+   */
+  async #readLocal(route: string, body: KeyValuePair): Promise<any> {
+    const { model } = body;
+    if (route === "/object/get") {
+      if (body.lookups?.length) return undefined;
+      const object = await this.#store.get(getObjectKey(model, body.id));
+      if (object) return object;
+
+      const mutations = await this.getPendingMutations();
+      return mutations.some(
+        (entry) =>
+          entry.model === model &&
+          entry.id === body.id &&
+          entry.type === "delete"
+      )
+        ? null
+        : undefined;
+    }
+
+    const query: DBAction | null = body.query;
+    if (!isCompleteQuery(query)) return undefined;
+
+    let isMatch: (object: KeyValuePair) => boolean = () => true;
+    if (query?.expression) {
+      try {
+        isMatch = compileFilter(query.expression);
+      } catch (err) {
+        return undefined;
+      }
+    }
+
+    const objects: KeyValuePair[] = [];
+    for (const key of await this.#store.keys(`${OBJECT_PREFIX}${model}:`)) {
+      const object = await this.#store.get(key);
+      if (object && isMatch(object)) objects.push(object);
+    }
+    const items = sortItems(objects, query?.sort, (object) => object);
+    if (route === "/get-single") return items[0] ?? null;
+
+    const limit = query?.limit && query.limit > 0 ? query.limit : null;
+    const currentPage = query?.page && query.page > 0 ? query.page : 1;
+    const pageSize = limit ?? items.length;
+    const start = (currentPage - 1) * pageSize;
+    const result = limit ? items.slice(start, start + limit) : items;
+
+    return body.returnCountInfo
+      ? {
+          result,
+          countInfo: {
+            count: items.length,
+            totalPages: pageSize > 0 ? Math.ceil(items.length / pageSize) : 0,
+            currentPage,
+            pageSize,
+          },
+        }
+      : result;
+  }
+
+  /**
+   * Stores the objects returned by the database request in the replica. The local copies of the objects with pending mutations are not overwritten.
+   * @private
+   * @param {string} route The path of the database route
+   * @param {KeyValuePair} body The body of the request
+   * @param {any} data The result of the request
+   */
+  async #storeResult(route: string, body: KeyValuePair, data: any) {
+    const { model } = body;
+    if (route === "/object/delete" || (route === "/object/get" && !data)) {
+      await this.#store.delete(getObjectKey(model, body.id));
+      return;
+    }
+    if (route === "/object/get" && body.lookups?.length) return;
+    if (
+      (route === "/get-list" || route === "/get-single") &&
+      !isCompleteQuery(body.query)
+    )
+      return;
+
+    const objects: KeyValuePair[] = Array.isArray(data)
+      ? data
+      : Array.isArray(data?.result)
+      ? data.result
+      : [data];
+    const pending = new Set(
+      (await this.getPendingMutations())
+        .filter((entry) => entry.model === model)
+        .map((entry) => entry.id)
+    );
+    for (const object of objects) {
+      if (typeof object?._id === "string" && !pending.has(object._id))
+        await this.#store.set(getObjectKey(model, object._id), object);
+    }
+  }
+
+  /**
+   * Applies the mutation to the local copy of its object and queues it in the outbox.
+   * @private
+   * @param {OfflineMutation["type"]} type The type of the mutation
+   * @param {KeyValuePair} body The body of the mutation request
+   * @returns The local copy of the object after the mutation, `null` if the object is deleted or it has not been fetched before
+   */
+  async #enqueue(
+    type: OfflineMutation["type"],
+    body: KeyValuePair
+  ): Promise<{ data: any | null; errors: APIError | null }> {
+    const { model, values, updates, options } = body;
+    const id: string = type === "create" ? createLocalId() : body.id;
+    const key = getObjectKey(model, id);
+    const current: KeyValuePair | undefined =
+      type === "create" ? undefined : await this.#store.get(key);
+
+    let data: KeyValuePair | null = null;
+    if (type === "create") data = { ...copy(values ?? {}), _id: id };
+    else if (current && type === "update") {
+      const fields = copy(values ?? {});
+      data = current;
+      for (const field of Object.keys(fields))
+        if (!SYSTEM_FIELDS.includes(field)) data[field] = fields[field];
+    } else if (current && type === "updateFields") {
+      data = current;
+      applyFieldUpdates(data, updates ?? []);
+    }
+
+    // An object created while offline is not sent to the app backend at all if it is deleted before the creation is replayed
+    if (type === "delete" && id.startsWith("local_")) {
+      for (const entry of await this.getPendingMutations())
+        if (entry.model === model && entry.id === id)
+          await this.#store.delete(getOutboxKey(entry.seq));
+      await this.#store.delete(key);
+      return { data: null, errors: null };
+    }
+
+    if (data) await this.#store.set(key, data);
+    else await this.#store.delete(key);
+
+    const mutation: OfflineMutation = {
+      seq: await this.#nextSeq(),
+      type,
+      model,
+      id,
+      baseUpdatedAt: current?.updatedAt ?? null,
+      createdAt: new Date().toISOString(),
+    };
+    if (values) mutation.values = values;
+    if (updates) mutation.updates = updates;
+    if (options) mutation.options = options;
+    await this.#store.set(getOutboxKey(mutation.seq), mutation);
+
+    return { data, errors: null };
+  }
+
+  /**
+   * Returns the sequence number of the next mutation.
+   * @private
+   * @returns The sequence number
+   */
+  async #nextSeq(): Promise<number> {
+    if (this.#seq === null) {
+      const mutations = await this.getPendingMutations();
+      this.#seq = mutations.length ? mutations[mutations.length - 1].seq : 0;
+    }
+
+    return ++this.#seq;
+  }
+
+  /**
+   * Replays the pending mutations unless automatic synchronization is disabled.
+   * @private
+   */
+  #scheduleSync() {
+    // The failures of the replay are reported by the next sync call
+    if (this.#autoSync) this.sync().catch(() => undefined);
+  }
+
+  /**
+   * Replays the pending mutations in order, including the mutations queued during the replay.
+   * @private
+   * @returns The result of the replay
+   */
+  async #replay(): Promise<OfflineSyncResult> {
+    const result: OfflineSyncResult = {
+      synced: 0,
+      conflicts: 0,
+      failed: [],
+      pending: 0,
+    };
+
+    let mutations = await this.getPendingMutations();
+    while (mutations.length > 0) {
+      const mutation = mutations[0];
+      const errors = await this.#replayMutation(mutation, result);
+      if (isNetworkFailure(errors)) {
+        this.#online = false;
+        break;
+      }
+
+      this.#online = true;
+      await this.#store.delete(getOutboxKey(mutation.seq));
+      if (errors) {
+        result.failed.push({ mutation, errors });
+        await this.#store.delete(getObjectKey(mutation.model, mutation.id));
+        // The later mutations of an object that could not be created cannot be replayed either
+        if (mutation.type === "create")
+          for (const entry of mutations.slice(1))
+            if (entry.model === mutation.model && entry.id === mutation.id) {
+              result.failed.push({ mutation: entry, errors });
+              await this.#store.delete(getOutboxKey(entry.seq));
+            }
+      }
+
+      mutations = await this.getPendingMutations();
+    }
+
+    result.pending = mutations.length;
+    return result;
+  }
+
+  /**
+   * Resolves the conflict of the mutation if any and sends it to the app backend. The local copy of the object is updated with the result.
+   * @private
+   * @param {OfflineMutation} mutation The pending mutation
+   * @param {OfflineSyncResult} result The result of the replay, where the replayed and conflicting mutations are counted
+   * @returns The errors of the replay, `null` if the mutation is replayed or discarded
+   */
+  async #replayMutation(
+    mutation: OfflineMutation,
+    result: OfflineSyncResult
+  ): Promise<APIError | null> {
+    const { model, id, options } = mutation;
+    const key = getObjectKey(model, id);
+    const policy = this.#conflictPolicy;
+    let { type, values } = mutation;
+
+    if (
+      type !== "create" &&
+      mutation.baseUpdatedAt &&
+      policy !== "last-write-wins"
+    ) {
+      const fetched = await this.#send("/object/get", {
+        options: { cache: "nocache" },
+        id,
+        model,
+      });
+      if (fetched.errors) return fetched.errors;
+      const server = fetched.data;
+
+      // The object has been deleted on the app backend
+      if (!server) {
+        result.conflicts++;
+        await this.#store.delete(key);
+        return null;
+      }
+
+      if (server.updatedAt !== mutation.baseUpdatedAt) {
+        result.conflicts++;
+        const resolution =
+          policy === "server-wins"
+            ? "server"
+            : await policy({
+                mutation,
+                local: (await this.#store.get(key)) ?? null,
+                server,
+              });
+
+        if (resolution === "server") {
+          await this.#storeReplayed(mutation, server, false);
+          return null;
+        }
+        if (typeof resolution === "object") {
+          type = "update";
+          values = resolution;
+        }
+      }
+    }
+
+    const route = Object.keys(MUTATION_ROUTES).find(
+      (entry) => MUTATION_ROUTES[entry] === type
+    ) as string;
+    const body: KeyValuePair = { options: options ?? {}, model };
+    if (type !== "create") body.id = id;
+    if (type === "create" || type === "update") body.values = values ?? {};
+    if (type === "updateFields") body.updates = mutation.updates ?? [];
+
+    const { data, errors } = await this.#send(route, body);
+    if (errors) return errors;
+
+    result.synced++;
+    if (type === "delete") await this.#store.delete(key);
+    else if (data) await this.#storeReplayed(mutation, data, true);
+    return null;
+  }
+
+  /**
+   * Stores the version of the object returned by the app backend after its mutation is replayed or discarded. If the object has other pending mutations, the local copy is kept. The temporary id of an object created while offline is replaced with its actual id.
+   * @private
+   * @param {OfflineMutation} mutation The replayed or discarded mutation
+   * @param {KeyValuePair} object The object returned by the app backend
+   * @param {boolean} rebase Whether the other pending mutations of the object are based on the returned version, namely the mutation is replayed
+   */
+  async #storeReplayed(
+    mutation: OfflineMutation,
+    object: KeyValuePair,
+    rebase: boolean
+  ) {
+    const { model, id } = mutation;
+    const objectId: string = object._id ?? id;
+    const key = getObjectKey(model, objectId);
+    const pending = (await this.getPendingMutations()).filter(
+      (entry) =>
+        entry.seq !== mutation.seq && entry.model === model && entry.id === id
+    );
+
+    if (rebase)
+      for (const entry of pending) {
+        entry.id = objectId;
+        entry.baseUpdatedAt = object.updatedAt ?? null;
+        await this.#store.set(getOutboxKey(entry.seq), entry);
+      }
+
+    const local = await this.#store.get(getObjectKey(model, id));
+    if (objectId !== id) await this.#store.delete(getObjectKey(model, id));
+    await this.#store.set(
+      key,
+      pending.length > 0 && local
+        ? {
+            ...local,
+            _id: objectId,
+            updatedAt: rebase ? object.updatedAt : local.updatedAt,
+          }
+        : object
+    );
+  }
+
+  /**
+   * Sends the request of the replica to the app backend, bypassing the replica middleware.
+   * @private
+   * @param {string} route The path of the database route
+   * @param {KeyValuePair} body The body of the request
+   * @returns The result of the request, the failures to send the request are returned as `network_error` errors
+   */
+  async #send(
+    route: string,
+    body: KeyValuePair
+  ): Promise<{ data: any | null; errors: APIError | null }> {
+    this.#ownRequests.add(body);
+    try {
+      return await settleRequest(() =>
+        this.#fetcher.post(`${DB_PATH}${route}`, body)
+      );
+    } catch (err) {
+      if (err instanceof ClientError) throw err;
+      return { data: null, errors: createNetworkError(err).toAPIError() };
+    }
+  }
+}
@@ -1,6 +1,35 @@
 import { APIBase } from "./APIBase";
+import { FieldUpdateBuilder } from "./FieldUpdateBuilder";
 import { Fetcher } from "./utils/Fetcher";
 import { DBObject } from "./DBObject";
+import { LiveQuery } from "./LiveQuery";
+import { RealtimeManager } from "./RealtimeManager";
+import { ClientError } from "./utils/ClientError";
+import {
+  createRequestError,
+  settleRequest,
+  runConcurrently,
+  isUniqueConstraintError,
+  selectFields,
+} from "./utils/helpers";
+import { getFieldValue } from "./utils/expression";
+import {
+  getKeysetSort,
+  reverseSort,
+  encodeCursor,
+  decodeCursor,
+  createKeysetExpression,
+} from "./utils/cursor";
+import {
+  getTimeSeriesBuckets,
+  getGroupExpression,
+  getTimeSeriesComputations,
+  toTimeSeries,
+} from "./utils/timeSeries";
+import { mergeSearchResults } from "./utils/search";
+import { Expression } from "./Expression";
+import { Computation } from "./Computation";
+import { ExpressionBuilder, expr } from "./ExpressionBuilder";
 import {
   APIError,
   DBAction,
@@ -10,8 +39,87 @@ import {
   DeleteInfo,
   FieldUpdate,
   GroupComputation,
+  RequestOptions,
+  FieldPath,
+  ListResult,
+  IterateOptions,
+  CursorPage,
+  BulkOptions,
+  BulkCreateOptions,
+  BulkResult,
+  BulkUpdateEntry,
+  UpsertOptions,
+  UpsertResult,
+  KeyValuePair,
+  SerializedQuery,
+  SelectedFields,
+  LiveQueryOptions,
+  LiveQueryListener,
+  ComputationMap,
+  ComputeResult,
+  GroupKey,
+  FieldPathValue,
+  TimeSeriesOptions,
+  TimeSeriesPoint,
+  SearchFieldWeights,
+  ScoredObject,
 } from "./types";
 
+const DEFAULT_PAGE_SIZE = 100;
+const DEFAULT_BULK_CHUNK_SIZE = 100;
+const DEFAULT_BULK_CONCURRENCY = 4;
+// The fields of the db action that can be specified in a serialized query
+const ACTION_FIELDS = [
+  "expression",
+  "lookups",
+  "page",
+  "limit",
+  "sort",
+  "omit",
+  "group",
+];
+
+// The top-level fields of the objects retrieved by the queries that select fields, keyed by the fetcher of the client and the model name. The queries that select fields omit the other known fields of the model, so that the app backend does not return them.
+const retrievedFields = new WeakMap<Fetcher, Map<string, Set<string>>>();
+
+/**
+ * Creates a deep copy of the db action. Expressions of the lookups are copied as expression strings.
+ * @param {DBAction} action The db action to copy
+ * @returns The copied db action
+ */
+function copyAction(action: DBAction): DBAction {
+  return JSON.parse(JSON.stringify(action));
+}
+
+/**
+ * Checks whether the selected and omitted fields are consistent, namely no selected field is omitted (either itself or its parent object field) and each omitted field is a sub-object field of a selected field.
+ * @param {string[] | null} [select] The selected fields
+ * @param {string[] | null} [omit] The omitted fields
+ * @throws Throws an `invalid_projection` error if the selected and omitted fields are not consistent
+ */
+function checkProjection(select?: string[] | null, omit?: string[] | null) {
+  if (!select || !omit) return;
+
+  const isWithin = (field: string, parent: string) =>
+    field === parent || field.startsWith(`${parent}.`);
+  for (const field of omit) {
+    const selected = select.find((entry) => isWithin(entry, field));
+    if (selected)
+      throw new ClientError(
+        "invalid_projection",
+        `The field '${selected}' cannot be both selected and omitted`,
+        { select, omit }
+      );
+
+    if (!select.some((entry) => isWithin(field, entry)))
+      throw new ClientError(
+        "invalid_projection",
+        `The omitted field '${field}' is not within the selected fields`,
+        { select, omit }
+      );
+  }
+}
+
 /**
  * The query builder is primarily used to build database queries or run CRUD operations on a model (i.e., table, collection) of your application.
  *
@@ -26,10 +134,24 @@ import {
  *    .get();
  * ```
  *
+ * The query builder can be typed with the model's object type, which types the returned objects and the field names used in the modifiers such as `sort` and `omit`.
+ * ```
+ * const { data } = await altogic.db.model<UserOrder>('userOrders').sort('orderDate', 'desc').get();
+ * ```
+ *
+ * The query modifiers change the query builder they are called on. Use {@link clone} to reuse a base query, or {@link immutable} to get a query builder whose modifiers always return a new query builder. Queries can be serialized with {@link toJSON} and converted back to query builders with {@link DatabaseManager.fromJSON}.
+ *
  * @export
  * @class QueryBuilder
+ * @template T The type of the model objects
+ * @template S The fields selected by {@link select}, which narrow the type of the retrieved objects
+ * @template G The type of the `groupby` values of the groups specified by {@link group}, which types the results of {@link compute}
  */
-export class QueryBuilder extends APIBase {
+export class QueryBuilder<
+  T extends object = object,
+  S extends string = never,
+  G = never
+> extends APIBase {
   /**
    * The name of the model that the query builder will be operating on
    * @private
@@ -43,14 +165,48 @@ export class QueryBuilder extends APIBase {
    */
   #action: DBAction;
 
+  /**
+   * The cursor of keyset pagination and whether to get the objects coming after or before the cursor
+   * @private
+   * @type {{ direction: "after" | "before"; value: string } | null}
+   */
+  #cursor: { direction: "after" | "before"; value: string } | null;
+
+  /**
+   * The fields selected by {@link select}. The app backend does not select fields, so the known fields of the model that are not selected are omitted in the requests, and the selected fields are picked from the retrieved objects by the client.
+   * @private
+   * @type {string[] | null}
+   */
+  #select: string[] | null;
+
+  /**
+   * Whether the query modifiers return a new query builder instead of modifying this one
+   * @private
+   * @type {boolean}
+   */
+  #immutable: boolean;
+
+  /**
+   * Returns the realtime manager that receives the change events of the live queries
+   * @private
+   * @type {() => RealtimeManager}
+   */
+  #getRealtime?: () => RealtimeManager;
+
   /**
    * Creates an instance of QueryBuilder to run queries and CRUD operations on your app's database.
    * @param {string} name The name of the model that this query builder will be operating on
    * @param {Fetcher} fetcher The http client to make RESTful API calls to the application's execution engine
+   * @param {() => RealtimeManager} [getRealtime] Returns the realtime manager that receives the change events of the live queries
    */
-  constructor(name: string, fetcher: Fetcher) {
+  constructor(
+    name: string,
+    fetcher: Fetcher,
+    getRealtime?: () => RealtimeManager
+  ) {
     super(fetcher);
     this.#modelName = name;
+    this.#getRealtime = getRealtime;
     this.#action = {
       expression: null,
       lookups: null,
@@ -60,6 +216,113 @@ export class QueryBuilder extends APIBase {
       omit: null,
       group: null,
     };
+    this.#cursor = null;
+    this.#select = null;
+    this.#immutable = false;
+  }
+
+  /**
+   * Creates a query builder from the query serialized by {@link toJSON}, e.g., to run a saved search on the server. Use {@link DatabaseManager.fromJSON} to create the query builder with the http client of your Altogic client.
+   * @param {SerializedQuery | string} json The serialized query or its JSON string
+   * @param {Fetcher} fetcher The http client to make RESTful API calls to the application's execution engine
+   * @param {() => RealtimeManager} [getRealtime] Returns the realtime manager that receives the change events of the live queries
+   * @throws Throws an `invalid_query_json` error if the serialized query is malformed
+   * @returns {QueryBuilder<T>} Returns the query builder of the serialized query
+   */
+  static fromJSON<T extends object = object>(
+    json: SerializedQuery | string,
+    fetcher: Fetcher,
+    getRealtime?: () => RealtimeManager
+  ): QueryBuilder<T> {
+    let data: any;
+    try {
+      data = typeof json === "string" ? JSON.parse(json) : json;
+    } catch (err) {
+      data = null;
+    }
+
+    const action = data?.action;
+    const select = data?.select;
+    const cursor = data?.cursor;
+    if (
+      typeof data?.model !== "string" ||
+      typeof action !== "object" ||
+      action === null ||
+      Object.keys(action).some((key) => !ACTION_FIELDS.includes(key)) ||
+      (select !== undefined &&
+        select !== null &&
+        (!Array.isArray(select) ||
+          select.some((field: unknown) => typeof field !== "string"))) ||
+      (cursor !== undefined &&
+        cursor !== null &&
+        (!["after", "before"].includes(cursor.direction) ||
+          typeof cursor.value !== "string"))
+    )
+      throw new ClientError(
+        "invalid_query_json",
+        "The serialized query is malformed"
+      );
+
+    const query = new QueryBuilder<T>(data.model, fetcher, getRealtime);
+    query.#action = { ...query.#action, ...copyAction(action) };
+    query.#cursor = cursor ? { ...cursor } : null;
+    query.#select = select ? [...select] : null;
+    return query;
+  }
+
+  /**
+   * Creates a copy of the query builder with the same model, query modifiers, cursor and immutable mode. Modifying the copy does not change this query builder, so a base query can be reused to build different queries.
+   *
+   * > **Example:**
+   * > ```
+   * > const base = altogic.db.model("orders").filter("this.status == 'open'");
+   * > const newest = base.clone().sort("createdAt", "desc");
+   * > const largest = base.clone().sort("total", "desc");
+   * > ```
+   * @returns {QueryBuilder<T, S, G>} Returns the copy of the query builder
+   */
+  clone(): QueryBuilder<T, S, G> {
+    const query = new QueryBuilder<T, S, G>(
+      this.#modelName,
+      this.fetcher,
+      this.#getRealtime
+    );
+    query.#action = copyAction(this.#action);
+    query.#cursor = this.#cursor ? { ...this.#cursor } : null;
+    query.#select = this.#select ? [...this.#select] : null;
+    query.#immutable = this.#immutable;
+    return query;
+  }
+
+  /**
+   * Returns a copy of the query builder in immutable mode, where each query modifier (e.g., {@link filter}, {@link sort}, {@link limit}) returns a new query builder instead of modifying the query builder it is called on. Immutable query builders can be safely shared and reused as base queries.
+   *
+   * > **Example:**
+   * > ```
+   * > const base = altogic.db.model("orders").immutable().filter("this.status == 'open'");
+   * > const newest = base.sort("createdAt", "desc");
+   * > const largest = base.sort("total", "desc");
+   * > ```
+   * @param {boolean} [enabled] Whether the returned query builder is immutable, by default `true`
+   * @returns {QueryBuilder<T, S, G>} Returns the copy of the query builder in the specified mode
+   */
+  immutable(enabled: boolean = true): QueryBuilder<T, S, G> {
+    const query = this.clone();
+    query.#immutable = enabled;
+    return query;
+  }
+
+  /**
+   * Returns the serializable form of the query, namely the model name, the {@link DBAction} built by the query modifiers, the selected fields and the cursor of keyset pagination. The query can be stored (e.g., as a saved search) and converted back to a query builder with {@link DatabaseManager.fromJSON} or {@link QueryBuilder.fromJSON}. `JSON.stringify` uses this method to serialize the query builder.
+   * @returns {SerializedQuery} The serialized query
+   */
+  toJSON(): SerializedQuery {
+    return {
+      model: this.#modelName,
+      action: copyAction(this.#action),
+      select: this.#select ? [...this.#select] : null,
+      cursor: this.#cursor ? { ...this.#cursor } : null,
+    };
   }
 
   /**
@@ -70,8 +333,8 @@ export class QueryBuilder extends APIBase {
    * @param {string} [id] The unique identifier of the object that is stored in the database
    * @returns A DBObject instance
    */
-  object(id?: string): DBObject {
-    return new DBObject(this.#modelName, this.fetcher, id);
+  object(id?: string): DBObject<T> {
+    return new DBObject<T>(this.#modelName, this.fetcher, id);
   }
 
   /**
@@ -277,12 +540,29 @@ export class QueryBuilder extends APIBase {
    * >    ```
    *
    * The first data query above searches for products that are of type plastic and has a stock quantity between 100-200 items. The second data query search for products either metal and with a weight to volume ration greater than 2 or plastics with a weight to volume ration less than or equal to 2.
-   * @param {string} expression The query expression string
-   * @returns {QueryBuilder} Returns the query builder itself so that you can chain other methods
+   *
+   * Instead of building the expression string by concatenation, you can build the query with the {@link ExpressionBuilder}, which escapes the literal values and encloses the operands in parentheses when needed. If a function is passed, it is called with an expression builder that is typed with the model type of the query builder.
+   *
+   * > **Example:**
+   * > ```
+   * > query.filter((e) => e.and(e.gt("quantity", 100), e.lt("quantity", 200), e.eq("type", "plastic")))
+   * > ```
+   * @param {string | Expression | ((builder: ExpressionBuilder<T>) => Expression)} expression The query expression string, the built expression or a function that builds the expression
+   * @returns {QueryBuilder<T, S, G>} Returns the query builder itself, or a new query builder in immutable mode, so that you can chain other methods
    */
-  filter(expression: string): QueryBuilder {
-    this.#action.expression = expression;
-    return this;
+  filter(
+    expression:
+      | string
+      | Expression
+      | ((builder: ExpressionBuilder<T>) => Expression)
+  ): QueryBuilder<T, S, G> {
+    return this.#modify((query) => {
+      query.#action.expression = (
+        typeof expression === "function"
+          ? expression(new ExpressionBuilder<T>())
+          : expression
+      ).toString();
+    });
   }
 
   /**
@@ -290,12 +570,13 @@ export class QueryBuilder extends APIBase {
    *
    * If multiple lookup method calls are chained then each call is concatenated to a list, so that you can perform multiple lookups.
    * @param {SimpleLookup | ComplexLookup} lookup The lookup to make (left outer join) while getting the object from the database
-   * @returns {QueryBuilder} Returns the query builder itself so that you can chain other methods
+   * @returns {QueryBuilder<T, S, G>} Returns the query builder itself, or a new query builder in immutable mode, so that you can chain other methods
    */
-  lookup(lookup: SimpleLookup | ComplexLookup): QueryBuilder {
-    if (this.#action.lookups) this.#action.lookups.push(lookup);
-    else this.#action.lookups = [lookup];
-    return this;
+  lookup(lookup: SimpleLookup | ComplexLookup): QueryBuilder<T, S, G> {
+    return this.#modify((query) => {
+      if (query.#action.lookups) query.#action.lookups.push(lookup);
+      else query.#action.lookups = [lookup];
+    });
   }
 
   /**
@@ -303,11 +584,12 @@ export class QueryBuilder extends APIBase {
    *
    * If multiple page method calls are chained then the last one overwrites the previous page values.
    * @param {number} pageNumber An integer that specifies the page number
-   * @returns {QueryBuilder} Returns the query builder itself so that you can chain other methods
+   * @returns {QueryBuilder<T, S, G>} Returns the query builder itself, or a new query builder in immutable mode, so that you can chain other methods
    */
-  page(pageNumber: number): QueryBuilder {
-    this.#action.page = pageNumber;
-    return this;
+  page(pageNumber: number): QueryBuilder<T, S, G> {
+    return this.#modify((query) => {
+      query.#action.page = pageNumber;
+    });
   }
 
   /**
@@ -315,11 +597,38 @@ export class QueryBuilder extends APIBase {
    *
    * If multiple limit method calls are chained then the last one overwrites the previous limit values.
    * @param {number} limitCount An integer that specifies the max number of objects to return
-   * @returns {QueryBuilder} Returns the query builder itself so that you can chain other methods
+   * @returns {QueryBuilder<T, S, G>} Returns the query builder itself, or a new query builder in immutable mode, so that you can chain other methods
+   */
+  limit(limitCount: number): QueryBuilder<T, S, G> {
+    return this.#modify((query) => {
+      query.#action.limit = limitCount;
+    });
+  }
+
+  /**
+   * Sets the cursor of keyset (cursor) pagination, so that {@link getCursorPage} returns the objects coming after the object that the cursor points to, in the order of the {@link sort} entries. Unlike {@link page}, keyset pagination does not skip or duplicate objects when objects are created or deleted between page requests.
+   *
+   * The cursor needs to be the `nextCursor` (or `prevCursor`) returned by {@link getCursorPage} for a query with the same sort entries. If multiple after or before method calls are chained then the last one overwrites the previous cursor.
+   * @param {string} cursor The cursor returned by {@link getCursorPage}
+   * @returns {QueryBuilder<T, S, G>} Returns the query builder itself, or a new query builder in immutable mode, so that you can chain other methods
+   */
+  after(cursor: string): QueryBuilder<T, S, G> {
+    return this.#modify((query) => {
+      query.#cursor = { direction: "after", value: cursor };
+    });
+  }
+
+  /**
+   * Sets the cursor of keyset (cursor) pagination, so that {@link getCursorPage} returns the objects coming before the object that the cursor points to, in the order of the {@link sort} entries. The objects of the page are still returned in the sort order.
+   *
+   * The cursor needs to be the `prevCursor` (or `nextCursor`) returned by {@link getCursorPage} for a query with the same sort entries. If multiple after or before method calls are chained then the last one overwrites the previous cursor.
+   * @param {string} cursor The cursor returned by {@link getCursorPage}
+   * @returns {QueryBuilder<T, S, G>} Returns the query builder itself, or a new query builder in immutable mode, so that you can chain other methods
    */
-  limit(limitCount: number): QueryBuilder {
-    this.#action.limit = limitCount;
-    return this;
+  before(cursor: string): QueryBuilder<T, S, G> {
+    return this.#modify((query) => {
+      query.#cursor = { direction: "before", value: cursor };
+    });
   }
 
   /**
@@ -328,13 +637,17 @@ export class QueryBuilder extends APIBase {
    * If multiple sort method calls are chained then each call is concatenated to a list, so that you can perform sorting by multiple fields.
    * @param {string} fieldName The name of the field that will be used in sorting the returned objects. The field name can be in dot-notation to specify sub-object fields (e.g., field.subField)
    * @param {'asc' | 'desc'} sortDirection Sort direction whether ascending or descending
-   * @returns {QueryBuilder} Returns the query builder itself so that you can chain other methods
+   * @returns {QueryBuilder<T, S, G>} Returns the query builder itself, or a new query builder in immutable mode, so that you can chain other methods
    */
-  sort(fieldName: string, sortDirection: "asc" | "desc"): QueryBuilder {
-    if (this.#action.sort)
-      this.#action.sort.push({ field: fieldName, direction: sortDirection });
-    else this.#action.sort = [{ field: fieldName, direction: sortDirection }];
-    return this;
+  sort(
+    fieldName: FieldPath<T>,
+    sortDirection: "asc" | "desc"
+  ): QueryBuilder<T, S, G> {
+    return this.#modify((query) => {
+      const entry = { field: fieldName, direction: sortDirection };
+      if (query.#action.sort) query.#action.sort.push(entry);
+      else query.#action.sort = [entry];
+    });
   }
 
   /**
@@ -342,24 +655,78 @@ export class QueryBuilder extends APIBase {
    *
    * If multiple omit method calls are chained then each call is concatenated to a list.
    * @param {...string[]} fields The name of the fields that will be omitted in retrieved objects. The field name can be in dot-notation to specify sub-object fields (e.g., field.subField)
-   * @returns {QueryBuilder} Returns the query builder itself so that you can chain other methods
+   * @throws Throws an `invalid_projection` error if an omitted field is also selected or it is not within the selected fields
+   * @returns {QueryBuilder<T, S, G>} Returns the query builder itself, or a new query builder in immutable mode, so that you can chain other methods
+   */
+  omit(...fields: FieldPath<T>[]): QueryBuilder<T, S, G> {
+    const omit = [...(this.#action.omit ?? []), ...fields];
+    checkProjection(this.#select, omit);
+    return this.#modify((query) => {
+      query.#action.omit = omit;
+    });
+  }
+
+  /**
+   * Applies a field mask to the result and returns only the selected fields, so that the fields added to the model later are not returned unless they are selected. The `_id` field is always returned. Use the dot-notation to select the sub-object fields or the fields of the looked up objects (e.g., `address.city` or `customer.name`). Selection applies to the objects returned by the query methods (e.g., {@link get}, {@link getSingle} and {@link searchText}).
+   *
+   * The app backend can only omit fields, so the client keeps track of the top-level fields of the objects retrieved for each model, and the requests of the queries with selected fields omit the known fields that are not selected (except the sort fields). The first query of a model and the fields added to the model later are still downloaded once, but they are not returned by the query methods.
+   *
+   * The selected fields can be combined with {@link omit} to exclude the sub-object fields of a selected field (e.g., select `address` and omit `address.zip`). A field cannot be both selected and omitted and the omitted fields need to be within the selected fields.
+   *
+   * If the query builder is typed with the model's object type, the type of the retrieved objects is narrowed down to the selected fields.
+   *
+   * If multiple select method calls are chained then each call is concatenated to a list.
+   * @param {...string[]} fields The name of the fields that will be returned in retrieved objects. The field name can be in dot-notation to specify sub-object fields (e.g., field.subField)
+   * @throws Throws an `invalid_projection` error if a selected field is also omitted or an omitted field is not within the selected fields
+   * @returns {QueryBuilder<T, S | P, G>} Returns the query builder itself, or a new query builder in immutable mode, so that you can chain other methods
    */
-  omit(...fields: string[]): QueryBuilder {
-    if (this.#action.omit) this.#action.omit.push(...fields);
-    else this.#action.omit = [...fields];
-    return this;
+  select<P extends FieldPath<T>>(...fields: P[]): QueryBuilder<T, S | P, G> {
+    const select = [...(this.#select ?? []), ...fields];
+    checkProjection(select, this.#action.omit);
+    return this.#modify((query) => {
+      query.#select = select;
+    }) as QueryBuilder<T, S | P, G>;
   }
 
   /**
    * Groups the objects of the model by the specified expression or by the specified fields. This method is chained with the {@link compute} method to calculated group statistics of your models.
    *
+   * The `groupby` value of each group in the computation results is the value of the expression if the objects are grouped by an expression (a single field name is also an expression), or an object of the field values keyed by the field names if the objects are grouped by a list of fields. If the query builder is typed with the model's object type, the type of the `groupby` values is inferred from the grouping fields.
+   *
+   * If multiple group method calls are chained then the last one overwrites the previous group values.
+   * @param {string[]} fields The names of the fields that will be used for grouping. The field name can be in dot-notation to specify sub-object fields (e.g., field.subField)
+   * @returns {QueryBuilder<T, S, GroupKey<T, P>>} Returns the query builder itself, or a new query builder in immutable mode, so that you can chain other methods
+   */
+  group<P extends FieldPath<T>>(
+    fields: P[]
+  ): QueryBuilder<T, S, GroupKey<T, P>>;
+  /**
+   * Groups the objects of the model by the value of the specified field. This method is chained with the {@link compute} method to calculated group statistics of your models.
+   *
+   * If multiple group method calls are chained then the last one overwrites the previous group values.
+   * @param {string} field The name of the field that will be used for grouping. The field name can be in dot-notation to specify sub-object fields (e.g., field.subField)
+   * @returns {QueryBuilder<T, S, FieldPathValue<T, P> | null>} Returns the query builder itself, or a new query builder in immutable mode, so that you can chain other methods
+   */
+  group<P extends FieldPath<T>>(
+    field: P
+  ): QueryBuilder<T, S, FieldPathValue<T, P> | null>;
+  /**
+   * Groups the objects of the model by the value of the specified expression, e.g., the month of a date field. This method is chained with the {@link compute} method to calculated group statistics of your models.
+   *
    * If multiple group method calls are chained then the last one overwrites the previous group values.
-   * @param {[string]} fieldsOrExpression Either a single expression string or an array of field names that will be used for grouping. In case of field names list, the field name can be in dot-notation to specify sub-object fields (e.g., field.subField)
-   * @returns {QueryBuilder} Returns the query builder itself so that you can chain other methods
+   * @param {string | Expression} expression The expression string or an {@link Expression} created by the {@link ExpressionBuilder}
+   * @returns {QueryBuilder<T, S, any>} Returns the query builder itself, or a new query builder in immutable mode, so that you can chain other methods
    */
-  group(fieldsOrExpression: [string] | string): QueryBuilder {
-    this.#action.group = fieldsOrExpression;
-    return this;
+  group(expression: string | Expression): QueryBuilder<T, S, any>;
+  group(
+    fieldsOrExpression: string[] | string | Expression
+  ): QueryBuilder<T, S, any> {
+    return this.#modify((query) => {
+      query.#action.group =
+        fieldsOrExpression instanceof Expression
+          ? fieldsOrExpression.toString()
+          : fieldsOrExpression;
+    });
   }
 
   /**
@@ -378,17 +745,54 @@ export class QueryBuilder extends APIBase {
    * > If a list of objects is provided as input and if any one of the objects in this list fails during creation, none of the objects will be created in the database, i.e., database transaction will be rolled back
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
-   * @param {object| object[]} values An object or a list of objects that contains the fields and their values to create in the database
-   * @returns Returns the newly create object or list of objects in the database.
+   * @param {object} values An object that contains the fields and their values to create in the database
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the newly create object in the database.
    */
   async create(
-    values: object | object[]
-  ): Promise<{ data: object | object[] | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/create`, {
-      values,
-      query: this.#action,
-      model: this.#modelName,
-    });
+    values: Partial<T>,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | null; errors: APIError | null }>;
+  /**
+   * Creates top level model object(s) in the database. This method ignores all query modifiers except {@link omit}. See table below for applicable modifiers that can be used with this method.
+   *
+   * | Modifier | Chained with create? |
+   * | :--- | :--- |
+   * | filter |  |
+   * | group |  |
+   * | limit |  |
+   * | lookup |  |
+   * | omit | &#10004; |
+   * | page |  |
+   * | sort |  |
+   *
+   * > If a list of objects is provided as input and if any one of the objects in this list fails during creation, none of the objects will be created in the database, i.e., database transaction will be rolled back
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {object[]} values A list of objects that contains the fields and their values to create in the database
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the newly create list of objects in the database.
+   */
+  async create(
+    values: Partial<T>[],
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T[] | null; errors: APIError | null }>;
+  async create(
+    values: Partial<T> | Partial<T>[],
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | T[] | null; errors: APIError | null }> {
+    return await this.fetcher.post(
+      `/_api/rest/v1/db/create`,
+      {
+        values,
+        query: this.#action,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -410,20 +814,63 @@ export class QueryBuilder extends APIBase {
    * @param {object} values An object that contains the fields and their values of a sub-model object to set in the database
    * @param {string} parentId The id of the parent object
    * @param {boolean} returnTop Flag to specify whether to return the newly set child object or the updated top-level object
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the newly create object in the database. If `returnTop` is set to true, it returns the updated top-level object instead of the set sub-model object.
    */
   async set(
-    values: object,
+    values: Partial<T>,
     parentId: string,
-    returnTop: boolean = false
-  ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/set`, {
-      values,
-      parentId,
-      returnTop,
-      query: this.#action,
-      model: this.#modelName,
-    });
+    returnTop?: false,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | null; errors: APIError | null }>;
+  /**
+   * Sets the sub-object field value of the parent object identified by parentId. This method ignores all query modifiers except {@link omit}. See table below for applicable modifiers that can be used with this method.
+   *
+   * | Modifier | Chained with set? |
+   * | :--- | :--- |
+   * | filter |  |
+   * | group |  |
+   * | limit |  |
+   * | lookup |  |
+   * | omit | &#10004; |
+   * | page |  |
+   * | sort |  |
+   *
+   * As an example, assuming you have a `users` top-level model where you define your app users and in this model you have an *object* field called `profile`, which is a sub-model, that you store details about your users. When creating users, you most probably will not be collecting profile information but at a later stage you might collect this information and would like to set the value of the profile. You can use this **set** method to set the profile field of a users object identified by the parentId.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {object} values An object that contains the fields and their values of a sub-model object to set in the database
+   * @param {string} parentId The id of the parent object
+   * @param {boolean} returnTop Flag to specify whether to return the newly set child object or the updated top-level object
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the newly create object in the database. If `returnTop` is set to true, it returns the updated top-level object instead of the set sub-model object.
+   */
+  async set(
+    values: Partial<T>,
+    parentId: string,
+    returnTop: boolean,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | object | null; errors: APIError | null }>;
+  async set(
+    values: Partial<T>,
+    parentId: string,
+    returnTop: boolean = false,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | object | null; errors: APIError | null }> {
+    return await this.fetcher.post(
+      `/_api/rest/v1/db/set`,
+      {
+        values,
+        parentId,
+        returnTop,
+        query: this.#action,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -442,135 +889,647 @@ export class QueryBuilder extends APIBase {
    * As an example, assuming you have a `users` top-level model where you define your app users and in this model you have an **object-list** field called `addresses`, which is a sub-model list, that you store addresses of your users. When creating users, you most probably will not be collecting address information but at a later stage you might collect this information and would like to add these addresses to your users' addresses list. You can use this **append** method to add child object(s) to a user identified by the parentId.
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
-   * @param {object| object[]} values An object or list of objects that contains the fields and their values to append to an object-list
+   * @param {object} values An object that contains the fields and their values to append to an object-list
    * @param {string} parentId The id of the parent object
    * @param {boolean} returnTop Flag to specify whether to return the newly appended child object(s) or the updated top-level object
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the newly create object(s) in the database. If `returnTop` is set to true, it returns the updated top-level object instead of the appended sub-model object(s).
    */
   async append(
-    values: object | object[],
+    values: Partial<T>,
     parentId: string,
-    returnTop: boolean = false
-  ): Promise<{ data: object | object[] | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/append`, {
-      values,
-      parentId,
-      returnTop,
-      query: this.#action,
-      model: this.#modelName,
-    });
-  }
-
+    returnTop?: false,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | null; errors: APIError | null }>;
   /**
-   * Runs the query defined by the query modifiers and returns matching objects array. This method accepts all the query modifiers except {@link group}. See table below for applicable modifiers that can be used with this method.
+   * Appends object(s) to a child-list of the parent object identified by parentId. This method ignores all query modifiers except {@link omit}. See table below for applicable modifiers that can be used with this method.
    *
-   * | Modifier | Chained with get? |
+   * | Modifier | Chained with append? |
    * | :--- | :--- |
-   * | filter |  &#10004; |
+   * | filter |  |
    * | group |  |
-   * | limit |  &#10004; |
-   * | lookup | &#10004; |
-   * | omit |  &#10004; |
-   * | page |  &#10004; |
-   * | sort |  &#10004; |
+   * | limit |  |
+   * | lookup |  |
+   * | omit | &#10004; |
+   * | page |  |
+   * | sort |  |
+   *
+   * As an example, assuming you have a `users` top-level model where you define your app users and in this model you have an **object-list** field called `addresses`, which is a sub-model list, that you store addresses of your users. When creating users, you most probably will not be collecting address information but at a later stage you might collect this information and would like to add these addresses to your users' addresses list. You can use this **append** method to add child object(s) to a user identified by the parentId.
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
-   * @param {boolean} returnCountInfo Flag to specify whether to return the count and pagination information such as total number of objects matched, page number and page size
-   * @returns Returns the array of objects matching the query. If `returnCountInfo=true`, returns an object which includes count information and list of matched objects.
+   * @param {object[]} values A list of objects that contains the fields and their values to append to an object-list
+   * @param {string} parentId The id of the parent object
+   * @param {boolean} returnTop Flag to specify whether to return the newly appended child object(s) or the updated top-level object
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the newly create object(s) in the database. If `returnTop` is set to true, it returns the updated top-level object instead of the appended sub-model object(s).
    */
-  async get(
-    returnCountInfo: boolean = false
-  ): Promise<{ data: object | object[] | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/get-list`, {
-      query: this.#action,
-      returnCountInfo,
-      model: this.#modelName,
-    });
-  }
-
+  async append(
+    values: Partial<T>[],
+    parentId: string,
+    returnTop?: false,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T[] | null; errors: APIError | null }>;
   /**
-   * Runs the specified computation(s) on the model objects and returns the computation results. This method is typically chained with {@link group} and {@link filter} methods. See table below for applicable modifiers that can be used with this method.
+   * Appends object(s) to a child-list of the parent object identified by parentId. This method ignores all query modifiers except {@link omit}. See table below for applicable modifiers that can be used with this method.
    *
-   * | Modifier | Chained with compute? |
+   * | Modifier | Chained with append? |
    * | :--- | :--- |
-   * | filter | &#10004; |
-   * | group | &#10004; |
-   * | limit | &#10004;  |
+   * | filter |  |
+   * | group |  |
+   * | limit |  |
    * | lookup |  |
-   * | omit |  |
-   * | page | &#10004; |
+   * | omit | &#10004; |
+   * | page |  |
    * | sort |  |
    *
-   * For example, you might have an orders model where you keep track of your sales of particular products. Using this method you can calculate the total order revenues, average order size, total number of orders and revenues on a weekly or monthly basis etc. The {@link group} method helps you to group your orders. If you would like to group your orders by the week or the month of the year, you can specify a grouping expression which calculates the week or the month of your order creation date. You can also specify the name of the field in the {@link group} method, such as the productId, which will group your orders by product.
-   *
-   * The computations parameter defines the calculations that you will be running on the filtered and/or grouped objects. You can either specify a single computation or an array of computations. Altogic will perform the specified calculations for each group and return their results. You can specify multiple calculations at the same time, such as, you can calculate the total number of orders, total sales amount, and average order size on a weekly basis, etc. Additionally, you can also sort the computation results ascending or descenging.
-   *
-   * > If you do not specify any {@link group} or {@link filter} methods in your query builder chain, it performs the computations on all objects of the model, namely groups all objects stored in the database into a single group and runs the calculations on this group.
+   * As an example, assuming you have a `users` top-level model where you define your app users and in this model you have an **object-list** field called `addresses`, which is a sub-model list, that you store addresses of your users. When creating users, you most probably will not be collecting address information but at a later stage you might collect this information and would like to add these addresses to your users' addresses list. You can use this **append** method to add child object(s) to a user identified by the parentId.
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
-   * @param {GroupComputation | GroupComputation[]} computations An object or list of objects that contains the fields and their values to append to an object-list
-   * @returns Returns the computation results
+   * @param {object| object[]} values An object or list of objects that contains the fields and their values to append to an object-list
+   * @param {string} parentId The id of the parent object
+   * @param {boolean} returnTop Flag to specify whether to return the newly appended child object(s) or the updated top-level object
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the newly create object(s) in the database. If `returnTop` is set to true, it returns the updated top-level object instead of the appended sub-model object(s).
    */
-  async compute(
-    computations: GroupComputation | GroupComputation[]
-  ): Promise<{ data: object | object[] | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/compute`, {
-      query: this.#action,
-      computations: Array.isArray(computations) ? computations : [computations],
-      model: this.#modelName,
-    });
+  async append(
+    values: Partial<T> | Partial<T>[],
+    parentId: string,
+    returnTop: boolean,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | T[] | object | null; errors: APIError | null }>;
+  async append(
+    values: Partial<T> | Partial<T>[],
+    parentId: string,
+    returnTop: boolean = false,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: T | T[] | object | null; errors: APIError | null }> {
+    return await this.fetcher.post(
+      `/_api/rest/v1/db/append`,
+      {
+        values,
+        parentId,
+        returnTop,
+        query: this.#action,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
-   * Runs the query defined by the query modifiers and returns the matching single object. If there are more than one object mathing the query, it returns the first one. See table below for applicable modifiers that can be used with this method.
+   * Runs the query defined by the query modifiers and returns matching objects array. This method accepts all the query modifiers except {@link group}. See table below for applicable modifiers that can be used with this method.
    *
-   * | Modifier | Chained with getSingle? |
+   * | Modifier | Chained with get? |
    * | :--- | :--- |
    * | filter |  &#10004; |
    * | group |  |
-   * | limit |   |
+   * | limit |  &#10004; |
    * | lookup | &#10004; |
    * | omit |  &#10004; |
-   * | page |   |
-   * | sort |   |
+   * | page |  &#10004; |
+   * | sort |  &#10004; |
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
-   * @returns Returns the object matching the query.
+   * @param {boolean} returnCountInfo Flag to specify whether to return the count and pagination information such as total number of objects matched, page number and page size
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the array of objects matching the query.
    */
-  async getSingle(): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/get-single`, {
-      query: this.#action,
-      model: this.#modelName,
-    });
-  }
-
+  async get(
+    returnCountInfo?: false,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: SelectedFields<T, S>[] | null; errors: APIError | null }>;
   /**
-   * Retrieves the specified number of objects from the database randomly. See table below for applicable modifiers that can be used with this method.
+   * Runs the query defined by the query modifiers and returns matching objects array. This method accepts all the query modifiers except {@link group}. See table below for applicable modifiers that can be used with this method.
    *
-   * | Modifier | Chained with getRandom? |
+   * | Modifier | Chained with get? |
    * | :--- | :--- |
    * | filter |  &#10004; |
    * | group |  |
-   * | limit |   |
+   * | limit |  &#10004; |
    * | lookup | &#10004; |
    * | omit |  &#10004; |
-   * | page |   |
-   * | sort |   |
-   *
-   * If {@link filter} modifier is used with this method, Altogic first narrows down the set of objects that can be selected using the filter query and among these filtered objects performs random selection.
+   * | page |  &#10004; |
+   * | sort |  &#10004; |
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
-   * @param {number} count An integer that specifies the number of items to randomly select
-   * @returns Returns the array of objects selected randomly.
+   * @param {boolean} returnCountInfo Flag to specify whether to return the count and pagination information such as total number of objects matched, page number and page size
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns an object which includes count information and list of matched objects.
+   */
+  async get(
+    returnCountInfo: true,
+    requestOptions?: RequestOptions
+  ): Promise<{
+    data: ListResult<SelectedFields<T, S>> | null;
+    errors: APIError | null;
+  }>;
+  /**
+   * Runs the query defined by the query modifiers and returns matching objects array. This method accepts all the query modifiers except {@link group}. See table below for applicable modifiers that can be used with this method.
+   *
+   * | Modifier | Chained with get? |
+   * | :--- | :--- |
+   * | filter |  &#10004; |
+   * | group |  |
+   * | limit |  &#10004; |
+   * | lookup | &#10004; |
+   * | omit |  &#10004; |
+   * | page |  &#10004; |
+   * | sort |  &#10004; |
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {boolean} returnCountInfo Flag to specify whether to return the count and pagination information such as total number of objects matched, page number and page size
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the array of objects matching the query. If `returnCountInfo=true`, returns an object which includes count information and list of matched objects.
+   */
+  async get(
+    returnCountInfo: boolean,
+    requestOptions?: RequestOptions
+  ): Promise<{
+    data: SelectedFields<T, S>[] | ListResult<SelectedFields<T, S>> | null;
+    errors: APIError | null;
+  }>;
+  async get(
+    returnCountInfo: boolean = false,
+    requestOptions?: RequestOptions
+  ): Promise<{
+    data: SelectedFields<T, S>[] | ListResult<SelectedFields<T, S>> | null;
+    errors: APIError | null;
+  }> {
+    const { data, errors } = await this.fetcher.post(
+      `/_api/rest/v1/db/get-list`,
+      {
+        query: this.#getReadAction(),
+        returnCountInfo,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
+    return { data: this.#selectListFields(data, returnCountInfo), errors };
+  }
+
+  /**
+   * Runs the query in keyset (cursor) pagination mode and returns a page of objects together with the cursors of the next and previous pages. The objects are ordered by the {@link sort} entries and the `_id` field, which is added as the last sort entry to have a unique order. The page size is specified by {@link limit} and defaults to 100. {@link page} is ignored in this mode.
+   *
+   * Pass the returned `nextCursor` to {@link after} or the `prevCursor` to {@link before} to get the adjacent pages. Since the pages are selected by the sort field values of the first or last object instead of an offset, the pages stay stable while objects are being created or deleted, which makes it suitable for infinite scroll feeds. The sorted fields should not be omitted from the results and should not have `null` values.
+   *
+   * > **Example:**
+   * > ```
+   * > const { data } = await altogic.db.model('posts').sort('createdAt', 'desc').limit(20).getCursorPage();
+   * > const { data: next } = await altogic.db.model('posts').sort('createdAt', 'desc').limit(20).after(data.nextCursor).getCursorPage();
+   * > ```
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @throws Throws an `invalid_cursor` error if the cursor is malformed or it has been created for a query with different sort entries
+   * @returns Returns the objects of the page and the cursors of the next and previous pages
+   */
+  async getCursorPage(requestOptions?: RequestOptions): Promise<{
+    data: CursorPage<SelectedFields<T, S>> | null;
+    errors: APIError | null;
+  }> {
+    const limit = this.#action.limit ?? DEFAULT_PAGE_SIZE;
+    const sort = getKeysetSort(this.#action.sort);
+    const isBefore = this.#cursor?.direction === "before";
+
+    let expression = this.#action.expression;
+    if (this.#cursor) {
+      const values = decodeCursor(this.#cursor.value, sort);
+      const keyset = createKeysetExpression(sort, values, isBefore);
+      expression = expression
+        ? `(${expression}) && (${keyset})`
+        : keyset.toString();
+    }
+
+    // One more object is fetched to check whether there are more objects after the page
+    const { data, errors } = await this.fetcher.post(
+      `/_api/rest/v1/db/get-list`,
+      {
+        query: {
+          ...this.#getReadAction(),
+          expression,
+          sort: isBefore ? reverseSort(sort) : sort,
+          page: null,
+          limit: limit + 1,
+        },
+        returnCountInfo: false,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
+    if (errors) return { data: null, errors };
+
+    // The cursors are created from the sort fields before the fields are selected
+    const items: KeyValuePair[] = data ?? [];
+    const hasMore = items.length > limit;
+    const result = items.slice(0, limit);
+    if (isBefore) result.reverse();
+
+    const first = result[0];
+    const last = result[result.length - 1];
+    return {
+      data: {
+        result: this.#selectFields(result),
+        nextCursor:
+          last && (isBefore || hasMore) ? encodeCursor(last, sort) : null,
+        prevCursor:
+          first && (isBefore ? hasMore : !!this.#cursor)
+            ? encodeCursor(first, sort)
+            : null,
+      },
+      errors: null,
+    };
+  }
+
+  /**
+   * Iterates over the pages of the objects matching the query, fetching each page on demand. Each page is fetched by running the query with the page number and the page size, so the other modifiers of the query builder (e.g., filter, lookup, omit and sort) are applied to each page. The iteration ends when a page has fewer objects than the page size. You should use {@link sort} to have a stable order of the objects across pages.
+   *
+   * The iteration can be terminated early, e.g., by breaking the `for await` loop, and no further pages are fetched. If prefetching is enabled, the request of the prefetched page is cancelled.
+   *
+   * > **Example:**
+   * > ```
+   * > for await (const orders of altogic.db.model('orders').sort('_id', 'asc').pages({ pageSize: 500 })) {
+   * >   await processOrders(orders);
+   * > }
+   * > ```
+   *
+   * Since the iterator does not return the `errors` of the requests, a {@link RequestError} is thrown if a page request fails.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {IterateOptions} [options] The page size, start page and prefetching options of the iteration
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the page requests
+   * @throws Throws a {@link RequestError} if a page request fails or a `invalid_page_size` error if the page size is not a positive integer
+   * @returns Returns the async iterator of the pages
+   */
+  async *pages(
+    options?: IterateOptions,
+    requestOptions?: RequestOptions
+  ): AsyncGenerator<SelectedFields<T, S>[], void, undefined> {
+    const pageSize =
+      options?.pageSize ?? this.#action.limit ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(pageSize) || pageSize <= 0)
+      throw new ClientError(
+        "invalid_page_size",
+        "The page size needs to be a positive integer"
+      );
+
+    let pageNumber = options?.startPage ?? this.#action.page ?? 1;
+    let pending: {
+      result: Promise<SelectedFields<T, S>[]>;
+      abort: () => void;
+    } | null = this.#fetchPage(pageNumber, pageSize, requestOptions);
+
+    try {
+      while (pending) {
+        const items: SelectedFields<T, S>[] = await pending.result;
+        pending = null;
+        if (items.length === 0) return;
+
+        const hasMore = items.length >= pageSize;
+        if (hasMore && options?.prefetch) {
+          pending = this.#fetchPage(++pageNumber, pageSize, requestOptions);
+          // The prefetched page may fail while the current page is being processed, the error is thrown when the page is awaited
+          pending.result.catch(() => undefined);
+        }
+
+        yield items;
+
+        if (hasMore && !pending)
+          pending = this.#fetchPage(++pageNumber, pageSize, requestOptions);
+      }
+    } finally {
+      // The iteration is terminated early while the next page is being prefetched
+      if (pending) {
+        pending.result.catch(() => undefined);
+        pending.abort();
+      }
+    }
+  }
+
+  /**
+   * Iterates over the objects matching the query one by one, fetching the objects page by page on demand. It works the same way as {@link pages}, but yields the objects of the pages instead of the pages.
+   *
+   * > **Example:**
+   * > ```
+   * > for await (const order of altogic.db.model('orders').filter('status == "open"').iterate({ pageSize: 500 })) {
+   * >   if (await processOrder(order)) break;
+   * > }
+   * > ```
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {IterateOptions} [options] The page size, start page and prefetching options of the iteration
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the page requests
+   * @throws Throws a {@link RequestError} if a page request fails or a `invalid_page_size` error if the page size is not a positive integer
+   * @returns Returns the async iterator of the objects
+   */
+  async *iterate(
+    options?: IterateOptions,
+    requestOptions?: RequestOptions
+  ): AsyncGenerator<SelectedFields<T, S>, void, undefined> {
+    for await (const items of this.pages(options, requestOptions)) yield* items;
+  }
+
+  /**
+   * Subscribes to the result of the query, which is fetched initially and then kept up to date using the realtime change events of the model, so that you do not need to poll the query. The listener is called with the current result after the initial fetch and whenever the result changes. The filter, sort and limit of the query are applied to the created, updated and deleted objects locally. See {@link LiveQuery} for the format of the change events.
+   *
+   * While the realtime socket is disconnected, the query is fetched periodically. The subscription uses a copy of the query builder, so modifying the query builder afterwards does not change the live query.
+   *
+   * > **Example:**
+   * > ```
+   * > const live = altogic.db
+   * >   .model("orders")
+   * >   .filter("this.status == 'open'")
+   * >   .sort("createdAt", "desc")
+   * >   .limit(20)
+   * >   .subscribe(({ data }) => renderOrders(data));
+   * > // later
+   * > live.unsubscribe();
+   * > ```
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {LiveQueryListener<SelectedFields<T, S>>} listener The function called with the current result of the query whenever it changes
+   * @param {LiveQueryOptions} [options] The realtime manager, channel and polling options
+   * @throws Throws a `realtime_not_available` error if the query builder is not created by a client and no realtime manager is specified in the options
+   * @returns {LiveQuery<SelectedFields<T, S>>} Returns the live query, which can be used to get the current result and to unsubscribe
+   */
+  subscribe(
+    listener: LiveQueryListener<SelectedFields<T, S>>,
+    options?: LiveQueryOptions
+  ): LiveQuery<SelectedFields<T, S>> {
+    const realtime = options?.realtime ?? this.#getRealtime?.();
+    if (!realtime)
+      throw new ClientError(
+        "realtime_not_available",
+        "The realtime manager needs to be specified in the options of the live query"
+      );
+
+    const query = this.clone();
+    return new LiveQuery<SelectedFields<T, S>>(
+      query.toJSON(),
+      () => query.get(),
+      realtime,
+      listener,
+      options
+    );
+  }
+
+  /**
+   * Runs the specified computation(s) on the model objects and returns the computation results. This method is typically chained with {@link group} and {@link filter} methods. See table below for applicable modifiers that can be used with this method.
+   *
+   * | Modifier | Chained with compute? |
+   * | :--- | :--- |
+   * | filter | &#10004; |
+   * | group | &#10004; |
+   * | limit | &#10004;  |
+   * | lookup |  |
+   * | omit |  |
+   * | page | &#10004; |
+   * | sort |  |
+   *
+   * For example, you might have an orders model where you keep track of your sales of particular products. Using this method you can calculate the total order revenues, average order size, total number of orders and revenues on a weekly or monthly basis etc. The {@link group} method helps you to group your orders. If you would like to group your orders by the week or the month of the year, you can specify a grouping expression which calculates the week or the month of your order creation date. You can also specify the name of the field in the {@link group} method, such as the productId, which will group your orders by product.
+   *
+   * The computations parameter defines the calculations that you will be running on the filtered and/or grouped objects. You can either specify a single computation or an array of computations. Altogic will perform the specified calculations for each group and return their results. You can specify multiple calculations at the same time, such as, you can calculate the total number of orders, total sales amount, and average order size on a weekly basis, etc. Additionally, you can also sort the computation results ascending or descenging.
+   *
+   * The computations are specified as an object of the computations created by {@link count}, {@link countIf}, {@link sum}, {@link avg}, {@link min} and {@link max}, keyed by their names in the results, e.g., `compute({ total: sum("amount"), n: count() })`. The type of the results is inferred from the computation names and types, and the type of the `groupby` values from the fields passed to {@link group}. The results can be converted with {@link toMap}, {@link pivot} and {@link toSeries}.
+   *
+   * > If you do not specify any {@link group} or {@link filter} methods in your query builder chain, it performs the computations on all objects of the model, namely groups all objects stored in the database into a single group and runs the calculations on this group.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {ComputationMap} computations The computations created by {@link count}, {@link countIf}, {@link sum}, {@link avg}, {@link min} and {@link max}, keyed by their names in the results
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @throws Throws an `invalid_computation` error if no computation is specified
+   * @returns Returns the computation results of each group, whose type is inferred from the computations and the grouping fields
+   */
+  compute<C extends ComputationMap>(
+    computations: C,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: ComputeResult<C, G>[] | null; errors: APIError | null }>;
+  /**
+   * Runs the specified computation(s) on the model objects and returns the computation results. This method is typically chained with {@link group} and {@link filter} methods.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {GroupComputation | GroupComputation[]} computations An object or list of objects that contains the computation instructions
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the computation results
+   */
+  compute(
+    computations: GroupComputation | GroupComputation[],
+    requestOptions?: RequestOptions
+  ): Promise<{ data: object | object[] | null; errors: APIError | null }>;
+  async compute(
+    computations: ComputationMap | GroupComputation | GroupComputation[],
+    requestOptions?: RequestOptions
+  ): Promise<{ data: object | object[] | null; errors: APIError | null }> {
+    const isTyped =
+      !Array.isArray(computations) &&
+      Object.values(computations).every(
+        (value) => value instanceof Computation
+      );
+    if (isTyped && Object.keys(computations).length === 0)
+      throw new ClientError(
+        "invalid_computation",
+        "At least one computation needs to be specified"
+      );
+
+    const { data, errors } = await this.fetcher.post(
+      `/_api/rest/v1/db/compute`,
+      {
+        query: this.#action,
+        computations: isTyped
+          ? Object.entries(computations as ComputationMap).map(
+              ([name, computation]) => computation.toGroupComputation(name)
+            )
+          : Array.isArray(computations)
+          ? computations
+          : [computations],
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
+
+    // The results of the typed computations are always returned as a list
+    if (isTyped && data && !Array.isArray(data))
+      return { data: [data], errors };
+    return { data, errors };
+  }
+
+  /**
+   * Runs the computations on the model objects whose date field is within the specified range, and returns a dense time series of the computation results, namely a point for each hour, day, week or month of the range ordered by date, including the buckets without any objects. The query is grouped by the date field and the groups are merged into the buckets of the specified time zone, so {@link group} is ignored. See table below for applicable modifiers that can be used with this method.
+   *
+   * | Modifier | Chained with timeSeries? |
+   * | :--- | :--- |
+   * | filter | &#10004; |
+   * | group |  |
+   * | limit |  |
+   * | lookup |  |
+   * | omit |  |
+   * | page |  |
+   * | sort |  |
+   *
+   * > **Example:**
+   * > ```
+   * > const { data } = await altogic.db
+   * >   .model<Order>("orders")
+   * >   .filter("status == 'paid'")
+   * >   .timeSeries("createdAt", { interval: "day", from: "2026-03-01", to: "2026-04-01", timezone: "Europe/Istanbul" }, { revenue: sum("total"), n: count() });
+   * > // data: { date: string; revenue: number; n: number }[]
+   * > ```
+   *
+   * The `date` of each point is the start of its bucket in the specified time zone, as an ISO 8601 date string. The first and the last buckets only include the objects within the range. The buckets without any objects have zero `count`, `countIf` and `sum` values, and `null` `avg`, `min` and `max` values. The sort directions of the computations are ignored.
+   *
+   * > The bucket boundaries are calculated on the client, and the objects are grouped by the hour (or by the minute for the time zones with partial hour offsets) on the app backend, unless the buckets are in UTC. Prefer UTC or shorter ranges for the series of large models.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {string} field The name of the date field, can be in dot-notation to specify sub-object fields (e.g., field.subField)
+   * @param {TimeSeriesOptions} options The interval, range and time zone of the buckets
+   * @param {ComputationMap} [computations] The computations created by {@link count}, {@link countIf}, {@link sum}, {@link avg}, {@link min} and {@link max}, keyed by their names in the results. Defaults to `{ count: count() }`.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @throws Throws an `invalid_time_series` error if the interval, the dates or the time zone is not valid, `from` is not before `to`, or the series has more than 10,000 buckets, and an `invalid_computation` error if no computation is specified
+   * @returns Returns the points of the time series ordered by date
+   */
+  async timeSeries<C extends ComputationMap = { count: Computation<number> }>(
+    field: FieldPath<T>,
+    options: TimeSeriesOptions,
+    computations?: C,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: TimeSeriesPoint<C>[] | null; errors: APIError | null }> {
+    const computationMap: ComputationMap = computations ?? {
+      count: new Computation<number>("count"),
+    };
+    if (
+      Object.keys(computationMap).length === 0 ||
+      !Object.values(computationMap).every(
+        (value) => value instanceof Computation
+      )
+    )
+      throw new ClientError(
+        "invalid_computation",
+        "At least one computation created by count, countIf, sum, avg, min or max needs to be specified"
+      );
+
+    const buckets = getTimeSeriesBuckets(options);
+    const conditions: Expression[] = [];
+    if (this.#action.expression)
+      conditions.push(expr.raw(this.#action.expression));
+    conditions.push(
+      expr.gte(field, new Date(buckets.from)),
+      expr.lt(field, new Date(buckets.to))
+    );
+
+    const { data, errors } = await this.fetcher.post(
+      `/_api/rest/v1/db/compute`,
+      {
+        query: {
+          ...this.#action,
+          expression: expr.and(...conditions).toString(),
+          group: getGroupExpression(field, buckets.resolution).toString(),
+          page: null,
+          limit: null,
+          sort: null,
+        },
+        computations: getTimeSeriesComputations(computationMap),
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
+    if (errors) return { data: null, errors };
+
+    const results: KeyValuePair[] = Array.isArray(data) ? data : [];
+    return {
+      data: toTimeSeries(
+        results,
+        buckets,
+        computationMap
+      ) as TimeSeriesPoint<C>[],
+      errors: null,
+    };
+  }
+
+  /**
+   * Runs the query defined by the query modifiers and returns the matching single object. If there are more than one object mathing the query, it returns the first one. See table below for applicable modifiers that can be used with this method.
+   *
+   * | Modifier | Chained with getSingle? |
+   * | :--- | :--- |
+   * | filter |  &#10004; |
+   * | group |  |
+   * | limit |   |
+   * | lookup | &#10004; |
+   * | omit |  &#10004; |
+   * | page |   |
+   * | sort |   |
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the object matching the query.
+   */
+  async getSingle(
+    requestOptions?: RequestOptions
+  ): Promise<{ data: SelectedFields<T, S> | null; errors: APIError | null }> {
+    const { data, errors } = await this.fetcher.post(
+      `/_api/rest/v1/db/get-single`,
+      {
+        query: this.#getReadAction(),
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
+    return { data: this.#selectFields(data), errors };
+  }
+
+  /**
+   * Retrieves the specified number of objects from the database randomly. See table below for applicable modifiers that can be used with this method.
+   *
+   * | Modifier | Chained with getRandom? |
+   * | :--- | :--- |
+   * | filter |  &#10004; |
+   * | group |  |
+   * | limit |   |
+   * | lookup | &#10004; |
+   * | omit |  &#10004; |
+   * | page |   |
+   * | sort |   |
+   *
+   * If {@link filter} modifier is used with this method, Altogic first narrows down the set of objects that can be selected using the filter query and among these filtered objects performs random selection.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {number} count An integer that specifies the number of items to randomly select
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the array of objects selected randomly.
    */
   async getRandom(
-    count: number
-  ): Promise<{ data: object[] | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/get-random`, {
-      query: this.#action,
-      count,
-      model: this.#modelName,
-    });
+    count: number,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: SelectedFields<T, S>[] | null; errors: APIError | null }> {
+    const { data, errors } = await this.fetcher.post(
+      `/_api/rest/v1/db/get-random`,
+      {
+        query: this.#getReadAction(),
+        count,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
+    return { data: this.#selectFields(data), errors };
   }
 
   /**
@@ -588,16 +1547,25 @@ export class QueryBuilder extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {object} values An object that contains the fields and their values to update in the database
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns information about the update operation
    */
   async update(
-    values: object
+    values: Partial<T>,
+    requestOptions?: RequestOptions
   ): Promise<{ data: UpdateInfo; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/update`, {
-      values,
-      query: this.#action,
-      model: this.#modelName,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/db/update`,
+      {
+        values,
+        query: this.#action,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -614,21 +1582,32 @@ export class QueryBuilder extends APIBase {
    * | sort |   |
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
-   * @param {FieldUpdate| FieldUpdate[]} fieldUpdates Field update instruction(s)
+   * @param {FieldUpdate | FieldUpdate[] | FieldUpdateBuilder<T>} fieldUpdates Field update instruction(s), or the {@link FieldUpdateBuilder} that builds them
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns information about the update operation
    */
   async updateFields(
-    fieldUpdates: FieldUpdate | FieldUpdate[]
+    fieldUpdates: FieldUpdate | FieldUpdate[] | FieldUpdateBuilder<T>,
+    requestOptions?: RequestOptions
   ): Promise<{ data: UpdateInfo; errors: APIError | null }> {
     let updates = null;
-    if (Array.isArray(fieldUpdates)) updates = fieldUpdates;
+    if (fieldUpdates instanceof FieldUpdateBuilder)
+      updates = fieldUpdates.build();
+    else if (Array.isArray(fieldUpdates)) updates = fieldUpdates;
     else updates = [fieldUpdates];
 
-    return await this.fetcher.post(`/_api/rest/v1/db/update-fields`, {
-      updates,
-      query: this.#action,
-      model: this.#modelName,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/db/update-fields`,
+      {
+        updates,
+        query: this.#action,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -645,13 +1624,215 @@ export class QueryBuilder extends APIBase {
    * | sort |   |
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns information about the delete operation
    */
-  async delete(): Promise<{ data: DeleteInfo; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/delete`, {
-      query: this.#action,
-      model: this.#modelName,
-    });
+  async delete(
+    requestOptions?: RequestOptions
+  ): Promise<{ data: DeleteInfo; errors: APIError | null }> {
+    return await this.fetcher.post(
+      `/_api/rest/v1/db/delete`,
+      {
+        query: this.#action,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
+  }
+
+  /**
+   * Updates the top-level object matching the query with the input values, or creates a new object with the input values if no object matches. The existing object is found either by the `match` fields of the options, whose values are taken from the input values, or by the {@link filter} of the query builder. If multiple objects match, the first one is updated. See table below for applicable modifiers that can be used with this method.
+   *
+   * | Modifier | Chained with upsert? |
+   * | :--- | :--- |
+   * | filter |  &#10004; |
+   * | group |  |
+   * | limit |   |
+   * | lookup | &#10004; |
+   * | omit | &#10004; |
+   * | page |   |
+   * | sort |   |
+   *
+   * The returned object includes the lookups and excludes the omitted fields of the query. Since the update and create requests do not apply them, the object is read by an additional request if the query has lookups or omitted fields.
+   *
+   * If another client creates the matching object at the same time and the create request fails with a unique constraint violation (a `not_unique` or `<field>_not_unique` error), the operation is retried once, which then updates the object created by the other client.
+   *
+   * > **Example:**
+   * > ```
+   * > const { data, errors } = await altogic.db
+   * >   .model("subscribers")
+   * >   .upsert({ email, name }, { match: ["email"] });
+   * > if (data?.created) sendWelcomeEmail(email);
+   * > ```
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {Partial<T>} values An object that contains the fields and their values to update or create in the database
+   * @param {UpsertOptions<T>} [options] The fields that identify the existing object
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the requests
+   * @throws Throws an `invalid_upsert_options` error if neither the `match` fields nor the filter is specified, or a match field has no value in the input values
+   * @returns Returns the updated or created object and whether it has been created
+   */
+  async upsert(
+    values: Partial<T>,
+    options?: UpsertOptions<T>,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: UpsertResult<T> | null; errors: APIError | null }> {
+    return await this.#upsert(values, true, options, requestOptions);
+  }
+
+  /**
+   * Gets the top-level object matching the query, or creates a new object with the input values if no object matches. The existing object is found either by the `match` fields of the options, whose values are taken from the input values, or by the {@link filter} of the query builder. The existing object is returned as is, it is not updated with the input values. See table below for applicable modifiers that can be used with this method.
+   *
+   * | Modifier | Chained with findOrCreate? |
+   * | :--- | :--- |
+   * | filter |  &#10004; |
+   * | group |  |
+   * | limit |   |
+   * | lookup | &#10004; |
+   * | omit | &#10004; |
+   * | page |   |
+   * | sort |   |
+   *
+   * The returned object includes the lookups and excludes the omitted fields of the query. Since the create request does not apply them, the created object is read by an additional request if the query has lookups or omitted fields.
+   *
+   * If another client creates the matching object at the same time and the create request fails with a unique constraint violation (a `not_unique` or `<field>_not_unique` error), the operation is retried once, which then returns the object created by the other client.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {Partial<T>} values An object that contains the fields and their values to create in the database
+   * @param {UpsertOptions<T>} [options] The fields that identify the existing object
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the requests
+   * @throws Throws an `invalid_upsert_options` error if neither the `match` fields nor the filter is specified, or a match field has no value in the input values
+   * @returns Returns the found or created object and whether it has been created
+   */
+  async findOrCreate(
+    values: Partial<T>,
+    options?: UpsertOptions<T>,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: UpsertResult<T> | null; errors: APIError | null }> {
+    return await this.#upsert(values, false, options, requestOptions);
+  }
+
+  /**
+   * Creates a large number of top-level objects in the database by splitting them into chunks of `chunkSize` objects and creating each chunk with a separate {@link create} request. At most `concurrency` chunks are created at the same time.
+   *
+   * If a chunk fails, none of its objects are created since each create request runs in a transaction. By default, the objects of a failed chunk are then created one by one, so that only the invalid objects fail and the result reports the errors of each object. The bulk operation does not stop on failures, it always processes all objects.
+   *
+   * > **Example:**
+   * > ```
+   * > const { succeeded, failed, results } = await altogic.db.model('orders').bulkCreate(rows, {
+   * >   chunkSize: 500,
+   * >   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`),
+   * > });
+   * > ```
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {Partial<T>[]} values The list of objects that contain the fields and their values to create in the database
+   * @param {BulkCreateOptions} [options] The chunk size, concurrency, failure isolation and progress options
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the requests
+   * @throws Throws an `invalid_bulk_options` error if the chunk size or concurrency is not a positive integer
+   * @returns Returns the number of succeeded and failed objects and the result of each object, which is the created object or the errors of the object
+   */
+  async bulkCreate(
+    values: Partial<T>[],
+    options?: BulkCreateOptions,
+    requestOptions?: RequestOptions
+  ): Promise<BulkResult<T>> {
+    const chunkSize = this.#getBulkOption(
+      "chunkSize",
+      options?.chunkSize ?? DEFAULT_BULK_CHUNK_SIZE
+    );
+    const chunks: { start: number; values: Partial<T>[] }[] = [];
+    for (let start = 0; start < values.length; start += chunkSize)
+      chunks.push({ start, values: values.slice(start, start + chunkSize) });
+
+    return this.#runBulk<T>(
+      values.length,
+      chunks.map((chunk) => async (report) => {
+        const { data, errors } = await settleRequest(() =>
+          this.create(chunk.values, requestOptions)
+        );
+        if (
+          !errors ||
+          chunk.values.length === 1 ||
+          options?.isolateFailures === false
+        ) {
+          chunk.values.forEach((value, index) =>
+            report(chunk.start + index, data?.[index] ?? null, errors)
+          );
+          return;
+        }
+
+        // Create the objects of the failed chunk one by one to find out the failing ones
+        for (let index = 0; index < chunk.values.length; index++) {
+          const result = await settleRequest(() =>
+            this.create(chunk.values[index], requestOptions)
+          );
+          report(chunk.start + index, result.data, result.errors);
+        }
+      }),
+      options
+    );
+  }
+
+  /**
+   * Updates a large number of objects in the database, each identified by its id, by sending a separate object update request for each object, since the objects are updated with different values. At most `concurrency` requests run at the same time. The bulk operation does not stop on failures, it always processes all updates.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {BulkUpdateEntry<T>[]} updates The list of object ids and the field values to update
+   * @param {BulkOptions} [options] The concurrency and progress options
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the requests
+   * @throws Throws an `invalid_bulk_options` error if the concurrency is not a positive integer
+   * @returns Returns the number of succeeded and failed objects and the result of each object, which is the updated object or the errors of the object
+   */
+  async bulkUpdate(
+    updates: BulkUpdateEntry<T>[],
+    options?: BulkOptions,
+    requestOptions?: RequestOptions
+  ): Promise<BulkResult<T>> {
+    return this.#runBulk<T>(
+      updates.length,
+      updates.map((update, index) => async (report) => {
+        const { data, errors } = await settleRequest(() =>
+          this.object(update.id).update(
+            update.values,
+            undefined,
+            requestOptions
+          )
+        );
+        report(index, data, errors);
+      }),
+      options
+    );
+  }
+
+  /**
+   * Deletes a large number of objects from the database, each identified by its id, by sending a separate object delete request for each object. At most `concurrency` requests run at the same time. The bulk operation does not stop on failures, it always processes all ids.
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {string[]} ids The list of the ids of the objects to delete
+   * @param {BulkOptions} [options] The concurrency and progress options
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the requests
+   * @throws Throws an `invalid_bulk_options` error if the concurrency is not a positive integer
+   * @returns Returns the number of succeeded and failed objects and the result of each object, which is the errors of the object if the deletion has failed
+   */
+  async bulkDelete(
+    ids: string[],
+    options?: BulkOptions,
+    requestOptions?: RequestOptions
+  ): Promise<BulkResult<object>> {
+    return this.#runBulk<object>(
+      ids.length,
+      ids.map((id, index) => async (report) => {
+        const { data, errors } = await settleRequest(() =>
+          this.object(id).delete(undefined, requestOptions)
+        );
+        report(index, data, errors);
+      }),
+      options
+    );
   }
 
   /**
@@ -672,18 +1853,94 @@ export class QueryBuilder extends APIBase {
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string} text The search string
    * @param {boolean} returnCountInfo Flag to specify whether to return the count and pagination information such as total number of objects matched, page number and page size
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the array of objects matching the text search string and filter query (if specified).
+   */
+  async searchText(
+    text: string,
+    returnCountInfo?: false,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: SelectedFields<T, S>[] | null; errors: APIError | null }>;
+  /**
+   * Retrieves a list of objects from the database running the text search. It performs a logical `OR` search of the terms unless specified as a phrase between double-quotes. If filter is specified it applies the filter query to further narrow down the results. The retrieved objects are sorted automatically in terms of the scores of the text search results. See table below for applicable modifiers that can be used with this method.
+   *
+   * | Modifier | Chained with searchText? |
+   * | :--- | :--- |
+   * | filter |  &#10004; |
+   * | group |  |
+   * | limit | &#10004; |
+   * | lookup | &#10004; |
+   * | omit |  &#10004; |
+   * | page |  &#10004; |
+   * | sort |   |
+   *
+   * > *There should be at least one `text` or `rich-text` field marked as **searchable** in model definition to use this method.*
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {string} text The search string
+   * @param {boolean} returnCountInfo Flag to specify whether to return the count and pagination information such as total number of objects matched, page number and page size
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns an object which includes count information and list of objects matching the text search string and filter query (if specified).
+   */
+  async searchText(
+    text: string,
+    returnCountInfo: true,
+    requestOptions?: RequestOptions
+  ): Promise<{
+    data: ListResult<SelectedFields<T, S>> | null;
+    errors: APIError | null;
+  }>;
+  /**
+   * Retrieves a list of objects from the database running the text search. It performs a logical `OR` search of the terms unless specified as a phrase between double-quotes. If filter is specified it applies the filter query to further narrow down the results. The retrieved objects are sorted automatically in terms of the scores of the text search results. See table below for applicable modifiers that can be used with this method.
+   *
+   * | Modifier | Chained with searchText? |
+   * | :--- | :--- |
+   * | filter |  &#10004; |
+   * | group |  |
+   * | limit | &#10004; |
+   * | lookup | &#10004; |
+   * | omit |  &#10004; |
+   * | page |  &#10004; |
+   * | sort |   |
+   *
+   * > *There should be at least one `text` or `rich-text` field marked as **searchable** in model definition to use this method.*
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {string} text The search string
+   * @param {boolean} returnCountInfo Flag to specify whether to return the count and pagination information such as total number of objects matched, page number and page size
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the array of objects matching the text search string and filter query (if specified). If `returnCountInfo=true`, returns an object which includes count information and list of matched objects.
    */
   async searchText(
     text: string,
-    returnCountInfo: boolean = false
-  ): Promise<{ data: object[] | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/search-text`, {
-      query: this.#action,
-      returnCountInfo,
-      text,
-      model: this.#modelName,
-    });
+    returnCountInfo: boolean,
+    requestOptions?: RequestOptions
+  ): Promise<{
+    data: SelectedFields<T, S>[] | ListResult<SelectedFields<T, S>> | null;
+    errors: APIError | null;
+  }>;
+  async searchText(
+    text: string,
+    returnCountInfo: boolean = false,
+    requestOptions?: RequestOptions
+  ): Promise<{
+    data: SelectedFields<T, S>[] | ListResult<SelectedFields<T, S>> | null;
+    errors: APIError | null;
+  }> {
+    const { data, errors } = await this.fetcher.post(
+      `/_api/rest/v1/db/search-text`,
+      {
+        query: this.#getReadAction(),
+        returnCountInfo,
+        text,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
+    return { data: this.#selectListFields(data, returnCountInfo), errors };
   }
 
   /**
@@ -706,17 +1963,440 @@ export class QueryBuilder extends APIBase {
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string} fieldName The name of the field to run the full-text search.
    * @param {string} text The search string
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the array of objects matching the full-text search and filter query (if specified).
    */
   async searchFuzzy(
-    fieldName: string,
-    text: string
-  ): Promise<{ data: object[] | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/db/fuzzy-search`, {
-      query: this.#action,
-      text,
-      fieldName,
-      model: this.#modelName,
-    });
+    fieldName: FieldPath<T>,
+    text: string,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: SelectedFields<T, S>[] | null; errors: APIError | null }> {
+    const { data, errors } = await this.fetcher.post(
+      `/_api/rest/v1/db/fuzzy-search`,
+      {
+        query: this.#getReadAction(),
+        text,
+        fieldName,
+        model: this.#modelName,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
+    return { data: this.#selectFields(data), errors };
+  }
+
+  /**
+   * Retrieves a list of objects from the database running the full-text (fuzzy) search on multiple fields, which must be covered by full-text search indexes, and merges the results into a single list ordered by relevance. If filter is specified it applies the filter query to further narrow down the results. See table below for applicable modifiers that can be used with this method.
+   *
+   * | Modifier | Chained with searchFields? |
+   * | :--- | :--- |
+   * | filter |  &#10004; |
+   * | group |  |
+   * | limit | &#10004; |
+   * | lookup | &#10004; |
+   * | omit |  &#10004; |
+   * | page |  |
+   * | sort |   |
+   *
+   * The fields are specified as a list of field names, or as an object of the field weights keyed by the field names to rank the matches of some fields higher, e.g., `searchFields({ title: 3, description: 1 }, text)`. The fields of a list have equal weights.
+   *
+   * Each field is searched by a separate {@link searchFuzzy} request, which retrieves up to {@link limit} objects (100 by default). The object at the zero-based rank `r` in the results of a field with weight `w` scores `w / (r + 1)`, and the scores of an object in the results of different fields are added up, so that the objects matching multiple fields rank higher. Each object is returned once with its relevance score in the `_score` field, and at most {@link limit} objects are returned.
+   *
+   * > *This method can run only on top-level objects with full-text (fuzzy) searchable fields. You cannot run fuzzy search on sub-model objects or sub-model object lists.*
+   *
+   * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {string[] | SearchFieldWeights<T>} fields The names of the fields to run the full-text search, or the weights of the fields keyed by the field names
+   * @param {string} text The search string
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the requests
+   * @throws Throws an `invalid_search_fields` error if no field is specified or a field weight is not a positive number
+   * @returns Returns the array of objects matching the full-text search of any field and filter query (if specified), ordered by descending relevance score. If the search of any field fails, returns its errors.
+   */
+  async searchFields(
+    fields: FieldPath<T>[] | SearchFieldWeights<T>,
+    text: string,
+    requestOptions?: RequestOptions
+  ): Promise<{
+    data: ScoredObject<SelectedFields<T, S>>[] | null;
+    errors: APIError | null;
+  }> {
+    const weights: [string, unknown][] = Array.isArray(fields)
+      ? fields.map((fieldName) => [fieldName, 1])
+      : Object.entries(fields);
+    if (
+      weights.length === 0 ||
+      weights.some(
+        ([, weight]) =>
+          typeof weight !== "number" || !Number.isFinite(weight) || weight <= 0
+      )
+    )
+      throw new ClientError(
+        "invalid_search_fields",
+        "At least one field needs to be specified and the field weights need to be positive numbers",
+        { fields }
+      );
+
+    const limit = this.#action.limit ?? DEFAULT_PAGE_SIZE;
+    const responses = await Promise.all(
+      weights.map(([fieldName]) =>
+        this.fetcher.post(
+          `/_api/rest/v1/db/fuzzy-search`,
+          {
+            query: { ...this.#getReadAction(), page: null, limit },
+            text,
+            fieldName,
+            model: this.#modelName,
+          },
+          null,
+          null,
+          "json",
+          requestOptions
+        )
+      )
+    );
+
+    const failed = responses.find((response) => response.errors);
+    if (failed) return { data: null, errors: failed.errors };
+
+    return {
+      data: mergeSearchResults(
+        responses.map(({ data }, index) => ({
+          weight: weights[index][1] as number,
+          objects: this.#selectFields(data ?? []),
+        })),
+        limit
+      ) as ScoredObject<SelectedFields<T, S>>[],
+      errors: null,
+    };
+  }
+
+  /**
+   * Fetches the objects of the specified page. The returned `abort` function cancels the request if the runtime supports `AbortController`. The abort signal in request options, if any, also cancels the request.
+   * @private
+   * @param {number} pageNumber The page number to fetch
+   * @param {number} pageSize The number of objects in a page
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the promise of the page objects, which is rejected with a {@link RequestError} if the request fails, and the function to cancel the request
+   */
+  #fetchPage(
+    pageNumber: number,
+    pageSize: number,
+    requestOptions?: RequestOptions
+  ): { result: Promise<SelectedFields<T, S>[]>; abort: () => void } {
+    const signal = requestOptions?.signal;
+    const controller =
+      typeof AbortController !== "undefined" ? new AbortController() : null;
+    const onAbort = () => controller?.abort();
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener("abort", onAbort);
+
+    const result = (async () => {
+      try {
+        const { data, errors } = await this.fetcher.post(
+          `/_api/rest/v1/db/get-list`,
+          {
+            query: {
+              ...this.#getReadAction(),
+              page: pageNumber,
+              limit: pageSize,
+            },
+            returnCountInfo: false,
+            model: this.#modelName,
+          },
+          null,
+          null,
+          "json",
+          { ...requestOptions, signal: controller?.signal ?? signal }
+        );
+        if (errors) throw createRequestError(errors);
+        return this.#selectFields(data ?? []);
+      } finally {
+        signal?.removeEventListener("abort", onAbort);
+      }
+    })();
+
+    return { result, abort: onAbort };
+  }
+
+  /**
+   * Picks the fields selected by {@link select} from the retrieved objects.
+   * @private
+   * @param {any} data The retrieved object or list of objects
+   * @returns Returns the objects with the selected fields, or the retrieved objects if no field is selected
+   */
+  #selectFields(data: any): any {
+    if (!this.#select) return data;
+
+    this.#recordFields(data);
+    return selectFields(data, this.#select);
+  }
+
+  /**
+   * Records the top-level fields of the retrieved objects as the known fields of the model, which are omitted in the requests of the queries that do not select them.
+   * @private
+   * @param {any} data The retrieved object or list of objects
+   */
+  #recordFields(data: any) {
+    let models = retrievedFields.get(this.fetcher);
+    if (!models) {
+      models = new Map();
+      retrievedFields.set(this.fetcher, models);
+    }
+    const fields = models.get(this.#modelName) ?? new Set<string>();
+    models.set(this.#modelName, fields);
+
+    for (const object of Array.isArray(data) ? data : [data])
+      if (object && typeof object === "object")
+        Object.keys(object).forEach((field) => fields.add(field));
+  }
+
+  /**
+   * Returns the db action of the read requests. If fields are selected, the known fields of the model that are neither selected nor sorted are added to the omitted fields, so that the app backend does not return them.
+   * @private
+   * @returns {DBAction} The db action
+   */
+  #getReadAction(): DBAction {
+    const fields = retrievedFields.get(this.fetcher)?.get(this.#modelName);
+    if (!this.#select || !fields) return this.#action;
+
+    const kept = [
+      "_id",
+      ...this.#select,
+      ...(this.#action.sort ?? []).map((entry) => entry.field),
+    ];
+    const omit = Array.from(fields).filter(
+      (field) =>
+        !kept.some((path) => path === field || path.startsWith(`${field}.`))
+    );
+    return omit.length
+      ? { ...this.#action, omit: [...(this.#action.omit ?? []), ...omit] }
+      : this.#action;
+  }
+
+  /**
+   * Picks the fields selected by {@link select} from the retrieved list of objects, which is returned with the count information if requested.
+   * @private
+   * @param {any} data The retrieved list of objects or the list result with the count information
+   * @param {boolean} returnCountInfo Whether the list is returned with the count information
+   * @returns Returns the list of objects with the selected fields
+   */
+  #selectListFields(data: any, returnCountInfo: boolean): any {
+    return returnCountInfo && data
+      ? { ...data, result: this.#selectFields(data.result) }
+      : this.#selectFields(data);
+  }
+
+  /**
+   * Applies the modification to this query builder, or to a copy of it in immutable mode.
+   * @private
+   * @param {(query: QueryBuilder<T, S, G>) => void} apply The function that modifies the query builder
+   * @returns {QueryBuilder<T, S, G>} Returns the modified query builder
+   */
+  #modify(
+    apply: (query: QueryBuilder<T, S, G>) => void
+  ): QueryBuilder<T, S, G> {
+    const query = this.#immutable ? this.clone() : this;
+    apply(query);
+    return query;
+  }
+
+  /**
+   * Finds the object matching the upsert query and updates (or returns) it, or creates a new object if no object matches. If the object cannot be created due to a unique constraint violation, the operation is retried once.
+   * @private
+   * @param {Partial<T>} values The fields and their values to update or create
+   * @param {boolean} update Whether to update the existing object with the input values
+   * @param {UpsertOptions<T>} [options] The fields that identify the existing object
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the requests
+   * @returns Returns the updated, found or created object and whether it has been created
+   */
+  async #upsert(
+    values: Partial<T>,
+    update: boolean,
+    options?: UpsertOptions<T>,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: UpsertResult<T> | null; errors: APIError | null }> {
+    const query = new QueryBuilder<T>(this.#modelName, this.fetcher).filter(
+      this.#getUpsertExpression(values, options?.match)
+    );
+    // The existing object is queried with the lookups and omitted fields of the query builder
+    const { lookups, omit } = copyAction(this.#action);
+    query.#action = { ...query.#action, lookups, omit };
+
+    let result = await settleRequest(() =>
+      this.#runUpsert(query, values, update, requestOptions)
+    );
+    // The object has been created by someone else after the query, so it can be found now
+    if (result.errors && isUniqueConstraintError(result.errors))
+      result = await settleRequest(() =>
+        this.#runUpsert(query, values, update, requestOptions)
+      );
+
+    if (result.errors && this.fetcher.throwsOnError())
+      throw createRequestError(result.errors);
+    return result;
+  }
+
+  /**
+   * Runs a single attempt of the upsert operation.
+   * @private
+   * @param {QueryBuilder<T>} query The query that finds the existing object
+   * @param {Partial<T>} values The fields and their values to update or create
+   * @param {boolean} update Whether to update the existing object with the input values
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the requests
+   * @returns Returns the updated, found or created object and whether it has been created
+   */
+  async #runUpsert(
+    query: QueryBuilder<T>,
+    values: Partial<T>,
+    update: boolean,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: UpsertResult<T> | null; errors: APIError | null }> {
+    const existing = await query.getSingle(requestOptions);
+    if (existing.errors) return { data: null, errors: existing.errors };
+
+    if (existing.data) {
+      if (!update)
+        return {
+          data: { object: existing.data, created: false },
+          errors: null,
+        };
+
+      const updated = await this.object(
+        (existing.data as KeyValuePair)._id
+      ).update(values, undefined, requestOptions);
+      if (updated.errors) return { data: null, errors: updated.errors };
+      // If the object has been deleted in the meantime, a new object is created below
+      if (updated.data)
+        return await this.#readUpsertObject(
+          query,
+          updated.data,
+          false,
+          requestOptions
+        );
+    }
+
+    const { data, errors } = await this.create(values, requestOptions);
+    if (errors || !data) return { data: null, errors };
+    return await this.#readUpsertObject(query, data, true, requestOptions);
+  }
+
+  /**
+   * Reads the updated or created object of an upsert operation with the lookups and omitted fields of the query, which are not applied by the update and create requests. If the query has no lookups and omitted fields, the object is returned as is without making a request.
+   * @private
+   * @param {QueryBuilder<T>} query The query that finds the existing object
+   * @param {T} object The updated or created object
+   * @param {boolean} created Whether the object has been created
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the object with the lookups and omitted fields of the query, or the input object if it has been deleted in the meantime
+   */
+  async #readUpsertObject(
+    query: QueryBuilder<T>,
+    object: T,
+    created: boolean,
+    requestOptions?: RequestOptions
+  ): Promise<{ data: UpsertResult<T> | null; errors: APIError | null }> {
+    const { lookups, omit } = query.#action;
+    if (!lookups?.length && !omit?.length)
+      return { data: { object, created }, errors: null };
+
+    const read = new QueryBuilder<T>(this.#modelName, this.fetcher).filter(
+      expr.eq("_id", (object as KeyValuePair)._id)
+    );
+    read.#action = { ...read.#action, lookups, omit };
+    const { data, errors } = await read.getSingle(requestOptions);
+    if (errors) return { data: null, errors };
+    return { data: { object: data ?? object, created }, errors: null };
+  }
+
+  /**
+   * Returns the expression that finds the existing object of an upsert operation. The equality conditions of the match fields are combined with the filter of the query builder, if any.
+   * @private
+   * @param {Partial<T>} values The input values of the upsert operation
+   * @param {string[]} [match] The fields that identify the existing object
+   * @throws Throws an `invalid_upsert_options` error if neither the match fields nor the filter is specified, or a match field has no value in the input values
+   * @returns The query expression
+   */
+  #getUpsertExpression(values: Partial<T>, match?: string[]): Expression {
+    const conditions: Expression[] = [];
+    if (this.#action.expression)
+      conditions.push(expr.raw(this.#action.expression));
+
+    for (const field of match ?? []) {
+      const value = getFieldValue(values, field);
+      if (value === undefined)
+        throw new ClientError(
+          "invalid_upsert_options",
+          `The value of the match field '${field}' needs to be specified in the input values`
+        );
+      conditions.push(expr.eq(field, value));
+    }
+
+    if (conditions.length === 0)
+      throw new ClientError(
+        "invalid_upsert_options",
+        "Either the match fields or the filter of the query builder needs to be specified to find the existing object"
+      );
+
+    return expr.and(...conditions);
+  }
+
+  /**
+   * Runs the tasks of a bulk operation with bounded concurrency and aggregates the results of the objects. Each task reports the results of the objects it has processed.
+   * @private
+   * @param {number} total The total number of objects in the bulk operation
+   * @param {Function[]} tasks The tasks of the bulk operation
+   * @param {BulkOptions} [options] The concurrency and progress options
+   * @returns Returns the aggregated results of the objects
+   */
+  async #runBulk<R>(
+    total: number,
+    tasks: ((
+      report: (index: number, data: R | null, errors: APIError | null) => void
+    ) => Promise<void>)[],
+    options?: BulkOptions
+  ): Promise<BulkResult<R>> {
+    const concurrency = this.#getBulkOption(
+      "concurrency",
+      options?.concurrency ?? DEFAULT_BULK_CONCURRENCY
+    );
+    const bulk: BulkResult<R> = { succeeded: 0, failed: 0, results: [] };
+    const report = (index: number, data: R | null, errors: APIError | null) => {
+      bulk.results[index] = { index, data: errors ? null : data, errors };
+      if (errors) bulk.failed++;
+      else bulk.succeeded++;
+    };
+
+    await runConcurrently(
+      tasks.map((task) => async () => {
+        await task(report);
+        options?.onProgress?.({
+          total,
+          completed: bulk.succeeded + bulk.failed,
+          succeeded: bulk.succeeded,
+          failed: bulk.failed,
+        });
+      }),
+      concurrency
+    );
+
+    return bulk;
+  }
+
+  /**
+   * Checks whether the bulk operation option is a positive integer.
+   * @private
+   * @param {string} name The name of the option
+   * @param {number} value The value of the option
+   * @throws Throws an `invalid_bulk_options` error if the value is not a positive integer
+   * @returns Returns the option value
+   */
+  #getBulkOption(name: string, value: number): number {
+    if (!Number.isInteger(value) || value <= 0)
+      throw new ClientError(
+        "invalid_bulk_options",
+        `${name} needs to be a positive integer`
+      );
+    return value;
   }
 }
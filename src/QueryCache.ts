@@ -0,0 +1,341 @@
+import { Fetcher } from "./utils/Fetcher";
+import {
+  APIError,
+  KeyValuePair,
+  MiddlewareRequest,
+  OfflineStore,
+  QueryCacheOptions,
+} from "./types";
+
+const DB_PATH = "/_api/rest/v1/db";
+const STORE_PREFIX = "query:";
+const DEFAULT_TTL = 30000;
+const DEFAULT_MAX_ENTRIES = 500;
+// The routes whose results are cached, the other database routes with a model are mutations except the random queries
+const CACHED_ROUTES = [
+  "/object/get",
+  "/get-list",
+  "/get-single",
+  "/compute",
+  "/search-text",
+  "/fuzzy-search",
+];
+const UNCACHED_ROUTES = ["/get-random"];
+// The tag of the results that depend on a model that is not known on the client, e.g., the model of a simple lookup
+const ANY_MODEL = "*";
+
+/**
+ * Defines the structure of a cached query result
+ * @interface CacheEntry
+ */
+interface CacheEntry {
+  json: string;
+  tags: string[];
+  storedAt: number;
+}
+
+/**
+ * Defines the structure of a query request in progress, which is shared by the identical queries
+ * @interface InFlightRequest
+ */
+interface InFlightRequest {
+  response: Promise<{ data: any | null; errors: APIError | null }>;
+  tags: string[];
+}
+
+/**
+ * Returns the top-level model of the model name, the changes of the sub-model objects also change their top-level objects.
+ * @param {string} modelName The model name, can be in dot-notation for sub-models
+ * @returns The top-level model name
+ */
+function getTopModel(modelName: string): string {
+  return modelName.split(".")[0];
+}
+
+/**
+ * Returns the models whose changes invalidate the result of the query, namely the model of the query and its looked up models.
+ * @param {KeyValuePair} body The body of the query request
+ * @returns The invalidation tags of the query
+ */
+function getTags(body: KeyValuePair): string[] {
+  const tags = new Set([getTopModel(body.model)]);
+  for (const lookup of body.lookups ?? body.query?.lookups ?? [])
+    tags.add(
+      typeof lookup?.modelName === "string"
+        ? getTopModel(lookup.modelName)
+        : ANY_MODEL
+    );
+
+  return Array.from(tags);
+}
+
+/**
+ * An opt-in client-side cache of the database query results, which is enabled by {@link DatabaseManager.queryCache}. The results of `DBObject.get` and the `QueryBuilder` reads (`get`, `getSingle`, `compute`, `searchText` and `searchFuzzy`) are cached by their model and query, so that the identical queries made, e.g., by different components of your app do not make a request until the `ttl` of the result elapses. The identical queries made while a query is in progress share its request.
+ *
+ * The cached results of a model are invalidated whenever a create, set, append, update, updateFields or delete request of the model is made through a {@link QueryBuilder}, {@link DBObject} or {@link DBBatch}. The results with lookups are also invalidated by the changes of their looked up models. Use {@link invalidate} for the changes made elsewhere, e.g., by the services of your app.
+ *
+ * The results are cached separately for each user session, namely the queries made with different session tokens do not share their results. The expired results are removed from the memory and the store when they are read and when new results are cached.
+ *
+ * Each call returns its own copy of the cached result, so that modifying the returned objects does not change the cache. The error responses are not cached.
+ * @export
+ * @class QueryCache
+ */
+export class QueryCache {
+  /**
+   * The duration in milliseconds during which a cached result is returned without making a request
+   * @private
+   * @type {number}
+   */
+  #ttl: number;
+
+  /**
+   * The duration in milliseconds after the ttl during which the stale result is returned while it is refreshed
+   * @private
+   * @type {number}
+   */
+  #staleWhileRevalidate: number;
+
+  /**
+   * The max number of results kept in memory
+   * @private
+   * @type {number}
+   */
+  #maxEntries: number;
+
+  /**
+   * The store where the cached results are persisted, if any
+   * @private
+   * @type {OfflineStore | null}
+   */
+  #store: OfflineStore | null;
+
+  /**
+   * The cached results in the order of their last use, keyed by the route, session token and body of the query request
+   * @private
+   * @type {Map<string, CacheEntry>}
+   */
+  #entries: Map<string, CacheEntry>;
+
+  /**
+   * The query requests in progress, keyed by the route, session token and body of the query request
+   * @private
+   * @type {Map<string, InFlightRequest>}
+   */
+  #inFlight: Map<string, InFlightRequest>;
+
+  /**
+   * Creates an instance of QueryCache and registers its middleware to the http client.
+   * @param {Fetcher} fetcher The http client to make RESTful API calls to the application's execution engine
+   * @param {QueryCacheOptions} [options] The expiration, size and persistence options of the cache
+   */
+  constructor(fetcher: Fetcher, options?: QueryCacheOptions) {
+    this.#ttl = options?.ttl ?? DEFAULT_TTL;
+    this.#staleWhileRevalidate = options?.staleWhileRevalidate ?? 0;
+    this.#maxEntries = options?.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.#store = options?.store ?? null;
+    this.#entries = new Map();
+    this.#inFlight = new Map();
+
+    fetcher.use((request, next) => this.#intercept(request, next));
+  }
+
+  /**
+   * Removes the cached results of the model, including the results that look up the model. The queries of the model in progress are not shared with the later queries.
+   * @param {string} modelName The name of the model, the results of its top-level model are invalidated if a sub-model is specified
+   * @returns Resolves when the results are removed from the cache and its store
+   */
+  async invalidate(modelName: string): Promise<void> {
+    await this.#invalidateTags([getTopModel(modelName), ANY_MODEL]);
+  }
+
+  /**
+   * Removes all cached results from the cache and its store.
+   * @returns Resolves when the cache is cleared
+   */
+  async clear(): Promise<void> {
+    await this.#invalidateTags(null);
+  }
+
+  /**
+   * The middleware of the cache. Returns the cached results of the queries and invalidates the results of the models changed by the mutations.
+   * @private
+   * @param {MiddlewareRequest} request The outgoing request
+   * @param {Function} next Sends the request to the next middleware
+   * @returns The response of the app backend or the cached response
+   */
+  async #intercept(
+    request: MiddlewareRequest,
+    next: () => Promise<{ data: any | null; errors: APIError | null }>
+  ): Promise<{ data: any | null; errors: APIError | null }> {
+    const { method, path, headers, body } = request;
+    const route = path.startsWith(DB_PATH)
+      ? path.substring(DB_PATH.length)
+      : "";
+    if (
+      method !== "POST" ||
+      !route ||
+      UNCACHED_ROUTES.includes(route) ||
+      typeof body?.model !== "string"
+    )
+      return await next();
+
+    if (!CACHED_ROUTES.includes(route)) {
+      // The mutation may be applied even if its response is not received
+      try {
+        return await next();
+      } finally {
+        await this.#invalidateTags([getTopModel(body.model), ANY_MODEL]);
+      }
+    }
+
+    // The results of a query may differ for each user, e.g., due to the access rules of the app backend
+    const key = `${route}:${headers.Session ?? ""}:${JSON.stringify(body)}`;
+    const entry = await this.#getEntry(key);
+    const age = entry ? Date.now() - entry.storedAt : Infinity;
+    if (entry && age < this.#ttl)
+      return { data: JSON.parse(entry.json), errors: null };
+
+    const response = this.#fetch(key, getTags(body), next);
+    if (entry && age < this.#ttl + this.#staleWhileRevalidate) {
+      // The failures of the background refresh are ignored, the stale result is kept until it expires
+      response.catch(() => undefined);
+      return { data: JSON.parse(entry.json), errors: null };
+    }
+
+    const { data, errors } = await response;
+    return { data: data === null ? null : JSON.parse(data), errors };
+  }
+
+  /**
+   * Sends the query request or joins the identical request in progress, and caches its result unless its tags are invalidated in the meantime, namely unless the request is removed from the requests in progress.
+   * @private
+   * @param {string} key The cache key of the query
+   * @param {string[]} tags The invalidation tags of the query
+   * @param {Function} next Sends the request to the next middleware
+   * @returns The response of the request, the data is returned as JSON text so that each caller can parse its own copy
+   */
+  #fetch(
+    key: string,
+    tags: string[],
+    next: () => Promise<{ data: any | null; errors: APIError | null }>
+  ): Promise<{ data: any | null; errors: APIError | null }> {
+    const inFlight = this.#inFlight.get(key);
+    if (inFlight) return inFlight.response;
+
+    const request = { tags } as InFlightRequest;
+    request.response = (async () => {
+      try {
+        const { data, errors } = await next();
+        if (errors) return { data: null, errors };
+
+        const json = JSON.stringify(data ?? null);
+        if (this.#inFlight.get(key) === request)
+          await this.#setEntry(key, { json, tags, storedAt: Date.now() });
+        return { data: json, errors: null };
+      } finally {
+        if (this.#inFlight.get(key) === request) this.#inFlight.delete(key);
+      }
+    })();
+
+    this.#inFlight.set(key, request);
+    return request.response;
+  }
+
+  /**
+   * Returns the cached result of the query from the memory or the store, and marks it as recently used. The expired result is removed from the cache.
+   * @private
+   * @param {string} key The cache key of the query
+   * @returns The cached result, `undefined` if the query is not cached or its result has expired
+   */
+  async #getEntry(key: string): Promise<CacheEntry | undefined> {
+    const entry: CacheEntry | undefined =
+      this.#entries.get(key) ?? (await this.#store?.get(STORE_PREFIX + key));
+    if (!entry) return undefined;
+    if (this.#isExpired(entry)) {
+      this.#entries.delete(key);
+      await this.#store?.delete(STORE_PREFIX + key);
+      return undefined;
+    }
+
+    this.#entries.delete(key);
+    this.#entries.set(key, entry);
+    this.#evict();
+    return entry;
+  }
+
+  /**
+   * Caches the result of the query in memory and in the store, and removes the expired results.
+   * @private
+   * @param {string} key The cache key of the query
+   * @param {CacheEntry} entry The result of the query
+   */
+  async #setEntry(key: string, entry: CacheEntry) {
+    this.#entries.delete(key);
+    this.#entries.set(key, entry);
+    this.#evict();
+    await this.#store?.set(STORE_PREFIX + key, entry);
+    await this.#prune();
+  }
+
+  /**
+   * Checks whether the cached result has expired, namely neither its `ttl` nor its stale period has elapsed.
+   * @private
+   * @param {CacheEntry} entry The cached result
+   * @returns True if the result cannot be returned anymore, false otherwise
+   */
+  #isExpired(entry: CacheEntry): boolean {
+    return (
+      Date.now() - entry.storedAt >= this.#ttl + this.#staleWhileRevalidate
+    );
+  }
+
+  /**
+   * Removes the expired results from memory and from the store, e.g., the results of the previous sessions.
+   * @private
+   */
+  async #prune() {
+    this.#entries.forEach((entry, key) => {
+      if (this.#isExpired(entry)) this.#entries.delete(key);
+    });
+
+    if (!this.#store) return;
+    for (const key of await this.#store.keys(STORE_PREFIX)) {
+      const entry: CacheEntry | undefined = await this.#store.get(key);
+      if (!entry || this.#isExpired(entry)) await this.#store.delete(key);
+    }
+  }
+
+  /**
+   * Removes the least recently used results from memory while the number of results exceeds the limit. The results in the store are kept.
+   * @private
+   */
+  #evict() {
+    for (const key of this.#entries.keys()) {
+      if (this.#entries.size <= this.#maxEntries) break;
+      this.#entries.delete(key);
+    }
+  }
+
+  /**
+   * Removes the cached results with any of the tags, and stops sharing the requests in progress with these tags so that their results are not cached.
+   * @private
+   * @param {string[] | null} tags The invalidation tags, `null` to remove all results
+   */
+  async #invalidateTags(tags: string[] | null) {
+    const isInvalid = (entryTags: string[]) =>
+      !tags || entryTags.some((tag) => tags.includes(tag));
+
+    this.#inFlight.forEach((request, key) => {
+      if (isInvalid(request.tags)) this.#inFlight.delete(key);
+    });
+    this.#entries.forEach((entry, key) => {
+      if (isInvalid(entry.tags)) this.#entries.delete(key);
+    });
+
+    if (!this.#store) return;
+    for (const key of await this.#store.keys(STORE_PREFIX)) {
+      const entry: CacheEntry | undefined = await this.#store.get(key);
+      if (!entry || isInvalid(entry.tags)) await this.#store.delete(key);
+    }
+  }
+}
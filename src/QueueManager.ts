@@ -1,6 +1,6 @@
 import { APIBase } from "./APIBase";
 import { Fetcher } from "./utils/Fetcher";
-import { APIError, MessageInfo } from "./types";
+import { APIError, MessageInfo, RequestOptions } from "./types";
 
 /**
  * The queue manager allows different parts of your application to communicate and perform activities asynchronously.
@@ -32,18 +32,27 @@ export class QueueManager extends APIBase {
    * @param {string} queueNameOrId The name or id of the message queue.
    * @param {object} message The message payload (JSON object) that will be submitted to the message queue
    * @param {number} delay The number of seconds to delay the messages in queue before dispacthing them to their consuming service
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns If successful, returns information about the submitted message. You can use `messageId` to check the processing status of your message by calling {@link getMessageStatus} method. In case of an errors, returns the errors that occurred.
    */
   async submitMessage(
     queueNameOrId: string,
     message: object,
-    delay?: number
+    delay?: number,
+    requestOptions?: RequestOptions
   ): Promise<{ info: MessageInfo | null; errors: APIError | null }> {
-    const { data, errors } = await this.fetcher.post("/_api/rest/v1/queue", {
-      queueNameOrId,
-      message,
-      delay,
-    });
+    const { data, errors } = await this.fetcher.post(
+      "/_api/rest/v1/queue",
+      {
+        queueNameOrId,
+        message,
+        delay,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
 
     return { info: data, errors };
   }
@@ -53,13 +62,19 @@ export class QueueManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string} messageId The id of the message
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns If successful, returns status information about the submitted message
    */
   async getMessageStatus(
-    messageId: string
+    messageId: string,
+    requestOptions?: RequestOptions
   ): Promise<{ info: MessageInfo | null; errors: APIError | null }> {
     const { data, errors } = await this.fetcher.get(
-      `/_api/rest/v1/queue/${messageId}`
+      `/_api/rest/v1/queue/${messageId}`,
+      null,
+      null,
+      "json",
+      requestOptions
     );
 
     return { info: data, errors };
@@ -1,7 +1,13 @@
 import { APIBase } from "./APIBase";
 import { Fetcher } from "./utils/Fetcher";
 import { BucketManager } from "./BucketManager";
-import { APIError, BucketListOptions, FileListOptions } from "./types";
+import { Expression } from "./Expression";
+import {
+  APIError,
+  BucketListOptions,
+  FileListOptions,
+  RequestOptions,
+} from "./types";
 
 /**
  * Allows you manage your app's cloud storage buckets and files. With StorageManager you can create and list buckets and use the {@link BucketManager} to manage a specific bucket and and its contained files.
@@ -48,18 +54,27 @@ export class StorageManager extends APIBase {
    * @param {string} name The name of the bucket to create (case sensitive). `root` is a reserved name and cannot be used.
    * @param {boolean} isPublic The default privacy setting that will be applied to the files uploaded to this bucket.
    * @param {string[]} tags Array of string values that will be added to the bucket metadata.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns info about newly created bucket
    */
   async createBucket(
     name: string,
     isPublic: boolean = true,
-    tags: string[] = []
+    tags: string[] = [],
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/storage/create-bucket`, {
-      name,
-      isPublic,
-      tags,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/create-bucket`,
+      {
+        name,
+        isPublic,
+        tags,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -80,11 +95,13 @@ export class StorageManager extends APIBase {
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string} expression The query expression string that will be used to filter buckets
    * @param {BucketListOptions} options Options to configure how buckets will be listed, primarily used to set pagination and sorting settings
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the array of matching buckets. If `returnCountInfo=true` in {@link BucketListOptions}, it returns an object which includes the count information and the matching buckets array.
    */
   async listBuckets(
     expression?: string,
-    options?: BucketListOptions
+    options?: BucketListOptions,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object | object[] | null; errors: APIError | null }> {
     let expVal = null;
     let optionsVal = null;
@@ -96,10 +113,17 @@ export class StorageManager extends APIBase {
 
     if (options && typeof options === "object") optionsVal = options;
 
-    return await this.fetcher.post(`/_api/rest/v1/storage/list-buckets`, {
-      expression: expVal,
-      options: optionsVal,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/list-buckets`,
+      {
+        expression: expVal,
+        options: optionsVal,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -115,10 +139,19 @@ export class StorageManager extends APIBase {
    * Returns the overall information about your apps cloud storage including total number of buckets and files stored, total storage size in bytes and average, min and max file size in bytes.
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns information about your app's cloud storage
    */
-  async getStats(): Promise<{ data: object | null; errors: APIError | null }> {
-    return await this.fetcher.get(`/_api/rest/v1/storage/stats`);
+  async getStats(
+    requestOptions?: RequestOptions
+  ): Promise<{ data: object | null; errors: APIError | null }> {
+    return await this.fetcher.get(
+      `/_api/rest/v1/storage/stats`,
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -142,21 +175,30 @@ export class StorageManager extends APIBase {
    * You can paginate through your files and sort them using the input {@link FileListOptions} parameter.
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
-   * @param {string} expression The search expression string that will be used to filter file objects
+   * @param {string | Expression} expression The search expression string or the built {@link Expression} that will be used to filter file objects
    * @param {FileListOptions} options Pagination and sorting options
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns Returns the files mathcing the search query. If `returnCountInfo=true` in {@link FileListOptions}, returns an object which includes count information and array of matching files.
    */
   async searchFiles(
-    expression: string,
-    options?: FileListOptions
+    expression: string | Expression,
+    options?: FileListOptions,
+    requestOptions?: RequestOptions
   ): Promise<{ data: object[] | null; errors: APIError | null }> {
     let optionsVal = null;
     if (options && typeof options === "object") optionsVal = options;
 
-    return await this.fetcher.post(`/_api/rest/v1/storage/search-files`, {
-      expression,
-      options: optionsVal,
-    });
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/search-files`,
+      {
+        expression: expression.toString(),
+        options: optionsVal,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 
   /**
@@ -164,10 +206,21 @@ export class StorageManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string} fileUrl The url of the file that will be deleted
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    */
-  async deleteFile(fileUrl: string): Promise<{ errors: APIError | null }> {
-    return await this.fetcher.post(`/_api/rest/v1/storage/delete-file`, {
-      fileUrl,
-    });
+  async deleteFile(
+    fileUrl: string,
+    requestOptions?: RequestOptions
+  ): Promise<{ errors: APIError | null }> {
+    return await this.fetcher.post(
+      `/_api/rest/v1/storage/delete-file`,
+      {
+        fileUrl,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
   }
 }
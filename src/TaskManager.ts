@@ -1,6 +1,6 @@
 import { APIBase } from "./APIBase";
 import { Fetcher } from "./utils/Fetcher";
-import { APIError, TaskInfo } from "./types";
+import { APIError, TaskInfo, RequestOptions } from "./types";
 
 /**
  * The task manager allows you to manually trigger service executions of your scheduled tasks which actually ran periodically at fixed times, dates, or intervals.
@@ -24,14 +24,23 @@ export class TaskManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string} queueNameOrId The name or id of the message queue.
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns If successful, returns information about the triggered task. You can use `taskId` to check the exectuion status of your task by calling {@link getTaskStatus} method. In case of errors, returns the errors that occurred.
    */
   async runOnce(
-    taskNameOrId: string
+    taskNameOrId: string,
+    requestOptions?: RequestOptions
   ): Promise<{ info: TaskInfo | null; errors: APIError | null }> {
-    const { data, errors } = await this.fetcher.post("/_api/rest/v1/task", {
-      taskNameOrId,
-    });
+    const { data, errors } = await this.fetcher.post(
+      "/_api/rest/v1/task",
+      {
+        taskNameOrId,
+      },
+      null,
+      null,
+      "json",
+      requestOptions
+    );
 
     return { info: data, errors };
   }
@@ -41,13 +50,19 @@ export class TaskManager extends APIBase {
    *
    * > *If the client library key is set to **enforce session**, an active user session is required (e.g., user needs to be logged in) to call this method.*
    * @param {string} taskId The id of the task
+   * @param {RequestOptions} [requestOptions] The timeout, abort signal and retry policy overrides of the request
    * @returns If successful, returns status information about the triggered task
    */
   async getTaskStatus(
-    taskId: string
+    taskId: string,
+    requestOptions?: RequestOptions
   ): Promise<{ info: TaskInfo | null; errors: APIError | null }> {
     const { data, errors } = await this.fetcher.get(
-      `/_api/rest/v1/task/${taskId}`
+      `/_api/rest/v1/task/${taskId}`,
+      null,
+      null,
+      "json",
+      requestOptions
     );
 
     return { info: data, errors };
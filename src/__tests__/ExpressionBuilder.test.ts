@@ -0,0 +1,178 @@
+import { ExpressionBuilder, expr } from "../ExpressionBuilder";
+import { createMockClient, MockBackend } from "../testing";
+import { ClientError } from "../utils/ClientError";
+
+describe("ExpressionBuilder", () => {
+  it("serializes the comparisons of the fields and values", () => {
+    expect(String(expr.eq("name", "Ann"))).toBe('this.name == "Ann"');
+    expect(String(expr.ne("address.city", null))).toBe(
+      "this.address.city != null"
+    );
+    expect(String(expr.gt("age", 18))).toBe("this.age > 18");
+    expect(String(expr.gte("age", -1))).toBe("this.age >= -1");
+    expect(String(expr.lt("active", false))).toBe("this.active < false");
+    expect(String(expr.lte("total", expr.field("limit")))).toBe(
+      "this.total <= this.limit"
+    );
+    expect(String(expr.between("age", 18, 65))).toBe(
+      "this.age >= 18 && this.age <= 65"
+    );
+    expect(String(expr.eq("owner", expr.lookupField("_id")))).toBe(
+      "this.owner == lookup._id"
+    );
+  });
+
+  it("quotes and escapes the text values", () => {
+    expect(String(expr.eq("name", 'a"b\\c'))).toBe('this.name == "a\\"b\\\\c"');
+    // User input cannot break out of the text literal
+    expect(String(expr.eq("name", '" || true || "'))).toBe(
+      'this.name == "\\" || true || \\""'
+    );
+    expect(String(expr.value(["a", 1, null, true]))).toBe(
+      '["a", 1, null, true]'
+    );
+  });
+
+  it("serializes the functions and date values", () => {
+    const date = new Date("2026-01-02T03:04:05.000Z");
+    expect(String(expr.in("role", ["admin", "editor"]))).toBe(
+      'IN(["admin", "editor"], this.role)'
+    );
+    expect(String(expr.nin("age", [1, 2]))).toBe("NIN([1, 2], this.age)");
+    expect(String(expr.includes("tags", "sale"))).toBe(
+      'INCLUDES(this.tags, "sale")'
+    );
+    expect(String(expr.startsWith("name", "A"))).toBe(
+      'STARTSWITH(this.name, "A")'
+    );
+    expect(String(expr.endsWith("name", "z"))).toBe('ENDSWITH(this.name, "z")');
+    expect(String(expr.exists("note"))).toBe("EXISTS(this.note)");
+    expect(String(expr.isNull("note"))).toBe("ISNULL(this.note)");
+    expect(String(expr.isEmpty("tags"))).toBe("ISEMPTY(this.tags)");
+    expect(String(expr.eq(expr.lower("name"), "ann"))).toBe(
+      'LOWER(this.name) == "ann"'
+    );
+    expect(String(expr.gt(expr.length("name"), 3))).toBe(
+      "LENGTH(this.name) > 3"
+    );
+    expect(String(expr.eq(expr.size("tags"), 0))).toBe("SIZE(this.tags) == 0");
+    expect(String(expr.gt("createdAt", date))).toBe(
+      'this.createdAt > TODATE("2026-01-02T03:04:05.000Z")'
+    );
+    expect(String(expr.lt("createdAt", expr.now()))).toBe(
+      "this.createdAt < NOW()"
+    );
+    expect(String(expr.toDate("2026-01-02"))).toBe('TODATE("2026-01-02")');
+    expect(String(expr.toDate(date))).toBe(
+      'TODATE("2026-01-02T03:04:05.000Z")'
+    );
+    expect(
+      [
+        expr.year("createdAt"),
+        expr.month("createdAt"),
+        expr.dayOfMonth("createdAt"),
+        expr.dayOfWeek("createdAt"),
+        expr.hour("createdAt"),
+        expr.minute("createdAt"),
+      ].map(String)
+    ).toEqual([
+      "YEAR(this.createdAt)",
+      "MONTH(this.createdAt)",
+      "DAYOFMONTH(this.createdAt)",
+      "DAYOFWEEK(this.createdAt)",
+      "HOUR(this.createdAt)",
+      "MINUTE(this.createdAt)",
+    ]);
+    expect(String(expr.fn("round", expr.field("price"), 2))).toBe(
+      "ROUND(this.price, 2)"
+    );
+  });
+
+  it("encloses the operands in parentheses based on the operator precedence", () => {
+    const adult = expr.gte("age", 18);
+    const admin = expr.eq("role", "admin");
+    const active = expr.eq("active", true);
+
+    expect(String(expr.and(adult, expr.or(admin, active)))).toBe(
+      'this.age >= 18 && (this.role == "admin" || this.active == true)'
+    );
+    expect(String(expr.or(expr.and(adult, admin), active))).toBe(
+      'this.age >= 18 && this.role == "admin" || this.active == true'
+    );
+    expect(String(expr.and(adult, expr.and(admin, active)))).toBe(
+      'this.age >= 18 && this.role == "admin" && this.active == true'
+    );
+    expect(String(expr.not(expr.or(admin, active)))).toBe(
+      '!(this.role == "admin" || this.active == true)'
+    );
+    expect(String(expr.not(expr.exists("note")))).toBe("!EXISTS(this.note)");
+    expect(String(adult.and(admin).or(active.not()))).toBe(
+      'this.age >= 18 && this.role == "admin" || !(this.active == true)'
+    );
+    // Raw expressions are always enclosed in parentheses
+    expect(String(expr.and(adult, "this.a || this.b"))).toBe(
+      "this.age >= 18 && (this.a || this.b)"
+    );
+    expect(String(expr.gt("balance", expr.value(-5)))).toBe(
+      "this.balance > -5"
+    );
+    expect(String(expr.and())).toBe("true");
+    expect(String(expr.or())).toBe("false");
+    expect(JSON.stringify({ query: admin })).toBe(
+      '{"query":"this.role == \\"admin\\""}'
+    );
+  });
+
+  it("throws an invalid_expression error for the invalid names and values", () => {
+    const invalid: (() => unknown)[] = [
+      () => expr.field("name; drop"),
+      () => expr.lookupField("1st"),
+      () => expr.fn("ROUND()", 1),
+      () => expr.eq("age", Infinity),
+      () => expr.eq("createdAt", new Date("invalid")),
+      () => expr.eq("meta", { a: 1 } as any),
+    ];
+
+    for (const build of invalid) {
+      let error: ClientError | undefined;
+      try {
+        build();
+      } catch (err) {
+        error = err as ClientError;
+      }
+      expect(error).toBeInstanceOf(ClientError);
+      expect(error?.code).toBe("invalid_expression");
+    }
+  });
+
+  it("filters the query results with the built expression", async () => {
+    const backend = new MockBackend({
+      users: [
+        { name: 'Ann "A"', age: 31, role: "admin" },
+        { name: "Bob", age: 17, role: "editor" },
+        { name: "Cid", age: 45, role: "viewer" },
+      ],
+    });
+    const altogic = createMockClient(backend);
+    const users = altogic.db.model<{
+      name: string;
+      age: number;
+      role: string;
+    }>("users");
+
+    const { data } = await users
+      .filter((e) =>
+        e.or(
+          e.eq("name", 'Ann "A"'),
+          e.and(e.gt("age", 40), e.ne("role", "admin"))
+        )
+      )
+      .sort("age", "asc")
+      .get();
+    expect(data?.map((user) => user.name)).toEqual(['Ann "A"', "Cid"]);
+
+    const typed = new ExpressionBuilder<{ age: number }>();
+    const adults = await users.filter(typed.gte("age", 18)).get();
+    expect(adults.data).toHaveLength(2);
+  });
+});
@@ -0,0 +1,347 @@
+import { AltogicClient } from "../AltogicClient";
+import { createMockClient, MockBackend } from "../testing";
+import {
+  ClientOptions,
+  FetchFunction,
+  RequestOptions,
+  UploadFunction,
+  UploadInit,
+} from "../types";
+
+function createClient(
+  responses: ((init: RequestInit) => Promise<Response>)[],
+  options?: ClientOptions
+) {
+  const calls: RequestInit[] = [];
+  const fetch = (url: string, init: RequestInit) => {
+    calls.push(init);
+    const next = responses.shift();
+    if (!next) throw new Error(`Unexpected request to ${url}`);
+    return next(init);
+  };
+  const client = new AltogicClient("http://localhost", "key", {
+    ...options,
+    transport: { fetch },
+  });
+  return { client, calls };
+}
+
+const json = (status: number, body: object, headers?: HeadersInit) => () =>
+  Promise.resolve(
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json", ...headers },
+    })
+  );
+
+// Responds after the delay, or rejects like the fetch function when the request is aborted
+const slow =
+  (ms: number, body: object = {}) =>
+  (init: RequestInit) =>
+    new Promise<Response>((resolve, reject) => {
+      const timer = setTimeout(() => resolve(json(200, body)()), ms);
+      init.signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(new Error("The operation was aborted"));
+      });
+    });
+
+describe("Fetcher timeout and abort", () => {
+  it("returns a request_timeout error when the request times out", async () => {
+    const { client } = createClient([slow(60000)], { timeout: 10 });
+
+    const { data, errors } = await client.endpoint.get("/items");
+    expect(data).toBeNull();
+    expect(errors?.status).toBe(408);
+    expect(errors?.items[0]).toEqual(
+      expect.objectContaining({
+        code: "request_timeout",
+        message: "The request has timed out after 10 ms",
+      })
+    );
+  });
+
+  it("returns a request_aborted error when the request is aborted", async () => {
+    const controller = new AbortController();
+    const { client, calls } = createClient([slow(60000)]);
+    const options = { signal: controller.signal };
+
+    setTimeout(() => controller.abort(), 5);
+    const aborted = await client.endpoint.get(
+      "/items",
+      undefined,
+      undefined,
+      "json",
+      options
+    );
+    expect(aborted.errors?.status).toBe(499);
+    expect(aborted.errors?.items[0].code).toBe("request_aborted");
+
+    // An aborted signal cancels the request before it is sent
+    const cancelled = await client.endpoint.get(
+      "/items",
+      undefined,
+      undefined,
+      "json",
+      options
+    );
+    expect(cancelled.errors?.items[0].code).toBe("request_aborted");
+    expect(calls).toHaveLength(1);
+  });
+
+  it("overrides the client options with the request options", async () => {
+    const { client, calls } = createClient(
+      [slow(20, { ok: true }), slow(60000), json(503, {}), json(200, {})],
+      { timeout: 5, retry: { maxAttempts: 1 } }
+    );
+    const get = (options: RequestOptions) =>
+      client.endpoint.get("/items", undefined, undefined, "json", options);
+
+    // A zero timeout disables the timeout of the client
+    const waited = await get({ timeout: 0 });
+    expect(waited).toEqual({ data: { ok: true }, errors: null });
+
+    const timedOut = await get({ timeout: 15 });
+    expect(timedOut.errors?.items[0].message).toBe(
+      "The request has timed out after 15 ms"
+    );
+
+    const retried = await get({ retry: { maxAttempts: 2, baseDelay: 1 } });
+    expect(retried.errors).toBeNull();
+    expect(calls).toHaveLength(4);
+  });
+});
+
+describe("Fetcher retry policy", () => {
+  it("retries the failed GET requests with exponential backoff", async () => {
+    const delays: number[] = [];
+    const { client, calls } = createClient(
+      [json(503, {}), json(502, {}), json(200, { ok: true })],
+      {
+        retry: {
+          maxAttempts: 3,
+          baseDelay: 1,
+          jitter: false,
+          onRetry: (info) => delays.push(info.delay),
+        },
+      }
+    );
+
+    const { data, errors } = await client.endpoint.get("/items");
+    expect(errors).toBeNull();
+    expect(data).toEqual({ ok: true });
+    expect(calls).toHaveLength(3);
+    expect(delays).toEqual([1, 2]);
+  });
+
+  it("does not retry the POST requests by default", async () => {
+    const { client, calls } = createClient([json(503, {})], {
+      retry: { maxAttempts: 3, baseDelay: 1 },
+    });
+
+    const { errors } = await client.endpoint.post("/items");
+    expect(errors?.status).toBe(503);
+    expect(calls).toHaveLength(1);
+  });
+
+  it("waits for the Retry-After duration up to the max delay", async () => {
+    const delays: number[] = [];
+    const { client } = createClient(
+      [json(429, {}, { "Retry-After": "0.005" }), json(200, {})],
+      {
+        retry: {
+          maxAttempts: 2,
+          maxDelay: 4,
+          onRetry: (info) => delays.push(info.delay),
+        },
+      }
+    );
+
+    await client.endpoint.get("/items");
+    expect(delays).toEqual([4]);
+  });
+
+  it("returns the aborted error without waiting out the backoff", async () => {
+    const controller = new AbortController();
+    const { client, calls } = createClient([json(503, {}), json(200, {})], {
+      retry: {
+        maxAttempts: 2,
+        baseDelay: 60000,
+        onRetry: () => setTimeout(() => controller.abort(), 5),
+      },
+    });
+
+    const start = Date.now();
+    const { data, errors } = await client.endpoint.get(
+      "/items",
+      undefined,
+      undefined,
+      "json",
+      {
+        signal: controller.signal,
+      }
+    );
+    expect(Date.now() - start).toBeLessThan(5000);
+    expect(data).toBeNull();
+    expect(errors?.items[0].code).toBe("request_aborted");
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe("Fetcher middleware", () => {
+  it("runs the middleware in the order they are registered", async () => {
+    const order: string[] = [];
+    const { client, calls } = createClient([json(200, { value: 1 })], {
+      middleware: [
+        async (request, next) => {
+          order.push("options:before");
+          request.headers["X-Trace"] = "trace-1";
+          const response = await next();
+          order.push("options:after");
+          return response;
+        },
+      ],
+    });
+    client.use(async (request, next) => {
+      order.push("use:before");
+      request.query.page = 2;
+      const response = await next();
+      order.push("use:after");
+      return { data: { ...response.data, wrapped: true }, errors: null };
+    });
+
+    const { data } = await client.endpoint.get("/items");
+    expect(order).toEqual([
+      "options:before",
+      "use:before",
+      "use:after",
+      "options:after",
+    ]);
+    expect(data).toEqual({ value: 1, wrapped: true });
+    expect((calls[0].headers as { [name: string]: string })["X-Trace"]).toBe(
+      "trace-1"
+    );
+  });
+
+  it("returns the middleware response without sending the request", async () => {
+    const { client, calls } = createClient([]);
+    client.use(async (request) =>
+      request.path === "/cached"
+        ? { data: "cached", errors: null }
+        : { data: null, errors: null }
+    );
+
+    const { data } = await client.endpoint.get("/cached");
+    expect(data).toBe("cached");
+    expect(calls).toHaveLength(0);
+  });
+});
+
+describe("Fetcher transport", () => {
+  it("sends the requests through the fetch function of the transport", async () => {
+    const calls: [string, RequestInit][] = [];
+    const client = new AltogicClient("http://localhost", "key", {
+      transport: {
+        fetch: (url, init) => {
+          calls.push([url, init]);
+          return json(200, { saved: true })();
+        },
+      },
+    });
+
+    const { data, errors } = await client.endpoint.post(
+      "/items",
+      { name: "Lamp" },
+      { tag: "new" },
+      { "X-Trace": "trace-1" }
+    );
+    expect(errors).toBeNull();
+    expect(data).toEqual({ saved: true });
+    expect(calls).toEqual([
+      [
+        "http://localhost/items?tag=new",
+        {
+          method: "POST",
+          headers: expect.objectContaining({
+            "X-Client-Key": "key",
+            "X-Trace": "trace-1",
+            "Content-Type": "application/json",
+          }),
+          body: JSON.stringify({ name: "Lamp" }),
+          credentials: "include",
+          signal: undefined,
+        },
+      ],
+    ]);
+  });
+
+  it("uploads the files through the upload function of the transport", async () => {
+    const backend = new MockBackend();
+    const uploads: [string, UploadInit][] = [];
+    const upload = backend.transport.upload as UploadFunction;
+    const client = createMockClient(backend);
+    const altogic = new AltogicClient("http://localhost", "key", {
+      transport: {
+        fetch: backend.transport.fetch,
+        upload: (url, init) => {
+          uploads.push([url, init]);
+          return upload(url, init);
+        },
+      },
+    });
+    const progress: number[][] = [];
+
+    const { data, errors } = await altogic.storage
+      .bucket("root")
+      .upload("notes.txt", new Blob(["hello"], { type: "text/plain" }), {
+        onProgress: (loaded: number, total: number, percent: number) =>
+          progress.push([loaded, total, percent]),
+      });
+    expect(errors).toBeNull();
+    expect(data).toEqual(
+      expect.objectContaining({ fileName: "notes.txt", size: 5 })
+    );
+    expect(progress).toEqual([[5, 5, 100]]);
+
+    expect(uploads).toHaveLength(1);
+    const [url, init] = uploads[0];
+    expect(url).toMatch(
+      /^http:\/\/localhost\/_api\/rest\/v1\/storage\/bucket\/upload-formdata\?/
+    );
+    expect(init.method).toBe("POST");
+    expect(init.body.get("file")).toBeInstanceOf(Blob);
+    expect(init.headers["X-Client-Key"]).toBe("key");
+    expect(Object.keys(init.headers)).not.toContain("Content-Type");
+
+    // The uploaded file is stored on the backend
+    const files = await client.storage.bucket("root").listFiles();
+    expect(files.data).toEqual([
+      expect.objectContaining({ fileName: "notes.txt" }),
+    ]);
+  });
+
+  it("uploads the files with the fetch function if there is no upload function", async () => {
+    const backend = new MockBackend();
+    const fetched: string[] = [];
+    const altogic = new AltogicClient("http://localhost", "key", {
+      transport: {
+        fetch: (url, init) => {
+          fetched.push(url);
+          return (backend.transport.fetch as FetchFunction)(url, init);
+        },
+      },
+    });
+    const onProgress = jest.fn();
+
+    const { data, errors } = await altogic.storage
+      .bucket("root")
+      .upload("notes.txt", new Blob(["hello"]), { onProgress });
+    expect(errors).toBeNull();
+    expect(data).toEqual(expect.objectContaining({ fileName: "notes.txt" }));
+    // XMLHttpRequest is not available in Node, so the progress is not tracked
+    expect(onProgress).not.toHaveBeenCalled();
+    expect(fetched).toEqual([
+      expect.stringContaining("/storage/bucket/upload-formdata?"),
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import { FieldUpdateBuilder, updates } from "../FieldUpdateBuilder";
+import { ClientError } from "../utils/ClientError";
+
+interface Product {
+  _id: string;
+  name: string;
+  note?: string;
+  stock: number;
+  price: number;
+  tags: string[];
+  address: { city: string; floor: number };
+  createdAt: string;
+}
+
+// Returns the error thrown by the update or undefined if it does not throw
+function catchError(update: () => void): ClientError | undefined {
+  try {
+    update();
+  } catch (err) {
+    return err as ClientError;
+  }
+  return undefined;
+}
+
+describe("FieldUpdateBuilder", () => {
+  it("builds the instruction of each update type", () => {
+    const expiry = new Date("2026-01-01T00:00:00.000Z");
+    const built = updates<Product>()
+      .set("name", "Lamp")
+      .set("address.city", "Paris")
+      .unset("note")
+      .inc("stock")
+      .inc("stock", 5)
+      .dec("stock")
+      .dec("price", 2.5)
+      .mul("price", 1.2)
+      .min("address.floor", 0)
+      .max("stock", 100)
+      .push("tags", "sale")
+      .pull("tags", "new")
+      .pop("tags")
+      .shift("tags")
+      .build();
+
+    expect(built).toEqual([
+      { field: "name", updateType: "set", value: "Lamp" },
+      { field: "address.city", updateType: "set", value: "Paris" },
+      { field: "note", updateType: "unset" },
+      { field: "stock", updateType: "increment", value: 1 },
+      { field: "stock", updateType: "increment", value: 5 },
+      { field: "stock", updateType: "decrement", value: 1 },
+      { field: "price", updateType: "decrement", value: 2.5 },
+      { field: "price", updateType: "multiply", value: 1.2 },
+      { field: "address.floor", updateType: "min", value: 0 },
+      { field: "stock", updateType: "max", value: 100 },
+      { field: "tags", updateType: "push", value: "sale" },
+      { field: "tags", updateType: "pull", value: "new" },
+      { field: "tags", updateType: "pop" },
+      { field: "tags", updateType: "shift" },
+    ]);
+    // The update types without a value do not have the value key
+    expect("value" in built[2]).toBe(false);
+    expect("value" in built[12]).toBe(false);
+    // Dates are basic list values
+    expect(updates().push("dates", expiry).build()).toEqual([
+      { field: "dates", updateType: "push", value: expiry },
+    ]);
+  });
+
+  it("allows setting a field to null", () => {
+    expect(updates().set("note", null).build()).toEqual([
+      { field: "note", updateType: "set", value: null },
+    ]);
+  });
+
+  it("returns a copy of the instructions on each build", () => {
+    const builder = new FieldUpdateBuilder<Product>().inc("stock");
+    const first = builder.build();
+    first[0].value = 10;
+    first.push({ field: "name", updateType: "unset" });
+
+    builder.dec("price");
+    expect(builder.build()).toEqual([
+      { field: "stock", updateType: "increment", value: 1 },
+      { field: "price", updateType: "decrement", value: 1 },
+    ]);
+    expect(first).toHaveLength(2);
+  });
+
+  it("rejects invalid updates without adding them", () => {
+    const builder = updates();
+    const cases: [() => void, string][] = [
+      [
+        () => builder.set("", 1),
+        "Field name of the update needs to be specified",
+      ],
+      [
+        () => builder.set("_id", "1"),
+        "System managed field '_id' cannot be updated",
+      ],
+      [
+        () => builder.unset("createdAt"),
+        "System managed field 'createdAt' cannot be updated",
+      ],
+      [
+        () => builder.set("name", undefined),
+        "Value of 'name' needs to be specified for a 'set' update, use 'unset' to clear the field",
+      ],
+      [
+        () => builder.inc("stock", NaN),
+        "Value of 'stock' needs to be a finite number for 'increment' update",
+      ],
+      [
+        () => builder.dec("stock", Infinity),
+        "Value of 'stock' needs to be a finite number for 'decrement' update",
+      ],
+      [
+        () => builder.mul("stock", "2" as any),
+        "Value of 'stock' needs to be a finite number for 'multiply' update",
+      ],
+      [
+        () => builder.min("stock", undefined as any),
+        "Value of 'stock' needs to be a finite number for 'min' update",
+      ],
+      [
+        () => builder.max("stock", null as any),
+        "Value of 'stock' needs to be a finite number for 'max' update",
+      ],
+      [
+        () => builder.push("tags", { name: "sale" }),
+        "Value of 'tags' needs to be a basic list value for 'push' update",
+      ],
+      [
+        () => builder.pull("tags", null),
+        "Value of 'tags' needs to be a basic list value for 'pull' update",
+      ],
+    ];
+
+    for (const [update, message] of cases) {
+      const error = catchError(update);
+      expect(error).toBeInstanceOf(ClientError);
+      expect(error?.code).toBe("invalid_field_update");
+      expect(error?.message).toBe(message);
+    }
+    expect(catchError(() => builder.inc("stock", NaN))?.details).toEqual({
+      field: "stock",
+      updateType: "increment",
+      value: NaN,
+    });
+    expect(builder.build()).toEqual([]);
+  });
+});
@@ -0,0 +1,213 @@
+import { MockBackend } from "../testing";
+import { RealtimeManager } from "../RealtimeManager";
+import { LiveQueryUpdate } from "../types";
+import { createInterceptedClient, delay, recordRequests } from "./fixtures";
+
+/**
+ * Delivers the change events to the live queries without a realtime socket
+ */
+class FakeRealtime {
+  listeners = new Map<string, ((payload: any) => void)[]>();
+  channels: string[] = [];
+  connected = true;
+
+  on(eventName: string, listener: (payload: any) => void) {
+    this.listeners.set(eventName, [
+      ...(this.listeners.get(eventName) ?? []),
+      listener,
+    ]);
+  }
+
+  off(eventName: string, listener: (payload: any) => void) {
+    this.listeners.set(
+      eventName,
+      (this.listeners.get(eventName) ?? []).filter(
+        (entry) => entry !== listener
+      )
+    );
+  }
+
+  join(channel: string) {
+    this.channels.push(channel);
+  }
+
+  leave(channel: string) {
+    this.channels = this.channels.filter((entry) => entry !== channel);
+  }
+
+  isConnected() {
+    return this.connected;
+  }
+
+  emit(eventName: string, message: any, channel = "db:tasks") {
+    for (const listener of this.listeners.get(eventName) ?? [])
+      listener({ channel, message });
+  }
+}
+
+function subscribe(
+  backend: MockBackend,
+  select?: "title",
+  realtime = new FakeRealtime()
+) {
+  const network = { online: true };
+  // The transport rejects the requests like the fetch function when the connection is lost
+  const altogic = createInterceptedClient(backend, (url, init, fetch) =>
+    network.online
+      ? fetch(url, init)
+      : Promise.reject(new TypeError("Failed to fetch"))
+  );
+  const updates: LiveQueryUpdate<any>[] = [];
+  const requests = recordRequests(altogic);
+  let release: (() => void) | null = null;
+  const blocked: Promise<void>[] = [];
+  // Holds the fetches while blocked, to deliver the change events during a fetch
+  altogic.use(async (request, next) => {
+    const response = await next();
+    await Promise.all(blocked);
+    return response;
+  });
+
+  const query = altogic.db
+    .model("tasks")
+    .filter("this.done == false")
+    .sort("rank", "asc")
+    .limit(2);
+  const listener = (update: LiveQueryUpdate<any>) => updates.push(update);
+  const options = {
+    realtime: realtime as unknown as RealtimeManager,
+    pollInterval: 5,
+  };
+  const live = select
+    ? query.select(select).subscribe(listener, options)
+    : query.subscribe(listener, options);
+
+  const block = () => {
+    blocked.push(new Promise((resolve) => (release = resolve)));
+    return () => release?.();
+  };
+  const fetches = () => requests.length;
+  return { live, realtime, updates, block, fetches, network };
+}
+
+describe("LiveQuery", () => {
+  const createBackend = () =>
+    new MockBackend({
+      tasks: [
+        { _id: "t1", title: "A", rank: 1, done: false },
+        { _id: "t2", title: "B", rank: 3, done: false },
+        { _id: "t3", title: "C", rank: 2, done: true },
+      ],
+    });
+  const ids = (data: any[]) => data.map((item) => item._id);
+
+  it("applies the change events to the fetched result locally", async () => {
+    const { live, realtime, updates, fetches } = subscribe(createBackend());
+    await delay();
+    expect(ids(live.data)).toEqual(["t1", "t2"]);
+    expect(realtime.channels).toEqual(["db:tasks"]);
+
+    realtime.emit("create", { _id: "t4", rank: 2, done: false });
+    expect(ids(live.data)).toEqual(["t1", "t4"]);
+    realtime.emit("update", { _id: "t4", rank: 0, done: false });
+    expect(ids(live.data)).toEqual(["t4", "t1"]);
+    // Objects not matching the filter are ignored
+    realtime.emit("create", { _id: "t5", rank: 0, done: true });
+    realtime.emit("delete", "t9");
+
+    expect(updates.map((update) => update.type)).toEqual([
+      "fetch",
+      "create",
+      "update",
+    ]);
+    expect(fetches()).toBe(1);
+
+    live.unsubscribe();
+    realtime.emit("delete", "t4");
+    expect(updates).toHaveLength(3);
+    expect(realtime.channels).toEqual([]);
+  });
+
+  it("applies the change events received during a fetch to its result", async () => {
+    const { live, realtime, updates, block } = subscribe(createBackend());
+    await delay();
+
+    const release = block();
+    const refreshed = live.refresh();
+    await delay();
+    // The object is created after the query has run on the app backend
+    realtime.emit("create", { _id: "t4", rank: 0, done: false });
+    release();
+    await refreshed;
+
+    expect(ids(live.data)).toEqual(["t4", "t1"]);
+    expect(updates[updates.length - 1]).toEqual(
+      expect.objectContaining({ type: "fetch", data: live.data })
+    );
+  });
+
+  it("fetches the query again on each change if the fields are selected", async () => {
+    const backend = createBackend();
+    const { live, realtime, fetches } = subscribe(backend, "title");
+    await delay();
+    expect(live.data).toEqual([
+      { _id: "t1", title: "A" },
+      { _id: "t2", title: "B" },
+    ]);
+
+    backend.seed("tasks", [{ _id: "t4", title: "D", rank: 0, done: false }]);
+    realtime.emit("create", { _id: "t4", title: "D", rank: 0, done: false });
+    await delay();
+    expect(fetches()).toBe(2);
+    expect(live.data).toEqual([
+      { _id: "t4", title: "D" },
+      { _id: "t1", title: "A" },
+    ]);
+    live.unsubscribe();
+  });
+
+  it("calls the listener with the network errors of the failed fetches", async () => {
+    const { live, realtime, updates, network } = subscribe(createBackend());
+    await delay();
+
+    network.online = false;
+    await live.refresh();
+    expect(live.errors?.items[0]).toEqual(
+      expect.objectContaining({
+        code: "network_error",
+        message: "Failed to fetch",
+      })
+    );
+    expect(updates[updates.length - 1]).toEqual(
+      expect.objectContaining({ type: "fetch", errors: live.errors })
+    );
+    expect(ids(live.data)).toEqual(["t1", "t2"]);
+
+    // The changes received after the failed fetch are applied
+    realtime.emit("create", { _id: "t4", rank: 0, done: false });
+    expect(ids(live.data)).toEqual(["t4", "t1"]);
+    network.online = true;
+    await live.refresh();
+    expect(live.errors).toBeNull();
+    live.unsubscribe();
+  });
+
+  it("keeps polling the query while the connection is lost", async () => {
+    const realtime = new FakeRealtime();
+    realtime.connected = false;
+    const { live, updates, network } = subscribe(
+      createBackend(),
+      undefined,
+      realtime
+    );
+    network.online = false;
+    await delay(30);
+
+    live.unsubscribe();
+    // The first fetch has started before the connection is lost
+    const failed = updates.filter(
+      (update) => update.errors?.items[0].code === "network_error"
+    );
+    expect(failed.length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,84 @@
+import { createMockClient, MockBackend } from "../testing";
+import { ClientError } from "../utils/ClientError";
+
+describe("MockBackend", () => {
+  it("queries the seeded objects with filter, sort and pagination", async () => {
+    const backend = new MockBackend({
+      users: [
+        { name: "Ann", age: 31 },
+        { name: "Bob", age: 17 },
+        { name: "Cid", age: 45 },
+      ],
+    });
+    const altogic = createMockClient(backend);
+
+    const { data, errors } = await altogic.db
+      .model("users")
+      .filter("this.age >= 18")
+      .sort("age", "desc")
+      .limit(1)
+      .page(2)
+      .get();
+    expect(errors).toBeNull();
+    expect(data).toEqual([expect.objectContaining({ name: "Ann", age: 31 })]);
+  });
+
+  it("stores the created objects with the system fields", async () => {
+    const backend = new MockBackend();
+    const altogic = createMockClient(backend);
+
+    const { data } = await altogic.db.model("users").create({ name: "Ann" });
+    expect(data).toEqual(
+      expect.objectContaining({
+        _id: expect.any(String),
+        name: "Ann",
+        createdAt: expect.any(String),
+        updatedAt: expect.any(String),
+      })
+    );
+    expect(backend.getObjects("users")).toEqual([data]);
+  });
+
+  it("processes the queue messages and tasks on the next status request", async () => {
+    const backend = new MockBackend();
+    const altogic = createMockClient(backend);
+
+    const submitted = await altogic.queue.submitMessage("emails", { to: "a" });
+    expect(submitted.info?.status).toBe("pending");
+    expect(backend.getMessages("emails")).toEqual([
+      expect.objectContaining({ message: { to: "a" }, startedAt: null }),
+    ]);
+
+    const message = await altogic.queue.getMessageStatus(
+      submitted.info?.messageId ?? ""
+    );
+    expect(message.info?.status).toBe("completed");
+    expect(message.info?.completedAt).toEqual(expect.any(String));
+
+    const triggered = await altogic.task.runOnce("cleanup");
+    expect(triggered.info?.status).toBe("pending");
+    const task = await altogic.task.getTaskStatus(triggered.info?.taskId ?? "");
+    expect(task.info?.status).toBe("completed");
+    expect(backend.getTasks("cleanup")).toHaveLength(1);
+  });
+
+  it("routes the requests to the custom endpoints", async () => {
+    const backend = new MockBackend();
+    backend.addEndpoint("GET", "/users/:userId", ({ params, query }) => ({
+      id: params.userId,
+      fields: query.fields,
+    }));
+    backend.addEndpoint("POST", "/fail", () => {
+      throw new ClientError("invalid_input", "Input is not valid");
+    });
+    const altogic = createMockClient(backend);
+
+    const found = await altogic.endpoint.get("/users/42", { fields: "name" });
+    expect(found.data).toEqual({ id: "42", fields: "name" });
+
+    const failed = await altogic.endpoint.post("/fail");
+    expect(failed.data).toBeNull();
+    expect(failed.errors?.status).toBe(400);
+    expect(failed.errors?.items[0].code).toBe("invalid_input");
+  });
+});
@@ -0,0 +1,184 @@
+import { createMockClient, MockBackend } from "../testing";
+import { OfflineOptions } from "../types";
+import { delay, failRequests, recordRequests } from "./fixtures";
+
+function createClient(backend: MockBackend, options?: OfflineOptions) {
+  const altogic = createMockClient(backend);
+  const replica = altogic.db.offline({ autoSync: false, ...options });
+  const network = { online: true };
+  // Fails the requests like a lost connection while offline, registered after the replica
+  failRequests(
+    altogic,
+    () => !network.online,
+    0,
+    "network_error",
+    "Failed to fetch"
+  );
+  const requests = recordRequests(altogic);
+  return { altogic, replica, network, requests };
+}
+
+describe("OfflineReplica", () => {
+  const createBackend = () =>
+    new MockBackend({
+      todos: [
+        { _id: "t1", title: "Buy milk", done: false },
+        { _id: "t2", title: "Call Ann", done: false },
+      ],
+    });
+
+  it("serves the reads from the replica and replays the queued mutations in order", async () => {
+    const backend = createBackend();
+    const { altogic, replica, network, requests } = createClient(backend);
+    const todos = () => altogic.db.model("todos");
+    await todos().get();
+
+    network.online = false;
+    const created = await todos()
+      .object()
+      .create({ title: "Pay rent", done: false });
+    const localId = (created.data as any)._id;
+    expect(localId).toMatch(/^local_/);
+    await todos().object(localId).update({ done: true });
+    await todos().object("t1").updateFields({
+      field: "done",
+      updateType: "set",
+      value: true,
+    });
+    await todos().object("t2").delete();
+
+    expect(replica.isOnline).toBe(false);
+    const local = await todos()
+      .filter("this.done == true")
+      .sort("title", "asc")
+      .get();
+    expect(local.data?.map((todo: any) => todo.title)).toEqual([
+      "Buy milk",
+      "Pay rent",
+    ]);
+    expect(
+      (await replica.getPendingMutations()).map((entry) => entry.type)
+    ).toEqual(["create", "update", "updateFields", "delete"]);
+
+    network.online = true;
+    requests.length = 0;
+    const result = await replica.sync();
+    expect(result).toEqual({ synced: 4, conflicts: 0, failed: [], pending: 0 });
+    expect(requests.map((request) => request.path)).toEqual([
+      "/db/object/create",
+      "/db/object/update",
+      "/db/object/update-fields",
+      "/db/object/delete",
+    ]);
+
+    const objects: any[] = backend.getObjects("todos");
+    expect(objects.map((todo) => [todo.title, todo.done])).toEqual([
+      ["Buy milk", true],
+      ["Pay rent", true],
+    ]);
+    // The temporary id is replaced with the id assigned by the app backend
+    network.online = false;
+    const replayed = await todos().object(objects[1]._id).get();
+    expect(replayed.data).toEqual(
+      expect.objectContaining({ title: "Pay rent" })
+    );
+    expect((await todos().object(localId).get()).errors).not.toBeNull();
+  });
+
+  it("keeps the version of the app backend with the server-wins policy", async () => {
+    const backend = createBackend();
+    const { altogic, replica, network } = createClient(backend, {
+      conflictPolicy: "server-wins",
+    });
+    await altogic.db.model("todos").object("t1").get();
+
+    network.online = false;
+    await altogic.db.model("todos").object("t1").update({ title: "Local" });
+    await delay(5);
+    await createMockClient(backend)
+      .db.model("todos")
+      .object("t1")
+      .update({ title: "Server" });
+
+    network.online = true;
+    const result = await replica.sync();
+    expect(result).toEqual(
+      expect.objectContaining({ synced: 0, conflicts: 1, pending: 0 })
+    );
+    expect(backend.getObjects("todos")[0]).toEqual(
+      expect.objectContaining({ title: "Server" })
+    );
+
+    network.online = false;
+    const local = await altogic.db.model("todos").object("t1").get();
+    expect(local.data).toEqual(expect.objectContaining({ title: "Server" }));
+  });
+
+  it("writes the merged values returned by the conflict resolver", async () => {
+    const backend = createBackend();
+    const resolver = jest.fn(({ local, server }: any) => ({
+      title: server.title,
+      done: local.done,
+    }));
+    const { altogic, replica, network } = createClient(backend, {
+      conflictPolicy: resolver,
+    });
+    await altogic.db.model("todos").object("t1").get();
+
+    network.online = false;
+    await altogic.db.model("todos").object("t1").update({ done: true });
+    await delay(5);
+    await createMockClient(backend)
+      .db.model("todos")
+      .object("t1")
+      .update({ title: "Renamed" });
+
+    network.online = true;
+    const result = await replica.sync();
+    expect(result.conflicts).toBe(1);
+    expect(result.synced).toBe(1);
+    expect(resolver).toHaveBeenCalledWith(
+      expect.objectContaining({
+        local: expect.objectContaining({ done: true }),
+        server: expect.objectContaining({ title: "Renamed", done: false }),
+      })
+    );
+    expect(backend.getObjects("todos")[0]).toEqual(
+      expect.objectContaining({ title: "Renamed", done: true })
+    );
+  });
+
+  it("removes the rejected mutations and the later mutations of an object that is not created", async () => {
+    const backend = createBackend();
+    const { altogic, replica, network } = createClient(backend);
+    failRequests(
+      altogic,
+      (request) => request.body?.values?.title === "",
+      400,
+      "validation_error",
+      "Title is required"
+    );
+
+    network.online = false;
+    const created = await altogic.db
+      .model("todos")
+      .object()
+      .create({ title: "" });
+    await altogic.db
+      .model("todos")
+      .object((created.data as any)._id)
+      .update({ done: true });
+    await altogic.db.model("todos").object().create({ title: "Valid" });
+
+    network.online = true;
+    const result = await replica.sync();
+    expect(result.synced).toBe(1);
+    expect(result.failed.map((entry) => entry.mutation.type)).toEqual([
+      "create",
+      "update",
+    ]);
+    expect(result.failed[0].errors.items[0].code).toBe("validation_error");
+    expect(backend.getObjects("todos")).toHaveLength(3);
+    expect(await replica.getPendingMutations()).toEqual([]);
+  });
+});
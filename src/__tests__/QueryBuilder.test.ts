@@ -0,0 +1,189 @@
+import { QueryBuilder } from "../QueryBuilder";
+import { createMockClient, MockBackend } from "../testing";
+import { ClientError } from "../utils/ClientError";
+import { recordRequests } from "./fixtures";
+
+interface User {
+  _id: string;
+  name: string;
+  age: number;
+  team: string;
+}
+
+function createClient() {
+  const backend = new MockBackend({
+    users: [
+      { name: "Ann", age: 31, team: "a" },
+      { name: "Bob", age: 17, team: "b" },
+      { name: "Cid", age: 45, team: "a" },
+    ],
+    teams: [
+      { _id: "a", title: "Alpha" },
+      { _id: "b", title: "Beta" },
+    ],
+  });
+  const altogic = createMockClient(backend);
+  return { altogic, requests: recordRequests(altogic) };
+}
+
+describe("QueryBuilder serialization", () => {
+  it("rehydrates the serialized query to an equivalent query", async () => {
+    const { altogic, requests } = createClient();
+    const query = altogic.db
+      .model("users")
+      .filter((e) => e.gte("age", 18))
+      .lookup({ field: "team" })
+      .sort("age", "desc")
+      .omit("createdAt")
+      .limit(1)
+      .page(2);
+
+    const json = JSON.stringify(query);
+    const rehydrated = altogic.db.fromJSON(json);
+    expect(rehydrated).toBeInstanceOf(QueryBuilder);
+    expect(rehydrated.toJSON()).toEqual(query.toJSON());
+    expect(rehydrated.toJSON()).toEqual({
+      model: "users",
+      action: expect.objectContaining({
+        expression: "this.age >= 18",
+        lookups: [{ field: "team" }],
+        sort: [{ field: "age", direction: "desc" }],
+        omit: ["createdAt"],
+        limit: 1,
+        page: 2,
+      }),
+      select: null,
+      cursor: null,
+    });
+
+    const original = await query.get();
+    const restored = await rehydrated.get();
+    expect(restored).toEqual(original);
+    expect(original.data).toEqual([
+      expect.objectContaining({ name: "Ann", team: expect.any(Object) }),
+    ]);
+    expect(requests[1].body).toEqual(requests[0].body);
+  });
+
+  it("keeps the selected fields and the cursor of the serialized query", () => {
+    const { altogic } = createClient();
+    const query = altogic.db
+      .model("users")
+      .select("name")
+      .sort("name", "asc")
+      .after("cursor-1");
+
+    const rehydrated = altogic.db.fromJSON(query.toJSON());
+    expect(rehydrated.toJSON()).toEqual(query.toJSON());
+    expect(rehydrated.toJSON()).toEqual(
+      expect.objectContaining({
+        select: ["name"],
+        cursor: { direction: "after", value: "cursor-1" },
+      })
+    );
+  });
+
+  it("does not share the serialized action with the query builder", () => {
+    const { altogic } = createClient();
+    const query = altogic.db.model("users").sort("age", "asc");
+    const json = query.toJSON();
+    json.action.sort?.push({ field: "name", direction: "asc" });
+
+    const rehydrated = altogic.db.fromJSON(json);
+    json.action.sort?.pop();
+    expect(query.toJSON().action.sort).toEqual([
+      { field: "age", direction: "asc" },
+    ]);
+    expect(rehydrated.toJSON().action.sort).toHaveLength(2);
+  });
+
+  it("throws an invalid_query_json error for the malformed queries", () => {
+    const { altogic } = createClient();
+    const malformed: any[] = [
+      "{not json",
+      { action: {} },
+      { model: "users", action: null },
+      { model: "users", action: { unknown: true } },
+      { model: "users", action: {}, select: [1] },
+      { model: "users", action: {}, cursor: { direction: "up", value: "1" } },
+    ];
+
+    for (const json of malformed) {
+      let error: ClientError | undefined;
+      try {
+        altogic.db.fromJSON(json);
+      } catch (err) {
+        error = err as ClientError;
+      }
+      expect(error).toBeInstanceOf(ClientError);
+      expect(error?.code).toBe("invalid_query_json");
+    }
+  });
+});
+
+describe("QueryBuilder clone and immutable mode", () => {
+  it("modifies the clone without changing the source query", async () => {
+    const { altogic } = createClient();
+    const base = altogic.db.model("users").filter("this.age >= 18");
+    const source = base.toJSON();
+
+    const newest = base.clone().sort("age", "desc").limit(1);
+    expect(base.toJSON()).toEqual(source);
+    expect(newest.toJSON().action).toEqual(
+      expect.objectContaining({
+        expression: "this.age >= 18",
+        sort: [{ field: "age", direction: "desc" }],
+        limit: 1,
+      })
+    );
+
+    // Modifying the source does not change the clone either
+    base.sort("name", "asc");
+    expect(newest.toJSON().action.sort).toEqual([
+      { field: "age", direction: "desc" },
+    ]);
+
+    const { data } = await newest.get();
+    expect(data).toEqual([expect.objectContaining({ name: "Cid" })]);
+  });
+
+  it("returns a new query builder from each modifier in immutable mode", async () => {
+    const { altogic } = createClient();
+    const base = altogic.db
+      .model<User>("users")
+      .immutable()
+      .filter("this.age >= 18")
+      .lookup({ field: "team" });
+    const source = base.toJSON();
+
+    const youngest = base.sort("age", "asc");
+    const oldest = base.sort("age", "desc").omit("team");
+    expect(youngest).not.toBe(base);
+    expect(oldest).not.toBe(base);
+    expect(base.toJSON()).toEqual(source);
+    expect(youngest.toJSON().action.omit).toEqual(source.action.omit);
+    expect(oldest.toJSON().action.lookups).toEqual([{ field: "team" }]);
+
+    // The modifiers of the copies are immutable too
+    expect(youngest.limit(1)).not.toBe(youngest);
+    expect(
+      youngest.lookup({ field: "manager" }).toJSON().action.lookups
+    ).toEqual([{ field: "team" }, { field: "manager" }]);
+    expect(base.toJSON().action.lookups).toEqual([{ field: "team" }]);
+
+    const [young, old] = await Promise.all([youngest.get(), oldest.get()]);
+    expect(young.data?.map((user) => user.name)).toEqual(["Ann", "Cid"]);
+    expect(old.data?.map((user) => user.name)).toEqual(["Cid", "Ann"]);
+  });
+
+  it("modifies the query builder itself in mutable mode", () => {
+    const { altogic } = createClient();
+    const query = altogic.db.model("users");
+    expect(query.sort("age", "asc")).toBe(query);
+
+    const mutable = query.immutable().immutable(false);
+    expect(mutable).not.toBe(query);
+    expect(mutable.limit(5)).toBe(mutable);
+    expect(query.toJSON().action.limit).not.toBe(5);
+  });
+});
@@ -0,0 +1,101 @@
+import { createMockClient, MockBackend } from "../testing";
+import { MemoryOfflineStore } from "../utils/MemoryOfflineStore";
+import { QueryCacheOptions, Session } from "../types";
+import { delay, recordRequests } from "./fixtures";
+
+function createClient(backend: MockBackend, options?: QueryCacheOptions) {
+  const altogic = createMockClient(backend);
+  const cache = altogic.db.queryCache(options);
+  const requests = recordRequests(altogic);
+  const paths = () => requests.map((request) => request.path);
+  return { altogic, cache, paths };
+}
+
+const version = { family: "", major: "", minor: "", patch: "" };
+const session = (token: string): Session => ({
+  userId: `user-${token}`,
+  token,
+  creationDtm: new Date().toISOString(),
+  accessGroupKeys: [],
+  userAgent: { ...version, device: version, os: version },
+});
+
+describe("QueryCache", () => {
+  const createBackend = () =>
+    new MockBackend({
+      authors: [{ _id: "a1", name: "Ann" }],
+      posts: [{ _id: "p1", title: "Hello", author: "a1" }],
+    });
+
+  it("returns a copy of the cached result of the identical queries", async () => {
+    const { altogic, paths } = createClient(createBackend());
+    const posts = () => altogic.db.model("posts").filter("this.title != ''");
+
+    const [first, second] = await Promise.all([posts().get(), posts().get()]);
+    const third = await posts().get();
+    expect(paths()).toEqual(["/db/get-list"]);
+    expect(third.data).toEqual(first.data);
+
+    (third.data as any[])[0].title = "Changed";
+    expect((await posts().get()).data).toEqual(second.data);
+    await altogic.db.model("posts").sort("title", "asc").get();
+    expect(paths()).toEqual(["/db/get-list", "/db/get-list"]);
+  });
+
+  it("invalidates the results of the changed models and their lookups", async () => {
+    const { altogic, cache, paths } = createClient(createBackend());
+    const posts = () => altogic.db.model("posts").lookup({ field: "author" });
+
+    await posts().get();
+    await altogic.db.model("authors").object("a1").update({ name: "Anne" });
+    const { data } = await posts().get();
+    expect((data as any[])[0].author.name).toBe("Anne");
+
+    await altogic.db.model("posts").object("p1").get();
+    await cache.invalidate("posts");
+    await altogic.db.model("posts").object("p1").get();
+    expect(paths()).toEqual([
+      "/db/get-list",
+      "/db/object/update",
+      "/db/get-list",
+      "/db/object/get",
+      "/db/object/get",
+    ]);
+  });
+
+  it("does not share the results of different sessions", async () => {
+    const { altogic, paths } = createClient(createBackend());
+    const posts = () => altogic.db.model("posts").get();
+
+    altogic.auth.setSession(session("a"));
+    await posts();
+    altogic.auth.setSession(session("b"));
+    await posts();
+    altogic.auth.setSession(session("a"));
+    await posts();
+    expect(paths()).toEqual(["/db/get-list", "/db/get-list"]);
+  });
+
+  it("removes the expired results from the memory and the store", async () => {
+    const store = new MemoryOfflineStore();
+    const { altogic, paths } = createClient(createBackend(), {
+      ttl: 20,
+      store,
+    });
+
+    await altogic.db.model("posts").get();
+    expect(await store.keys("query:")).toHaveLength(1);
+    await delay(30);
+
+    // Caching another result removes the expired ones
+    await altogic.db.model("authors").get();
+    const keys = await store.keys("query:");
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).toContain("/get-list");
+    expect(keys[0]).toContain("authors");
+
+    await delay(30);
+    await altogic.db.model("authors").get();
+    expect(paths()).toEqual(["/db/get-list", "/db/get-list", "/db/get-list"]);
+  });
+});
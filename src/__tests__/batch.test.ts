@@ -0,0 +1,91 @@
+import { createMockClient, MockBackend } from "../testing";
+import { failRequests } from "./fixtures";
+
+function createClient(backend: MockBackend) {
+  const altogic = createMockClient(backend);
+  // Rejects the objects that have the fail field, like the validation of the app backend
+  failRequests(
+    altogic,
+    (request) => request.method === "POST" && request.body?.values?.fail,
+    400,
+    "validation_error",
+    "Invalid object"
+  );
+  return altogic;
+}
+
+describe("DBBatch", () => {
+  it("runs the operations in order with the results of the previous operations", async () => {
+    const backend = new MockBackend();
+    const altogic = createClient(backend);
+
+    const { data, errors } = await altogic.db
+      .batch()
+      .create("orders", { total: 0 })
+      .create("lines", (results) => ({ order: results[0]._id, price: 5 }))
+      .update("orders", (results) => results[0]._id, { total: 5 })
+      .execute();
+
+    expect(errors).toBeNull();
+    expect(data).toHaveLength(3);
+    expect(data?.[1]).toEqual(
+      expect.objectContaining({ order: data?.[0]._id })
+    );
+    expect(backend.getObjects("orders")).toEqual([
+      expect.objectContaining({ _id: data?.[0]._id, total: 5 }),
+    ]);
+  });
+
+  it("reverts the executed operations when an operation fails", async () => {
+    const backend = new MockBackend({
+      orders: [{ _id: "o1", total: 10 }],
+      lines: [{ _id: "l1", order: "o1", price: 10 }],
+    });
+    const altogic = createClient(backend);
+
+    const { data, errors } = await altogic.db
+      .batch()
+      .create("lines", { order: "o1", price: 3 })
+      .update("orders", "o1", { total: 13 })
+      .delete("lines", "l1")
+      .create("lines", { fail: true })
+      .execute();
+
+    expect(data).toBeNull();
+    expect(errors?.items.map((item) => item.code)).toEqual([
+      "validation_error",
+      "batch_failed",
+    ]);
+    expect(errors?.items[1].details).toEqual(
+      expect.objectContaining({
+        index: 3,
+        rolledBack: true,
+        rollbackErrors: [],
+      })
+    );
+    expect(backend.getObjects("orders")).toEqual([
+      expect.objectContaining({ _id: "o1", total: 10 }),
+    ]);
+    expect(backend.getObjects("lines")).toEqual([
+      expect.objectContaining({ _id: "l1", order: "o1", price: 10 }),
+    ]);
+  });
+
+  it("keeps the changes of the executed operations when the rollback is disabled", async () => {
+    const backend = new MockBackend({ orders: [{ _id: "o1", total: 10 }] });
+    const altogic = createClient(backend);
+
+    const { errors } = await altogic.db
+      .batch({ rollback: false })
+      .update("orders", "o1", { total: 20 })
+      .create("orders", { fail: true })
+      .execute();
+
+    expect(errors?.items[errors.items.length - 1].details).toEqual(
+      expect.objectContaining({ index: 1, rolledBack: false })
+    );
+    expect(backend.getObjects("orders")).toEqual([
+      expect.objectContaining({ total: 20 }),
+    ]);
+  });
+});
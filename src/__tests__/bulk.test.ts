@@ -0,0 +1,105 @@
+import { createMockClient, MockBackend } from "../testing";
+import { BulkProgress } from "../types";
+import { failRequests, recordRequests } from "./fixtures";
+
+const isCreate = (path: string) => path.endsWith("/db/create");
+const getRows = (body: any): any[] => [].concat(body.values);
+
+function createClient(backend: MockBackend) {
+  const altogic = createMockClient(backend);
+  const requests = recordRequests(altogic);
+  // Rejects the create requests that include an invalid row, like the validation of the app backend
+  failRequests(
+    altogic,
+    (request) =>
+      isCreate(request.path) &&
+      getRows(request.body).some((row) => row.invalid),
+    400,
+    "validation_error",
+    "Invalid row"
+  );
+  // The number of rows of each create request
+  const creates = () =>
+    requests
+      .filter((request) => isCreate(request.path))
+      .map((request) => getRows(request.body).length);
+  return { altogic, creates };
+}
+
+describe("QueryBuilder bulk operations", () => {
+  it("creates the objects in chunks and isolates the failed rows", async () => {
+    const backend = new MockBackend();
+    const { altogic, creates } = createClient(backend);
+    const progress: BulkProgress[] = [];
+
+    const rows = [1, 2, 3, 4, 5].map((n) => ({ n, invalid: n === 4 }));
+    const result = await altogic.db.model("rows").bulkCreate(rows, {
+      chunkSize: 2,
+      concurrency: 1,
+      onProgress: (info) => progress.push(info),
+    });
+
+    expect(result.succeeded).toBe(4);
+    expect(result.failed).toBe(1);
+    expect(result.results.map((row) => row.errors === null)).toEqual([
+      true,
+      true,
+      true,
+      false,
+      true,
+    ]);
+    expect(result.results[0].data).toEqual(expect.objectContaining({ n: 1 }));
+    // The failed chunk [3, 4] is retried row by row
+    expect(creates()).toEqual([2, 2, 1, 1, 1]);
+    expect(backend.getObjects("rows")).toHaveLength(4);
+    expect(progress.map((info) => info.completed)).toEqual([2, 4, 5]);
+  });
+
+  it("reports the whole failed chunk when the failures are not isolated", async () => {
+    const { altogic } = createClient(new MockBackend());
+
+    const result = await altogic.db
+      .model("rows")
+      .bulkCreate([{ n: 1 }, { n: 2, invalid: true }, { n: 3 }], {
+        chunkSize: 2,
+        isolateFailures: false,
+      });
+    expect(result.succeeded).toBe(1);
+    expect(result.failed).toBe(2);
+  });
+
+  it("updates and deletes the objects and reports the result of each id", async () => {
+    const backend = new MockBackend({
+      rows: [
+        { _id: "a", n: 1 },
+        { _id: "b", n: 2 },
+      ],
+    });
+    const { altogic } = createClient(backend);
+
+    const updated = await altogic.db.model("rows").bulkUpdate([
+      { id: "a", values: { n: 10 } },
+      { id: "b", values: { n: 20 } },
+    ]);
+    expect(updated.succeeded).toBe(2);
+    expect(updated.results.map((row) => (row.data as any)?.n)).toEqual([
+      10, 20,
+    ]);
+
+    const deleted = await altogic.db
+      .model("rows")
+      .bulkDelete(["a", "b"], { concurrency: 2 });
+    expect(deleted.succeeded).toBe(2);
+    expect(backend.getObjects("rows")).toEqual([]);
+  });
+
+  it("rejects the invalid options", async () => {
+    const { altogic } = createClient(new MockBackend());
+    await expect(
+      altogic.db.model("rows").bulkCreate([{}], { chunkSize: 0 })
+    ).rejects.toMatchObject({ code: "invalid_bulk_options" });
+    await expect(
+      altogic.db.model("rows").bulkDelete(["a"], { concurrency: 1.5 })
+    ).rejects.toMatchObject({ code: "invalid_bulk_options" });
+  });
+});
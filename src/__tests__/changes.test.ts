@@ -0,0 +1,157 @@
+import { createMockClient, MockBackend } from "../testing";
+import { applyFieldUpdates, getFieldChanges } from "../utils/changes";
+import { recordRequests } from "./fixtures";
+
+describe("getFieldChanges", () => {
+  it("returns no updates for equal objects and ignores the system fields", () => {
+    expect(
+      getFieldChanges(
+        { _id: "a", updatedAt: "2026-01-01", tags: ["x"], meta: { n: 1 } },
+        { _id: "b", updatedAt: "2026-02-01", tags: ["x"], meta: { n: 1 } }
+      )
+    ).toEqual([]);
+    expect(
+      getFieldChanges(
+        { due: "2026-01-01T00:00:00.000Z" },
+        { due: new Date("2026-01-01T00:00:00.000Z") }
+      )
+    ).toEqual([]);
+  });
+
+  it("returns increments, unsets and sets for the changed fields", () => {
+    expect(
+      getFieldChanges(
+        { count: 2, price: 1.5, name: "a", note: "n" },
+        { count: 5, price: 2.5, name: "b", note: null }
+      )
+    ).toEqual([
+      { field: "count", updateType: "increment", value: 3 },
+      { field: "price", updateType: "set", value: 2.5 },
+      { field: "name", updateType: "set", value: "b" },
+      { field: "note", updateType: "unset" },
+    ]);
+  });
+
+  it("returns the changes of the sub-model objects in dot-notation", () => {
+    expect(
+      getFieldChanges(
+        { address: { _id: "s1", city: "Paris", zip: "75" } },
+        { address: { _id: "s1", city: "Lyon", zip: "75" } }
+      )
+    ).toEqual([{ field: "address.city", updateType: "set", value: "Lyon" }]);
+
+    // A different sub-model object replaces the field
+    expect(
+      getFieldChanges(
+        { address: { _id: "s1", city: "Paris" } },
+        { address: { _id: "s2", city: "Paris" } }
+      )
+    ).toEqual([
+      {
+        field: "address",
+        updateType: "set",
+        value: { _id: "s2", city: "Paris" },
+      },
+    ]);
+  });
+
+  it("pushes the appended and pulls the removed list values", () => {
+    expect(getFieldChanges({ tags: ["a"] }, { tags: ["a", "b", "c"] })).toEqual(
+      [
+        { field: "tags", updateType: "push", value: "b" },
+        { field: "tags", updateType: "push", value: "c" },
+      ]
+    );
+    expect(
+      getFieldChanges({ tags: ["a", "b", "a", "c"] }, { tags: ["b", "c"] })
+    ).toEqual([{ field: "tags", updateType: "pull", value: "a" }]);
+    // Reordered lists and object lists are overwritten
+    expect(getFieldChanges({ tags: ["a", "b"] }, { tags: ["b", "a"] })).toEqual(
+      [{ field: "tags", updateType: "set", value: ["b", "a"] }]
+    );
+    expect(
+      getFieldChanges({ items: [{ n: 1 }] }, { items: [{ n: 1 }, { n: 2 }] })
+    ).toEqual([
+      { field: "items", updateType: "set", value: [{ n: 1 }, { n: 2 }] },
+    ]);
+  });
+});
+
+describe("applyFieldUpdates", () => {
+  it("applies the field updates to the object", () => {
+    const object: any = {
+      count: 2,
+      score: 10,
+      tags: ["a", "b", "a"],
+      queue: [1, 2, 3],
+      address: { city: "Paris" },
+    };
+    applyFieldUpdates(object, [
+      { field: "count", updateType: "increment", value: 3 },
+      { field: "score", updateType: "min", value: 4 },
+      { field: "tags", updateType: "pull", value: "a" },
+      { field: "tags", updateType: "push", value: "c" },
+      { field: "queue", updateType: "shift" },
+      { field: "address.city", updateType: "unset" },
+      { field: "meta.version", updateType: "set", value: 1 },
+    ]);
+    expect(object).toEqual({
+      count: 5,
+      score: 4,
+      tags: ["b", "c"],
+      queue: [2, 3],
+      address: {},
+      meta: { version: 1 },
+    });
+  });
+
+  it("reproduces the current object from the computed changes", () => {
+    const original = { n: 1, tags: ["a"], address: { city: "Paris" } };
+    const current = { n: 4, tags: ["a", "b"], address: { city: "Lyon" } };
+    const object = JSON.parse(JSON.stringify(original));
+    applyFieldUpdates(object, getFieldChanges(original, current));
+    expect(object).toEqual(current);
+  });
+
+  it("rejects the updates of the system fields", () => {
+    expect(() =>
+      applyFieldUpdates({}, [{ field: "_id", updateType: "set", value: "x" }])
+    ).toThrow(expect.objectContaining({ code: "validation_error" }));
+  });
+});
+
+describe("DBEntity", () => {
+  it("saves only the changed fields of the tracked object", async () => {
+    const backend = new MockBackend({
+      users: [{ _id: "u1", name: "Ann", logins: 1, tags: ["a"] }],
+    });
+    const altogic = createMockClient(backend);
+    const requests = recordRequests(altogic);
+
+    const { data: entity } = await altogic.db
+      .model("users")
+      .object("u1")
+      .load();
+    expect(entity?.isDirty).toBe(false);
+
+    const user: any = entity?.data;
+    user.logins++;
+    user.tags.push("b");
+    expect(entity?.isDirty).toBe(true);
+
+    const saved = await entity?.save();
+    expect(requests[requests.length - 1].body.updates).toEqual([
+      { field: "logins", updateType: "increment", value: 1 },
+      { field: "tags", updateType: "push", value: "b" },
+    ]);
+    expect(saved?.data).toBe(user);
+    expect(entity?.isDirty).toBe(false);
+    expect(backend.getObjects("users")[0]).toEqual(
+      expect.objectContaining({ logins: 2, tags: ["a", "b"] })
+    );
+
+    const sent = requests.length;
+    await entity?.save();
+    expect(requests).toHaveLength(sent);
+  });
+});
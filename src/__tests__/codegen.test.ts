@@ -0,0 +1,191 @@
+import * as path from "path";
+import * as ts from "typescript";
+import { generateTypes } from "../codegen/generator";
+import { ClientError } from "../utils/ClientError";
+
+const schema = {
+  models: [
+    {
+      name: "users",
+      description: "The app users",
+      fields: [
+        { name: "name", type: "text", required: true },
+        { name: "age", type: "integer" },
+        { name: "tags", type: "basic-values-list", itemType: "text" },
+        {
+          name: "address",
+          type: "object",
+          fields: [{ name: "city", type: "text", description: "City name" }],
+        },
+      ],
+    },
+    {
+      name: "user-orders",
+      fields: [
+        { name: "user", type: "reference", reference: "users" },
+        {
+          name: "items",
+          type: "object-list",
+          fields: [{ name: "unit-price", type: "decimal" }],
+        },
+      ],
+    },
+  ],
+};
+
+describe("generateTypes", () => {
+  it("generates the model interfaces, field names and model map", () => {
+    const output = generateTypes(schema, { moduleName: "altogic/types" });
+
+    expect(output.split("\n").slice(0, 2)).toEqual([
+      "// This file is generated by altogic-codegen, do not edit it manually.",
+      'import { FieldUpdate, SortEntry } from "altogic/types";',
+    ]);
+    expect(output).toContain(
+      [
+        "/**",
+        " * The app users",
+        " */",
+        "export interface Users {",
+        "  _id: string;",
+        "  createdAt: string;",
+        "  updatedAt: string;",
+        "  name: string;",
+        "  age?: number;",
+        "  tags?: string[];",
+        "  address?: UsersAddress | null;",
+        "}",
+      ].join("\n")
+    );
+    expect(output).toContain(
+      [
+        "export interface UsersAddress {",
+        "  _id: string;",
+        "  createdAt: string;",
+        "  updatedAt: string;",
+        "  _parent: string;",
+        "  /**",
+        "   * City name",
+        "   */",
+        "  city?: string;",
+        "}",
+      ].join("\n")
+    );
+    expect(output).toContain(
+      [
+        "export interface UserOrders {",
+        "  _id: string;",
+        "  createdAt: string;",
+        "  updatedAt: string;",
+        "  user?: string | Users;",
+        "  items?: UserOrdersItems[];",
+        "}",
+      ].join("\n")
+    );
+    expect(output).toContain('  "unit-price"?: number;');
+    expect(output).toContain(
+      [
+        "export type UsersField =",
+        '  | "_id"',
+        '  | "createdAt"',
+        '  | "updatedAt"',
+        '  | "name"',
+        '  | "age"',
+        '  | "tags"',
+        '  | "address"',
+        '  | "address._id"',
+        '  | "address.createdAt"',
+        '  | "address.updatedAt"',
+        '  | "address._parent"',
+        '  | "address.city";',
+      ].join("\n")
+    );
+    expect(output).toContain(
+      "export type UsersSortEntry = SortEntry & { field: UsersField };"
+    );
+    expect(output).toContain(
+      "export type UserOrdersFieldUpdate = FieldUpdate & { field: UserOrdersField };"
+    );
+    expect(output).toContain(
+      [
+        "export interface AltogicModels {",
+        '  "users": Users;',
+        '  "users.address": UsersAddress;',
+        '  "user-orders": UserOrders;',
+        '  "user-orders.items": UserOrdersItems;',
+        "}",
+      ].join("\n")
+    );
+  });
+
+  it("generates the declarations that type check with the client library types", () => {
+    const fileName = path.join(__dirname, "generated-models.ts");
+    const source = [
+      generateTypes(schema, { moduleName: "../types" }),
+      'const sort: UsersSortEntry = { field: "address.city", direction: "asc" };',
+      'const update: UserOrdersFieldUpdate = { field: "items.unit-price", updateType: "increment", value: 1 };',
+      'const order: AltogicModels["user-orders"] = { _id: "1", createdAt: "", updatedAt: "", user: "2" };',
+      "export { sort, update, order };",
+    ].join("\n");
+
+    // Compile the generated source in memory without writing it to the disk
+    const options = {
+      strict: true,
+      noEmit: true,
+      skipLibCheck: true,
+      types: [],
+      target: ts.ScriptTarget.ES2015,
+      moduleResolution: ts.ModuleResolutionKind.NodeJs,
+    };
+    const host = ts.createCompilerHost(options);
+    const { getSourceFile, fileExists } = host;
+    host.fileExists = (name) => name === fileName || fileExists(name);
+    host.getSourceFile = (name, languageVersion, ...args) =>
+      name === fileName
+        ? ts.createSourceFile(name, source, languageVersion)
+        : getSourceFile(name, languageVersion, ...args);
+
+    const program = ts.createProgram([fileName], options, host);
+    const messages = ts
+      .getPreEmitDiagnostics(program, program.getSourceFile(fileName))
+      .map((diagnostic) =>
+        ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")
+      );
+    expect(messages).toEqual([]);
+  });
+
+  it("accepts a list of models or a single model", () => {
+    const [users] = schema.models;
+    const output = generateTypes([users], { mapName: "Models" });
+    expect(generateTypes(users, { mapName: "Models" })).toBe(output);
+    expect(output).toContain("export interface Models {");
+    expect(output).not.toContain("UserOrders");
+  });
+
+  it("generates unique type names for the conflicting names", () => {
+    const output = generateTypes([
+      {
+        name: "users",
+        fields: [{ name: "address", type: "object", fields: [] }],
+      },
+      { name: "users-address", fields: [] },
+      { name: "2fa", fields: [] },
+    ]);
+    expect(output).toContain('  "users.address": UsersAddress;');
+    expect(output).toContain('  "users-address": UsersAddress2;');
+    expect(output).toContain('  "2fa": Model2fa;');
+  });
+
+  it("throws an invalid_schema error if the schema has no valid models", () => {
+    for (const invalid of [{}, [], { models: [{ name: "users" }] }]) {
+      let error: ClientError | undefined;
+      try {
+        generateTypes(invalid);
+      } catch (err) {
+        error = err as ClientError;
+      }
+      expect(error).toBeInstanceOf(ClientError);
+      expect(error?.code).toBe("invalid_schema");
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import { createMockClient, MockBackend } from "../testing";
+import { avg, count, countIf, max, sum } from "../Computation";
+import { pivot, toMap, toSeries } from "../utils/aggregation";
+import { recordRequests } from "./fixtures";
+
+describe("QueryBuilder.compute", () => {
+  const backend = new MockBackend({
+    orders: [
+      { region: "EU", status: "open", amount: 10, month: 2 },
+      { region: "EU", status: "open", amount: 20, month: 1 },
+      { region: "EU", status: "closed", amount: 5, month: 1 },
+      { region: "US", status: "open", amount: 40, month: 3 },
+    ],
+  });
+  const altogic = createMockClient(backend);
+  const orders = () => altogic.db.model("orders");
+
+  it("sends the named computations and returns the typed results", async () => {
+    const client = createMockClient(backend);
+    const requests = recordRequests(client);
+
+    const { data, errors } = await client.db
+      .model("orders")
+      .group("region")
+      .compute({
+        total: sum("this.amount").sort("desc"),
+        n: count(),
+        open: countIf("this.status == 'open'"),
+      });
+    expect(errors).toBeNull();
+    expect(data).toEqual([
+      { groupby: "US", total: 40, n: 1, open: 1 },
+      { groupby: "EU", total: 35, n: 3, open: 2 },
+    ]);
+    expect(requests[0].body.computations).toEqual([
+      { name: "total", type: "sum", expression: "this.amount", sort: "desc" },
+      { name: "n", type: "count" },
+      {
+        name: "open",
+        type: "countif",
+        expression: "this.status == 'open'",
+      },
+    ]);
+  });
+
+  it("returns the result of the ungrouped query as a list", async () => {
+    const { data } = await orders().compute({
+      average: avg("this.amount"),
+      largest: max("this.amount"),
+    });
+    expect(data).toEqual([{ average: 18.75, largest: 40 }]);
+  });
+
+  it("rejects the computations without an expression", async () => {
+    expect(() => sum(" ")).toThrow(
+      expect.objectContaining({ code: "invalid_computation" })
+    );
+    await expect(orders().compute({})).rejects.toMatchObject({
+      code: "invalid_computation",
+    });
+  });
+
+  it("converts the grouped results into maps, pivot tables and series", async () => {
+    const { data } = await orders()
+      .group(["region", "status"])
+      .compute({ n: count(), total: sum("this.amount") });
+    const results = data ?? [];
+
+    expect(pivot(results, "region", "status", "n")).toEqual({
+      EU: { open: 2, closed: 1 },
+      US: { open: 1 },
+    });
+    const map = toMap(
+      results,
+      (groupby) => `${groupby.region}/${groupby.status}`
+    );
+    expect(map.get("EU/open")?.total).toBe(30);
+    expect(map.has("US/closed")).toBe(false);
+
+    const months = await orders()
+      .group("this.month")
+      .compute({ total: sum("this.amount") });
+    expect(toSeries(months.data ?? [], "total")).toEqual([
+      { key: 1, value: 25 },
+      { key: 2, value: 10 },
+      { key: 3, value: 40 },
+    ]);
+  });
+});
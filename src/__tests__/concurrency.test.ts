@@ -0,0 +1,99 @@
+import { createMockClient, MockBackend } from "../testing";
+import { ConflictError } from "../utils/ConflictError";
+import { recordRequests } from "./fixtures";
+
+describe("DBObject conditional updates", () => {
+  const createBackend = () =>
+    new MockBackend({ docs: [{ _id: "d1", title: "Draft", version: 1 }] });
+
+  it("updates the object when the expected version matches", async () => {
+    const backend = createBackend();
+    const altogic = createMockClient(backend);
+
+    const { data, errors } = await altogic.db
+      .model("docs")
+      .object("d1")
+      .update(
+        { title: "Final" },
+        {
+          expectedVersion: { field: "version", value: 1 },
+        }
+      );
+    expect(errors).toBeNull();
+    expect(data).toEqual(
+      expect.objectContaining({ title: "Final", version: 2 })
+    );
+  });
+
+  it("returns a conflict error with the current copy of a modified object", async () => {
+    const backend = createBackend();
+    const altogic = createMockClient(backend);
+    await altogic.db.model("docs").object("d1").update({ version: 2 });
+
+    const { data, errors } = await altogic.db
+      .model("docs")
+      .object("d1")
+      .updateFields(
+        { field: "title", updateType: "set", value: "Final" },
+        {
+          expectedVersion: { field: "version", value: 1 },
+        }
+      );
+    expect(data).toBeNull();
+    expect(errors?.status).toBe(409);
+    expect(errors?.items[0]).toEqual(
+      expect.objectContaining({
+        code: "conflict",
+        details: {
+          current: expect.objectContaining({ title: "Draft", version: 2 }),
+        },
+      })
+    );
+    expect(backend.getObjects("docs")[0]).toEqual(
+      expect.objectContaining({ title: "Draft" })
+    );
+  });
+
+  it("checks the modification date and throws a ConflictError in throwOnError mode", async () => {
+    const backend = createBackend();
+    const altogic = createMockClient(backend, { throwOnError: true });
+    const { data: loaded } = await altogic.db.model("docs").object("d1").get();
+    const updatedAt = (loaded as any).updatedAt;
+
+    const first = await altogic.db
+      .model("docs")
+      .object("d1")
+      .update({ title: "First" }, { ifUnmodifiedSince: updatedAt });
+    expect(first.data).toEqual(expect.objectContaining({ title: "First" }));
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await altogic.db.model("docs").object("d1").update({ title: "Second" });
+    const error = await altogic.db
+      .model("docs")
+      .object("d1")
+      .update({ title: "Third" }, { ifUnmodifiedSince: updatedAt })
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(ConflictError);
+    expect(error.current).toEqual(expect.objectContaining({ title: "Second" }));
+  });
+
+  it("caches the updated object with the cache option", async () => {
+    const altogic = createMockClient(createBackend());
+    const requests = recordRequests(altogic);
+
+    await altogic.db
+      .model("docs")
+      .object("d1")
+      .update(
+        { title: "Final" },
+        {
+          cache: "1min",
+          expectedVersion: { field: "version", value: 1 },
+        }
+      );
+    expect(requests[requests.length - 1].body.options).toEqual({
+      cache: "1min",
+    });
+  });
+});
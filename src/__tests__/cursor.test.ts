@@ -0,0 +1,103 @@
+import { createMockClient, MockBackend } from "../testing";
+import {
+  createKeysetExpression,
+  decodeCursor,
+  encodeCursor,
+  getKeysetSort,
+} from "../utils/cursor";
+import { SortEntry } from "../types";
+
+describe("cursor encoding", () => {
+  const sort: SortEntry[] = getKeysetSort([
+    { field: "createdAt", direction: "desc" },
+  ]);
+
+  it("appends the _id field to the keyset sort entries", () => {
+    expect(sort).toEqual([
+      { field: "createdAt", direction: "desc" },
+      { field: "_id", direction: "asc" },
+    ]);
+    expect(getKeysetSort([{ field: "_id", direction: "desc" }])).toEqual([
+      { field: "_id", direction: "desc" },
+    ]);
+  });
+
+  it("decodes the sort field values of the encoded object", () => {
+    const cursor = encodeCursor(
+      { _id: "a1", createdAt: "2026-01-01T00:00:00.000Z", title: "ünïcode" },
+      sort
+    );
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, sort)).toEqual([
+      "2026-01-01T00:00:00.000Z",
+      "a1",
+    ]);
+
+    const nested = getKeysetSort([{ field: "author.name", direction: "asc" }]);
+    const withNull = encodeCursor({ _id: "b2" }, nested);
+    expect(decodeCursor(withNull, nested)).toEqual([null, "b2"]);
+  });
+
+  it("rejects the malformed cursors and the cursors of other sort entries", () => {
+    const cursor = encodeCursor({ _id: "a1", createdAt: null }, sort);
+    expect(() => decodeCursor("not-a-cursor", sort)).toThrow(
+      expect.objectContaining({ code: "invalid_cursor" })
+    );
+    expect(() => decodeCursor(cursor, getKeysetSort([]))).toThrow(
+      expect.objectContaining({ code: "invalid_cursor" })
+    );
+  });
+
+  it("creates the keyset expressions of the next and previous pages", () => {
+    const values = ["2026-01-01T00:00:00.000Z", "a1"];
+    expect(createKeysetExpression(sort, values, false).toString()).toBe(
+      'this.createdAt < TODATE("2026-01-01T00:00:00.000Z") || this.createdAt == TODATE("2026-01-01T00:00:00.000Z") && this._id > "a1"'
+    );
+    expect(createKeysetExpression(sort, values, true).toString()).toBe(
+      'this.createdAt > TODATE("2026-01-01T00:00:00.000Z") || this.createdAt == TODATE("2026-01-01T00:00:00.000Z") && this._id < "a1"'
+    );
+  });
+});
+
+describe("QueryBuilder.getCursorPage", () => {
+  const backend = new MockBackend({
+    posts: [5, 3, 3, 1, 4, 2].map((score, index) => ({
+      _id: `p${index}`,
+      score,
+    })),
+  });
+  const altogic = createMockClient(backend);
+  const posts = () => altogic.db.model("posts").sort("score", "desc").limit(2);
+
+  it("pages through the objects forward and backward", async () => {
+    const first = await posts().getCursorPage();
+    expect(first.data?.result.map((post: any) => post._id)).toEqual([
+      "p0",
+      "p4",
+    ]);
+    expect(first.data?.prevCursor).toBeNull();
+
+    const second = await posts()
+      .after(first.data?.nextCursor ?? "")
+      .getCursorPage();
+    // Equal scores are ordered by _id
+    expect(second.data?.result.map((post: any) => post._id)).toEqual([
+      "p1",
+      "p2",
+    ]);
+
+    const third = await posts()
+      .after(second.data?.nextCursor ?? "")
+      .getCursorPage();
+    expect(third.data?.result.map((post: any) => post._id)).toEqual([
+      "p5",
+      "p3",
+    ]);
+    expect(third.data?.nextCursor).toBeNull();
+
+    const back = await posts()
+      .before(third.data?.prevCursor ?? "")
+      .getCursorPage();
+    expect(back.data?.result).toEqual(second.data?.result);
+  });
+});
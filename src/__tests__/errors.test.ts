@@ -0,0 +1,122 @@
+import { createMockClient, MockBackend } from "../testing";
+import { AuthError } from "../utils/AuthError";
+import { ClientError } from "../utils/ClientError";
+import { ConflictError } from "../utils/ConflictError";
+import { createRequestError, settleRequest } from "../utils/helpers";
+import { NetworkError } from "../utils/NetworkError";
+import { NotFoundError } from "../utils/NotFoundError";
+import { RateLimitError } from "../utils/RateLimitError";
+import { RequestError } from "../utils/RequestError";
+import { ValidationError } from "../utils/ValidationError";
+import {
+  createInterceptedClient,
+  errorResponse,
+  failRequests,
+} from "./fixtures";
+
+describe("createRequestError", () => {
+  it("creates the error class of the status and the error code", () => {
+    const cases: [number, string, typeof RequestError][] = [
+      [0, "network_error", NetworkError],
+      [408, "request_timeout", NetworkError],
+      [499, "request_aborted", NetworkError],
+      [401, "invalid_credentials", AuthError],
+      [403, "forbidden", AuthError],
+      [400, "invalid_session_token", AuthError],
+      [404, "object_not_found", NotFoundError],
+      [409, "conflict", ConflictError],
+      [429, "too_many_requests", RateLimitError],
+      [400, "validation_error", ValidationError],
+      [422, "invalid_input", ValidationError],
+      [500, "internal_error", RequestError],
+    ];
+
+    for (const [status, code, ErrorClass] of cases) {
+      const { errors } = errorResponse(status, code, `Error ${code}`);
+      const error = createRequestError(errors);
+      expect(error.constructor).toBe(ErrorClass);
+      expect(error).toBeInstanceOf(ClientError);
+      expect(error).toEqual(
+        expect.objectContaining({ status, code, message: `Error ${code}` })
+      );
+      expect(error.toAPIError()).toEqual(errors);
+    }
+  });
+
+  it("converts the thrown request errors back to the errors of the result", async () => {
+    const { errors } = errorResponse(404, "object_not_found", "Not found");
+    await expect(
+      settleRequest(() => Promise.reject(createRequestError(errors)))
+    ).resolves.toEqual({ data: null, errors });
+
+    const other = new Error("Unexpected");
+    await expect(settleRequest(() => Promise.reject(other))).rejects.toBe(
+      other
+    );
+  });
+});
+
+describe("throwOnError mode", () => {
+  const createBackend = () =>
+    new MockBackend({ users: [{ _id: "u1", name: "Ann" }] });
+
+  it("throws the typed errors of the failed requests", async () => {
+    const altogic = createMockClient(createBackend(), { throwOnError: true });
+    failRequests(
+      altogic,
+      (request) => request.body?.values?.name === "",
+      400,
+      "validation_error",
+      "Name is required"
+    );
+
+    const { data, errors } = await altogic.db.model("users").object("u1").get();
+    expect(data).toEqual(expect.objectContaining({ name: "Ann" }));
+    expect(errors).toBeNull();
+
+    const error = await altogic.db
+      .model("users")
+      .create({ name: "" })
+      .catch((err) => err);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toEqual(
+      expect.objectContaining({
+        status: 400,
+        code: "validation_error",
+        message: "Name is required",
+      })
+    );
+  });
+
+  it("throws a NetworkError when the request cannot be sent", async () => {
+    const altogic = createInterceptedClient(
+      createBackend(),
+      () => Promise.reject(new TypeError("Failed to fetch")),
+      { throwOnError: true }
+    );
+
+    const error = await altogic.db
+      .model("users")
+      .get()
+      .catch((err) => err);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toEqual(
+      expect.objectContaining({
+        status: 0,
+        code: "network_error",
+        message: "Failed to fetch",
+      })
+    );
+  });
+
+  it("returns the errors of the failed requests when disabled", async () => {
+    const altogic = createMockClient(createBackend());
+    failRequests(altogic, () => true, 429, "too_many_requests", "Slow down");
+
+    const { data, errors } = await altogic.db.model("users").get();
+    expect(data).toBeNull();
+    expect(errors).toEqual(
+      errorResponse(429, "too_many_requests", "Slow down").errors
+    );
+  });
+});
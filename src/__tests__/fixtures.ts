@@ -0,0 +1,116 @@
+import { AltogicClient } from "../AltogicClient";
+import { MockBackend } from "../testing";
+import {
+  APIError,
+  ClientOptions,
+  FetchFunction,
+  MiddlewareRequest,
+} from "../types";
+
+// The common prefix of the REST API paths, which is omitted from the recorded paths
+const API_PREFIX = "/_api/rest/v1";
+const STATUS_TEXTS: { [status: number]: string } = {
+  0: "",
+  400: "Bad Request",
+  404: "Not Found",
+  409: "Conflict",
+  500: "Internal Server Error",
+};
+
+/**
+ * A request recorded by {@link recordRequests}
+ */
+export interface RecordedRequest {
+  method: MiddlewareRequest["method"];
+  /**
+   * The path of the request without the `/_api/rest/v1` prefix, e.g., `/db/get-list`
+   */
+  path: string;
+  body: any;
+}
+
+/**
+ * Records the requests of the client that are passed to the next middleware. Register it after the middleware that serve or reject requests, e.g., the query cache or the offline replica, to record only the requests that reach the app backend.
+ * @param {AltogicClient} altogic The client
+ * @returns {RecordedRequest[]} The list that the requests are added to in order
+ */
+export function recordRequests(altogic: AltogicClient): RecordedRequest[] {
+  const requests: RecordedRequest[] = [];
+  altogic.use(async (request, next) => {
+    const { method, path, body } = request;
+    requests.push({ method, path: path.replace(API_PREFIX, ""), body });
+    return await next();
+  });
+  return requests;
+}
+
+/**
+ * Creates a client whose transport passes the requests to the mock backend through the intercept function, e.g., to reject the requests like the fetch function when the connection is lost, or to hold the requests until they are aborted.
+ * @param {MockBackend} backend The mock backend
+ * @param {(url: string, init: RequestInit, fetch: FetchFunction) => Promise<Response>} intercept Sends the request, `fetch` sends it to the mock backend
+ * @param {ClientOptions} [options] The client options, the `transport` option is overridden
+ * @returns {AltogicClient} The client
+ */
+export function createInterceptedClient(
+  backend: MockBackend,
+  intercept: (
+    url: string,
+    init: RequestInit,
+    fetch: FetchFunction
+  ) => Promise<Response>,
+  options?: ClientOptions
+): AltogicClient {
+  const fetch = backend.transport.fetch as FetchFunction;
+  return new AltogicClient("http://localhost", "mock-client-key", {
+    ...options,
+    transport: { fetch: (url, init) => intercept(url, init, fetch) },
+  });
+}
+
+/**
+ * Returns the failed response of a request, like the responses of the app backend. A `0` status returns the network error of a lost connection.
+ * @param {number} status The HTTP status code
+ * @param {string} code The error code
+ * @param {string} message The error message
+ */
+export function errorResponse(
+  status: number,
+  code: string,
+  message: string
+): { data: null; errors: APIError } {
+  return {
+    data: null,
+    errors: {
+      status,
+      statusText: STATUS_TEXTS[status] ?? "",
+      items: [{ origin: "client_error", code, message }],
+    },
+  };
+}
+
+/**
+ * Rejects the requests of the client that match the condition with the specified error, e.g., to simulate the validation errors of the app backend or a lost connection.
+ * @param {AltogicClient} altogic The client
+ * @param {(request: MiddlewareRequest) => boolean} shouldFail Returns true if the request needs to be rejected
+ * @param {number} status The HTTP status code
+ * @param {string} code The error code
+ * @param {string} message The error message
+ */
+export function failRequests(
+  altogic: AltogicClient,
+  shouldFail: (request: MiddlewareRequest) => boolean,
+  status: number,
+  code: string,
+  message: string
+): void {
+  altogic.use(async (request, next) =>
+    shouldFail(request) ? errorResponse(status, code, message) : await next()
+  );
+}
+
+/**
+ * Waits for the specified duration.
+ * @param {number} [ms] The duration in milliseconds
+ */
+export const delay = (ms = 0) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
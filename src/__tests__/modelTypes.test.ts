@@ -0,0 +1,96 @@
+import { createMockClient, MockBackend } from "../testing";
+import { FieldPath, FieldPathOfType, ListResult } from "../types";
+
+interface User {
+  _id: string;
+  name: string;
+  age: number;
+  tags: string[];
+  address: { city: string; geo: { lat: number; lng: number } };
+  createdAt: string;
+}
+
+interface Models {
+  users: User;
+}
+
+// Compiles only if the two types are identical
+type Equal<A, B> = (<V>() => V extends A ? 1 : 2) extends <V>() => V extends B
+  ? 1
+  : 2
+  ? true
+  : false;
+const assertType = <T extends true>(_: T) => undefined;
+
+describe("generic model types", () => {
+  it("resolves the field paths of the model type", () => {
+    assertType<
+      Equal<
+        FieldPath<User>,
+        | "_id"
+        | "name"
+        | "age"
+        | "tags"
+        | "address"
+        | "address.city"
+        | "address.geo"
+        | "address.geo.lat"
+        | "address.geo.lng"
+        | "createdAt"
+      >
+    >(true);
+    assertType<
+      Equal<
+        FieldPathOfType<User, number>,
+        "age" | "address.geo.lat" | "address.geo.lng"
+      >
+    >(true);
+    // Any field name is accepted if the model type is not specified
+    assertType<Equal<FieldPath<object>, string>>(true);
+  });
+
+  it("returns the typed objects of the model", async () => {
+    const backend = new MockBackend({
+      users: [
+        {
+          name: "Ann",
+          age: 31,
+          tags: ["admin"],
+          address: { city: "Paris", geo: { lat: 1, lng: 2 } },
+        },
+      ],
+    });
+    const altogic = createMockClient<Models>(backend);
+    const users = altogic.db.model("users");
+
+    const list = await users.sort("address.city", "asc").omit("tags").get();
+    assertType<Equal<typeof list.data, User[] | null>>(true);
+    expect(list.data?.[0].name).toBe("Ann");
+    expect(list.data?.[0].tags).toBeUndefined();
+
+    const counted = await users.get(true);
+    assertType<Equal<typeof counted.data, ListResult<User> | null>>(true);
+    expect(counted.data?.result).toHaveLength(1);
+    expect(counted.data?.countInfo).toEqual(
+      expect.objectContaining({ count: 1, currentPage: 1 })
+    );
+
+    const single = await users.filter("this.age > 30").getSingle();
+    assertType<Equal<typeof single.data, User | null>>(true);
+
+    const created = await users.create({ name: "Bob", age: 17 });
+    assertType<Equal<typeof created.data, User | null>>(true);
+    const fetched = await users.object(created.data?._id).get();
+    assertType<Equal<typeof fetched.data, User | null>>(true);
+    expect(fetched.data).toEqual(
+      expect.objectContaining({ name: "Bob", age: 17 })
+    );
+
+    // The explicitly typed query builders are typed with the specified type
+    const typed = altogic.db.model<Pick<User, "_id" | "name">>("users");
+    const picked = await typed.getSingle();
+    assertType<Equal<typeof picked.data, Pick<User, "_id" | "name"> | null>>(
+      true
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import { createMockClient, MockBackend } from "../testing";
+import { RequestError } from "../utils/RequestError";
+import {
+  createInterceptedClient,
+  delay,
+  failRequests,
+  recordRequests,
+} from "./fixtures";
+
+const createBackend = (count: number) =>
+  new MockBackend({
+    items: Array.from({ length: count }, (_, index) => ({
+      _id: `i${index + 1}`,
+      n: index + 1,
+    })),
+  });
+
+const collect = async <V>(iterator: AsyncIterable<V>) => {
+  const values: V[] = [];
+  for await (const value of iterator) values.push(value);
+  return values;
+};
+
+describe("QueryBuilder.pages", () => {
+  it("fetches the pages until a page has fewer objects than the page size", async () => {
+    const altogic = createMockClient(createBackend(5));
+    const requests = recordRequests(altogic);
+    const items = () => altogic.db.model("items").sort("n", "asc");
+
+    const pages = await collect(items().pages({ pageSize: 2 }));
+    expect(pages.map((page) => page.map((item: any) => item.n))).toEqual([
+      [1, 2],
+      [3, 4],
+      [5],
+    ]);
+    expect(requests.map((request) => request.body.query.page)).toEqual([
+      1, 2, 3,
+    ]);
+
+    // The last page is full, so an empty page is fetched to end the iteration
+    requests.length = 0;
+    expect(await collect(items().limit(5).pages())).toHaveLength(1);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("starts from the specified page and iterates over the objects", async () => {
+    const altogic = createMockClient(createBackend(5));
+    const items = () => altogic.db.model("items").sort("n", "asc");
+
+    const pages = await collect(items().pages({ pageSize: 2, startPage: 2 }));
+    expect(pages.map((page) => page.length)).toEqual([2, 1]);
+
+    const objects = await collect(items().iterate({ pageSize: 2 }));
+    expect(objects.map((item: any) => item.n)).toEqual([1, 2, 3, 4, 5]);
+
+    await expect(collect(items().pages({ pageSize: 0 }))).rejects.toMatchObject(
+      { code: "invalid_page_size" }
+    );
+  });
+
+  it("prefetches the next page while the current page is processed", async () => {
+    const altogic = createMockClient(createBackend(4));
+    const requests = recordRequests(altogic);
+    const pages = altogic.db
+      .model("items")
+      .sort("n", "asc")
+      .pages({ pageSize: 2, prefetch: true });
+
+    const first = await pages.next();
+    expect(first.value).toHaveLength(2);
+    expect(requests.map((request) => request.body.query.page)).toEqual([1, 2]);
+    expect((await pages.next()).value).toHaveLength(2);
+    expect((await pages.next()).done).toBe(true);
+  });
+
+  it("cancels the prefetched page when the iteration is terminated", async () => {
+    const signals: AbortSignal[] = [];
+    // The requests after the first one are held until they are aborted
+    const altogic = createInterceptedClient(
+      createBackend(4),
+      (url, init, fetch) => {
+        signals.push(init.signal as AbortSignal);
+        if (signals.length === 1) return fetch(url, init);
+        return new Promise((_, reject) =>
+          init.signal?.addEventListener("abort", () =>
+            reject(new Error("The request is aborted"))
+          )
+        );
+      }
+    );
+
+    const items = altogic.db.model("items").sort("n", "asc");
+    for await (const page of items.pages({ pageSize: 2, prefetch: true })) {
+      expect(page).toHaveLength(2);
+      break;
+    }
+    expect(signals).toHaveLength(2);
+    expect(signals[1].aborted).toBe(true);
+  });
+
+  it("throws the error of a failed page after the previous pages", async () => {
+    const rejections: unknown[] = [];
+    const onRejection = (reason: unknown) => rejections.push(reason);
+    process.on("unhandledRejection", onRejection);
+
+    try {
+      for (const prefetch of [false, true]) {
+        const altogic = createMockClient(createBackend(5));
+        failRequests(
+          altogic,
+          (request) => request.body.query.page === 2,
+          400,
+          "validation_error",
+          "Bad Request"
+        );
+
+        const pages: unknown[][] = [];
+        const error = await (async () => {
+          const items = altogic.db.model("items").sort("n", "asc");
+          for await (const page of items.pages({ pageSize: 2, prefetch })) {
+            pages.push(page);
+            // The prefetched page fails while the page is being processed
+            await delay(10);
+          }
+        })().catch((err) => err);
+
+        expect(pages).toHaveLength(1);
+        expect(error).toBeInstanceOf(RequestError);
+        expect(error.items[0].code).toBe("validation_error");
+      }
+      await delay();
+      expect(rejections).toEqual([]);
+    } finally {
+      process.off("unhandledRejection", onRejection);
+    }
+  });
+});
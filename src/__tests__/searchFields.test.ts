@@ -0,0 +1,107 @@
+import { createMockClient, MockBackend } from "../testing";
+import { mergeSearchResults } from "../utils/search";
+import { failRequests, recordRequests } from "./fixtures";
+
+describe("mergeSearchResults", () => {
+  it("adds up the weighted reciprocal ranks of the objects", () => {
+    const objects = [{ _id: "a" }, { _id: "b" }, { _id: "c" }];
+    const [a, b, c] = objects;
+    const merged = mergeSearchResults(
+      [
+        { weight: 3, objects: [a, b] },
+        { weight: 1, objects: [b, c] },
+      ],
+      10
+    );
+    expect(merged).toEqual([
+      { _id: "a", _score: 3 },
+      { _id: "b", _score: 2.5 },
+      { _id: "c", _score: 0.5 },
+    ]);
+    expect(objects).toEqual([{ _id: "a" }, { _id: "b" }, { _id: "c" }]);
+  });
+
+  it("keeps the order of the fields for equal scores and applies the limit", () => {
+    const merged = mergeSearchResults(
+      [
+        { weight: 1, objects: [{ _id: "x" }] },
+        { weight: 1, objects: [{ _id: "y" }] },
+        { weight: 1, objects: [{ _id: "z" }] },
+      ],
+      2
+    );
+    expect(merged.map((object) => object._id)).toEqual(["x", "y"]);
+  });
+});
+
+describe("QueryBuilder.searchFields", () => {
+  const backend = new MockBackend({
+    posts: [
+      { _id: "p1", title: "react hooks", description: "other" },
+      { _id: "p2", title: "vue", description: "react comparison" },
+      { _id: "p3", title: "react native", description: "react apps" },
+      { _id: "p4", title: "angular", description: "other" },
+    ],
+  });
+
+  it("searches each field and ranks the objects by their weighted scores", async () => {
+    const altogic = createMockClient(backend);
+    const requests = recordRequests(altogic);
+
+    const { data, errors } = await altogic.db
+      .model("posts")
+      .searchFields({ title: 2, description: 1 }, "react");
+    expect(errors).toBeNull();
+    expect(data?.map((post: any) => [post._id, post._score])).toEqual([
+      ["p1", 2],
+      ["p3", 1.5],
+      ["p2", 1],
+    ]);
+    expect(requests.map((request) => request.body.fieldName)).toEqual([
+      "title",
+      "description",
+    ]);
+
+    const limited = await altogic.db
+      .model("posts")
+      .filter("this._id != 'p1'")
+      .limit(1)
+      .searchFields(["title", "description"], "react");
+    // Each field retrieves the limited number of objects, p3 of the titles ties with p2 of the descriptions
+    expect(limited.data).toEqual([
+      expect.objectContaining({ _id: "p3", _score: 1 }),
+    ]);
+  });
+
+  it("returns the errors of a failed field search", async () => {
+    const altogic = createMockClient(backend);
+    failRequests(
+      altogic,
+      (request) => request.body.fieldName === "description",
+      400,
+      "missing_search_index",
+      "Field is not searchable"
+    );
+
+    const { data, errors } = await altogic.db
+      .model("posts")
+      .searchFields(["title", "description"], "react");
+    expect(data).toBeNull();
+    expect(errors?.items[0].code).toBe("missing_search_index");
+  });
+
+  it("rejects the empty fields and the invalid weights", async () => {
+    const altogic = createMockClient(backend);
+    const posts = () => altogic.db.model("posts");
+    const invalid = { code: "invalid_search_fields" };
+    await expect(posts().searchFields([], "react")).rejects.toMatchObject(
+      invalid
+    );
+    await expect(
+      posts().searchFields({ title: 0 }, "react")
+    ).rejects.toMatchObject(invalid);
+    await expect(
+      posts().searchFields({ title: NaN }, "react")
+    ).rejects.toMatchObject(invalid);
+  });
+});
@@ -0,0 +1,112 @@
+import { createMockClient, MockBackend } from "../testing";
+import { recordRequests } from "./fixtures";
+
+interface User {
+  _id: string;
+  name: string;
+  age: number;
+  address: { city: string; zip: string };
+}
+
+describe("QueryBuilder.select", () => {
+  const createClient = () => {
+    const altogic = createMockClient(
+      new MockBackend({
+        users: [
+          { name: "Ann", age: 31, address: { city: "Paris", zip: "75" } },
+          { name: "Bob", age: 17, address: { city: "Lyon", zip: "69" } },
+        ],
+      })
+    );
+    const requests = recordRequests(altogic);
+    const queries = () => requests.map((request) => request.body?.query);
+    return { altogic, queries };
+  };
+
+  it("omits the known fields that are not selected and picks the selected fields", async () => {
+    const { altogic, queries } = createClient();
+    const users = () =>
+      altogic.db.model<User>("users").select("name", "address.city");
+
+    const { data } = await users().sort("age", "asc").get();
+    expect(data).toEqual([
+      { _id: expect.any(String), name: "Bob", address: { city: "Lyon" } },
+      { _id: expect.any(String), name: "Ann", address: { city: "Paris" } },
+    ]);
+    // The app backend does not support field selection, and the fields of the model are not known yet
+    expect(queries()[0]).not.toHaveProperty("select");
+    expect(queries()[0].omit).toBeNull();
+
+    const counted = await users().get(true);
+    expect(counted.data?.result[0]).toEqual({
+      _id: expect.any(String),
+      name: "Ann",
+      address: { city: "Paris" },
+    });
+    expect(counted.data?.countInfo.count).toBe(2);
+    expect(queries()[1].omit).toEqual(["age", "createdAt", "updatedAt"]);
+
+    const single = await users().filter("this.age > 18").getSingle();
+    expect(single.data).toEqual({
+      _id: expect.any(String),
+      name: "Ann",
+      address: { city: "Paris" },
+    });
+  });
+
+  it("creates the cursors from the sort fields that are not selected", async () => {
+    const { altogic, queries } = createClient();
+    const users = () =>
+      altogic.db
+        .model<User>("users")
+        .select("name")
+        .sort("age", "asc")
+        .limit(1);
+
+    const first = await users().getCursorPage();
+    expect(first.data?.result).toEqual([
+      { _id: expect.any(String), name: "Bob" },
+    ]);
+    const second = await users()
+      .after(first.data?.nextCursor ?? "")
+      .getCursorPage();
+    expect(second.data?.result).toEqual([
+      { _id: expect.any(String), name: "Ann" },
+    ]);
+    // The sort field is not omitted to create the cursors
+    expect(queries()[1].omit).toEqual(["address", "createdAt", "updatedAt"]);
+  });
+
+  it("validates the projection before modifying the query builder", () => {
+    const { altogic } = createClient();
+    const query = altogic.db.model<User>("users").select("address");
+
+    expect(() => query.omit("name")).toThrow(
+      expect.objectContaining({ code: "invalid_projection" })
+    );
+    expect(query.toJSON().action.omit).toBeNull();
+
+    query.omit("address.zip");
+    expect(() => query.select("address.zip")).toThrow(
+      expect.objectContaining({ code: "invalid_projection" })
+    );
+    expect(query.toJSON().select).toEqual(["address"]);
+  });
+
+  it("serializes the selected fields", async () => {
+    const { altogic } = createClient();
+    const json = JSON.stringify(
+      altogic.db.model<User>("users").select("name").filter("this.age > 18")
+    );
+
+    const { data } = await altogic.db.fromJSON<User>(json).get();
+    expect(data).toEqual([{ _id: expect.any(String), name: "Ann" }]);
+    expect(() =>
+      altogic.db.fromJSON({
+        model: "users",
+        action: {} as any,
+        select: "name" as any,
+      })
+    ).toThrow(expect.objectContaining({ code: "invalid_query_json" }));
+  });
+});
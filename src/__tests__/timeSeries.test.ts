@@ -0,0 +1,168 @@
+import { createMockClient, MockBackend } from "../testing";
+import { avg, count, max, sum } from "../Computation";
+import { getTimeSeriesBuckets } from "../utils/timeSeries";
+
+const iso = (times: number[]) =>
+  times.map((time) => new Date(time).toISOString());
+
+describe("time series buckets", () => {
+  it("calculates the buckets and the group resolution of the time zone", () => {
+    const utc = getTimeSeriesBuckets({
+      interval: "day",
+      from: "2026-03-01T12:00:00Z",
+      to: "2026-03-03T00:00:00Z",
+    });
+    expect(iso(utc.starts)).toEqual([
+      "2026-03-01T00:00:00.000Z",
+      "2026-03-02T00:00:00.000Z",
+    ]);
+    expect(utc.resolution).toBe("day");
+
+    const istanbul = getTimeSeriesBuckets({
+      interval: "day",
+      from: "2026-03-01T00:00:00Z",
+      to: "2026-03-02T00:00:00Z",
+      timezone: "Europe/Istanbul",
+    });
+    expect(iso(istanbul.starts)).toEqual([
+      "2026-02-28T21:00:00.000Z",
+      "2026-03-01T21:00:00.000Z",
+    ]);
+    expect(istanbul.resolution).toBe("hour");
+
+    const kolkata = getTimeSeriesBuckets({
+      interval: "month",
+      from: "2026-03-01T00:00:00Z",
+      to: "2026-04-01T00:00:00Z",
+      timezone: "Asia/Kolkata",
+    });
+    expect(kolkata.resolution).toBe("minute");
+  });
+
+  it("starts the weeks on Monday and repeats the hours of the daylight saving time changes", () => {
+    const weeks = getTimeSeriesBuckets({
+      interval: "week",
+      from: "2026-03-05T00:00:00Z",
+      to: "2026-03-10T00:00:00Z",
+    });
+    expect(iso(weeks.starts)).toEqual([
+      "2026-03-02T00:00:00.000Z",
+      "2026-03-09T00:00:00.000Z",
+    ]);
+
+    // Clocks go back from 03:00 to 02:00 in Berlin on 2026-10-25
+    const hours = getTimeSeriesBuckets({
+      interval: "hour",
+      from: "2026-10-24T22:00:00Z",
+      to: "2026-10-25T23:00:00Z",
+      timezone: "Europe/Berlin",
+    });
+    expect(hours.starts).toHaveLength(25);
+  });
+
+  it("rejects the invalid options", () => {
+    const invalid = expect.objectContaining({ code: "invalid_time_series" });
+    const from = "2026-03-01T00:00:00Z";
+    expect(() =>
+      getTimeSeriesBuckets({ interval: "year" as any, from })
+    ).toThrow(invalid);
+    expect(() =>
+      getTimeSeriesBuckets({ interval: "day", from, to: from })
+    ).toThrow(invalid);
+    expect(() =>
+      getTimeSeriesBuckets({ interval: "day", from: "not a date" })
+    ).toThrow(invalid);
+    expect(() =>
+      getTimeSeriesBuckets({ interval: "day", from, timezone: "Mars/Base" })
+    ).toThrow(invalid);
+    expect(() =>
+      getTimeSeriesBuckets({ interval: "hour", from, to: "2028-01-01" })
+    ).toThrow(invalid);
+  });
+});
+
+describe("QueryBuilder.timeSeries", () => {
+  const backend = new MockBackend({
+    orders: [
+      { paidAt: "2026-02-28T20:00:00Z", total: 100 },
+      { paidAt: "2026-03-01T09:00:00Z", total: 10 },
+      { paidAt: "2026-03-01T20:30:00Z", total: 20, status: "void" },
+      { paidAt: "2026-03-01T23:00:00Z", total: 30 },
+      { paidAt: "2026-03-03T10:00:00Z", total: 40 },
+    ],
+  });
+  const altogic = createMockClient(backend);
+
+  it("returns a point for each bucket of the range", async () => {
+    const { data, errors } = await altogic.db
+      .model("orders")
+      .filter("this.status != 'void'")
+      .timeSeries(
+        "paidAt",
+        {
+          interval: "day",
+          from: "2026-03-01T00:00:00Z",
+          to: "2026-03-03T21:00:00Z",
+          timezone: "Europe/Istanbul",
+        },
+        {
+          revenue: sum("this.total"),
+          average: avg("this.total"),
+          largest: max("this.total"),
+          n: count(),
+        }
+      );
+    expect(errors).toBeNull();
+    // The order before 'from' is not included in the first bucket
+    expect(data).toEqual([
+      {
+        date: "2026-02-28T21:00:00.000Z",
+        revenue: 10,
+        average: 10,
+        largest: 10,
+        n: 1,
+      },
+      {
+        date: "2026-03-01T21:00:00.000Z",
+        revenue: 30,
+        average: 30,
+        largest: 30,
+        n: 1,
+      },
+      {
+        date: "2026-03-02T21:00:00.000Z",
+        revenue: 40,
+        average: 40,
+        largest: 40,
+        n: 1,
+      },
+    ]);
+  });
+
+  it("merges the groups of a bucket and fills the empty buckets", async () => {
+    const { data } = await altogic.db
+      .model("orders")
+      .timeSeries(
+        "paidAt",
+        { interval: "week", from: "2026-02-23", to: "2026-03-16" },
+        { average: avg("this.total"), n: count() }
+      );
+    expect(data).toEqual([
+      { date: "2026-02-23T00:00:00.000Z", average: 40, n: 4 },
+      { date: "2026-03-02T00:00:00.000Z", average: 40, n: 1 },
+      { date: "2026-03-09T00:00:00.000Z", average: null, n: 0 },
+    ]);
+  });
+
+  it("counts the objects by default and rejects the empty computations", async () => {
+    const options = { interval: "month" as const, from: "2026-03-01" };
+    const { data } = await altogic.db
+      .model("orders")
+      .timeSeries("paidAt", { ...options, to: "2026-04-01" });
+    expect(data).toEqual([{ date: "2026-03-01T00:00:00.000Z", count: 4 }]);
+
+    await expect(
+      altogic.db.model("orders").timeSeries("paidAt", options, {})
+    ).rejects.toMatchObject({ code: "invalid_computation" });
+  });
+});
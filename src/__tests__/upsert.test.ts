@@ -0,0 +1,120 @@
+import { createMockClient, MockBackend } from "../testing";
+import { failRequests } from "./fixtures";
+
+describe("QueryBuilder upsert", () => {
+  const createBackend = () =>
+    new MockBackend({
+      teams: [{ _id: "t1", name: "Core" }],
+      users: [
+        { _id: "u1", email: "ann@x.io", name: "Ann", team: "t1", secret: "s" },
+      ],
+    });
+
+  it("updates the object matching the match fields or creates a new one", async () => {
+    const backend = createBackend();
+    const altogic = createMockClient(backend);
+    const users = () => altogic.db.model("users");
+
+    const updated = await users().upsert(
+      { email: "ann@x.io", name: "Anne" },
+      { match: ["email"] }
+    );
+    expect(updated.data?.created).toBe(false);
+    expect(updated.data?.object).toEqual(
+      expect.objectContaining({ _id: "u1", name: "Anne" })
+    );
+
+    const created = await users()
+      .filter("this.team == 't2'")
+      .upsert({ email: "bob@x.io", team: "t2" }, { match: ["email"] });
+    expect(created.data?.created).toBe(true);
+    expect(backend.getObjects("users")).toHaveLength(2);
+  });
+
+  it("finds the existing object with the lookups and omitted fields of the query", async () => {
+    const altogic = createMockClient(createBackend());
+
+    const { data } = await altogic.db
+      .model("users")
+      .lookup({ field: "team" })
+      .omit("secret")
+      .findOrCreate({ email: "ann@x.io", name: "Other" }, { match: ["email"] });
+    expect(data?.created).toBe(false);
+    expect(data?.object).toEqual(
+      expect.objectContaining({
+        name: "Ann",
+        team: expect.objectContaining({ _id: "t1", name: "Core" }),
+      })
+    );
+    expect(data?.object).not.toHaveProperty("secret");
+  });
+
+  it("returns the updated and created objects with the lookups and omitted fields of the query", async () => {
+    const backend = createBackend();
+    const altogic = createMockClient(backend);
+    const users = () =>
+      altogic.db.model("users").lookup({ field: "team" }).omit("secret");
+    const team = expect.objectContaining({ _id: "t1", name: "Core" });
+
+    const updated = await users().upsert(
+      { email: "ann@x.io", name: "Anne" },
+      { match: ["email"] }
+    );
+    expect(updated.data?.object).toEqual(
+      expect.objectContaining({ name: "Anne", team })
+    );
+    expect(updated.data?.object).not.toHaveProperty("secret");
+
+    const created = await users().findOrCreate(
+      { email: "bob@x.io", team: "t1", secret: "b" },
+      { match: ["email"] }
+    );
+    expect(created.data?.created).toBe(true);
+    expect(created.data?.object).toEqual(
+      expect.objectContaining({ email: "bob@x.io", team })
+    );
+    expect(created.data?.object).not.toHaveProperty("secret");
+    expect(backend.getObjects("users")[1]).toEqual(
+      expect.objectContaining({ team: "t1", secret: "b" })
+    );
+  });
+
+  it("retries once when the object is created by someone else at the same time", async () => {
+    const backend = createBackend();
+    const altogic = createMockClient(backend);
+    let creates = 0;
+    // Another client creates the same object right before the create request
+    altogic.use(async (request, next) => {
+      if (request.path.endsWith("/db/create") && creates++ === 0)
+        backend.seed("users", [{ email: "cid@x.io", name: "Cid" }]);
+      return await next();
+    });
+    failRequests(
+      altogic,
+      (request) => request.path.endsWith("/db/create") && creates === 1,
+      409,
+      "email_not_unique",
+      "Email is already in use"
+    );
+
+    const { data, errors } = await altogic.db
+      .model("users")
+      .upsert({ email: "cid@x.io", name: "Cidney" }, { match: ["email"] });
+    expect(errors).toBeNull();
+    expect(data?.created).toBe(false);
+    expect(backend.getObjects("users")).toEqual([
+      expect.anything(),
+      expect.objectContaining({ email: "cid@x.io", name: "Cidney" }),
+    ]);
+  });
+
+  it("rejects the upserts without match fields or filter", async () => {
+    const altogic = createMockClient(createBackend());
+    await expect(
+      altogic.db.model("users").upsert({ name: "Ann" })
+    ).rejects.toMatchObject({ code: "invalid_upsert_options" });
+    await expect(
+      altogic.db.model("users").upsert({ name: "Ann" }, { match: ["email"] })
+    ).rejects.toMatchObject({ code: "invalid_upsert_options" });
+  });
+});
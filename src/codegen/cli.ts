@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from "fs";
+import { generateTypes, CodegenOptions } from "./generator";
+
+const USAGE = `Usage: altogic-codegen <schema.json> [options]
+
+Generates the TypeScript types of the models in an exported Altogic app schema.
+
+Options:
+  -o, --out <file>      Write the generated types to the file instead of stdout
+  -m, --module <name>   The module to import the client library types from (default: altogic)
+  -n, --map-name <name> The name of the generated model map interface (default: AltogicModels)
+  -h, --help            Show this help message`;
+
+/**
+ * Parses the command line arguments.
+ * @param {string[]} args The command line arguments
+ * @returns The parsed arguments
+ */
+function parseArgs(args: string[]): {
+  schemaPath?: string;
+  outPath?: string;
+  help: boolean;
+  options: CodegenOptions;
+} {
+  const parsed: ReturnType<typeof parseArgs> = { help: false, options: {} };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const getValue = () => {
+      const value = args[++i];
+      if (value === undefined) throw new Error(`Missing value for ${arg}`);
+      return value;
+    };
+
+    if (arg === "-h" || arg === "--help") parsed.help = true;
+    else if (arg === "-o" || arg === "--out") parsed.outPath = getValue();
+    else if (arg === "-m" || arg === "--module")
+      parsed.options.moduleName = getValue();
+    else if (arg === "-n" || arg === "--map-name")
+      parsed.options.mapName = getValue();
+    else if (arg.startsWith("-")) throw new Error(`Unknown option ${arg}`);
+    else if (!parsed.schemaPath) parsed.schemaPath = arg;
+    else throw new Error(`Unexpected argument ${arg}`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Runs the code generator with the command line arguments.
+ * @param {string[]} args The command line arguments
+ * @returns The exit code of the process
+ */
+function run(args: string[]): number {
+  try {
+    const { schemaPath, outPath, help, options } = parseArgs(args);
+    if (help || !schemaPath) {
+      (help ? process.stdout : process.stderr).write(`${USAGE}\n`);
+      return help ? 0 : 1;
+    }
+
+    const schema = JSON.parse(readFileSync(schemaPath, "utf8"));
+    const output = generateTypes(schema, options);
+    if (outPath) writeFileSync(outPath, output);
+    else process.stdout.write(output);
+
+    return 0;
+  } catch (err: any) {
+    process.stderr.write(`altogic-codegen: ${err?.message ?? err}\n`);
+    return 1;
+  }
+}
+
+process.exitCode = run(process.argv.slice(2));
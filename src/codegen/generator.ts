@@ -0,0 +1,378 @@
+import { ClientError } from "../utils/ClientError";
+
+const SYSTEM_FIELDS = [
+  { name: "_id", type: "string" },
+  { name: "createdAt", type: "string" },
+  { name: "updatedAt", type: "string" },
+];
+const FIELD_TYPES: { [fieldType: string]: string } = {
+  text: "string",
+  "rich-text": "string",
+  "encrypted-text": "string",
+  email: "string",
+  link: "string",
+  phone: "string",
+  password: "string",
+  date: "string",
+  datetime: "string",
+  integer: "number",
+  decimal: "number",
+  "auto-increment": "number",
+  boolean: "boolean",
+  "geo-point": "[number, number]",
+  json: "any",
+};
+
+/**
+ * Defines the structure of a model field in the app schema
+ * @export
+ * @interface FieldSchema
+ */
+export interface FieldSchema {
+  /**
+   * The name of the field
+   * @type {string}
+   */
+  name: string;
+  /**
+   * The type of the field, e.g., `text`, `integer`, `object`, `object-list`, `reference` or `basic-values-list`
+   * @type {string}
+   */
+  type: string;
+  /**
+   * Whether the field value is required or not. Required fields are generated as non-optional properties.
+   * @type {boolean}
+   */
+  required?: boolean;
+  /**
+   * The name of the referenced model for `reference` fields
+   * @type {string}
+   */
+  reference?: string;
+  /**
+   * The type of the list items for `basic-values-list` fields, e.g., `text` or `integer`
+   * @type {string}
+   */
+  itemType?: string;
+  /**
+   * The fields of the sub-model for `object` and `object-list` fields
+   * @type {FieldSchema[]}
+   */
+  fields?: FieldSchema[];
+  /**
+   * Short description of the field, which is added as the doc comment of the generated property
+   * @type {string}
+   */
+  description?: string;
+}
+
+/**
+ * Defines the structure of a top-level model in the app schema
+ * @export
+ * @interface ModelSchema
+ */
+export interface ModelSchema {
+  /**
+   * The name of the model
+   * @type {string}
+   */
+  name: string;
+  /**
+   * The fields of the model
+   * @type {FieldSchema[]}
+   */
+  fields: FieldSchema[];
+  /**
+   * Short description of the model, which is added as the doc comment of the generated interface
+   * @type {string}
+   */
+  description?: string;
+}
+
+/**
+ * The options of the type generation
+ * @export
+ * @interface CodegenOptions
+ */
+export interface CodegenOptions {
+  /**
+   * The module name where the client library types are imported from. By default `altogic`.
+   * @type {string}
+   */
+  moduleName?: string;
+  /**
+   * The name of the generated interface which maps the model names to the model object types. By default `AltogicModels`.
+   * @type {string}
+   */
+  mapName?: string;
+}
+
+/**
+ * Defines the structure of a model or sub-model whose types will be generated
+ * @interface ModelEntry
+ */
+interface ModelEntry {
+  path: string;
+  typeName: string;
+  fields: FieldSchema[];
+  isSubModel: boolean;
+  description?: string;
+}
+
+/**
+ * Converts the model or field name to a type name in pascal case, e.g., `user-orders` to `UserOrders`.
+ * @param {string} name The model or field name
+ * @returns The type name
+ */
+function toTypeName(name: string): string {
+  const typeName = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter((part) => part)
+    .map((part) => part[0].toUpperCase() + part.substring(1))
+    .join("");
+  return /^[0-9]/.test(typeName) ? `Model${typeName}` : typeName;
+}
+
+/**
+ * Returns the property name of the field, quoted if it is not a valid identifier.
+ * @param {string} name The field name
+ * @returns The property name
+ */
+function toPropertyName(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Returns the model list of the schema. The schema can be an object with a `models` list, a list of models or a single model.
+ * @param {any} schema The parsed app schema
+ * @returns The list of models
+ */
+function getModels(schema: any): ModelSchema[] {
+  const models: any[] = Array.isArray(schema)
+    ? schema
+    : Array.isArray(schema?.models)
+    ? schema.models
+    : schema?.name && Array.isArray(schema?.fields)
+    ? [schema]
+    : [];
+
+  if (models.length === 0)
+    throw new ClientError(
+      "invalid_schema",
+      "The schema does not contain any models. It needs to be a list of models or an object with a 'models' list."
+    );
+
+  for (const model of models) {
+    if (typeof model?.name !== "string" || !Array.isArray(model?.fields))
+      throw new ClientError(
+        "invalid_schema",
+        "Each model needs to have a 'name' and a list of 'fields'.",
+        { model: model?.name }
+      );
+  }
+
+  return models;
+}
+
+/**
+ * Collects the models and their sub-models in the order they will be generated.
+ * @param {ModelSchema[]} models The top-level models
+ * @returns The model entries
+ */
+function collectModels(models: ModelSchema[]): ModelEntry[] {
+  const entries: ModelEntry[] = [];
+  const usedNames = new Set<string>();
+  const getUniqueName = (name: string) => {
+    let typeName = name;
+    for (let counter = 2; usedNames.has(typeName); counter++)
+      typeName = `${name}${counter}`;
+    usedNames.add(typeName);
+    return typeName;
+  };
+
+  const visit = (
+    path: string,
+    typeName: string,
+    fields: FieldSchema[],
+    isSubModel: boolean,
+    description?: string
+  ) => {
+    entries.push({ path, typeName, fields, isSubModel, description });
+    for (const field of fields) {
+      if (field.type === "object" || field.type === "object-list")
+        visit(
+          `${path}.${field.name}`,
+          getUniqueName(typeName + toTypeName(field.name)),
+          field.fields ?? [],
+          true,
+          field.description
+        );
+    }
+  };
+
+  for (const model of models)
+    visit(
+      model.name,
+      getUniqueName(toTypeName(model.name)),
+      model.fields,
+      false,
+      model.description
+    );
+
+  return entries;
+}
+
+/**
+ * Returns the TypeScript type of the field.
+ * @param {FieldSchema} field The field
+ * @param {string} path The path of the model that the field belongs to
+ * @param {Map<string, string>} typeNames The type names of the models by model path
+ * @returns The TypeScript type
+ */
+function getFieldType(
+  field: FieldSchema,
+  path: string,
+  typeNames: Map<string, string>
+): string {
+  switch (field.type) {
+    case "object":
+      return `${typeNames.get(`${path}.${field.name}`)} | null`;
+    case "object-list":
+      return `${typeNames.get(`${path}.${field.name}`)}[]`;
+    case "reference": {
+      // The referenced object is returned instead of its id when the field is looked up
+      const reference = field.reference && typeNames.get(field.reference);
+      return reference ? `string | ${reference}` : "string";
+    }
+    case "basic-values-list": {
+      const itemType = FIELD_TYPES[field.itemType ?? "text"] ?? "any";
+      return itemType.includes(" ") ? `(${itemType})[]` : `${itemType}[]`;
+    }
+    default:
+      return FIELD_TYPES[field.type] ?? "any";
+  }
+}
+
+/**
+ * Returns the field names of the fields, including the sub-model fields in dot-notation.
+ * @param {FieldSchema[]} fields The fields
+ * @param {boolean} isSubModel Whether the fields belong to a sub-model or not
+ * @param {string} [prefix] The path prefix of the field names
+ * @returns The field names
+ */
+function getFieldNames(
+  fields: FieldSchema[],
+  isSubModel: boolean,
+  prefix: string = ""
+): string[] {
+  const names = SYSTEM_FIELDS.map((field) => prefix + field.name);
+  if (isSubModel) names.push(prefix + "_parent");
+
+  for (const field of fields) {
+    names.push(prefix + field.name);
+    if (field.type === "object" || field.type === "object-list")
+      names.push(
+        ...getFieldNames(field.fields ?? [], true, `${prefix}${field.name}.`)
+      );
+  }
+
+  return names;
+}
+
+/**
+ * Creates a doc comment with the specified text and indentation.
+ * @param {string} text The comment text
+ * @param {string} indent The indentation of the comment lines
+ * @returns The doc comment lines
+ */
+function createComment(text: string, indent: string): string[] {
+  return [`${indent}/**`, `${indent} * ${text}`, `${indent} */`];
+}
+
+/**
+ * Generates the TypeScript declarations of the models in the app schema. For each model and sub-model it generates:
+ * - an interface of the model objects, including the system fields (`_id`, `createdAt`, `updatedAt` and `_parent` for sub-models)
+ * - a union of the field names, including the sub-object fields in dot-notation, which can be used in sort entries, omitted fields and field updates
+ * - a field update type whose `field` is restricted to the field names of the model
+ *
+ * Additionally it generates a map of the model names to their object types, which can be passed to {@link createClient} to type the query builders created by `client.db.model(name)`.
+ * @export
+ * @param {any} schema The parsed app schema. It can be an object with a `models` list, a list of models or a single model.
+ * @param {CodegenOptions} [options] The type generation options
+ * @throws Throws an `invalid_schema` error if the schema does not have a valid models list
+ * @returns The source code of the generated TypeScript declarations
+ */
+export function generateTypes(schema: any, options?: CodegenOptions): string {
+  const moduleName = options?.moduleName ?? "altogic";
+  const mapName = options?.mapName ?? "AltogicModels";
+  const entries = collectModels(getModels(schema));
+  const typeNames = new Map(
+    entries.map((entry) => [entry.path, entry.typeName])
+  );
+
+  const lines = [
+    "// This file is generated by altogic-codegen, do not edit it manually.",
+    `import { FieldUpdate, SortEntry } from ${JSON.stringify(moduleName)};`,
+    "",
+  ];
+
+  for (const entry of entries) {
+    const { path, typeName, fields, isSubModel } = entry;
+    lines.push(
+      ...createComment(
+        entry.description ??
+          `The objects of the \`${path}\` ${
+            isSubModel ? "sub-model" : "model"
+          }`,
+        ""
+      ),
+      `export interface ${typeName} {`
+    );
+
+    for (const field of SYSTEM_FIELDS)
+      lines.push(`  ${field.name}: ${field.type};`);
+    if (isSubModel) lines.push("  _parent: string;");
+
+    for (const field of fields) {
+      if (field.description)
+        lines.push(...createComment(field.description, "  "));
+      lines.push(
+        `  ${toPropertyName(field.name)}${
+          field.required ? "" : "?"
+        }: ${getFieldType(field, path, typeNames)};`
+      );
+    }
+
+    const fieldNames = getFieldNames(fields, isSubModel)
+      .map((name) => `  | ${JSON.stringify(name)}`)
+      .join("\n");
+    lines.push(
+      "}",
+      "",
+      ...createComment(`The field names of the \`${path}\` objects`, ""),
+      `export type ${typeName}Field =\n${fieldNames};`,
+      "",
+      ...createComment(`The sort entry of the \`${path}\` objects`, ""),
+      `export type ${typeName}SortEntry = SortEntry & { field: ${typeName}Field };`,
+      "",
+      ...createComment(`The field update of the \`${path}\` objects`, ""),
+      `export type ${typeName}FieldUpdate = FieldUpdate & { field: ${typeName}Field };`,
+      ""
+    );
+  }
+
+  lines.push(
+    ...createComment(
+      `Maps the model names to their object types, e.g., \`createClient<${mapName}>(envUrl, clientKey)\``,
+      ""
+    ),
+    `export interface ${mapName} {`,
+    ...entries.map(
+      (entry) => `  ${JSON.stringify(entry.path)}: ${entry.typeName};`
+    ),
+    "}",
+    ""
+  );
+
+  return lines.join("\n");
+}
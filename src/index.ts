@@ -8,11 +8,30 @@ import { TaskManager } from "./TaskManager";
 import { DatabaseManager } from "./DatabaseManager";
 import { QueryBuilder } from "./QueryBuilder";
 import { DBObject } from "./DBObject";
+import { DBEntity } from "./DBEntity";
+import { LiveQuery } from "./LiveQuery";
+import { OfflineReplica } from "./OfflineReplica";
+import { QueryCache } from "./QueryCache";
+import { DBBatch } from "./DBBatch";
+import { Expression } from "./Expression";
+import { ExpressionBuilder, expr } from "./ExpressionBuilder";
+import { FieldUpdateBuilder, updates } from "./FieldUpdateBuilder";
+import { Computation, count, countIf, sum, avg, min, max } from "./Computation";
 import { StorageManager } from "./StorageManager";
 import { BucketManager } from "./BucketManager";
 import { FileManager } from "./FileManager";
 import { RealtimeManager } from "./RealtimeManager";
 import { Fetcher } from "./utils/Fetcher";
+import { MemoryOfflineStore } from "./utils/MemoryOfflineStore";
+import { toMap, pivot, toSeries } from "./utils/aggregation";
+import { ClientError } from "./utils/ClientError";
+import { RequestError } from "./utils/RequestError";
+import { AuthError } from "./utils/AuthError";
+import { ValidationError } from "./utils/ValidationError";
+import { NotFoundError } from "./utils/NotFoundError";
+import { RateLimitError } from "./utils/RateLimitError";
+import { NetworkError } from "./utils/NetworkError";
+import { ConflictError } from "./utils/ConflictError";
 import {
   KeyValuePair,
   Session,
@@ -32,11 +51,31 @@ import {
   SetOptions,
   AppendOptions,
   DBAction,
+  SerializedQuery,
+  LiveQueryOptions,
+  LiveQueryUpdate,
+  LiveQueryListener,
+  OfflineStore,
+  OfflineMutation,
+  OfflineConflict,
+  ConflictResolver,
+  ConflictPolicy,
+  OfflineOptions,
+  OfflineSyncResult,
+  QueryCacheOptions,
   SortEntry,
   FieldUpdate,
   UpdateInfo,
+  ConflictDetails,
   DeleteInfo,
   GroupComputation,
+  ComputationMap,
+  ComputeResult,
+  GroupKey,
+  TimeSeriesOptions,
+  TimeSeriesPoint,
+  SearchFieldWeights,
+  ScoredObject,
   BucketListOptions,
   BucketSortEntry,
   FileListOptions,
@@ -48,6 +87,34 @@ import {
   RealtimeOptions,
   MemberData,
   UserEventListenerFunction,
+  RetryOptions,
+  RetryInfo,
+  RequestOptions,
+  MiddlewareRequest,
+  MiddlewareFunction,
+  Transport,
+  FetchFunction,
+  UploadFunction,
+  UploadInit,
+  CountInfo,
+  ListResult,
+  FieldPath,
+  FieldPathValue,
+  FieldPathOfType,
+  SelectedFields,
+  ExpressionValue,
+  IterateOptions,
+  CursorPage,
+  BulkOptions,
+  BulkCreateOptions,
+  BulkProgress,
+  BulkRowResult,
+  BulkResult,
+  BulkUpdateEntry,
+  UpsertOptions,
+  UpsertResult,
+  BatchOptions,
+  BatchValue,
 } from "./types";
 import { polyfillGlobalThis } from "./utils/polyfills";
 
@@ -60,18 +127,19 @@ polyfillGlobalThis();
  * @param  {string} clientKey The client library key of the app
  * @param  {string} [apiKey] A valid API key of the environment
  * @param  {string} options Additional configuration parameters
- * @returns {AltogicClient} The newly created client instance
+ * @returns {AltogicClient} The newly created client instance. If a model map type is specified (e.g., `createClient<AltogicModels>(...)`), the query builders of the models are typed with their object types.
  */
-const createClient = (
+const createClient = <M extends object = {}>(
   envUrl: string,
   clientKey: string,
   options?: ClientOptions
-): AltogicClient => {
-  return new AltogicClient(envUrl, clientKey, options);
+): AltogicClient<M> => {
+  return new AltogicClient<M>(envUrl, clientKey, options);
 };
 
 export {
   createClient,
+  MemoryOfflineStore,
   APIBase,
   AltogicClient,
   AuthManager,
@@ -81,6 +149,14 @@ export {
   TaskManager,
   DatabaseManager,
   Fetcher,
+  ClientError,
+  RequestError,
+  AuthError,
+  ValidationError,
+  NotFoundError,
+  RateLimitError,
+  NetworkError,
+  ConflictError,
   KeyValuePair,
   Session,
   ClientOptions,
@@ -92,6 +168,26 @@ export {
   TaskInfo,
   QueryBuilder,
   DBObject,
+  DBEntity,
+  LiveQuery,
+  OfflineReplica,
+  QueryCache,
+  Expression,
+  ExpressionBuilder,
+  expr,
+  FieldUpdateBuilder,
+  updates,
+  Computation,
+  count,
+  countIf,
+  sum,
+  avg,
+  min,
+  max,
+  toMap,
+  pivot,
+  toSeries,
+  ExpressionValue,
   GetOptions,
   SimpleLookup,
   ComplexLookup,
@@ -101,11 +197,31 @@ export {
   SetOptions,
   AppendOptions,
   DBAction,
+  SerializedQuery,
+  LiveQueryOptions,
+  LiveQueryUpdate,
+  LiveQueryListener,
+  OfflineStore,
+  OfflineMutation,
+  OfflineConflict,
+  ConflictResolver,
+  ConflictPolicy,
+  OfflineOptions,
+  OfflineSyncResult,
+  QueryCacheOptions,
   SortEntry,
   FieldUpdate,
   UpdateInfo,
+  ConflictDetails,
   DeleteInfo,
   GroupComputation,
+  ComputationMap,
+  ComputeResult,
+  GroupKey,
+  TimeSeriesOptions,
+  TimeSeriesPoint,
+  SearchFieldWeights,
+  ScoredObject,
   StorageManager,
   BucketManager,
   BucketListOptions,
@@ -121,4 +237,32 @@ export {
   RealtimeOptions,
   MemberData,
   UserEventListenerFunction,
+  RetryOptions,
+  RetryInfo,
+  RequestOptions,
+  MiddlewareRequest,
+  MiddlewareFunction,
+  Transport,
+  FetchFunction,
+  UploadFunction,
+  UploadInit,
+  CountInfo,
+  ListResult,
+  FieldPath,
+  FieldPathValue,
+  FieldPathOfType,
+  SelectedFields,
+  IterateOptions,
+  CursorPage,
+  BulkOptions,
+  BulkCreateOptions,
+  BulkProgress,
+  BulkRowResult,
+  BulkResult,
+  BulkUpdateEntry,
+  UpsertOptions,
+  UpsertResult,
+  DBBatch,
+  BatchOptions,
+  BatchValue,
 };
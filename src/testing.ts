@@ -0,0 +1,43 @@
+import { AltogicClient } from "./AltogicClient";
+import { MockBackend } from "./utils/MockBackend";
+import {
+  ClientOptions,
+  MockEndpointRequest,
+  MockEndpointHandler,
+  MockMessage,
+  MockTask,
+} from "./types";
+
+/**
+ * Creates a new client that is connected to an in-memory {@link MockBackend} instead of an Altogic application environment. The mock client does not make any network requests, so it can be used to unit test the apps that are built with the client library. The data of the backend can be seeded and inspected using the {@link MockBackend} methods.
+ *
+ * The mock backend is provided by the `altogic/testing` entry point, so that it is not included in the production bundles of your app.
+ *
+ * ```ts
+ * import { createMockClient, MockBackend } from 'altogic/testing';
+ *
+ * const backend = new MockBackend({ users: [{ name: 'John', age: 32 }] });
+ * const altogic = createMockClient(backend);
+ * ```
+ * @param  {MockBackend} [backend] The mock backend that will serve the requests of the client, if not specified a new empty backend is created
+ * @param  {ClientOptions} [options] Additional configuration parameters, the `transport` option is overridden by the mock backend
+ * @returns {AltogicClient} The newly created client instance
+ */
+const createMockClient = <M extends object = {}>(
+  backend: MockBackend = new MockBackend(),
+  options?: ClientOptions
+): AltogicClient<M> => {
+  return new AltogicClient<M>("http://localhost", "mock-client-key", {
+    ...options,
+    transport: backend.transport,
+  });
+};
+
+export {
+  createMockClient,
+  MockBackend,
+  MockEndpointRequest,
+  MockEndpointHandler,
+  MockMessage,
+  MockTask,
+};
@@ -1,3 +1,7 @@
+import { Expression } from "./Expression";
+import { Computation } from "./Computation";
+import { RealtimeManager } from "./RealtimeManager";
+
 /**
  * Represents a basic javascript object with key-value pairs
  * @export
@@ -144,6 +148,308 @@ export interface ClientOptions {
    * @type {RealtimeOptions}
    */
   realtime?: RealtimeOptions;
+
+  /**
+   * The retry policy applied to the RESTful API calls made to your app backend. By default requests are not retried, set `maxAttempts` to a value greater than 1 to enable automatic retries with exponential backoff.
+   * @type {RetryOptions}
+   */
+  retry?: RetryOptions;
+
+  /**
+   * The default timeout duration in milliseconds of the RESTful API requests. If a request does not complete within this duration, it is cancelled and a `request_timeout` error is returned. By default requests do not time out.
+   * @type {number}
+   */
+  timeout?: number;
+
+  /**
+   * The list of middleware functions that will intercept the RESTful API calls made to your app backend. Middleware functions are called in the order they are listed. You can also register additional middleware functions later using the {@link AltogicClient.use} method.
+   * @type {MiddlewareFunction[]}
+   */
+  middleware?: MiddlewareFunction[];
+
+  /**
+   * The custom transport implementation used to make the RESTful API calls to your app backend. By default the client library uses [cross-fetch](https://www.npmjs.com/package/cross-fetch) to make requests and `XMLHttpRequest` to upload files with progress tracking. You can provide your own implementations to run the client library on runtimes where these are not available (e.g., edge runtimes), to customize the underlying http agent or to mock the requests in your tests.
+   * @type {Transport}
+   */
+  transport?: Transport;
+
+  /**
+   * Whether to throw the errors of the RESTful API requests instead of returning them in the `errors` component of the response. By default errors are returned, e.g., `{ data: null, errors: {...} }`.
+   *
+   * When enabled, the errors returned by your app backend are thrown as a typed error based on {@link ClientError}, namely {@link AuthError}, {@link ValidationError}, {@link NotFoundError}, {@link ConflictError}, {@link RateLimitError} or the base {@link RequestError}, which carry the `status` and the error entries (`items`) of the response. If a request cannot be sent, times out or is aborted, a {@link NetworkError} is thrown. The `errors` component of the responses is always `null` in this mode.
+   * @type {boolean}
+   */
+  throwOnError?: boolean;
+}
+
+/**
+ * The custom transport implementation of the client library. The functions that are not provided fall back to the default implementations.
+ * @export
+ * @interface Transport
+ */
+export interface Transport {
+  /**
+   * The [fetch](https://developer.mozilla.org/en-US/docs/Web/API/fetch) compatible function that will be used to make the RESTful API calls. If not provided, [cross-fetch](https://www.npmjs.com/package/cross-fetch) is used.
+   * @type {FetchFunction}
+   */
+  fetch?: FetchFunction;
+
+  /**
+   * The function that will be used to upload files when an `onProgress` callback is specified in {@link FileUploadOptions}. If not provided, these files are uploaded using the `XMLHttpRequest` object, which is available only in browsers.
+   * @type {UploadFunction}
+   */
+  upload?: UploadFunction;
+}
+
+/**
+ * Defines the structure of the [fetch](https://developer.mozilla.org/en-US/docs/Web/API/fetch) compatible function of the {@link Transport}. The function receives the full URL of the request and the request init object and returns the response of the request.
+ * @export
+ * @type FetchFunction
+ */
+export type FetchFunction = (
+  url: string,
+  init: RequestInit
+) => Promise<Response>;
+
+/**
+ * Defines the structure of the file upload function of the {@link Transport}. The function receives the full URL of the upload request and the {@link UploadInit} object and returns the [fetch](https://developer.mozilla.org/en-US/docs/Web/API/fetch) compatible response of the request.
+ * @export
+ * @type UploadFunction
+ */
+export type UploadFunction = (
+  url: string,
+  init: UploadInit
+) => Promise<Response>;
+
+/**
+ * The options of the file upload request passed to the {@link UploadFunction}.
+ * @export
+ * @interface UploadInit
+ */
+export interface UploadInit {
+  /**
+   * The method of the upload request, which is always `POST`
+   * @type {string}
+   */
+  method: "POST";
+
+  /**
+   * The headers of the upload request. Does not include a content type entry, the content type needs to be set by the upload implementation based on the form data body.
+   * @type {KeyValuePair}
+   */
+  headers: KeyValuePair;
+
+  /**
+   * The form data body of the upload request which includes the file contents
+   * @type {FormData}
+   */
+  body: FormData;
+
+  /**
+   * The credentials mode of the upload request, auth cookies are always sent
+   * @type {string}
+   */
+  credentials: "include";
+
+  /**
+   * The abort signal of the upload request. It is aborted when the caller cancels the upload or when the request times out.
+   * @type {AbortSignal}
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Callback function that needs to be called during file upload to inform the upload progress
+   * @param loaded The number of bytes uploaded so far
+   * @param total The total number of bytes to upload
+   */
+  onProgress: (loaded: number, total: number) => void;
+}
+
+/**
+ * The outgoing RESTful API request passed to the {@link MiddlewareFunction}s. Middleware functions can modify the properties of the request (e.g., add headers or query string parameters) before calling the `next` function.
+ * @export
+ * @interface MiddlewareRequest
+ */
+export interface MiddlewareRequest {
+  /**
+   * The method of the request
+   * @type {string}
+   */
+  method: "GET" | "POST" | "PUT" | "DELETE";
+
+  /**
+   * The path of the request, starts with a slash '/' character e.g., `/_api/rest/v1/db/object`
+   * @type {string}
+   */
+  path: string;
+
+  /**
+   * The query string parameters of the request as key:value pair object
+   * @type {KeyValuePair}
+   */
+  query: KeyValuePair;
+
+  /**
+   * The headers of the request as key:value pair object, including the default headers of the client
+   * @type {KeyValuePair}
+   */
+  headers: KeyValuePair;
+
+  /**
+   * The body of the request if any. Can be a **JSON**, **FormData**, **Blob** or **File** object.
+   * @type {any}
+   */
+  body: any;
+
+  /**
+   * Type of data to return as a response of the request
+   * @type {string}
+   */
+  resolveType: "json" | "text" | "blob" | "arraybuffer";
+}
+
+/**
+ * Middleware function that intercepts the RESTful API calls made to your app backend. The middleware receives the outgoing `request` and the `next` function which passes the request to the next middleware in the chain, and eventually sends it to your app backend. The resolved `data` and `errors` of the request are returned by the `next` function.
+ *
+ * A middleware can modify the request before calling `next`, transform the response returned by `next`, or short-circuit the chain by returning a response without calling `next` at all.
+ *
+ * ```ts
+ * altogic.use(async (request, next) => {
+ *   request.headers["X-Correlation-Id"] = createId();
+ *   const response = await next();
+ *   if (response.errors) console.log(request.method, request.path, response.errors);
+ *   return response;
+ * });
+ * ```
+ * @export
+ * @type MiddlewareFunction
+ */
+export type MiddlewareFunction = (
+  request: MiddlewareRequest,
+  next: () => Promise<{ data: any | null; errors: APIError | null }>
+) => Promise<{ data: any | null; errors: APIError | null }>;
+
+/**
+ * The options of an individual RESTful API request. Can be passed as the last parameter of the methods that make requests to your app backend.
+ *
+ * If the request is cancelled through the `signal`, a `request_aborted` error is returned. If the request does not complete within the `timeout` duration, a `request_timeout` error is returned.
+ *
+ * @export
+ * @interface RequestOptions
+ */
+export interface RequestOptions {
+  /**
+   * The abort signal that will be used to cancel the request, e.g., the signal of an `AbortController`
+   * @type {AbortSignal}
+   */
+  signal?: AbortSignal;
+
+  /**
+   * The timeout duration of the request in milliseconds. Overrides the `timeout` specified in {@link ClientOptions}. If a request is retried, the timeout is applied to each attempt separately.
+   * @type {number}
+   */
+  timeout?: number;
+
+  /**
+   * Retry policy overrides for this request. The provided options are merged with the `retry` options specified in {@link ClientOptions}.
+   * @type {RetryOptions}
+   */
+  retry?: RetryOptions;
+}
+
+/**
+ * The retry policy options of the RESTful API requests. A request is retried when the request fails due to a network error or when its response status code is one of the `retryOnStatus` codes, provided that the request method is listed in `retryMethods`.
+ *
+ * The wait duration between two attempts grows exponentially, `baseDelay * 2^(attempt - 1)`, and is capped by `maxDelay`. If the response includes a `Retry-After` header, its value is used as the wait duration instead.
+ *
+ * @export
+ * @interface RetryOptions
+ */
+export interface RetryOptions {
+  /**
+   * The maximum number of attempts (including the initial request) to make for a request. Setting this value to 1 disables retries.
+   * @type {number}
+   */
+  maxAttempts?: number;
+
+  /**
+   * The base delay in milliseconds used to calculate the exponential backoff duration between attempts.
+   * @type {number}
+   */
+  baseDelay?: number;
+
+  /**
+   * The maximum delay in milliseconds between two attempts.
+   * @type {number}
+   */
+  maxDelay?: number;
+
+  /**
+   * The flag to enable or disable randomization of the backoff duration. When enabled, the calculated delay is randomized between half and the full duration, so that concurrent clients do not retry at the same time.
+   * @type {boolean}
+   */
+  jitter?: boolean;
+
+  /**
+   * The list of HTTP response status codes that will trigger a retry.
+   * @type {number[]}
+   */
+  retryOnStatus?: number[];
+
+  /**
+   * The list of HTTP methods that can be retried. Please note that database, storage and cache commands are sent as `POST` requests, you need to add `POST` to this list to retry them.
+   * @type {('GET' | 'POST' | 'PUT' | 'DELETE')[]}
+   */
+  retryMethods?: ("GET" | "POST" | "PUT" | "DELETE")[];
+
+  /**
+   * Callback function that is called before each retry attempt.
+   * @param info Information about the retry attempt
+   */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Provides information about a request retry attempt. Passed to the `onRetry` callback function of {@link RetryOptions}.
+ * @export
+ * @interface RetryInfo
+ */
+export interface RetryInfo {
+  /**
+   * The number of the upcoming attempt, the initial request is the first attempt
+   * @type {number}
+   */
+  attempt: number;
+
+  /**
+   * The duration in milliseconds to wait before making the upcoming attempt
+   * @type {number}
+   */
+  delay: number;
+
+  /**
+   * The method of the request
+   * @type {string}
+   */
+  method: "GET" | "POST" | "PUT" | "DELETE";
+
+  /**
+   * The path of the request
+   * @type {string}
+   */
+  path: string;
+
+  /**
+   * The response status code of the failed attempt. If the attempt failed due to a network error, it is `null`.
+   * @type {number | null}
+   */
+  status: number | null;
+
+  /**
+   * The network error of the failed attempt, if any
+   * @type {any}
+   */
+  error: any;
 }
 
 /**
@@ -411,10 +717,10 @@ export interface ComplexLookup {
    */
   modelName: string;
   /**
-   * The query expression that will be used in joining the models
-   * @type {string}
+   * The query expression that will be used in joining the models. It can be an expression string or an {@link Expression} created by the {@link ExpressionBuilder}.
+   * @type {string | Expression}
    */
-  query: string;
+  query: string | Expression;
 }
 
 /**
@@ -540,15 +846,17 @@ export interface DeleteOptions {
 
 /**
  * Defines the options for an object update operation
+ *
+ * If `ifUnmodifiedSince` or `expectedVersion` is specified, the object is updated only if it has not been modified by someone else since it was read (optimistic concurrency control). Otherwise, the object is not updated and a `conflict` error is returned, which provides the current copy of the object in its details (see {@link ConflictDetails}). The conditional update is applied as a filtered update, therefore the updated object and the current copy of a conflicting object are read by a separate request after the update.
  * @export
  * @interface UpdateOptions
  */
 export interface UpdateOptions {
   /**
-   * Specify whether to cache the updated object using its id as the cache key or not. If the object is cached and the timeout has expired, the cached object will automatically be removed from the cache.
+   * Specify whether to cache the updated object using its id as the cache key or not. If the object is cached and the timeout has expired, the cached object will automatically be removed from the cache. By default `nocache`.
    * @type {string}
    */
-  cache:
+  cache?:
     | "nocache"
     | "noexpiry"
     | "30sec"
@@ -568,10 +876,35 @@ export interface UpdateOptions {
     | "1year";
 
   /**
-   * In case if you update a submodel object (a child object of a top-level object), you can specify whether to return the newly updated child object or the updated top-level object.
+   * In case if you update a submodel object (a child object of a top-level object), you can specify whether to return the newly updated child object or the updated top-level object. By default `false`.
    * @type {boolean}
    */
-  returnTop: boolean;
+  returnTop?: boolean;
+
+  /**
+   * The precondition of the update, which is met if the object has not been modified after the specified date, namely its `updatedAt` value is not later than this date. Typically the `updatedAt` value of the object when it was read is used. If the precondition fails, the object is not updated and a `conflict` error is returned with the current copy of the object.
+   * @type {string | Date}
+   */
+  ifUnmodifiedSince?: string | Date;
+
+  /**
+   * The precondition of the update, which is met if the numeric version field of the object has the specified value. The version field is incremented by one with the update, unless the update explicitly sets its value. If the precondition fails, the object is not updated and a `conflict` error is returned with the current copy of the object.
+   * @type {{ field: string; value: number }}
+   */
+  expectedVersion?: { field: string; value: number };
+}
+
+/**
+ * Defines the details of the `conflict` error returned when the precondition of a conditional update fails
+ * @export
+ * @interface ConflictDetails
+ */
+export interface ConflictDetails {
+  /**
+   * The copy of the object read right after the failed update, or null if the object no longer exists. Since it is not read atomically with the update, it may already be outdated, e.g., if the object has been modified again in the meantime.
+   * @type {object | null}
+   */
+  current: object | null;
 }
 
 /**
@@ -622,82 +955,390 @@ export interface DBAction {
 }
 
 /**
- * Defines the structure of sort entry
+ * Defines the serializable form of a query, which is returned by {@link QueryBuilder.toJSON} and converted back to a query builder by {@link DatabaseManager.fromJSON}
  * @export
- * @interface SortEntry
+ * @interface SerializedQuery
  */
-export interface SortEntry {
+export interface SerializedQuery {
   /**
-   * The name of the field that will be used in sorting the returned objects. The field name can be in dot-notation to specify sub-object fields (e.g., field.subField)
+   * The name of the model that the query operates on
    * @type {string}
    */
-  field: string;
+  model: string;
   /**
-   * Sort direction
-   * @type {string}
+   * The db action built by the query modifiers
+   * @type {DBAction}
    */
-  direction: "asc" | "desc";
+  action: DBAction;
+  /**
+   * The fields selected by {@link QueryBuilder.select}, which are picked from the retrieved objects by the client
+   * @type {(string[] | null | undefined)}
+   */
+  select?: string[] | null;
+  /**
+   * The cursor of keyset pagination and whether to get the objects coming after or before the cursor
+   * @type {({ direction: "after" | "before"; value: string } | null | undefined)}
+   */
+  cursor?: { direction: "after" | "before"; value: string } | null;
 }
 
 /**
- * Defines the structure of a field update
+ * Defines the options of the live queries created by {@link QueryBuilder.subscribe}
  * @export
- * @interface FieldUpdate
+ * @interface LiveQueryOptions
  */
-export interface FieldUpdate {
+export interface LiveQueryOptions {
   /**
-   * The name of the field whose value will be updated. The field name can be in dot-notation to specify sub-object fields (e.g., field.subField). Please note that only sub-model object fields can be accessed through the dot-notation. You cannot create an update instruction for an object-list field through the dot-notation.
+   * The realtime manager that receives the change events of the model. By default, the realtime manager of the client that created the query builder is used.
+   * @type {RealtimeManager}
+   */
+  realtime?: RealtimeManager;
+  /**
+   * The name of the channel where the change events of the model are sent. By default `db:<model name>`, e.g., `db:orders`.
    * @type {string}
    */
-  field: string;
-
+  channel?: string;
   /**
-   * Defines how the field will be updated.
-   * - **set:** Sets (overwrites) the value of a field. Applicable on all fields, except system managed `_id`, `_parent`, `createdAt`, `updatedAt` fields.
-   * - **unset:** Clears the value of a field. Applicable on all fields, except system managed `_id`, `_parent`, `createdAt`, `updatedAt` fields.
-   * - **increment:** Increments the value of a numeric field by the specified amount. Applicable only for integer and decimal fields.
-   * - **decrement:** Decrements the value of a numeric field by the specified amount. Applicable only for integer and decimal fields.
-   * - **min:** Assigns the minimum of the specified value or the field value. If the specified value is less than the current field value, sets the field value to the specificied value, otherwise does not make any changes. Applicable only for integer and decimal fields.
-   * - **max:** Assigns the maximum of the specified value or the field value. If the specified value is greater than the current field value, sets the field value to the specificied value, otherwise does not make any changes. Applicable only for integer and decimal fields.
-   * - **multiply:** Multiplies the current value of the field with the specified amount and sets the field value to teh multiplication result. Applicable only for integer and decimal fields.
-   * - **pull:** Removes the specified value from a basic values list. Applicable only for basic values list fields.
-   * - **push:** Adds the specified value to a basic values list. Applicable only for basic values list fields.
-   * - **pop:** Removes the last element from a basic values list. Applicable only for basic values list fields.
-   * - **shift:** Removes the first element from a basic values list. Applicable only for basic values list fields.
-   * @type {('set'
-   *       | 'unset'
-   *       | 'increment'
-   *       | 'decrement'
-   *       | 'min'
-   *       | 'max'
-   *       | 'multiply'
-   *       | 'pull'
-   *       | 'push'
-   *       | 'pop'
-   *       | 'shift')}
+   * The duration between the fetches of the query while the realtime socket is disconnected, in milliseconds. By default 30000 (30 seconds).
+   * @type {number}
    */
-  updateType:
-    | "set"
-    | "unset"
-    | "increment"
-    | "decrement"
-    | "min"
-    | "max"
-    | "multiply"
-    | "pull"
-    | "push"
-    | "pop"
-    | "shift";
+  pollInterval?: number;
+}
 
+/**
+ * Defines the structure of the updates passed to the listener of a live query
+ * @export
+ * @interface LiveQueryUpdate
+ * @template R The type of the retrieved objects
+ */
+export interface LiveQueryUpdate<R> {
   /**
-   * The value that will be used during the field update. Depending on the update type the value will have different meaning.
-   * - **set:** The new value to set
-   * - **unset:** Not applicable, value is not needed
-   * - **increment:** The icrement amount
-   * - **decrement:** The decrement amount
-   * - **min:** The min amount to compare against current field value
-   * - **max:** The max amount to compare against current field value
-   * - **multiply:** The multiplication amount
+   * The current result of the query
+   * @type {R[]}
+   */
+  data: R[];
+  /**
+   * The errors of the last fetch of the query, `null` if the last fetch has succeeded. If the fetch fails, `data` keeps the previous result.
+   * @type {APIError | null}
+   */
+  errors: APIError | null;
+  /**
+   * The reason of the update, either the fetch of the query or the type of the applied change event
+   * @type {('fetch' | 'create' | 'update' | 'delete')}
+   */
+  type: "fetch" | "create" | "update" | "delete";
+}
+
+/**
+ * Defines the structure of the listener functions of the live queries, which are called with the current result of the query whenever it changes.
+ * @export
+ * @type LiveQueryListener
+ */
+export type LiveQueryListener<R> = (update: LiveQueryUpdate<R>) => void;
+
+/**
+ * The local key-value store of the offline replica, where the fetched objects and the pending mutations are persisted. The client library provides the {@link MemoryOfflineStore}, which keeps the entries in memory. You can implement this interface to persist the replica, e.g., in IndexedDB in browsers or in a file in Node.js. The stored values are JSON-serializable.
+ * @export
+ * @interface OfflineStore
+ */
+export interface OfflineStore {
+  /**
+   * Returns the value of the key, `undefined` if the key does not exist.
+   * @param {string} key The key of the entry
+   * @returns {Promise<any>} The stored value
+   */
+  get(key: string): Promise<any>;
+
+  /**
+   * Stores the value of the key, overwrites the existing value.
+   * @param {string} key The key of the entry
+   * @param {any} value The JSON-serializable value
+   */
+  set(key: string, value: any): Promise<void>;
+
+  /**
+   * Removes the entry of the key, does nothing if the key does not exist.
+   * @param {string} key The key of the entry
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Returns the keys starting with the prefix.
+   * @param {string} prefix The key prefix
+   * @returns {Promise<string[]>} The matching keys in any order
+   */
+  keys(prefix: string): Promise<string[]>;
+}
+
+/**
+ * A database mutation made while offline, which is kept in the outbox of the offline replica until it is replayed on the app backend.
+ * @export
+ * @interface OfflineMutation
+ */
+export interface OfflineMutation {
+  /**
+   * The sequence number of the mutation, the mutations are replayed in the order of their sequence numbers
+   * @type {number}
+   */
+  seq: number;
+
+  /**
+   * The type of the mutation
+   * @type {"create" | "update" | "updateFields" | "delete"}
+   */
+  type: "create" | "update" | "updateFields" | "delete";
+
+  /**
+   * The name of the model
+   * @type {string}
+   */
+  model: string;
+
+  /**
+   * The id of the object. The objects created while offline have a temporary id starting with `local_`, which is replaced with the id assigned by the app backend when the creation is replayed.
+   * @type {string}
+   */
+  id: string;
+
+  /**
+   * The field values of the `create` and `update` mutations
+   * @type {object}
+   */
+  values?: object;
+
+  /**
+   * The field update instructions of the `updateFields` mutations
+   * @type {FieldUpdate[]}
+   */
+  updates?: FieldUpdate[];
+
+  /**
+   * The operation options of the original request
+   * @type {object}
+   */
+  options?: object;
+
+  /**
+   * The `updatedAt` value of the local copy of the object when the mutation was made, used to detect whether the object has been modified by someone else in the meantime. `null` if the object was not fetched before.
+   * @type {string | null}
+   */
+  baseUpdatedAt: string | null;
+
+  /**
+   * The time when the mutation was made, in ISO 8601 format
+   * @type {string}
+   */
+  createdAt: string;
+}
+
+/**
+ * The conflict passed to the custom conflict resolver of the offline replica, namely an object that has been modified on the app backend after it was modified while offline.
+ * @export
+ * @interface OfflineConflict
+ */
+export interface OfflineConflict {
+  /**
+   * The pending mutation of the object
+   * @type {OfflineMutation}
+   */
+  mutation: OfflineMutation;
+
+  /**
+   * The local copy of the object with the pending mutations applied, `null` if the object is deleted locally
+   * @type {object | null}
+   */
+  local: object | null;
+
+  /**
+   * The current version of the object on the app backend
+   * @type {object}
+   */
+  server: object;
+}
+
+/**
+ * The custom conflict resolver of the offline replica. Returns `"local"` to replay the mutation as is, `"server"` to discard the mutation and keep the version of the app backend, or the merged field values that will be written to the object instead of the mutation.
+ * @export
+ * @type ConflictResolver
+ */
+export type ConflictResolver = (
+  conflict: OfflineConflict
+) => "local" | "server" | object | Promise<"local" | "server" | object>;
+
+/**
+ * The conflict resolution policy of the offline replica. `last-write-wins` replays the pending mutations without checking for conflicts, `server-wins` discards the mutations of the objects modified on the app backend in the meantime, and a {@link ConflictResolver} function decides for each conflict.
+ * @export
+ * @type ConflictPolicy
+ */
+export type ConflictPolicy =
+  | "last-write-wins"
+  | "server-wins"
+  | ConflictResolver;
+
+/**
+ * Defines the options of the offline replica
+ * @export
+ * @interface OfflineOptions
+ */
+export interface OfflineOptions {
+  /**
+   * The local store of the fetched objects and pending mutations. By default a {@link MemoryOfflineStore} is used, which does not persist the replica across restarts.
+   * @type {OfflineStore}
+   */
+  store?: OfflineStore;
+
+  /**
+   * How the conflicts of the pending mutations are resolved when they are replayed, by default `last-write-wins`
+   * @type {ConflictPolicy}
+   */
+  conflictPolicy?: ConflictPolicy;
+
+  /**
+   * Whether to replay the pending mutations automatically when the connectivity is restored, by default `true`
+   * @type {boolean}
+   */
+  autoSync?: boolean;
+}
+
+/**
+ * The result of replaying the pending mutations of the offline replica
+ * @export
+ * @interface OfflineSyncResult
+ */
+export interface OfflineSyncResult {
+  /**
+   * The number of mutations replayed on the app backend
+   * @type {number}
+   */
+  synced: number;
+
+  /**
+   * The number of mutations whose object had been modified on the app backend, resolved according to the conflict policy
+   * @type {number}
+   */
+  conflicts: number;
+
+  /**
+   * The mutations rejected by the app backend (e.g., due to validation errors), which are removed from the outbox
+   * @type {{ mutation: OfflineMutation; errors: APIError }[]}
+   */
+  failed: { mutation: OfflineMutation; errors: APIError }[];
+
+  /**
+   * The number of mutations still waiting in the outbox, e.g., when the connectivity is lost again during the replay
+   * @type {number}
+   */
+  pending: number;
+}
+
+/**
+ * Defines the options of the client-side query result cache
+ * @export
+ * @interface QueryCacheOptions
+ */
+export interface QueryCacheOptions {
+  /**
+   * The duration in milliseconds during which a cached result is returned without making a request, by default 30 seconds
+   * @type {number}
+   */
+  ttl?: number;
+
+  /**
+   * The duration in milliseconds after the `ttl` during which the expired (stale) result is still returned, while the query is fetched again in the background to refresh the cached result. By default `0`, namely the expired results are not returned.
+   * @type {number}
+   */
+  staleWhileRevalidate?: number;
+
+  /**
+   * The max number of results kept in memory, the least recently used results are removed when the limit is exceeded. By default 500.
+   * @type {number}
+   */
+  maxEntries?: number;
+
+  /**
+   * The key-value store where the cached results are also persisted, e.g., to keep them across page reloads. The results are first looked up in memory and then in this store. By default the results are kept only in memory.
+   * @type {OfflineStore}
+   */
+  store?: OfflineStore;
+}
+
+/**
+ * Defines the structure of sort entry
+ * @export
+ * @interface SortEntry
+ */
+export interface SortEntry {
+  /**
+   * The name of the field that will be used in sorting the returned objects. The field name can be in dot-notation to specify sub-object fields (e.g., field.subField)
+   * @type {string}
+   */
+  field: string;
+  /**
+   * Sort direction
+   * @type {string}
+   */
+  direction: "asc" | "desc";
+}
+
+/**
+ * Defines the structure of a field update
+ * @export
+ * @interface FieldUpdate
+ */
+export interface FieldUpdate {
+  /**
+   * The name of the field whose value will be updated. The field name can be in dot-notation to specify sub-object fields (e.g., field.subField). Please note that only sub-model object fields can be accessed through the dot-notation. You cannot create an update instruction for an object-list field through the dot-notation.
+   * @type {string}
+   */
+  field: string;
+
+  /**
+   * Defines how the field will be updated.
+   * - **set:** Sets (overwrites) the value of a field. Applicable on all fields, except system managed `_id`, `_parent`, `createdAt`, `updatedAt` fields.
+   * - **unset:** Clears the value of a field. Applicable on all fields, except system managed `_id`, `_parent`, `createdAt`, `updatedAt` fields.
+   * - **increment:** Increments the value of a numeric field by the specified amount. Applicable only for integer and decimal fields.
+   * - **decrement:** Decrements the value of a numeric field by the specified amount. Applicable only for integer and decimal fields.
+   * - **min:** Assigns the minimum of the specified value or the field value. If the specified value is less than the current field value, sets the field value to the specificied value, otherwise does not make any changes. Applicable only for integer and decimal fields.
+   * - **max:** Assigns the maximum of the specified value or the field value. If the specified value is greater than the current field value, sets the field value to the specificied value, otherwise does not make any changes. Applicable only for integer and decimal fields.
+   * - **multiply:** Multiplies the current value of the field with the specified amount and sets the field value to teh multiplication result. Applicable only for integer and decimal fields.
+   * - **pull:** Removes the specified value from a basic values list. Applicable only for basic values list fields.
+   * - **push:** Adds the specified value to a basic values list. Applicable only for basic values list fields.
+   * - **pop:** Removes the last element from a basic values list. Applicable only for basic values list fields.
+   * - **shift:** Removes the first element from a basic values list. Applicable only for basic values list fields.
+   * @type {('set'
+   *       | 'unset'
+   *       | 'increment'
+   *       | 'decrement'
+   *       | 'min'
+   *       | 'max'
+   *       | 'multiply'
+   *       | 'pull'
+   *       | 'push'
+   *       | 'pop'
+   *       | 'shift')}
+   */
+  updateType:
+    | "set"
+    | "unset"
+    | "increment"
+    | "decrement"
+    | "min"
+    | "max"
+    | "multiply"
+    | "pull"
+    | "push"
+    | "pop"
+    | "shift";
+
+  /**
+   * The value that will be used during the field update. Depending on the update type the value will have different meaning.
+   * - **set:** The new value to set
+   * - **unset:** Not applicable, value is not needed
+   * - **increment:** The icrement amount
+   * - **decrement:** The decrement amount
+   * - **min:** The min amount to compare against current field value
+   * - **max:** The max amount to compare against current field value
+   * - **multiply:** The multiplication amount
    * - **pull:** Basic value list item to remove
    * - **push:** Basic value list item to add
    * - **pop:** Not applicable, value is not needed
@@ -743,6 +1384,384 @@ export interface DeleteInfo {
   deleted: number;
 }
 
+/**
+ * Provides the count information of the list queries when the count info is requested, e.g., calling `get(true)` on {@link QueryBuilder}
+ * @export
+ * @interface CountInfo
+ */
+export interface CountInfo {
+  /**
+   * Total number of objects matching the query
+   * @type {number}
+   */
+  count: number;
+  /**
+   * Total number of pages for the specified page size
+   * @type {number}
+   */
+  totalPages: number;
+  /**
+   * The current page number
+   * @type {number}
+   */
+  currentPage: number;
+  /**
+   * The max number of objects returned per page
+   * @type {number}
+   */
+  pageSize: number;
+}
+
+/**
+ * Defines the structure of the list query results when the count info is requested
+ * @export
+ * @interface ListResult
+ */
+export interface ListResult<T> {
+  /**
+   * The objects of the requested page
+   * @type {T[]}
+   */
+  result: T[];
+  /**
+   * The count information of the query
+   * @type {CountInfo}
+   */
+  countInfo: CountInfo;
+}
+
+/**
+ * Defines the structure of a page returned by {@link QueryBuilder.getCursorPage} in keyset (cursor) pagination
+ * @export
+ * @interface CursorPage
+ * @template T The type of the model objects
+ */
+export interface CursorPage<T> {
+  /**
+   * The objects of the page
+   * @type {T[]}
+   */
+  result: T[];
+  /**
+   * The cursor of the last object of the page, which can be passed to {@link QueryBuilder.after} to get the next page. It is `null` if there are no more objects after this page.
+   * @type {string | null}
+   */
+  nextCursor: string | null;
+  /**
+   * The cursor of the first object of the page, which can be passed to {@link QueryBuilder.before} to get the previous page. It is `null` if this is the first page.
+   * @type {string | null}
+   */
+  prevCursor: string | null;
+}
+
+/**
+ * Defines the options of a database batch created by {@link DatabaseManager.batch}
+ * @export
+ * @interface BatchOptions
+ */
+export interface BatchOptions {
+  /**
+   * Whether to revert the changes of the executed operations when an operation of the batch fails. Rolling back the update and delete operations requires getting the objects before changing them, which adds a request for each of these operations. By default `true`.
+   * @type {boolean}
+   */
+  rollback?: boolean;
+}
+
+/**
+ * The value of a {@link DBBatch} operation parameter, which is either the value itself or a function that returns the value from the results of the previous operations of the batch, e.g., `(results) => results[0]._id`
+ * @export
+ * @type BatchValue
+ * @template V The type of the value
+ */
+export type BatchValue<V> = V | ((results: any[]) => V);
+
+/**
+ * Defines the options of the bulk operations of the query builder, namely {@link QueryBuilder.bulkCreate}, {@link QueryBuilder.bulkUpdate} and {@link QueryBuilder.bulkDelete}
+ * @export
+ * @interface BulkOptions
+ */
+export interface BulkOptions {
+  /**
+   * The maximum number of requests that run at the same time. By default 4.
+   * @type {number}
+   */
+  concurrency?: number;
+  /**
+   * The callback function that is called each time a chunk or an object request is completed
+   * @type {(progress: BulkProgress) => void}
+   */
+  onProgress?: (progress: BulkProgress) => void;
+}
+
+/**
+ * Defines the options of {@link QueryBuilder.bulkCreate}, which creates the objects in chunks
+ * @export
+ * @interface BulkCreateOptions
+ */
+export interface BulkCreateOptions extends BulkOptions {
+  /**
+   * The number of objects created in a single create request. By default 100.
+   * @type {number}
+   */
+  chunkSize?: number;
+  /**
+   * Whether to create the objects of a failed chunk one by one, so that only the invalid objects fail. Since the creation of a chunk is rolled back when any one of its objects fails, all objects of the failed chunk are reported as failed if disabled. By default `true`.
+   * @type {boolean}
+   */
+  isolateFailures?: boolean;
+}
+
+/**
+ * Provides information about the progress of a bulk operation
+ * @export
+ * @interface BulkProgress
+ */
+export interface BulkProgress {
+  /**
+   * The total number of objects in the bulk operation
+   * @type {number}
+   */
+  total: number;
+  /**
+   * The number of objects that have been processed
+   * @type {number}
+   */
+  completed: number;
+  /**
+   * The number of objects that have been processed successfully
+   * @type {number}
+   */
+  succeeded: number;
+  /**
+   * The number of objects that have failed
+   * @type {number}
+   */
+  failed: number;
+}
+
+/**
+ * Defines the result of a single object (row) in a bulk operation
+ * @export
+ * @interface BulkRowResult
+ * @template R The type of the row result data
+ */
+export interface BulkRowResult<R> {
+  /**
+   * The index of the object in the input list of the bulk operation
+   * @type {number}
+   */
+  index: number;
+  /**
+   * The result data of the object, e.g., the created object. It is `null` if the operation has failed for the object.
+   * @type {R | null}
+   */
+  data: R | null;
+  /**
+   * The errors of the object, or `null` if the operation has succeeded for the object
+   * @type {APIError | null}
+   */
+  errors: APIError | null;
+}
+
+/**
+ * Defines the aggregated result of a bulk operation
+ * @export
+ * @interface BulkResult
+ * @template R The type of the row result data
+ */
+export interface BulkResult<R> {
+  /**
+   * The number of objects that have been processed successfully
+   * @type {number}
+   */
+  succeeded: number;
+  /**
+   * The number of objects that have failed
+   * @type {number}
+   */
+  failed: number;
+  /**
+   * The results of the objects in the order of the input list
+   * @type {BulkRowResult<R>[]}
+   */
+  results: BulkRowResult<R>[];
+}
+
+/**
+ * Defines an object update of {@link QueryBuilder.bulkUpdate}
+ * @export
+ * @interface BulkUpdateEntry
+ * @template T The type of the model objects
+ */
+export interface BulkUpdateEntry<T> {
+  /**
+   * The id of the object to update
+   * @type {string}
+   */
+  id: string;
+  /**
+   * The fields and their new values to update
+   * @type {Partial<T>}
+   */
+  values: Partial<T>;
+}
+
+/**
+ * Defines the options of {@link QueryBuilder.upsert} and {@link QueryBuilder.findOrCreate} operations
+ * @export
+ * @interface UpsertOptions
+ * @template T The type of the model objects
+ */
+export interface UpsertOptions<T = object> {
+  /**
+   * The fields that identify the existing object. The object whose field values are equal to the values of these fields in the input values is updated (or returned). If the query builder also has a filter, the object needs to match the filter too. If not specified, the filter of the query builder is used to find the existing object.
+   * @type {FieldPath<T>[]}
+   */
+  match?: FieldPath<T>[];
+}
+
+/**
+ * Defines the result of {@link QueryBuilder.upsert} and {@link QueryBuilder.findOrCreate} operations
+ * @export
+ * @interface UpsertResult
+ * @template T The type of the model objects
+ */
+export interface UpsertResult<T> {
+  /**
+   * The created, updated or found object
+   * @type {T}
+   */
+  object: T;
+  /**
+   * Whether the object has been created. `false` if an existing object has been updated or found.
+   * @type {boolean}
+   */
+  created: boolean;
+}
+
+/**
+ * Defines the options of the auto-paginating iterators of the query builder, namely {@link QueryBuilder.iterate} and {@link QueryBuilder.pages}
+ * @export
+ * @interface IterateOptions
+ */
+export interface IterateOptions {
+  /**
+   * The number of objects to fetch in each page. If not specified, the `limit` of the query builder is used, which defaults to 100.
+   * @type {number}
+   */
+  pageSize?: number;
+  /**
+   * The page number to start iterating from. If not specified, the `page` of the query builder is used, which defaults to 1.
+   * @type {number}
+   */
+  startPage?: number;
+  /**
+   * Whether to fetch the next page while the current page is being processed. Prefetching reduces the total iteration time at the cost of fetching one more page than needed when the iteration is terminated early. By default `false`.
+   * @type {boolean}
+   */
+  prefetch?: boolean;
+}
+
+// Used to limit the depth of the field paths of recursive model types
+type PrevDepth = [never, 0, 1, 2, 3, 4];
+// The object type of a field value, e.g., the looked up object type of a reference field typed as `string | Customer`
+type SubObject<V> = Exclude<
+  Extract<NonNullable<V>, object>,
+  Date | ((...args: any[]) => any)
+>;
+
+/**
+ * The names of the fields of a model type, including the sub-object fields in dot-notation (e.g., `address.city`). Used to type the field names of the query builder methods such as `sort` and `omit`. Sub-object fields are resolved up to five levels deep. If the model type is not specified, any field name is accepted.
+ * @export
+ * @type FieldPath
+ */
+export type FieldPath<T, Depth extends number = 5> = object extends T
+  ? string
+  : [Depth] extends [never]
+  ? never
+  : T extends ReadonlyArray<infer E>
+  ? FieldPath<E, PrevDepth[Depth]>
+  : T extends object
+  ? {
+      [K in keyof T & string]: [SubObject<T[K]>] extends [never]
+        ? K
+        : K | `${K}.${FieldPath<SubObject<T[K]>, PrevDepth[Depth]>}`;
+    }[keyof T & string]
+  : never;
+
+/**
+ * The type of the value of the field specified by its dot-notation path in a model type. The values of the sub-object fields of object lists are resolved from the list entries. If the model type is not specified, the value type is `any`.
+ * @export
+ * @type FieldPathValue
+ */
+export type FieldPathValue<T, P extends string> = object extends T
+  ? any
+  : T extends ReadonlyArray<infer E>
+  ? FieldPathValue<E, P>
+  : P extends `${infer K}.${infer R}`
+  ? K extends keyof T
+    ? FieldPathValue<NonNullable<T[K]>, R>
+    : never
+  : P extends keyof T
+  ? T[P]
+  : never;
+
+/**
+ * The names of the fields of a model type whose values are of the specified type, including the sub-object fields in dot-notation. Used to type the field names of the {@link FieldUpdateBuilder} methods, e.g., only the numeric fields can be incremented. If the model type is not specified, any field name is accepted.
+ * @export
+ * @type FieldPathOfType
+ */
+export type FieldPathOfType<T, V> = object extends T
+  ? string
+  : {
+      [P in FieldPath<T>]: NonNullable<FieldPathValue<T, P>> extends V
+        ? P
+        : never;
+    }[FieldPath<T>];
+
+// The first segment of the field paths, e.g., `address` for `address.city`
+type PathHead<P extends string> = P extends `${infer H}.${string}` ? H : P;
+// The sub-paths of the field paths under the specified field, e.g., `city` for `address.city` under `address`
+type PathTail<P extends string, K extends string> = P extends `${K}.${infer R}`
+  ? R
+  : never;
+// The value of a field whose sub-object fields are selected
+type SelectedValue<V, P extends string> = V extends ReadonlyArray<infer E>
+  ? SelectedValue<E, P>[]
+  : V extends Date | ((...args: any[]) => any)
+  ? V
+  : V extends object
+  ? SelectedFields<V, P>
+  : V;
+
+/**
+ * The type of the objects retrieved by a query with the selected fields, which includes only the selected fields and the `_id` field of the model type. The sub-object fields selected in dot-notation are resolved similarly. If no fields are selected or the model type is not specified, it is the model type itself.
+ * @export
+ * @type SelectedFields
+ */
+export type SelectedFields<T, S extends string> = [S] extends [never]
+  ? T
+  : object extends T
+  ? T
+  : {
+      [K in keyof T as K extends PathHead<S> | "_id" ? K : never]: K extends S
+        ? T[K]
+        : SelectedValue<T[K], PathTail<S, K & string>>;
+    };
+
+/**
+ * The literal values that can be used in the expressions created by {@link ExpressionBuilder}. Text values are quoted and escaped, dates are converted to date values in ISO 8601 format and lists can contain any of these values.
+ * @export
+ * @type ExpressionValue
+ */
+export type ExpressionValue =
+  | string
+  | number
+  | boolean
+  | null
+  | Date
+  | ExpressionValue[];
+
 /**
  * Defines the structure of grouped object computations. Basically, it provides aggregate calculation instructions to {@link QueryBuilder.compute} method
  * @export
@@ -768,11 +1787,11 @@ export interface GroupComputation {
    */
   type: "count" | "countif" | "sum" | "avg" | "min" | "max";
   /**
-   * The computation expression string. Except **count**, expression string is required for all other computation types.
-   * @type {string}
+   * The computation expression string or an {@link Expression} created by the {@link ExpressionBuilder}. Except **count**, expression is required for all other computation types.
+   * @type {string | Expression}
    * @memberof GroupComputation
    */
-  expression?: string;
+  expression?: string | Expression;
   /**
    *  Defines the sort direction of computed field. If sort direction is specified as either `asc` or `desc`, computed groups will be sorted accordingly.
    *
@@ -782,6 +1801,94 @@ export interface GroupComputation {
   sort?: "none" | "asc" | "desc";
 }
 
+/**
+ * The computations of {@link QueryBuilder.compute} keyed by their names in the results
+ * @export
+ * @type ComputationMap
+ */
+export type ComputationMap = { [name: string]: Computation<any> };
+
+/**
+ * The type of a group computation result returned by {@link QueryBuilder.compute}, which includes the computed value of each computation under its name, and the `groupby` value of the group if the query is grouped. The `groupby` value is the value of the grouping field or expression, or an object of the grouping field values if the query is grouped by multiple fields.
+ * @export
+ * @type ComputeResult
+ */
+export type ComputeResult<C extends ComputationMap, G = never> = ([G] extends [
+  never
+]
+  ? unknown
+  : { groupby: G }) & {
+  [K in keyof C]: C[K] extends Computation<infer V> ? V : never;
+};
+
+/**
+ * The `groupby` value of the groups of a query grouped by the specified fields. If the query is grouped by a single field, it is the value of the field, otherwise an object of the field values keyed by the field names.
+ * @export
+ * @type GroupKey
+ */
+export type GroupKey<T, P extends string> = object extends T
+  ? any
+  : { [K in P]: FieldPathValue<T, K> | null };
+
+/**
+ * Defines the buckets of the time series returned by {@link QueryBuilder.timeSeries}
+ * @export
+ * @interface TimeSeriesOptions
+ */
+export interface TimeSeriesOptions {
+  /**
+   * The length of the buckets of the series. The weeks start on Monday.
+   *
+   * @type {("hour" | "day" | "week" | "month")}
+   * @memberof TimeSeriesOptions
+   */
+  interval: "hour" | "day" | "week" | "month";
+  /**
+   * The start of the series (inclusive), a date or a date string in ISO 8601 format. The first bucket starts at the beginning of the interval that contains this date.
+   *
+   * @type {(Date | string)}
+   * @memberof TimeSeriesOptions
+   */
+  from: Date | string;
+  /**
+   * The end of the series (exclusive), a date or a date string in ISO 8601 format. Defaults to the current time.
+   *
+   * @type {(Date | string)}
+   * @memberof TimeSeriesOptions
+   */
+  to?: Date | string;
+  /**
+   * The IANA time zone name (e.g., `Europe/Istanbul`) whose calendar defines the bucket boundaries. Defaults to `UTC`.
+   *
+   * @type {string}
+   * @memberof TimeSeriesOptions
+   */
+  timezone?: string;
+}
+
+/**
+ * A bucket of the time series returned by {@link QueryBuilder.timeSeries}, which includes the start of the bucket as an ISO 8601 date string and the computed value of each computation under its name
+ * @export
+ * @type TimeSeriesPoint
+ */
+export type TimeSeriesPoint<C extends ComputationMap> = {
+  date: string;
+} & ComputeResult<C>;
+
+/**
+ * The fields searched by {@link QueryBuilder.searchFields} and their weights in the relevance scores, keyed by the field names
+ * @export
+ * @type SearchFieldWeights
+ */
+export type SearchFieldWeights<T> = { [K in FieldPath<T>]?: number };
+
+/**
+ * An object returned by {@link QueryBuilder.searchFields}, which includes the relevance score of the object in the `_score` field
+ * @export
+ * @type ScoredObject
+ */
+export type ScoredObject<R> = R & { _score: number };
+
 /**
  * Defines the structure how to get app buckets
  * @export
@@ -914,7 +2021,7 @@ export interface FileUploadOptions {
   /**
    * Callback function to call during file upload.
    *
-   * **For the moment, this method can only be used in clients where `XMLHttpRequest` object is available (e.g., browsers).**
+   * **This method can only be used in clients where `XMLHttpRequest` object is available (e.g., browsers) or when an `upload` function is provided in the `transport` option of {@link ClientOptions}.**
    * @param uploaded Total bytes uploaded
    * @param total Total size of file in bytes
    * @param percentComplete Percent uploaded (an integer between 0-100), basicly `uploaded/total` rounded to the nearest integer
@@ -1010,3 +2117,106 @@ export type UserEventListenerFunction = (
   eventName: string,
   session: Session | null
 ) => void;
+
+/**
+ * Provides information about a request made to a custom endpoint of the {@link MockBackend}.
+ * @export
+ * @interface MockEndpointRequest
+ */
+export interface MockEndpointRequest {
+  /**
+   * The method of the request
+   * @type {string}
+   */
+  method: "GET" | "POST" | "PUT" | "DELETE";
+  /**
+   * The path of the request, e.g., `/users/61fbd36d0c4d1e2a5d6bb5ba`
+   * @type {string}
+   */
+  path: string;
+  /**
+   * The values of the path parameters, e.g., if the endpoint path is `/users/:userId` then the params object includes the `userId` value
+   * @type {KeyValuePair}
+   */
+  params: KeyValuePair;
+  /**
+   * The query string parameters of the request
+   * @type {KeyValuePair}
+   */
+  query: KeyValuePair;
+  /**
+   * The headers of the request
+   * @type {KeyValuePair}
+   */
+  headers: KeyValuePair;
+  /**
+   * The parsed JSON body or the FormData body of the request
+   * @type {any}
+   */
+  body: any;
+  /**
+   * The session of the request if a valid session token is provided in the **Session** header, `null` otherwise
+   * @type {Session | null}
+   */
+  session: Session | null;
+}
+
+/**
+ * Defines the structure of the handler functions of the custom endpoints of the {@link MockBackend}. The returned value is sent as the JSON response of the request. To return an error response throw a {@link ClientError}, which is returned with `400` status code.
+ * @export
+ * @type MockEndpointHandler
+ */
+export type MockEndpointHandler = (request: MockEndpointRequest) => any;
+
+/**
+ * Provides info about a message submitted to a queue of the {@link MockBackend}, including the submitted message. The processing dates and errors are `null` until the message is processed.
+ * @export
+ * @interface MockMessage
+ */
+export interface MockMessage
+  extends Omit<MessageInfo, "startedAt" | "completedAt" | "errors"> {
+  /**
+   * The message processing start date-time, `null` if the message is pending
+   * @type {string | null}
+   */
+  startedAt: string | null;
+  /**
+   * The message processing complete date-time, `null` if the message is pending
+   * @type {string | null}
+   */
+  completedAt: string | null;
+  /**
+   * The errors occurred during processing of the message, `null` if there are no errors
+   * @type {object | null}
+   */
+  errors: object | null;
+  /**
+   * The submitted message
+   * @type {object}
+   */
+  message: object;
+}
+
+/**
+ * Provides info about a task triggered on the {@link MockBackend}. The execution dates and errors are `null` until the task is executed.
+ * @export
+ * @interface MockTask
+ */
+export interface MockTask
+  extends Omit<TaskInfo, "startedAt" | "completedAt" | "errors"> {
+  /**
+   * The task execution start date-time, `null` if the task is pending
+   * @type {string | null}
+   */
+  startedAt: string | null;
+  /**
+   * The task execution complete date-time, `null` if the task is pending
+   * @type {string | null}
+   */
+  completedAt: string | null;
+  /**
+   * The errors occurred during execution of the task, `null` if there are no errors
+   * @type {object | null}
+   */
+  errors: object | null;
+}
@@ -0,0 +1,19 @@
+import { RequestError } from "./RequestError";
+import { APIError } from "../types";
+
+/**
+ * Thrown in `throwOnError` mode when a request fails due to missing or invalid credentials, namely when the response status is `401` or `403`, or when the session token of the request is missing or invalid.
+ * @export
+ * @class AuthError
+ * @extends {RequestError}
+ */
+export class AuthError extends RequestError {
+  /**
+   * Creates an instance of AuthError.
+   * @param {APIError} errors The errors returned by the request
+   */
+  constructor(errors: APIError) {
+    super(errors);
+    this.name = "AuthError";
+  }
+}
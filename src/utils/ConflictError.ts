@@ -0,0 +1,37 @@
+import { RequestError } from "./RequestError";
+import { APIError, ConflictDetails } from "../types";
+
+/**
+ * Checks whether the error details are the details of a `conflict` error.
+ * @param {object} [details] The details of the error entry
+ * @returns Returns true if the details provide the current copy of the object
+ */
+function isConflictDetails(details?: object): details is ConflictDetails {
+  return !!details && "current" in details;
+}
+
+/**
+ * Thrown in `throwOnError` mode when the precondition of a conditional update fails, namely when the object has been modified by someone else since it was read (see `ifUnmodifiedSince` and `expectedVersion` in {@link UpdateOptions}). The current copy of the object in the database is available in `current`.
+ * @export
+ * @class ConflictError
+ * @extends {RequestError}
+ */
+export class ConflictError extends RequestError {
+  /**
+   * The current copy of the object in the database, which may already be outdated (see {@link ConflictDetails})
+   * @type {object | null}
+   */
+  current: object | null;
+
+  /**
+   * Creates an instance of ConflictError.
+   * @param {APIError} errors The errors returned by the request
+   */
+  constructor(errors: APIError) {
+    super(errors);
+    this.name = "ConflictError";
+    this.current = isConflictDetails(this.details)
+      ? this.details.current
+      : null;
+  }
+}
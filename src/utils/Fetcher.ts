@@ -1,11 +1,35 @@
 import fetch from "cross-fetch";
 import { AltogicClient } from "../AltogicClient";
-import { KeyValuePair, Session, APIError } from "../types";
+import { ClientError } from "./ClientError";
+import { createNetworkError, createRequestError } from "./helpers";
+import {
+  KeyValuePair,
+  Session,
+  APIError,
+  ClientOptions,
+  RetryOptions,
+  RetryInfo,
+  RequestOptions,
+  MiddlewareFunction,
+  MiddlewareRequest,
+  FetchFunction,
+  UploadFunction,
+} from "../types";
 
 const INVALID_SESSION_TOKEN = "invalid_session_token";
 const MISSING_SESSION_TOKEN = "missing_session_token";
+const REQUEST_TIMEOUT = "request_timeout";
+const REQUEST_ABORTED = "request_aborted";
+const DEFAULT_RETRY_OPTIONS = {
+  maxAttempts: 1,
+  baseDelay: 300,
+  maxDelay: 10000,
+  jitter: true,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryMethods: ["GET", "PUT", "DELETE"] as RetryOptions["retryMethods"],
+};
 /**
- * HTTP client for the browser, Node or React Native. Created by {@link AltogicClient} during initialization. The client library uses [cross-fetch](https://www.npmjs.com/package/cross-fetch) under the hood to make requests to you app's execution environment.
+ * HTTP client for the browser, Node or React Native. Created by {@link AltogicClient} during initialization. The client library uses [cross-fetch](https://www.npmjs.com/package/cross-fetch) under the hood to make requests to you app's execution environment. A custom fetch and file upload implementation can be provided through the `transport` option of {@link ClientOptions}.
  *
  * When creating the client if `apiKey` is specified in {@link ClientOptions}, Fetcher adds the provided apiKey to an **Authorization** header and sends it in all RESTful API requests to your backend app.
  *
@@ -19,7 +43,7 @@ export class Fetcher {
    * @protected
    * @type {AltogicClient}
    */
-  protected apiClient: AltogicClient;
+  protected apiClient: AltogicClient<any>;
   /**
    * The base URL that will be prepended to all RESTful API calls
    * @protected
@@ -42,24 +66,77 @@ export class Fetcher {
    */
   protected session: Session | null;
 
+  /**
+   * The default retry policy of the RESTful API requests
+   * @protected
+   * @type {RetryOptions}
+   */
+  protected retry: RetryOptions;
+
+  /**
+   * The default timeout duration in milliseconds of the RESTful API requests
+   * @protected
+   * @type {number}
+   */
+  protected timeout: number | undefined;
+
+  /**
+   * The middleware functions that intercept the RESTful API requests, called in the order they are registered
+   * @protected
+   * @type {MiddlewareFunction[]}
+   */
+  protected middleware: MiddlewareFunction[];
+
+  /**
+   * The fetch and file upload implementations used to make the RESTful API requests
+   * @protected
+   * @type {{ fetch: FetchFunction; upload?: UploadFunction }}
+   */
+  protected transport: { fetch: FetchFunction; upload?: UploadFunction };
+
+  /**
+   * Whether to throw the errors of the RESTful API requests as typed errors instead of returning them in the `errors` component of the response
+   * @protected
+   * @type {boolean}
+   */
+  protected throwOnError: boolean;
+
   /**
    * Creates an instance of Fetcher.
    * @param {string} restUrl The base URL that will be prepended to all RESTful API calls
    * @param {KeyValuePair} headers The default headers that will be sent in each RESTful API request to the app's execution environment
+   * @param {ClientOptions} options Altogic client options
    */
   constructor(
-    apiClient: AltogicClient,
+    apiClient: AltogicClient<any>,
     restUrl: string,
-    headers: KeyValuePair
+    headers: KeyValuePair,
+    { retry, timeout, middleware, transport, throwOnError }: ClientOptions = {}
   ) {
     this.apiClient = apiClient;
     this.restUrl = restUrl;
     this.headers = headers;
     this.session = null;
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...retry };
+    this.timeout = timeout;
+    this.middleware = [...(middleware ?? [])];
+    this.transport = {
+      fetch: transport?.fetch ?? fetch,
+      upload: transport?.upload,
+    };
+    this.throwOnError = throwOnError ?? false;
+  }
+
+  /**
+   * Registers a middleware function to intercept the RESTful API requests. The middleware is added to the end of the middleware chain.
+   * @param {MiddlewareFunction} middleware The middleware function to register
+   */
+  use(middleware: MiddlewareFunction) {
+    this.middleware.push(middleware);
   }
 
   /**
-   * Internal method to handle all public request methods (get, post, put and delete). If the request response is an invalid session token error, invalidates the current user session.
+   * Internal method to handle all public request methods (get, post, put and delete). Builds the request object and passes it through the middleware chain before sending it to the app backend.
    * @private
    * @param  {'GET' | 'POST' | 'PUT' | 'DELETE'} method The request method
    * @param  {string} path The path of the request, needs to start with a slash 'character' e.g., `/users`,
@@ -67,6 +144,7 @@ export class Fetcher {
    * @param  {KeyValuePair} headers Additional request headers which will be merged with default headers
    * @param  {any} body Request body if any. If provided can be a **JSON**, **FormData**, **Blob** or **File** object. For file uploads you can use FormData, Blob or File object.
    * @param  {'json' | 'text' | 'blob' | 'arraybuffer'} resolveType Type of data to return as a response of the request. By default response data is parsed to JSON. Possible values are json, text, blob and arraybuffer.
+   * @param  {RequestOptions} options The timeout, abort signal and retry policy overrides of the request
    * @returns Returns a promise. The returned response includes two components *data* and *errors*. If errors occured during the execution of the request then errors object is returned and tha data is marked as `null`. If no errors occured then depending on the type of the request the data object holds a *single JSON object*, an *array of json objects*, *plain text*, *Blob* or *ArrayBuffer* and the errors object is marked as `null`. If the response returns no data back then both erros and data marked as `null`.
    */
   async #handleRequest(
@@ -75,137 +153,450 @@ export class Fetcher {
     query: KeyValuePair | null,
     headers: KeyValuePair | null,
     body: any,
-    resolveType: "json" | "text" | "blob" | "arraybuffer" = "json"
+    resolveType: "json" | "text" | "blob" | "arraybuffer" = "json",
+    options?: RequestOptions
   ): Promise<{ data: any | null; errors: APIError | null }> {
-    return new Promise((resolve, reject) => {
-      let pathStr = path ?? "";
-      pathStr = pathStr.trim();
-      // Check the path format
-      if (!pathStr.startsWith("/")) pathStr = "/" + pathStr;
+    let pathStr = path ?? "";
+    pathStr = pathStr.trim();
+    // Check the path format
+    if (!pathStr.startsWith("/")) pathStr = "/" + pathStr;
 
-      // Get the body of the request in the right format
-      let requestBody;
-      if (body) {
-        let isFormDataBody = false;
-        // Check if the input body is a FormData object or not. If the client api is used in a Node.js environment
-        // we will not have the FormData object by default
-        if (typeof FormData !== "undefined" && body instanceof FormData) {
+    const request: MiddlewareRequest = {
+      method,
+      path: pathStr,
+      query: { ...query },
+      headers: { ...this.headers, ...headers },
+      body,
+      resolveType,
+    };
+
+    return await this.#settleResponse(() =>
+      this.#runMiddleware(request, () => this.#sendRequest(request, options))
+    );
+  }
+
+  /**
+   * Returns the response of the request in the configured error handling mode. If `throwOnError` is enabled, throws the errors of the response as a typed {@link RequestError} and the failures to send the request as a {@link NetworkError}.
+   * @private
+   * @param  {Function} run The function that runs the request through the middleware chain
+   * @returns Returns the response of the request
+   */
+  async #settleResponse(
+    run: () => Promise<{ data: any | null; errors: APIError | null }>
+  ): Promise<{ data: any | null; errors: APIError | null }> {
+    if (!this.throwOnError) return await run();
+
+    let response;
+    try {
+      response = await run();
+    } catch (error) {
+      if (error instanceof ClientError) throw error;
+      throw createNetworkError(error);
+    }
+
+    if (response?.errors) throw createRequestError(response.errors);
+    return response;
+  }
+
+  /**
+   * Passes the request through the registered middleware functions. The last function in the chain calls the `send` function which actually sends the request to the app backend.
+   * @private
+   * @param  {MiddlewareRequest} request The outgoing request
+   * @param  {Function} send The function that sends the request
+   * @returns Returns the response of the request returned by the middleware chain
+   */
+  async #runMiddleware(
+    request: MiddlewareRequest,
+    send: () => Promise<{ data: any | null; errors: APIError | null }>
+  ): Promise<{ data: any | null; errors: APIError | null }> {
+    // Take a snapshot so that middleware registered during a request does not affect it
+    const middleware = [...this.middleware];
+    const dispatch = async (
+      index: number
+    ): Promise<{ data: any | null; errors: APIError | null }> => {
+      if (index >= middleware.length) return await send();
+      return await middleware[index](request, () => dispatch(index + 1));
+    };
+
+    return await dispatch(0);
+  }
+
+  /**
+   * Sends the request to the app backend. If the request response is an invalid session token error, invalidates the current user session. If the request fails due to a network error or a retryable response status, retries the request according to the retry policy.
+   * @private
+   * @param  {MiddlewareRequest} request The outgoing request
+   * @param  {RequestOptions} options The timeout, abort signal and retry policy overrides of the request
+   * @returns Returns the response of the request
+   */
+  async #sendRequest(
+    request: MiddlewareRequest,
+    options?: RequestOptions
+  ): Promise<{ data: any | null; errors: APIError | null }> {
+    const {
+      method,
+      path: pathStr,
+      query,
+      headers,
+      body,
+      resolveType,
+    } = request;
+
+    // Get the body of the request in the right format
+    let requestBody;
+    if (body) {
+      let isFormDataBody = false;
+      // Check if the input body is a FormData object or not. If the client api is used in a Node.js environment
+      // we will not have the FormData object by default
+      if (typeof FormData !== "undefined" && body instanceof FormData) {
+        requestBody = body;
+        isFormDataBody = true;
+      } else if (
+        ((typeof Blob !== "undefined" && body instanceof Blob) ||
+          (typeof File !== "undefined" && body instanceof File)) &&
+        typeof FormData !== "undefined"
+      ) {
+        requestBody = new FormData();
+        requestBody.append("file", body);
+        isFormDataBody = true;
+      } else {
+        // For everthing else we assume JSON format
+        try {
+          requestBody = JSON.stringify(body);
+
+          headers["Content-Type"] = "application/json";
+        } catch (err) {
+          // Seems not a json document, directly set the contents to the body, maybe it is binary body data (e.g., file upload)
           requestBody = body;
-          isFormDataBody = true;
-        } else if (
-          ((typeof Blob !== "undefined" && body instanceof Blob) ||
-            (typeof File !== "undefined" && body instanceof File)) &&
-          typeof FormData !== "undefined"
-        ) {
-          requestBody = new FormData();
-          requestBody.append("file", body);
-          isFormDataBody = true;
-        } else {
-          // For everthing else we assume JSON format
-          try {
-            requestBody = JSON.stringify(body);
-
-            if (!headers) headers = {};
-            headers["Content-Type"] = "application/json";
-          } catch (err) {
-            // Seems not a json document, directly set the contents to the body, maybe it is binary body data (e.g., file upload)
-            requestBody = body;
-          }
         }
+      }
 
-        // Browser will set the content type to the correct value, we should not have a content type entry in headers
-        // for request with FormData body
-        if (headers && isFormDataBody) {
-          const keys = Object.keys(headers);
-          for (const key of keys) {
-            if (key.trim().toLowerCase() === "content-type") {
-              delete headers[key];
-            }
+      // Browser will set the content type to the correct value, we should not have a content type entry in headers
+      // for request with FormData body
+      if (isFormDataBody) {
+        const keys = Object.keys(headers);
+        for (const key of keys) {
+          if (key.trim().toLowerCase() === "content-type") {
+            delete headers[key];
           }
         }
       }
+    }
 
-      // Build query parameters string
-      const queryString = Object.keys(query || {}).reduce(
-        (previousValue, key) => {
-          let value = query ? query[key] : "";
-          value = value ?? "";
-          if (typeof value === "object") {
-            try {
-              value = JSON.stringify(value);
-            } catch (err) {
-              value = "";
-            }
-          }
+    // Build query parameters string
+    const queryString = this.#buildQueryString(query);
 
-          if (previousValue)
-            return `${previousValue}&${key}=${encodeURIComponent(value)}`;
-          else return `?${key}=${encodeURIComponent(value)}`;
-        },
-        ""
-      );
+    const policy = { ...this.retry, ...options?.retry };
+    const maxAttempts = Math.max(1, policy.maxAttempts ?? 1);
+    const canRetry = policy.retryMethods?.includes(method) ?? false;
+    const signal = options?.signal;
+    const timeout = options?.timeout ?? this.timeout;
+    // Call the fetch function unbound, native fetch implementations throw an error when called on another object
+    const fetchFn = this.transport.fetch;
 
-      fetch(this.restUrl + pathStr + queryString, {
-        method,
-        headers: { ...this.headers, ...(headers || {}) },
-        body: requestBody,
-        credentials: "include",
-      }).then(
-        async (response) => {
-          // Success reponse
-          if (response.ok) {
-            try {
-              if (resolveType === "json") {
-                resolve({ data: await response.json(), errors: null });
-              } else if (resolveType === "text")
-                resolve({ data: await response.text(), errors: null });
-              else if (resolveType === "blob")
-                resolve({ data: await response.blob(), errors: null });
-              else if (resolveType === "arraybuffer")
-                resolve({ data: await response.arrayBuffer(), errors: null });
-              else resolve({ data: await response.json(), errors: null });
-            } catch (err) {
-              resolve({ data: null, errors: null });
-            }
-          } else {
-            // Error response
-            const errResp = await response.json();
-            if (
-              errResp?.errors &&
-              Array.isArray(errResp.errors) &&
-              errResp.errors.find(
-                (entry: any) =>
-                  entry.code === INVALID_SESSION_TOKEN ||
-                  entry.code === MISSING_SESSION_TOKEN
-              )
-            ) {
-              this.apiClient.auth.invalidateSession();
-            }
-
-            resolve({
-              data: null,
-              errors: {
-                status: response.status,
-                statusText: response.statusText
-                  ? response.statusText
-                  : "Bad Request",
-                items: errResp?.errors
-                  ? Array.isArray(errResp.errors)
-                    ? errResp.errors
-                    : [errResp.errors]
-                  : Array.isArray(errResp)
-                  ? errResp
-                  : [errResp],
-              },
-            });
-          }
-        },
-        (error) => {
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) return this.#getAbortedError();
+
+      const abortHandle = this.#createAbortHandle(signal, timeout);
+      try {
+        let response;
+        try {
+          response = await fetchFn(this.restUrl + pathStr + queryString, {
+            method,
+            headers,
+            body: requestBody,
+            credentials: "include",
+            signal: abortHandle.signal,
+          });
+        } catch (error) {
+          if (signal?.aborted) return this.#getAbortedError();
           // If there is a network error or another reason why the HTTP request couldn't be fulfilled,
           // the fetch() promise will be rejected with a reference to that error.
-          return reject(error);
+          if (!canRetry || attempt >= maxAttempts) {
+            if (abortHandle.isTimedOut()) return this.#getTimeoutError(timeout);
+            throw error;
+          }
+
+          await this.#waitForRetry(
+            policy,
+            {
+              attempt: attempt + 1,
+              delay: this.#getRetryDelay(policy, attempt, null),
+              method,
+              path: pathStr,
+              status: null,
+              error,
+            },
+            signal
+          );
+          continue;
         }
-      );
+
+        if (
+          !response.ok &&
+          canRetry &&
+          attempt < maxAttempts &&
+          policy.retryOnStatus?.includes(response.status)
+        ) {
+          await this.#waitForRetry(
+            policy,
+            {
+              attempt: attempt + 1,
+              delay: this.#getRetryDelay(
+                policy,
+                attempt,
+                response.headers.get("Retry-After")
+              ),
+              method,
+              path: pathStr,
+              status: response.status,
+              error: null,
+            },
+            signal
+          );
+          continue;
+        }
+
+        try {
+          return await this.#resolveResponse(response, resolveType);
+        } catch (error) {
+          // The response body can also be interrupted while it is being read
+          if (signal?.aborted) return this.#getAbortedError();
+          if (abortHandle.isTimedOut()) return this.#getTimeoutError(timeout);
+          throw error;
+        }
+      } finally {
+        abortHandle.dispose();
+      }
+    }
+  }
+
+  /**
+   * Builds the query string of the request URL from the query string parameters. Object values are serialized to JSON.
+   * @private
+   * @param  {KeyValuePair} query The query string parameters as key:value pair object
+   * @returns Returns the query string starting with a '?' character or an empty string if there are no parameters
+   */
+  #buildQueryString(query: KeyValuePair | null): string {
+    return Object.keys(query || {}).reduce((previousValue, key) => {
+      let value = query ? query[key] : "";
+      value = value ?? "";
+      if (typeof value === "object") {
+        try {
+          value = JSON.stringify(value);
+        } catch (err) {
+          value = "";
+        }
+      }
+
+      if (previousValue)
+        return `${previousValue}&${key}=${encodeURIComponent(value)}`;
+      else return `?${key}=${encodeURIComponent(value)}`;
+    }, "");
+  }
+
+  /**
+   * Creates the abort signal of a single request attempt. The created signal is aborted either when the input `signal` is aborted or when the `timeout` duration elapses.
+   * @private
+   * @param  {AbortSignal} signal The abort signal provided by the caller
+   * @param  {number} timeout The timeout duration in milliseconds. If not a positive number, no timeout is applied.
+   * @returns Returns the abort signal of the attempt, a function to check whether the attempt has timed out and a function to release the timer and listeners
+   */
+  #createAbortHandle(
+    signal: AbortSignal | undefined,
+    timeout: number | undefined
+  ): {
+    signal: AbortSignal | undefined;
+    isTimedOut: () => boolean;
+    dispose: () => void;
+  } {
+    // If the runtime does not support AbortController, the requests cannot be cancelled
+    if (typeof AbortController === "undefined" || (!signal && !timeout))
+      return { signal, isTimedOut: () => false, dispose: () => undefined };
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort);
+
+    const timer =
+      timeout && timeout > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout)
+        : null;
+
+    return {
+      signal: controller.signal,
+      isTimedOut: () => timedOut,
+      dispose: () => {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      },
+    };
+  }
+
+  /**
+   * Returns the error response of a request that has timed out.
+   * @private
+   * @param  {number} timeout The timeout duration in milliseconds
+   * @returns Returns the response with the `request_timeout` error
+   */
+  #getTimeoutError(timeout: number | undefined): {
+    data: null;
+    errors: APIError;
+  } {
+    return {
+      data: null,
+      errors: {
+        status: 408,
+        statusText: "Request Timeout",
+        items: [
+          {
+            origin: "client_error",
+            code: REQUEST_TIMEOUT,
+            message: `The request has timed out after ${timeout} ms`,
+          },
+        ],
+      },
+    };
+  }
+
+  /**
+   * Returns the error response of a request that has been cancelled through its abort signal.
+   * @private
+   * @returns Returns the response with the `request_aborted` error
+   */
+  #getAbortedError(): { data: null; errors: APIError } {
+    return {
+      data: null,
+      errors: {
+        status: 499,
+        statusText: "Client Closed Request",
+        items: [
+          {
+            origin: "client_error",
+            code: REQUEST_ABORTED,
+            message: "The request has been aborted",
+          },
+        ],
+      },
+    };
+  }
+
+  /**
+   * Parses the response of the request. If the response is an invalid session token error, invalidates the current user session.
+   * @private
+   * @param  {Response} response The response of the request
+   * @param  {'json' | 'text' | 'blob' | 'arraybuffer'} resolveType Type of data to return as a response of the request
+   * @returns Returns a promise with the *data* and *errors* components of the response
+   */
+  async #resolveResponse(
+    response: Response,
+    resolveType: "json" | "text" | "blob" | "arraybuffer"
+  ): Promise<{ data: any | null; errors: APIError | null }> {
+    // Success reponse
+    if (response.ok) {
+      try {
+        if (resolveType === "json") {
+          return { data: await response.json(), errors: null };
+        } else if (resolveType === "text")
+          return { data: await response.text(), errors: null };
+        else if (resolveType === "blob")
+          return { data: await response.blob(), errors: null };
+        else if (resolveType === "arraybuffer")
+          return { data: await response.arrayBuffer(), errors: null };
+        else return { data: await response.json(), errors: null };
+      } catch (err) {
+        return { data: null, errors: null };
+      }
+    }
+
+    // Error response
+    const errResp = await response.json();
+    if (
+      errResp?.errors &&
+      Array.isArray(errResp.errors) &&
+      errResp.errors.find(
+        (entry: any) =>
+          entry.code === INVALID_SESSION_TOKEN ||
+          entry.code === MISSING_SESSION_TOKEN
+      )
+    ) {
+      this.apiClient.auth.invalidateSession();
+    }
+
+    return {
+      data: null,
+      errors: {
+        status: response.status,
+        statusText: response.statusText ? response.statusText : "Bad Request",
+        items: errResp?.errors
+          ? Array.isArray(errResp.errors)
+            ? errResp.errors
+            : [errResp.errors]
+          : Array.isArray(errResp)
+          ? errResp
+          : [errResp],
+      },
+    };
+  }
+
+  /**
+   * Calculates the wait duration before the next attempt. If the `Retry-After` response header is provided, its value is used, otherwise the exponential backoff duration is calculated.
+   * @private
+   * @param  {RetryOptions} policy The retry policy of the request
+   * @param  {number} attempt The number of the failed attempt
+   * @param  {string | null} retryAfter The `Retry-After` response header value
+   * @returns {number} The delay in milliseconds
+   */
+  #getRetryDelay(
+    policy: RetryOptions,
+    attempt: number,
+    retryAfter: string | null
+  ): number {
+    const maxDelay = policy.maxDelay ?? DEFAULT_RETRY_OPTIONS.maxDelay;
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      if (!isNaN(seconds)) return Math.min(seconds * 1000, maxDelay);
+      const date = Date.parse(retryAfter);
+      if (!isNaN(date))
+        return Math.min(Math.max(0, date - Date.now()), maxDelay);
+    }
+
+    const baseDelay = policy.baseDelay ?? DEFAULT_RETRY_OPTIONS.baseDelay;
+    const delay = Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay);
+    return policy.jitter
+      ? Math.round(delay / 2 + (Math.random() * delay) / 2)
+      : delay;
+  }
+
+  /**
+   * Notifies the `onRetry` callback of the retry policy and waits for the retry delay. The wait ends early if the request is cancelled through its abort signal, so that the cancelled request is not attempted again.
+   * @private
+   * @param  {RetryOptions} policy The retry policy of the request
+   * @param  {RetryInfo} info Information about the upcoming attempt
+   * @param  {AbortSignal} [signal] The abort signal provided by the caller
+   */
+  async #waitForRetry(
+    policy: RetryOptions,
+    info: RetryInfo,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (policy.onRetry && typeof policy.onRetry === "function")
+      policy.onRetry(info);
+
+    if (signal?.aborted) return;
+    await new Promise<void>((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, info.delay);
+      signal?.addEventListener("abort", onAbort, { once: true });
     });
   }
 
@@ -215,15 +606,25 @@ export class Fetcher {
    * @param {KeyValuePair} query Query string parameters as key:value pair object
    * @param {KeyValuePair} headers Additional request headers that will be sent with the request
    * @param {'json' | 'text' | 'blob' | 'arraybuffer'} resolveType Type of data to return as a response of the request. By default response data is parsed to JSON. Possible values are json, text, blob and arraybuffer.
+   * @param {RequestOptions} options The timeout, abort signal and retry policy overrides of the request
    * @returns Returns a promise. The returned response includes two components *data* and *errors*. If errors occured during the execution of the request then errors object is returned and tha data is marked as `null`. If no errors occured then depending on the type of the request the data object holds a *single JSON object*, an *array of json objects*, *plain text*, *Blob* or *ArrayBuffer* and the errors object is marked as `null`. If the response returns no data back then both erros and data marked as `null`.
    */
   async get(
     path: string,
     query: KeyValuePair | null = {},
     headers: KeyValuePair | null = {},
-    resolveType: "json" | "text" | "blob" | "arraybuffer" = "json"
+    resolveType: "json" | "text" | "blob" | "arraybuffer" = "json",
+    options?: RequestOptions
   ): Promise<{ data: any | null; errors: APIError | null }> {
-    return this.#handleRequest("GET", path, query, headers, null, resolveType);
+    return this.#handleRequest(
+      "GET",
+      path,
+      query,
+      headers,
+      null,
+      resolveType,
+      options
+    );
   }
 
   /**
@@ -233,6 +634,7 @@ export class Fetcher {
    * @param {KeyValuePair} query Query string parameters as key:value pair object
    * @param {KeyValuePair} headers Additional request headers that will be sent with the request
    * @param {'json' | 'text' | 'blob' | 'arraybuffer'} resolveType Type of data to return as a response of the request. By default response data is parsed to JSON. Possible values are json, text, blob and arraybuffer.
+   * @param {RequestOptions} options The timeout, abort signal and retry policy overrides of the request
    * @returns Returns a promise. The returned response includes two components *data* and *errors*. If errors occured during the execution of the request then errors object is returned and tha data is marked as `null`. If no errors occured then depending on the type of the request the data object holds a *single JSON object*, an *array of json objects*, *plain text*, *Blob* or *ArrayBuffer* and the errors object is marked as `null`. If the response returns no data back then both erros and data marked as `null`.
    */
   async post(
@@ -240,9 +642,18 @@ export class Fetcher {
     body: FormData | object | null = null,
     query: KeyValuePair | null = {},
     headers: KeyValuePair | null = {},
-    resolveType: "json" | "text" | "blob" | "arraybuffer" = "json"
+    resolveType: "json" | "text" | "blob" | "arraybuffer" = "json",
+    options?: RequestOptions
   ): Promise<{ data: any | null; errors: APIError | null }> {
-    return this.#handleRequest("POST", path, query, headers, body, resolveType);
+    return this.#handleRequest(
+      "POST",
+      path,
+      query,
+      headers,
+      body,
+      resolveType,
+      options
+    );
   }
 
   /**
@@ -252,6 +663,7 @@ export class Fetcher {
    * @param {KeyValuePair} query Query string parameters as key:value pair object
    * @param {KeyValuePair} headers Additional request headers that will be sent with the request
    * @param {'json' | 'text' | 'blob' | 'arraybuffer'} resolveType Type of data to return as a response of the request. By default response data is parsed to JSON. Possible values are json, text, blob and arraybuffer.
+   * @param {RequestOptions} options The timeout, abort signal and retry policy overrides of the request
    * @returns Returns a promise. The returned response includes two components *data* and *errors*. If errors occured during the execution of the request then errors object is returned and tha data is marked as `null`. If no errors occured then depending on the type of the request the data object holds a *single JSON object*, an *array of json objects*, *plain text*, *Blob* or *ArrayBuffer* and the errors object is marked as `null`. If the response returns no data back then both erros and data marked as `null`.
    */
   async put(
@@ -259,9 +671,18 @@ export class Fetcher {
     body: FormData | object | null = null,
     query: KeyValuePair | null = {},
     headers: KeyValuePair | null = {},
-    resolveType: "json" | "text" | "blob" | "arraybuffer" = "json"
+    resolveType: "json" | "text" | "blob" | "arraybuffer" = "json",
+    options?: RequestOptions
   ): Promise<{ data: any | null; errors: APIError | null }> {
-    return this.#handleRequest("PUT", path, query, headers, body, resolveType);
+    return this.#handleRequest(
+      "PUT",
+      path,
+      query,
+      headers,
+      body,
+      resolveType,
+      options
+    );
   }
 
   /**
@@ -271,6 +692,7 @@ export class Fetcher {
    * @param {KeyValuePair} query Query string parameters as key:value pair object
    * @param {KeyValuePair} headers Additional request headers that will be sent with the request
    * @param {'json' | 'text' | 'blob' | 'arraybuffer'} resolveType Type of data to return as a response of the request. By default response data is parsed to JSON. Possible values are json, text, blob and arraybuffer.
+   * @param {RequestOptions} options The timeout, abort signal and retry policy overrides of the request
    * @returns Returns a promise. The returned response includes two components *data* and *errors*. If errors occured during the execution of the request then errors object is returned and tha data is marked as `null`. If no errors occured then depending on the type of the request the data object holds a *single JSON object*, an *array of json objects*, *plain text*, *Blob* or *ArrayBuffer* and the errors object is marked as `null`. If the response returns no data back then both erros and data marked as `null`.
    */
   async delete(
@@ -278,7 +700,8 @@ export class Fetcher {
     body: FormData | object | null = null,
     query: KeyValuePair | null = {},
     headers: KeyValuePair | null = {},
-    resolveType: "json" | "text" | "blob" | "arraybuffer" = "json"
+    resolveType: "json" | "text" | "blob" | "arraybuffer" = "json",
+    options?: RequestOptions
   ): Promise<{ data: any | null; errors: APIError | null }> {
     return this.#handleRequest(
       "DELETE",
@@ -286,7 +709,8 @@ export class Fetcher {
       query,
       headers,
       body,
-      resolveType
+      resolveType,
+      options
     );
   }
 
@@ -335,6 +759,14 @@ export class Fetcher {
     return this.headers["Session"];
   }
 
+  /**
+   * Returns whether the request errors are thrown as typed errors instead of being returned in the response
+   * @returns boolean
+   */
+  throwsOnError(): boolean {
+    return this.throwOnError;
+  }
+
   /**
    *
    * @param path
@@ -346,12 +778,21 @@ export class Fetcher {
    */
 
   /**
-   * Uploads a file using `XMLHttpRequest` object instead of fetcher in order to track upload progress and call a callback function.
+   * Checks whether the upload progress of the files can be tracked, which requires either an upload function in the transport or the `XMLHttpRequest` object.
+   * @returns Returns true if the {@link Fetcher.upload} method can be used, false otherwise
+   */
+  canTrackUploadProgress(): boolean {
+    return !!this.transport.upload || typeof XMLHttpRequest !== "undefined";
+  }
+
+  /**
+   * Uploads a file using the upload function of the transport if provided, otherwise using `XMLHttpRequest` object instead of fetcher in order to track upload progress and call a callback function.
    * @param {string} path The path of the request that will be appended to the {restUrl}
    * @param {any} body The body of the request
    * @param {KeyValuePair} query Query string parameters as key:value pair object
    * @param {KeyValuePair} headers Additional request headers that will be sent with the request
    * @param {any} progressCallback Callback function that will be called during file upload to inform the progres
+   * @param {RequestOptions} options The timeout and abort signal of the request
    * @returns Returns a promise. The returned response includes two components *data* and *errors*. If errors occured during the execution of the request then errors object is returned and tha data is marked as `null`. If no errors occured then a *single JSON object* providing information about the uploaded file is returned and the *errors* object is marked as `null`.
    */
 
@@ -360,56 +801,76 @@ export class Fetcher {
     body: any,
     query: KeyValuePair | null = {},
     headers: KeyValuePair | null = {},
-    progressCallback: any = null
+    progressCallback: any = null,
+    options?: RequestOptions
+  ): Promise<{ data: any | null; errors: APIError | null }> {
+    let pathStr = path ?? "";
+    pathStr = pathStr.trim();
+    // Check the path format
+    if (!pathStr.startsWith("/")) pathStr = "/" + pathStr;
+
+    const request: MiddlewareRequest = {
+      method: "POST",
+      path: pathStr,
+      query: { ...query },
+      headers: { ...this.headers, ...headers },
+      body,
+      resolveType: "json",
+    };
+
+    return this.#settleResponse(() =>
+      this.#runMiddleware(request, () =>
+        this.#sendUpload(request, progressCallback, options)
+      )
+    );
+  }
+
+  /**
+   * Sends the file upload request to the app backend using `XMLHttpRequest` object.
+   * @private
+   * @param {MiddlewareRequest} request The outgoing upload request
+   * @param {any} progressCallback Callback function that will be called during file upload to inform the progres
+   * @param {RequestOptions} options The timeout and abort signal of the request
+   * @returns Returns the response of the upload request
+   */
+  #sendUpload(
+    request: MiddlewareRequest,
+    progressCallback: any,
+    options?: RequestOptions
   ): Promise<{ data: any | null; errors: APIError | null }> {
+    const { path: pathStr, query, headers, body } = request;
+    // Use the upload implementation of the transport if provided
+    if (this.transport.upload)
+      return this.#sendTransportUpload(
+        this.transport.upload,
+        request,
+        progressCallback,
+        options
+      );
+
     return new Promise((resolve, reject) => {
+      const signal = options?.signal;
+      const timeout = options?.timeout ?? this.timeout;
+      if (signal?.aborted) return resolve(this.#getAbortedError());
+
       if (typeof XMLHttpRequest === "undefined") {
         return reject(
           new Error(
-            "XMLHttpRequest is not defined. This method can only be called from clients where `XMLHttpRequest` object is available (e.g., browsers)."
+            "XMLHttpRequest is not defined. This method can only be called from clients where `XMLHttpRequest` object is available (e.g., browsers) or when an upload function is provided in the transport option of the client."
           )
         );
       }
 
-      let pathStr = path ?? "";
-      pathStr = pathStr.trim();
-      // Check the path format
-      if (!pathStr.startsWith("/")) pathStr = "/" + pathStr;
-
       // Get the body of the request in the right format
-      let requestBody;
-      // Check if the input body is a FormData object or not. If the client api is used in a Node.js environment
-      // we will not have the FormData object by default
-      if (typeof FormData !== "undefined" && body instanceof FormData) {
-        requestBody = body;
-      } else {
-        requestBody = new FormData();
-        requestBody.append("file", body);
-      }
+      const requestBody = this.#getUploadBody(body);
 
       // Create the request object
       const xhr = new XMLHttpRequest();
       // Build query parameters string
-      const queryString = Object.keys(query || {}).reduce(
-        (previousValue, key) => {
-          let value = query ? query[key] : "";
-          value = value ?? "";
-          if (typeof value === "object") {
-            try {
-              value = JSON.stringify(value);
-            } catch (err) {
-              value = "";
-            }
-          }
-
-          if (previousValue)
-            return `${previousValue}&${key}=${encodeURIComponent(value)}`;
-          else return `?${key}=${encodeURIComponent(value)}`;
-        },
-        ""
-      );
+      const queryString = this.#buildQueryString(query);
 
       xhr.onload = () => {
+        signal?.removeEventListener("abort", onAbort);
         if (xhr.status === 200)
           resolve({ data: JSON.parse(xhr.response), errors: null });
         else {
@@ -445,39 +906,137 @@ export class Fetcher {
       };
 
       xhr.onerror = (event) => {
+        signal?.removeEventListener("abort", onAbort);
         reject(event);
       };
 
-      // Listen for upload progress events
-      xhr.upload.onprogress = (event) => {
-        if (
-          progressCallback &&
-          typeof progressCallback === "function" &&
-          event.total
-        )
-          progressCallback(
-            event.loaded,
-            event.total,
-            parseInt(((event.loaded / event.total) * 100).toFixed(), 10)
-          );
+      xhr.ontimeout = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(this.#getTimeoutError(timeout));
       };
 
+      xhr.onabort = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(this.#getAbortedError());
+      };
+
+      // Cancel the upload when the caller aborts the request
+      const onAbort = () => xhr.abort();
+      signal?.addEventListener("abort", onAbort);
+
+      // Listen for upload progress events
+      xhr.upload.onprogress = (event) =>
+        this.#reportProgress(progressCallback, event.loaded, event.total);
+
       // Open and send the request
       xhr.open("POST", this.restUrl + pathStr + queryString);
 
       // Set the headers of the request. Browser will set the content type to the correct value,
       // we should not have a content type entry in headers for request with FormData body.
-      const headersObj = { ...this.headers, ...(headers || {}) };
-      const keys = Object.keys(headersObj);
-      for (const key of keys) {
-        if (key.trim().toLowerCase() !== "content-type") {
-          xhr.setRequestHeader(key, headersObj[key]);
-        }
+      const uploadHeaders = this.#getUploadHeaders(headers);
+      for (const key of Object.keys(uploadHeaders)) {
+        xhr.setRequestHeader(key, uploadHeaders[key]);
       }
 
       // Enable sending of auth cookies
       xhr.withCredentials = true;
+      if (timeout && timeout > 0) xhr.timeout = timeout;
       xhr.send(requestBody);
     });
   }
+
+  /**
+   * Uploads a file using the upload function of the transport. Similar to the `XMLHttpRequest` based upload, if the request response is an invalid session token error, invalidates the current user session.
+   * @private
+   * @param {UploadFunction} upload The upload function of the transport
+   * @param {MiddlewareRequest} request The outgoing upload request
+   * @param {any} progressCallback Callback function that will be called during file upload to inform the progres
+   * @param {RequestOptions} options The timeout and abort signal of the request
+   * @returns Returns the response of the upload request
+   */
+  async #sendTransportUpload(
+    upload: UploadFunction,
+    request: MiddlewareRequest,
+    progressCallback: any,
+    options?: RequestOptions
+  ): Promise<{ data: any | null; errors: APIError | null }> {
+    const { path: pathStr, query, headers, body } = request;
+    const signal = options?.signal;
+    const timeout = options?.timeout ?? this.timeout;
+    if (signal?.aborted) return this.#getAbortedError();
+
+    const abortHandle = this.#createAbortHandle(signal, timeout);
+    try {
+      const response = await upload(
+        this.restUrl + pathStr + this.#buildQueryString(query),
+        {
+          method: "POST",
+          headers: this.#getUploadHeaders(headers),
+          body: this.#getUploadBody(body),
+          credentials: "include",
+          signal: abortHandle.signal,
+          onProgress: (loaded, total) =>
+            this.#reportProgress(progressCallback, loaded, total),
+        }
+      );
+
+      return await this.#resolveResponse(response, "json");
+    } catch (error) {
+      if (signal?.aborted) return this.#getAbortedError();
+      if (abortHandle.isTimedOut()) return this.#getTimeoutError(timeout);
+      throw error;
+    } finally {
+      abortHandle.dispose();
+    }
+  }
+
+  /**
+   * Returns the form data body of the file upload request. If the input body is not a FormData object, it is appended to a new FormData object with the `file` key.
+   * @private
+   * @param {any} body The body of the upload request
+   * @returns Returns the form data body
+   */
+  #getUploadBody(body: any): FormData {
+    // Check if the input body is a FormData object or not. If the client api is used in a Node.js environment
+    // we will not have the FormData object by default
+    if (typeof FormData !== "undefined" && body instanceof FormData)
+      return body;
+
+    const requestBody = new FormData();
+    requestBody.append("file", body);
+    return requestBody;
+  }
+
+  /**
+   * Returns the headers of the file upload request. Browser will set the content type to the correct value, we should not have a content type entry in headers for request with FormData body.
+   * @private
+   * @param {KeyValuePair} headers The headers of the upload request
+   * @returns Returns the headers without the content type entry
+   */
+  #getUploadHeaders(headers: KeyValuePair): KeyValuePair {
+    const uploadHeaders: KeyValuePair = {};
+    for (const key of Object.keys(headers)) {
+      if (key.trim().toLowerCase() !== "content-type") {
+        uploadHeaders[key] = headers[key];
+      }
+    }
+
+    return uploadHeaders;
+  }
+
+  /**
+   * Calls the progress callback function of the file upload with the uploaded bytes, total bytes and the completion percentage.
+   * @private
+   * @param {any} progressCallback Callback function that will be called during file upload to inform the progres
+   * @param {number} loaded The number of bytes uploaded so far
+   * @param {number} total The total number of bytes to upload
+   */
+  #reportProgress(progressCallback: any, loaded: number, total: number) {
+    if (progressCallback && typeof progressCallback === "function" && total)
+      progressCallback(
+        loaded,
+        total,
+        parseInt(((loaded / total) * 100).toFixed(), 10)
+      );
+  }
 }
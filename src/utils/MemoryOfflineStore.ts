@@ -0,0 +1,60 @@
+import { OfflineStore } from "../types";
+
+/**
+ * The default {@link OfflineStore} of the offline replica, which keeps the entries in memory. The entries are lost when the app is restarted, use a persistent store (e.g., IndexedDB) to keep the replica and the pending mutations across restarts.
+ * @export
+ * @class MemoryOfflineStore
+ */
+export class MemoryOfflineStore implements OfflineStore {
+  /**
+   * The stored entries as JSON text, so that the stored values cannot be modified through their references
+   * @private
+   * @type {Map<string, string>}
+   */
+  #entries: Map<string, string>;
+
+  /**
+   * Creates an instance of MemoryOfflineStore.
+   */
+  constructor() {
+    this.#entries = new Map();
+  }
+
+  /**
+   * Returns the value of the key, `undefined` if the key does not exist.
+   * @param {string} key The key of the entry
+   * @returns {Promise<any>} The stored value
+   */
+  async get(key: string): Promise<any> {
+    const json = this.#entries.get(key);
+    return json === undefined ? undefined : JSON.parse(json);
+  }
+
+  /**
+   * Stores the value of the key, overwrites the existing value.
+   * @param {string} key The key of the entry
+   * @param {any} value The JSON-serializable value
+   */
+  async set(key: string, value: any): Promise<void> {
+    this.#entries.set(key, JSON.stringify(value));
+  }
+
+  /**
+   * Removes the entry of the key, does nothing if the key does not exist.
+   * @param {string} key The key of the entry
+   */
+  async delete(key: string): Promise<void> {
+    this.#entries.delete(key);
+  }
+
+  /**
+   * Returns the keys starting with the prefix.
+   * @param {string} prefix The key prefix
+   * @returns {Promise<string[]>} The matching keys
+   */
+  async keys(prefix: string): Promise<string[]> {
+    return Array.from(this.#entries.keys()).filter((key) =>
+      key.startsWith(prefix)
+    );
+  }
+}
@@ -0,0 +1,2465 @@
+import { Response } from "cross-fetch";
+import { ClientError } from "./ClientError";
+import { applyFieldUpdates, deleteFieldValue } from "./changes";
+import {
+  compileFilter,
+  evaluateExpression,
+  getFieldValue,
+  sortItems,
+} from "./expression";
+import {
+  KeyValuePair,
+  Session,
+  Transport,
+  UploadInit,
+  DBAction,
+  FieldUpdate,
+  GroupComputation,
+  MockEndpointHandler,
+  MockEndpointRequest,
+  MockMessage,
+  MockTask,
+} from "../types";
+
+const API_PATH = "/_api/rest/v1";
+const DEFAULT_USER_AGENT = {
+  family: "Other",
+  major: "0",
+  minor: "0",
+  patch: "0",
+  device: { family: "Other", major: "0", minor: "0", patch: "0" },
+  os: { family: "Other", major: "0", minor: "0", patch: "0" },
+};
+const STATUS_TEXTS: { [status: number]: string } = {
+  200: "OK",
+  400: "Bad Request",
+  401: "Unauthorized",
+  404: "Not Found",
+  409: "Conflict",
+};
+// The system managed fields of the database objects that cannot be updated
+const SYSTEM_FIELDS = ["_id", "_parent", "createdAt", "updatedAt"];
+
+let idCounter = 0;
+
+/**
+ * Defines the structure of a parsed request that is routed to the handlers of the mock backend
+ * @interface MockRequest
+ */
+interface MockRequest {
+  method: "GET" | "POST" | "PUT" | "DELETE";
+  path: string;
+  origin: string;
+  query: KeyValuePair;
+  headers: KeyValuePair;
+  body: any;
+  session: Session | null;
+}
+
+/**
+ * Defines the structure of a database object entry. Besides the object itself, keeps a reference to its top-level object and a function to remove the object from its container.
+ * @interface DBEntry
+ */
+interface DBEntry {
+  object: KeyValuePair;
+  top: KeyValuePair;
+  remove: () => void;
+}
+
+/**
+ * Defines the structure of a route handler of the mock backend
+ */
+type RouteHandler = (request: MockRequest) => any;
+
+/**
+ * Returns the HTTP status code of the error response for the specified error code.
+ * @param {string} code The error code
+ * @returns The HTTP status code
+ */
+function getErrorStatus(code: string): number {
+  if (code === "not_found") return 404;
+  if (code.endsWith("_not_unique")) return 409;
+  if (
+    [
+      "missing_session_token",
+      "invalid_session_token",
+      "invalid_credentials",
+      "invalid_code",
+    ].includes(code)
+  )
+    return 401;
+  return 400;
+}
+
+/**
+ * Generates a new unique identifier in the format of database object ids.
+ * @returns The 24 characters long hexadecimal identifier
+ */
+function createId(): string {
+  idCounter = (idCounter + 1) % 0xffffff;
+  const time = Math.floor(Date.now() / 1000)
+    .toString(16)
+    .padStart(8, "0");
+  const random = Math.floor(Math.random() * 0xffffffffff)
+    .toString(16)
+    .padStart(10, "0");
+  return time + random + idCounter.toString(16).padStart(6, "0");
+}
+
+/**
+ * Creates a deep copy of the input value.
+ * @param {any} value The value to copy
+ * @returns The copied value
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Removes the item from the list if it exists in the list.
+ * @param {any[]} list The list to remove the item from
+ * @param {any} item The item to remove
+ */
+function removeItem(list: any[], item: any) {
+  const index = list.indexOf(item);
+  if (index >= 0) list.splice(index, 1);
+}
+
+/**
+ * Returns the items of the specified page and the count information of the pagination.
+ * @param {T[]} items All items
+ * @param {number} page The page number, starts from 1
+ * @param {number} limit The max number of items per page. If not specified all items are returned.
+ * @returns The items of the page and the count information
+ */
+function paginate<T>(
+  items: T[],
+  page: number | null | undefined,
+  limit: number | null | undefined
+): { items: T[]; countInfo: KeyValuePair } {
+  const pageSize = limit && limit > 0 ? limit : items.length;
+  const currentPage = page && page > 0 ? page : 1;
+  const start = (currentPage - 1) * pageSize;
+
+  return {
+    items: limit && limit > 0 ? items.slice(start, start + pageSize) : items,
+    countInfo: {
+      count: items.length,
+      totalPages: pageSize > 0 ? Math.ceil(items.length / pageSize) : 0,
+      currentPage,
+      pageSize,
+    },
+  };
+}
+
+/**
+ * Calculates the edit distance between two strings, namely the min number of single character edits required to change one string into the other.
+ * @param {string} source The source string
+ * @param {string} target The target string
+ * @returns The edit distance
+ */
+function getEditDistance(source: string, target: string): number {
+  let previous = Array.from({ length: target.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= source.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= target.length; j++) {
+      const cost = source[i - 1] === target[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[target.length];
+}
+
+/**
+ * Checks whether the text value contains the input search text, tolerating small typos in the words.
+ * @param {any} value The value to search in
+ * @param {string} text The search text
+ * @returns True if the value matches the search text, false otherwise
+ */
+function isFuzzyMatch(value: any, text: string): boolean {
+  if (typeof value !== "string") return false;
+  const source = value.toLowerCase();
+  const search = text.toLowerCase().trim();
+  if (source.includes(search)) return true;
+
+  const words = source.split(/\s+/);
+  return search.split(/\s+/).every((term) => {
+    const maxDistance = Math.max(1, Math.floor(term.length / 4));
+    return words.some((word) => getEditDistance(word, term) <= maxDistance);
+  });
+}
+
+/**
+ * Checks whether any of the text values of the object (including the sub-objects) contain the search text.
+ * @param {any} value The value to search in
+ * @param {string} text The lowercase search text
+ * @returns True if the text is found, false otherwise
+ */
+function containsText(value: any, text: string): boolean {
+  if (typeof value === "string") return value.toLowerCase().includes(text);
+  if (value && typeof value === "object")
+    return Object.values(value).some((entry) => containsText(entry, text));
+  return false;
+}
+
+/**
+ * Converts the glob style pattern (e.g., `user:*`) to a regular expression.
+ * @param {string} pattern The glob style pattern
+ * @returns The regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) =>
+      char === "*"
+        ? ".*"
+        : char === "?"
+        ? "."
+        : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * In-memory implementation of the RESTful API of an Altogic app backend, used to test the apps that are built with the client library without any network access. A client that uses the mock backend can be created with the {@link createMockClient} function.
+ *
+ * The mock backend implements the routes used by the database, cache, queue, task, authentication and storage managers. Database filter expressions are evaluated on the mock backend, which supports the operators and a subset of the functions of Altogic expressions. Pagination, sorting, omitting fields, lookups and group computations are also supported.
+ *
+ * Custom app endpoints can be mocked using the {@link MockBackend.addEndpoint} method.
+ *
+ * ```ts
+ * const backend = new MockBackend({ users: [{ name: 'John', age: 32 }] });
+ * const altogic = createMockClient(backend);
+ * const { data } = await altogic.db.model('users').filter('age > 30').get();
+ * ```
+ * @export
+ * @class MockBackend
+ */
+export class MockBackend {
+  /**
+   * The top-level objects of the database models
+   * @private
+   * @type {Map<string, KeyValuePair[]>}
+   */
+  #models: Map<string, KeyValuePair[]>;
+
+  /**
+   * The cached values and their expiry times
+   * @private
+   * @type {Map<string, { value: any; expiresAt: number | null }>}
+   */
+  #cache: Map<string, { value: any; expiresAt: number | null }>;
+
+  /**
+   * The messages submitted to the queues
+   * @private
+   * @type {MockMessage[]}
+   */
+  #messages: MockMessage[];
+
+  /**
+   * The triggered tasks
+   * @private
+   * @type {MockTask[]}
+   */
+  #tasks: MockTask[];
+
+  /**
+   * The users of the app including their passwords
+   * @private
+   * @type {KeyValuePair[]}
+   */
+  #users: KeyValuePair[];
+
+  /**
+   * The active user sessions
+   * @private
+   * @type {Session[]}
+   */
+  #sessions: Session[];
+
+  /**
+   * The verification codes and access tokens sent to the email addresses and phone numbers
+   * @private
+   * @type {Map<string, string>}
+   */
+  #codes: Map<string, string>;
+
+  /**
+   * The storage buckets
+   * @private
+   * @type {KeyValuePair[]}
+   */
+  #buckets: KeyValuePair[];
+
+  /**
+   * The metadata of the stored files
+   * @private
+   * @type {KeyValuePair[]}
+   */
+  #files: KeyValuePair[];
+
+  /**
+   * The contents of the stored files by file id
+   * @private
+   * @type {Map<string, Uint8Array>}
+   */
+  #contents: Map<string, Uint8Array>;
+
+  /**
+   * The custom app endpoints
+   * @private
+   * @type {{ method: string; segments: string[]; handler: MockEndpointHandler }[]}
+   */
+  #endpoints: {
+    method: string;
+    segments: string[];
+    handler: MockEndpointHandler;
+  }[];
+
+  /**
+   * The handlers of the Altogic RESTful API routes by method and path
+   * @private
+   * @type {Map<string, RouteHandler>}
+   */
+  #routes: Map<string, RouteHandler>;
+
+  /**
+   * Creates an instance of MockBackend.
+   * @param {{ [modelName: string]: object[] }} [data] The initial objects of the database models, keyed by model name
+   */
+  constructor(data?: { [modelName: string]: object[] }) {
+    this.#models = new Map();
+    this.#cache = new Map();
+    this.#messages = [];
+    this.#tasks = [];
+    this.#users = [];
+    this.#sessions = [];
+    this.#codes = new Map();
+    this.#buckets = [];
+    this.#files = [];
+    this.#contents = new Map();
+    this.#endpoints = [];
+    this.#routes = this.#createRoutes();
+    this.reset(data);
+  }
+
+  /**
+   * Returns the transport that relays the requests of the client library to the mock backend. Can be used as the `transport` option of {@link ClientOptions}.
+   * @readonly
+   * @type {Transport}
+   */
+  get transport(): Transport {
+    return {
+      fetch: (url: string, init: RequestInit) => this.#handleRequest(url, init),
+      upload: async (url: string, init: UploadInit) => {
+        const file = init.body.get("file");
+        const size = typeof file === "string" ? file.length : file?.size ?? 0;
+        init.onProgress(size, size);
+        return await this.#handleRequest(url, init);
+      },
+    };
+  }
+
+  /**
+   * Clears all the data of the mock backend, including the database objects, cache, queue messages, tasks, users, sessions and files. The custom endpoints are kept.
+   * @param {{ [modelName: string]: object[] }} [data] The initial objects of the database models, keyed by model name
+   */
+  reset(data?: { [modelName: string]: object[] }) {
+    this.#models.clear();
+    this.#cache.clear();
+    this.#messages = [];
+    this.#tasks = [];
+    this.#users = [];
+    this.#sessions = [];
+    this.#codes.clear();
+    this.#files = [];
+    this.#contents.clear();
+
+    const now = new Date().toISOString();
+    this.#buckets = [
+      {
+        _id: createId(),
+        name: "root",
+        isPublic: true,
+        tags: [],
+        userId: null,
+        createdAt: now,
+        updatedAt: now,
+      },
+    ];
+
+    for (const modelName of Object.keys(data ?? {}))
+      this.seed(modelName, data![modelName]);
+  }
+
+  /**
+   * Adds the objects to the specified top-level model. If the objects do not have an `_id`, a new id is generated. The `createdAt` and `updatedAt` fields are also set if not specified.
+   * @param {string} modelName The name of the model
+   * @param {object[]} objects The objects to add
+   * @returns Returns the added objects
+   */
+  seed(modelName: string, objects: object[]): object[] {
+    const created = objects.map((values) =>
+      this.#createObject(values, undefined, true)
+    );
+    this.#getModel(modelName).push(...created);
+    return clone(created);
+  }
+
+  /**
+   * Returns the current objects of the specified model. The model name can be in dot-notation to get the sub-model objects (e.g., `users.addresses`).
+   * @param {string} modelName The name of the model
+   * @returns Returns the copies of the model objects
+   */
+  getObjects(modelName: string): object[] {
+    return this.#getEntries(modelName).map((entry) => clone(entry.object));
+  }
+
+  /**
+   * Returns the messages submitted to the specified queue.
+   * @param {string} queueNameOrId The name or id of the queue
+   * @returns Returns the message info objects including the submitted `message`
+   */
+  getMessages(queueNameOrId: string): MockMessage[] {
+    return clone(
+      this.#messages.filter((entry) => entry.queueName === queueNameOrId)
+    );
+  }
+
+  /**
+   * Returns the triggered tasks. If the task name or id is specified, only the triggered tasks of that scheduled task are returned.
+   * @param {string} [taskNameOrId] The name or id of the scheduled task
+   * @returns Returns the task info objects
+   */
+  getTasks(taskNameOrId?: string): MockTask[] {
+    return clone(
+      this.#tasks.filter(
+        (entry) => !taskNameOrId || entry.scheduledTaskName === taskNameOrId
+      )
+    );
+  }
+
+  /**
+   * Returns the last verification code or access token sent to the specified email address or phone number, e.g., to complete the sign in with code, magic link or password reset flows in your tests.
+   * @param {string} emailOrPhone The email address or phone number
+   * @returns Returns the verification code or access token, `null` if nothing has been sent
+   */
+  getVerificationCode(emailOrPhone: string): string | null {
+    return this.#codes.get(emailOrPhone) ?? null;
+  }
+
+  /**
+   * Adds a custom app endpoint to the mock backend. The endpoint path can include path parameters prefixed with a colon (e.g., `/users/:userId`), which are passed to the handler in the `params` of the request.
+   * @param {'GET' | 'POST' | 'PUT' | 'DELETE'} method The method of the endpoint
+   * @param {string} path The path of the endpoint, needs to start with a slash '/' character e.g., `/users/:userId`
+   * @param {MockEndpointHandler} handler The function that handles the requests made to the endpoint
+   */
+  addEndpoint(
+    method: "GET" | "POST" | "PUT" | "DELETE",
+    path: string,
+    handler: MockEndpointHandler
+  ) {
+    this.#endpoints.push({
+      method,
+      segments: path.split("/").filter((segment) => segment),
+      handler,
+    });
+  }
+
+  /**
+   * Parses the request, routes it to its handler and creates the response of the request.
+   * @private
+   * @param {string} url The full URL of the request
+   * @param {RequestInit | UploadInit} init The request init object
+   * @returns Returns the response of the request
+   */
+  async #handleRequest(
+    url: string,
+    init: RequestInit | UploadInit
+  ): Promise<Response> {
+    const request = this.#parseRequest(url, init);
+
+    try {
+      const handler = this.#routes.get(`${request.method} ${request.path}`);
+      const data = handler
+        ? await handler(request)
+        : await this.#handleDynamicRoute(request);
+
+      return this.#createResponse(200, data);
+    } catch (err) {
+      if (!(err instanceof ClientError)) throw err;
+      return this.#createResponse(getErrorStatus(err.code), {
+        errors: [
+          {
+            origin: "client_error",
+            code: err.code,
+            message: err.message,
+            details: err.details,
+          },
+        ],
+      });
+    }
+  }
+
+  /**
+   * Handles the requests whose path includes parameters, namely the queue and task status routes and the custom endpoints.
+   * @private
+   * @param {MockRequest} request The parsed request
+   * @returns Returns the response data
+   */
+  async #handleDynamicRoute(request: MockRequest) {
+    const { method, path } = request;
+    if (method === "GET" && path.startsWith(`${API_PATH}/queue/`))
+      return this.#getMessageStatus(path.substring(API_PATH.length + 7));
+    if (method === "GET" && path.startsWith(`${API_PATH}/task/`))
+      return this.#getTaskStatus(path.substring(API_PATH.length + 6));
+
+    const segments = path.split("/").filter((segment) => segment);
+    for (const endpoint of this.#endpoints) {
+      if (
+        endpoint.method !== method ||
+        endpoint.segments.length !== segments.length
+      )
+        continue;
+
+      const params: KeyValuePair = {};
+      const isMatch = endpoint.segments.every((segment, index) => {
+        if (segment.startsWith(":")) {
+          params[segment.substring(1)] = decodeURIComponent(segments[index]);
+          return true;
+        }
+        return segment === segments[index];
+      });
+
+      if (isMatch) {
+        const endpointRequest: MockEndpointRequest = {
+          method,
+          path,
+          params,
+          query: request.query,
+          headers: request.headers,
+          body: request.body,
+          session: request.session,
+        };
+        return await endpoint.handler(endpointRequest);
+      }
+    }
+
+    throw new ClientError(
+      "not_found",
+      `No route is defined for ${method} ${path}`
+    );
+  }
+
+  /**
+   * Parses the request URL, headers and body.
+   * @private
+   * @param {string} url The full URL of the request
+   * @param {RequestInit | UploadInit} init The request init object
+   * @returns Returns the parsed request
+   */
+  #parseRequest(url: string, init: RequestInit | UploadInit): MockRequest {
+    const parsedUrl = new URL(url);
+    const query: KeyValuePair = {};
+    parsedUrl.searchParams.forEach((value, key) => {
+      // Object query string parameters are sent in JSON format
+      try {
+        query[key] = /^[\[{]/.test(value) ? JSON.parse(value) : value;
+      } catch (err) {
+        query[key] = value;
+      }
+    });
+
+    const headers = { ...(init.headers as KeyValuePair) };
+    const tokenKey = Object.keys(headers).find(
+      (key) => key.toLowerCase() === "session"
+    );
+    const token = tokenKey ? headers[tokenKey] : null;
+
+    let body = init.body ?? null;
+    if (typeof body === "string") {
+      try {
+        body = JSON.parse(body);
+      } catch (err) {
+        // Keep the raw text body
+      }
+    }
+
+    return {
+      method: (init.method ?? "GET").toUpperCase() as MockRequest["method"],
+      path: parsedUrl.pathname,
+      origin: parsedUrl.origin,
+      query,
+      headers,
+      body,
+      session: this.#sessions.find((entry) => entry.token === token) ?? null,
+    };
+  }
+
+  /**
+   * Creates the response of a request. If the data is a byte array, it is returned as the raw response body, otherwise it is returned in JSON format.
+   * @private
+   * @param {number} status The HTTP status code of the response
+   * @param {any} data The response data
+   * @returns Returns the response object
+   */
+  #createResponse(status: number, data: any): Response {
+    const statusText = STATUS_TEXTS[status];
+    if (data instanceof Uint8Array)
+      return new Response(data, {
+        status,
+        statusText,
+        headers: { "Content-Type": "application/octet-stream" },
+      });
+
+    return new Response(data === undefined ? null : JSON.stringify(data), {
+      status,
+      statusText,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  /**
+   * Creates the route handlers of the Altogic RESTful API.
+   * @private
+   * @returns Returns the route handlers by method and path
+   */
+  #createRoutes(): Map<string, RouteHandler> {
+    const routes: { [route: string]: RouteHandler } = {
+      // Database
+      "POST /db/create": (req) => this.#dbCreate(req),
+      "POST /db/set": (req) => this.#dbSet(req, false),
+      "POST /db/append": (req) => this.#dbSet(req, true),
+      "POST /db/get-list": (req) => this.#dbGetList(req),
+      "POST /db/compute": (req) => this.#dbCompute(req),
+      "POST /db/get-single": (req) => this.#dbGetSingle(req),
+      "POST /db/get-random": (req) => this.#dbGetRandom(req),
+      "POST /db/update": (req) => this.#dbUpdate(req),
+      "POST /db/update-fields": (req) => this.#dbUpdate(req),
+      "POST /db/delete": (req) => this.#dbDelete(req),
+      "POST /db/search-text": (req) => this.#dbSearchText(req),
+      "POST /db/fuzzy-search": (req) => this.#dbSearchFuzzy(req),
+      "GET /db/stats": () => this.#dbStats(),
+      "POST /db/object/get": (req) => this.#objectGet(req),
+      "POST /db/object/create": (req) => this.#objectCreate(req),
+      "POST /db/object/set": (req) => this.#objectSet(req, false),
+      "POST /db/object/append": (req) => this.#objectSet(req, true),
+      "POST /db/object/delete": (req) => this.#objectDelete(req),
+      "POST /db/object/update": (req) => this.#objectUpdate(req),
+      "POST /db/object/update-fields": (req) => this.#objectUpdate(req),
+      // Cache
+      "GET /cache": (req) => this.#cacheGet(req),
+      "POST /cache": (req) => this.#cacheSet(req),
+      "DELETE /cache": (req) => this.#cacheDelete(req),
+      "POST /cache/increment": (req) => this.#cacheIncrement(req, 1),
+      "POST /cache/decrement": (req) => this.#cacheIncrement(req, -1),
+      "POST /cache/expire": (req) => this.#cacheExpire(req),
+      "GET /cache/stats": () => this.#cacheStats(),
+      "POST /cache/list-keys": (req) => this.#cacheListKeys(req),
+      // Queue and task
+      "POST /queue": (req) => this.#submitMessage(req),
+      "POST /task": (req) => this.#runTask(req),
+      // Authentication
+      "POST /auth/signup-email": (req) => this.#signUp(req, "email"),
+      "POST /auth/signup-phone": (req) => this.#signUp(req, "phone"),
+      "POST /auth/signin-email": (req) => this.#signIn(req, "email"),
+      "POST /auth/signin-phone": (req) => this.#signIn(req, "phone"),
+      "POST /auth/signin-code": (req) => this.#signInWithCode(req),
+      "POST /auth/verify-phone": (req) => this.#verifyPhone(req),
+      "POST /auth/signout": (req) => this.#signOut(req),
+      "POST /auth/signout-all": (req) => this.#signOutAll(req, false),
+      "POST /auth/signout-all-except": (req) => this.#signOutAll(req, true),
+      "GET /auth/sessions": (req) => this.#getSessions(req),
+      "GET /auth/user": (req) => this.#getUser(req),
+      "GET /auth/grant": (req) => this.#getAuthGrant(req),
+      "POST /auth/change-pwd": (req) => this.#changePassword(req),
+      "POST /auth/change-email": (req) => this.#changeContact(req, "email"),
+      "POST /auth/change-phone": (req) => this.#changeContact(req, "phone"),
+      "POST /auth/resend": (req) => this.#sendCode(req.query.email, false),
+      "POST /auth/send-magic": (req) => this.#sendCode(req.query.email, false),
+      "POST /auth/send-reset": (req) => this.#sendCode(req.query.email, false),
+      "POST /auth/resend-code": (req) => this.#sendCode(req.query.phone, true),
+      "POST /auth/send-code": (req) => this.#sendCode(req.query.phone, true),
+      "POST /auth/send-reset-code": (req) =>
+        this.#sendCode(req.query.phone, true),
+      "POST /auth/reset-pwd": (req) => this.#resetPassword(req, "email"),
+      "POST /auth/reset-pwd-code": (req) => this.#resetPassword(req, "phone"),
+      // Storage
+      "POST /storage/create-bucket": (req) => this.#createBucket(req),
+      "POST /storage/list-buckets": (req) => this.#listBuckets(req),
+      "GET /storage/stats": () => this.#storageStats(),
+      "POST /storage/search-files": (req) => this.#listFiles(req, null),
+      "POST /storage/delete-file": (req) => this.#deleteFileByUrl(req),
+      "POST /storage/bucket/exists": (req) => this.#bucketExists(req),
+      "POST /storage/bucket/get": (req) => this.#getBucket(req),
+      "POST /storage/bucket/empty": (req) => this.#emptyBucket(req),
+      "POST /storage/bucket/rename": (req) => this.#updateBucket(req),
+      "POST /storage/bucket/delete": (req) => this.#deleteBucket(req),
+      "POST /storage/bucket/make-public": (req) =>
+        this.#setBucketPrivacy(req, true),
+      "POST /storage/bucket/make-private": (req) =>
+        this.#setBucketPrivacy(req, false),
+      "POST /storage/bucket/list-files": (req) =>
+        this.#listFiles(req, this.#findBucket(req.body?.bucket)),
+      "POST /storage/bucket/upload-formdata": (req) => this.#uploadFile(req),
+      "POST /storage/bucket/upload-object": (req) => this.#uploadFile(req),
+      "POST /storage/bucket/delete-files": (req) => this.#deleteFiles(req),
+      "POST /storage/bucket/add-tags": (req) =>
+        this.#updateBucketTags(req, true),
+      "POST /storage/bucket/remove-tags": (req) =>
+        this.#updateBucketTags(req, false),
+      "POST /storage/bucket/update": (req) => this.#updateBucket(req),
+      "POST /storage/bucket/file/exists": (req) => this.#fileExists(req),
+      "POST /storage/bucket/file/get": (req) =>
+        clone(this.#findFile(req.body?.bucket, req.body?.file)),
+      "POST /storage/bucket/file/make-public": (req) =>
+        this.#updateFile(req, { isPublic: true }),
+      "POST /storage/bucket/file/make-private": (req) =>
+        this.#updateFile(req, { isPublic: false }),
+      "POST /storage/bucket/file/download": (req) => this.#downloadFile(req),
+      "POST /storage/bucket/file/rename": (req) =>
+        this.#updateFile(req, { fileName: req.body?.newName }),
+      "POST /storage/bucket/file/duplicate": (req) => this.#copyFile(req),
+      "POST /storage/bucket/file/delete": (req) => this.#deleteFile(req),
+      "POST /storage/bucket/file/replace-formdata": (req) =>
+        this.#replaceFile(req),
+      "POST /storage/bucket/file/replace-object": (req) =>
+        this.#replaceFile(req),
+      "POST /storage/bucket/file/move": (req) => this.#moveFile(req),
+      "POST /storage/bucket/file/copy": (req) => this.#copyFile(req),
+      "POST /storage/bucket/file/add-tags": (req) =>
+        this.#updateFileTags(req, true),
+      "POST /storage/bucket/file/remove-tags": (req) =>
+        this.#updateFileTags(req, false),
+      "POST /storage/bucket/file/update": (req) =>
+        this.#updateFile(req, {
+          fileName: req.body?.newName,
+          isPublic: req.body?.isPublic,
+          tags: req.body?.tags,
+        }),
+    };
+
+    const map = new Map<string, RouteHandler>();
+    for (const route of Object.keys(routes)) {
+      const [method, path] = route.split(" ");
+      map.set(`${method} ${API_PATH}${path}`, routes[route]);
+    }
+
+    return map;
+  }
+
+  /**
+   * Throws a `validation_error` if the value is not specified.
+   * @private
+   * @param {string} fieldName The name of the required field
+   * @param {any} value The value of the field
+   */
+  #checkRequired(fieldName: string, value: any) {
+    if (value === undefined || value === null || value === "")
+      throw new ClientError(
+        "validation_error",
+        `${fieldName} is a required parameter, cannot be left empty`
+      );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Database
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Returns the top-level objects of the model, creates the model if it does not exist.
+   * @private
+   * @param {string} modelName The name of the top-level model
+   * @returns Returns the objects of the model
+   */
+  #getModel(modelName: string): KeyValuePair[] {
+    let objects = this.#models.get(modelName);
+    if (!objects) {
+      objects = [];
+      this.#models.set(modelName, objects);
+    }
+
+    return objects;
+  }
+
+  /**
+   * Returns the object entries of the model. If the model name is in dot-notation (e.g., `users.addresses`), returns the sub-model objects of all top-level objects.
+   * @private
+   * @param {string} modelName The name of the model
+   * @returns Returns the object entries
+   */
+  #getEntries(modelName: string): DBEntry[] {
+    this.#checkRequired("model", modelName);
+    const [topName, ...fields] = modelName.split(".");
+    const objects = this.#getModel(topName);
+    let entries: DBEntry[] = objects.map((object) => ({
+      object,
+      top: object,
+      remove: () => removeItem(objects, object),
+    }));
+
+    for (const field of fields) {
+      const children: DBEntry[] = [];
+      for (const entry of entries) {
+        const value = entry.object[field];
+        if (Array.isArray(value)) {
+          for (const child of value)
+            children.push({
+              object: child,
+              top: entry.top,
+              remove: () => removeItem(value, child),
+            });
+        } else if (value && typeof value === "object") {
+          children.push({
+            object: value,
+            top: entry.top,
+            remove: () => (entry.object[field] = null),
+          });
+        }
+      }
+      entries = children;
+    }
+
+    return entries;
+  }
+
+  /**
+   * Returns the object entry with the specified id.
+   * @private
+   * @param {string} modelName The name of the model
+   * @param {string} id The id of the object
+   * @returns Returns the object entry or `undefined` if not found
+   */
+  #findEntry(modelName: string, id: string): DBEntry | undefined {
+    return this.#getEntries(modelName).find((entry) => entry.object._id === id);
+  }
+
+  /**
+   * Creates a new object with the system managed fields.
+   * @private
+   * @param {KeyValuePair} values The field values of the object
+   * @param {string} [parentId] The id of the parent object for sub-model objects
+   * @param {boolean} [keepDates] Whether to keep the `createdAt` and `updatedAt` values if specified
+   * @returns Returns the new object
+   */
+  #createObject(
+    values: KeyValuePair,
+    parentId?: string,
+    keepDates: boolean = false
+  ): KeyValuePair {
+    const now = new Date().toISOString();
+    const object: KeyValuePair = { _id: values?._id ?? createId() };
+    if (parentId) object._parent = parentId;
+
+    return {
+      ...object,
+      ...clone(values),
+      ...object,
+      createdAt: keepDates ? values?.createdAt ?? now : now,
+      updatedAt: keepDates ? values?.updatedAt ?? now : now,
+    };
+  }
+
+  /**
+   * Runs the filter query and sorts the matching objects.
+   * @private
+   * @param {string} modelName The name of the model
+   * @param {DBAction} query The query of the request
+   * @returns Returns the matching object entries
+   */
+  #runQuery(modelName: string, query: DBAction | null): DBEntry[] {
+    let entries = this.#getEntries(modelName);
+    if (query?.expression) {
+      const isMatch = compileFilter(query.expression);
+      entries = entries.filter((entry) => isMatch(entry.object));
+    }
+
+    return sortItems(entries, query?.sort, (entry) => entry.object);
+  }
+
+  /**
+   * Returns the copy of the object, which includes the looked up objects and excludes the omitted fields.
+   * @private
+   * @param {KeyValuePair} object The database object
+   * @param {any[]} lookups The simple or complex lookups
+   * @param {string[]} omit The fields to omit
+   * @returns Returns the output object
+   */
+  #project(
+    object: KeyValuePair,
+    lookups?: any[] | null,
+    omit?: string[] | null
+  ): KeyValuePair {
+    const output = clone(object);
+    for (const lookup of lookups ?? []) {
+      if (lookup?.modelName) {
+        // Complex lookup, the query can access the looked up object fields using the 'lookup.' prefix
+        const isMatch = compileFilter(lookup.query);
+        const match = this.#getEntries(lookup.modelName).find((entry) =>
+          isMatch({ ...object, lookup: entry.object })
+        );
+        output[lookup.name] = match ? clone(match.object) : null;
+      } else if (lookup?.field) {
+        // Simple lookup, the field value is the id of the referenced top-level object
+        const id = object[lookup.field];
+        for (const objects of Array.from(this.#models.values())) {
+          const match = objects.find((entry) => entry._id === id);
+          if (match) {
+            output[lookup.field] = clone(match);
+            break;
+          }
+        }
+      }
+    }
+
+    for (const field of omit ?? []) deleteFieldValue(output, field);
+    return output;
+  }
+
+  /**
+   * Returns the paginated list of objects. If count info is requested, returns an object which includes the count information and the list of objects.
+   * @private
+   * @param {DBEntry[]} entries The object entries
+   * @param {DBAction} query The query of the request
+   * @param {boolean} returnCountInfo Whether to return the count information or not
+   * @returns Returns the list of objects or the count information and the list of objects
+   */
+  #toListResult(
+    entries: DBEntry[],
+    query: DBAction | null,
+    returnCountInfo: boolean
+  ) {
+    const { items, countInfo } = paginate(entries, query?.page, query?.limit);
+    const result = items.map((entry) =>
+      this.#project(entry.object, query?.lookups, query?.omit)
+    );
+
+    return returnCountInfo ? { result, countInfo } : result;
+  }
+
+  /**
+   * Updates the object either with the new field values or the field update instructions of the request.
+   * @private
+   * @param {DBEntry} entry The object entry to update
+   * @param {MockRequest} request The update request
+   */
+  #updateEntry(entry: DBEntry, request: MockRequest) {
+    const { values, updates } = request.body;
+    if (updates) applyFieldUpdates(entry.object, updates);
+    else {
+      for (const field of Object.keys(values ?? {})) {
+        if (!SYSTEM_FIELDS.includes(field))
+          entry.object[field] = clone(values[field]);
+      }
+    }
+
+    const now = new Date().toISOString();
+    entry.object.updatedAt = now;
+    entry.top.updatedAt = now;
+  }
+
+  /**
+   * Creates a sub-model object and sets it as the field value of its parent object or appends it to the object-list field of its parent object.
+   * @private
+   * @param {string} modelName The name of the sub-model in dot-notation (e.g., `users.address`)
+   * @param {string} parentId The id of the parent object
+   * @param {KeyValuePair} values The field values of the sub-model object
+   * @param {boolean} isAppend Whether to append the object to an object-list field or set the value of an object field
+   * @returns Returns the created object and its top-level object
+   */
+  #createChild(
+    modelName: string,
+    parentId: string,
+    values: KeyValuePair,
+    isAppend: boolean
+  ): { object: KeyValuePair; top: KeyValuePair } {
+    this.#checkRequired("parentId", parentId);
+    const index = modelName.lastIndexOf(".");
+    if (index < 0)
+      throw new ClientError(
+        "validation_error",
+        `'${modelName}' is not a sub-model, sub-model names need to be in dot-notation (e.g., users.address)`
+      );
+
+    const parent = this.#findEntry(modelName.substring(0, index), parentId);
+    if (!parent)
+      throw new ClientError(
+        "not_found",
+        `Cannot find the parent object with id '${parentId}'`
+      );
+
+    const field = modelName.substring(index + 1);
+    const object = this.#createObject(values, parentId);
+    if (isAppend)
+      parent.object[field] = [
+        ...(Array.isArray(parent.object[field]) ? parent.object[field] : []),
+        object,
+      ];
+    else parent.object[field] = object;
+
+    parent.top.updatedAt = object.updatedAt;
+    return { object, top: parent.top };
+  }
+
+  /**
+   * Handles the create request of the query builder.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the created object or objects
+   */
+  #dbCreate(request: MockRequest) {
+    const { values, model } = request.body;
+    this.#checkRequired("values", values);
+    if (String(model).includes("."))
+      throw new ClientError(
+        "validation_error",
+        "Sub-model objects cannot be created, use set or append instead"
+      );
+
+    const list = (Array.isArray(values) ? values : [values]).map((entry) =>
+      this.#createObject(entry)
+    );
+    this.#getModel(model).push(...list);
+    return Array.isArray(values) ? list : list[0];
+  }
+
+  /**
+   * Handles the set and append requests of the query builder.
+   * @private
+   * @param {MockRequest} request The request
+   * @param {boolean} isAppend Whether the request is an append request or not
+   * @returns Returns the created object(s) or the top-level object
+   */
+  #dbSet(request: MockRequest, isAppend: boolean) {
+    const { values, parentId, returnTop, model } = request.body;
+    this.#checkRequired("values", values);
+    const list = Array.isArray(values) ? values : [values];
+    const created = list.map((entry) =>
+      this.#createChild(model, parentId, entry, isAppend)
+    );
+
+    if (returnTop) return created[0]?.top ?? null;
+    return Array.isArray(values)
+      ? created.map((entry) => entry.object)
+      : created[0].object;
+  }
+
+  /**
+   * Handles the get list request of the query builder.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the matching objects
+   */
+  #dbGetList(request: MockRequest) {
+    const { query, returnCountInfo, model } = request.body;
+    return this.#toListResult(
+      this.#runQuery(model, query),
+      query,
+      returnCountInfo
+    );
+  }
+
+  /**
+   * Handles the get single request of the query builder.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the first matching object or `null` if there is no match
+   */
+  #dbGetSingle(request: MockRequest) {
+    const { query, model } = request.body;
+    const [entry] = this.#runQuery(model, query);
+    return entry
+      ? this.#project(entry.object, query?.lookups, query?.omit)
+      : null;
+  }
+
+  /**
+   * Handles the get random request of the query builder.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the randomly selected matching objects
+   */
+  #dbGetRandom(request: MockRequest) {
+    const { query, count, model } = request.body;
+    const entries = this.#runQuery(model, query);
+    for (let i = entries.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [entries[i], entries[j]] = [entries[j], entries[i]];
+    }
+
+    return entries
+      .slice(0, count)
+      .map((entry) => this.#project(entry.object, query?.lookups, query?.omit));
+  }
+
+  /**
+   * Handles the compute request of the query builder. Groups the matching objects and runs the computations for each group.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the computation results of the groups
+   */
+  #dbCompute(request: MockRequest) {
+    const { query, computations, model } = request.body;
+    const groups = new Map<string, { groupby: any; objects: KeyValuePair[] }>();
+    // The ungrouped query has a single group even if no object matches
+    if (!query?.group) groups.set("null", { groupby: undefined, objects: [] });
+
+    for (const { object } of this.#runQuery(model, query)) {
+      let groupby: any;
+      if (Array.isArray(query?.group)) {
+        groupby = {};
+        for (const field of query.group)
+          groupby[field] = getFieldValue(object, field) ?? null;
+      } else if (query?.group)
+        groupby = evaluateExpression(query.group, object) ?? null;
+
+      const key = JSON.stringify(groupby ?? null);
+      const group = groups.get(key) ?? { groupby, objects: [] };
+      group.objects.push(object);
+      groups.set(key, group);
+    }
+
+    let results = Array.from(groups.values()).map(({ groupby, objects }) => {
+      const result: KeyValuePair = {};
+      if (query?.group) result.groupby = groupby;
+      for (const computation of computations as GroupComputation[])
+        result[computation.name] = this.#compute(computation, objects);
+      return result;
+    });
+
+    for (const computation of computations as GroupComputation[]) {
+      if (computation.sort === "asc" || computation.sort === "desc")
+        results = sortItems(
+          results,
+          [{ field: computation.name, direction: computation.sort }],
+          (result) => result
+        );
+    }
+
+    return paginate(results, query?.page, query?.limit).items;
+  }
+
+  /**
+   * Runs the computation on the objects of a group.
+   * @private
+   * @param {GroupComputation} computation The computation instruction
+   * @param {KeyValuePair[]} objects The objects of the group
+   * @returns Returns the computed value
+   */
+  #compute(computation: GroupComputation, objects: KeyValuePair[]) {
+    const { type, expression } = computation;
+    if (type === "count") return objects.length;
+    this.#checkRequired("expression", expression);
+
+    const values = objects.map((object) =>
+      evaluateExpression(String(expression), object)
+    );
+    if (type === "countif") return values.filter((value) => !!value).length;
+
+    const numbers = values.filter((value) => typeof value === "number");
+    const sum = numbers.reduce((total, value) => total + value, 0);
+    switch (type) {
+      case "sum":
+        return sum;
+      case "avg":
+        return numbers.length ? sum / numbers.length : null;
+      case "min":
+        return numbers.length ? Math.min(...numbers) : null;
+      case "max":
+        return numbers.length ? Math.max(...numbers) : null;
+      default:
+        throw new ClientError(
+          "validation_error",
+          `Unknown computation type '${type}'`
+        );
+    }
+  }
+
+  /**
+   * Handles the update and update fields requests of the query builder.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the update info
+   */
+  #dbUpdate(request: MockRequest) {
+    const { query, model } = request.body;
+    const entries = this.#runQuery(model, query);
+    for (const entry of entries) this.#updateEntry(entry, request);
+    return { totalMatch: entries.length, updated: entries.length };
+  }
+
+  /**
+   * Handles the delete request of the query builder.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the delete info
+   */
+  #dbDelete(request: MockRequest) {
+    const { query, model } = request.body;
+    const entries = this.#runQuery(model, query);
+    for (const entry of entries) entry.remove();
+    return { totalMatch: entries.length, deleted: entries.length };
+  }
+
+  /**
+   * Handles the text search request of the query builder. Matches the objects that contain the search text in any of their text fields.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the matching objects
+   */
+  #dbSearchText(request: MockRequest) {
+    const { query, returnCountInfo, text, model } = request.body;
+    this.#checkRequired("text", text);
+    const search = String(text).toLowerCase();
+    return this.#toListResult(
+      this.#runQuery(model, query).filter((entry) =>
+        containsText(entry.object, search)
+      ),
+      query,
+      returnCountInfo
+    );
+  }
+
+  /**
+   * Handles the fuzzy search request of the query builder. Matches the objects whose field value contains the search text, tolerating small typos.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the matching objects
+   */
+  #dbSearchFuzzy(request: MockRequest) {
+    const { query, text, fieldName, model } = request.body;
+    this.#checkRequired("fieldName", fieldName);
+    this.#checkRequired("text", text);
+    return this.#toListResult(
+      this.#runQuery(model, query).filter((entry) =>
+        isFuzzyMatch(getFieldValue(entry.object, fieldName), text)
+      ),
+      query,
+      false
+    );
+  }
+
+  /**
+   * Handles the database stats request.
+   * @private
+   * @returns Returns the number of objects of each model
+   */
+  #dbStats() {
+    const models: KeyValuePair = {};
+    let count = 0;
+    this.#models.forEach((objects, name) => {
+      models[name] = objects.length;
+      count += objects.length;
+    });
+
+    return { count, models };
+  }
+
+  /**
+   * Handles the get request of a database object.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the object or `null` if not found
+   */
+  #objectGet(request: MockRequest) {
+    const { id, lookups, model } = request.body;
+    this.#checkRequired("id", id);
+    const entry = this.#findEntry(model, id);
+    return entry ? this.#project(entry.object, lookups) : null;
+  }
+
+  /**
+   * Handles the create request of a database object.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the created object
+   */
+  #objectCreate(request: MockRequest) {
+    return this.#dbCreate({
+      ...request,
+      body: { ...request.body, values: request.body?.values ?? {} },
+    });
+  }
+
+  /**
+   * Handles the set and append requests of a database object.
+   * @private
+   * @param {MockRequest} request The request
+   * @param {boolean} isAppend Whether the request is an append request or not
+   * @returns Returns the created object or its top-level object
+   */
+  #objectSet(request: MockRequest, isAppend: boolean) {
+    const { values, id, parentId, options, model } = request.body;
+    const { object, top } = this.#createChild(
+      model,
+      parentId,
+      id ? { ...values, _id: id } : values,
+      isAppend
+    );
+
+    return options?.returnTop ? top : object;
+  }
+
+  /**
+   * Handles the delete request of a database object.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the top-level object if requested, `null` otherwise
+   */
+  #objectDelete(request: MockRequest) {
+    const { id, options, model } = request.body;
+    this.#checkRequired("id", id);
+    const entry = this.#findEntry(model, id);
+    if (!entry) return null;
+
+    entry.remove();
+    if (entry.top === entry.object || !options?.returnTop) return null;
+    entry.top.updatedAt = new Date().toISOString();
+    return entry.top;
+  }
+
+  /**
+   * Handles the update and update fields requests of a database object.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the updated object, its top-level object or `null` if not found
+   */
+  #objectUpdate(request: MockRequest) {
+    const { id, options, model } = request.body;
+    this.#checkRequired("id", id);
+    const entry = this.#findEntry(model, id);
+    if (!entry) return null;
+
+    this.#updateEntry(entry, request);
+    return options?.returnTop ? entry.top : entry.object;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Cache
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Returns the cache entry of the key, removes the entry if it has expired.
+   * @private
+   * @param {string} key The cache key
+   * @returns Returns the cache entry or `undefined` if not found
+   */
+  #getCacheEntry(key: string) {
+    const entry = this.#cache.get(key);
+    if (entry?.expiresAt && entry.expiresAt <= Date.now()) {
+      this.#cache.delete(key);
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Returns the expiry time of the time-to-live duration.
+   * @private
+   * @param {number} ttl The time-to-live duration in seconds
+   * @returns Returns the expiry time in milliseconds or `null` if the ttl is not specified
+   */
+  #getExpiry(ttl?: number): number | null {
+    return ttl && ttl > 0 ? Date.now() + ttl * 1000 : null;
+  }
+
+  /**
+   * Handles the cache get request.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the cached value or `null` if not found
+   */
+  #cacheGet(request: MockRequest) {
+    this.#checkRequired("key", request.query.key);
+    return this.#getCacheEntry(request.query.key)?.value ?? null;
+  }
+
+  /**
+   * Handles the cache set request.
+   * @private
+   * @param {MockRequest} request The request
+   */
+  #cacheSet(request: MockRequest) {
+    const { key, value, ttl } = request.body;
+    this.#checkRequired("key", key);
+    this.#cache.set(key, { value, expiresAt: this.#getExpiry(ttl) });
+  }
+
+  /**
+   * Handles the cache delete request.
+   * @private
+   * @param {MockRequest} request The request
+   */
+  #cacheDelete(request: MockRequest) {
+    for (const key of request.body?.keys ?? []) this.#cache.delete(key);
+  }
+
+  /**
+   * Handles the cache increment and decrement requests.
+   * @private
+   * @param {MockRequest} request The request
+   * @param {number} sign 1 to increment, -1 to decrement the value
+   * @returns Returns the updated value
+   */
+  #cacheIncrement(request: MockRequest, sign: number) {
+    const { key, increment, decrement, ttl } = request.body;
+    this.#checkRequired("key", key);
+    const entry = this.#getCacheEntry(key);
+    if (entry && typeof entry.value !== "number")
+      throw new ClientError(
+        "validation_error",
+        `The cached value of '${key}' is not a number`
+      );
+
+    const value = (entry?.value ?? 0) + sign * (increment ?? decrement ?? 1);
+    this.#cache.set(key, {
+      value,
+      expiresAt: ttl ? this.#getExpiry(ttl) : entry?.expiresAt ?? null,
+    });
+    return value;
+  }
+
+  /**
+   * Handles the cache expire request.
+   * @private
+   * @param {MockRequest} request The request
+   */
+  #cacheExpire(request: MockRequest) {
+    const { key, ttl } = request.body;
+    const entry = this.#getCacheEntry(key);
+    if (entry) entry.expiresAt = this.#getExpiry(ttl);
+  }
+
+  /**
+   * Handles the cache stats request.
+   * @private
+   * @returns Returns the number of cached keys
+   */
+  #cacheStats() {
+    const keys = Array.from(this.#cache.keys()).filter((key) =>
+      this.#getCacheEntry(key)
+    );
+    return { count: keys.length };
+  }
+
+  /**
+   * Handles the list keys request of the cache. All matching keys are returned in a single page.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the matching keys and their time-to-live durations
+   */
+  #cacheListKeys(request: MockRequest) {
+    const pattern = globToRegExp(request.body?.pattern || "*");
+    const data = Array.from(this.#cache.keys())
+      .filter((key) => pattern.test(key) && this.#getCacheEntry(key))
+      .map((key) => {
+        const expiresAt = this.#cache.get(key)?.expiresAt;
+        return {
+          key,
+          ttl: expiresAt ? Math.ceil((expiresAt - Date.now()) / 1000) : -1,
+        };
+      });
+
+    return { data, next: null };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Queue and task
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Handles the submit message request. The message is processed right away, so that its status becomes `completed` in the next status request.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the message info
+   */
+  #submitMessage(request: MockRequest) {
+    const { queueNameOrId, message } = request.body;
+    this.#checkRequired("queueNameOrId", queueNameOrId);
+    const entry: MockMessage = {
+      messageId: createId(),
+      queueId: queueNameOrId,
+      queueName: queueNameOrId,
+      submittedAt: new Date().toISOString(),
+      startedAt: null,
+      completedAt: null,
+      status: "pending",
+      errors: null,
+      message,
+    };
+
+    this.#messages.push(entry);
+    const { message: submitted, ...info } = entry;
+    return info;
+  }
+
+  /**
+   * Handles the message status request.
+   * @private
+   * @param {string} messageId The id of the message
+   * @returns Returns the message info or `null` if not found
+   */
+  #getMessageStatus(messageId: string) {
+    const entry = this.#messages.find((item) => item.messageId === messageId);
+    if (!entry) return null;
+
+    if (entry.status === "pending") {
+      entry.startedAt = entry.completedAt = new Date().toISOString();
+      entry.status = "completed";
+    }
+
+    const { message, ...info } = entry;
+    return info;
+  }
+
+  /**
+   * Handles the run task request. The task is executed right away, so that its status becomes `completed` in the next status request.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the task info
+   */
+  #runTask(request: MockRequest) {
+    const { taskNameOrId } = request.body;
+    this.#checkRequired("taskNameOrId", taskNameOrId);
+    const info: MockTask = {
+      taskId: createId(),
+      scheduledTaskId: taskNameOrId,
+      scheduledTaskName: taskNameOrId,
+      triggeredAt: new Date().toISOString(),
+      startedAt: null,
+      completedAt: null,
+      status: "pending",
+      errors: null,
+    };
+
+    this.#tasks.push(info);
+    return { ...info };
+  }
+
+  /**
+   * Handles the task status request.
+   * @private
+   * @param {string} taskId The id of the task
+   * @returns Returns the task info or `null` if not found
+   */
+  #getTaskStatus(taskId: string) {
+    const info = this.#tasks.find((item) => item.taskId === taskId);
+    if (!info) return null;
+
+    if (info.status === "pending") {
+      info.startedAt = info.completedAt = new Date().toISOString();
+      info.status = "completed";
+    }
+
+    return info;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Authentication
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Returns the user data without the password.
+   * @private
+   * @param {KeyValuePair} user The user
+   * @returns Returns the copy of the user data
+   */
+  #toUserData(user: KeyValuePair) {
+    const { password, ...data } = clone(user);
+    return data;
+  }
+
+  /**
+   * Creates a new session for the user and returns the user and session data.
+   * @private
+   * @param {KeyValuePair} user The user
+   * @returns Returns the user and session data
+   */
+  #createSession(user: KeyValuePair) {
+    const session: Session = {
+      userId: user._id,
+      token: createId() + createId(),
+      creationDtm: new Date().toISOString(),
+      accessGroupKeys: [],
+      userAgent: clone(DEFAULT_USER_AGENT),
+    };
+
+    user.lastLoginAt = session.creationDtm;
+    this.#sessions.push(session);
+    return { user: this.#toUserData(user), session };
+  }
+
+  /**
+   * Returns the user and session of the request.
+   * @private
+   * @param {MockRequest} request The request
+   * @throws Throws an error if the session token is missing or invalid
+   * @returns Returns the user and session
+   */
+  #requireSession(request: MockRequest) {
+    const hasToken = Object.keys(request.headers).some(
+      (key) => key.toLowerCase() === "session"
+    );
+    if (!hasToken)
+      throw new ClientError(
+        "missing_session_token",
+        "Session token is missing in the request headers"
+      );
+
+    const user = this.#users.find(
+      (entry) => entry._id === request.session?.userId
+    );
+    if (!request.session || !user)
+      throw new ClientError(
+        "invalid_session_token",
+        "Session token is not valid"
+      );
+
+    return { session: request.session, user };
+  }
+
+  /**
+   * Returns the user with the specified email or phone, throws an error if not found.
+   * @private
+   * @param {'email' | 'phone'} field The contact field
+   * @param {string} value The email address or phone number
+   * @returns Returns the user
+   */
+  #findUser(field: "email" | "phone", value: string) {
+    const user = this.#users.find((entry) => entry[field] === value);
+    if (!user)
+      throw new ClientError(
+        "not_found",
+        `Cannot find the user with ${field} '${value}'`
+      );
+
+    return user;
+  }
+
+  /**
+   * Validates the verification code or access token sent to the email address or phone number and removes it.
+   * @private
+   * @param {string} emailOrPhone The email address or phone number
+   * @param {string} code The verification code or access token
+   */
+  #checkCode(emailOrPhone: string, code: string) {
+    if (!code || this.#codes.get(emailOrPhone) !== code)
+      throw new ClientError(
+        "invalid_code",
+        "The verification code or access token is not valid"
+      );
+
+    this.#codes.delete(emailOrPhone);
+  }
+
+  /**
+   * Handles the sign up requests. Email and phone verification is disabled in the mock backend, so the user is signed in right away.
+   * @private
+   * @param {MockRequest} request The request
+   * @param {'email' | 'phone'} field The contact field used for sign up
+   * @returns Returns the user and session data
+   */
+  #signUp(request: MockRequest, field: "email" | "phone") {
+    const { password, nameOrUserData } = request.body;
+    const contact = request.body[field];
+    this.#checkRequired(field, contact);
+    this.#checkRequired("password", password);
+    if (this.#users.some((entry) => entry[field] === contact))
+      throw new ClientError(
+        `${field}_not_unique`,
+        `A user with ${field} '${contact}' already exists`
+      );
+
+    const _id = createId();
+    const user: KeyValuePair = {
+      ...(typeof nameOrUserData === "object" ? clone(nameOrUserData) : {}),
+      _id,
+      provider: "altogic",
+      providerUserId: _id,
+      [field]: contact,
+      password,
+      signUpAt: new Date().toISOString(),
+    };
+    if (typeof nameOrUserData === "string") user.name = nameOrUserData;
+
+    this.#users.push(user);
+    return this.#createSession(user);
+  }
+
+  /**
+   * Handles the sign in with email or phone and password requests.
+   * @private
+   * @param {MockRequest} request The request
+   * @param {'email' | 'phone'} field The contact field used for sign in
+   * @returns Returns the user and session data
+   */
+  #signIn(request: MockRequest, field: "email" | "phone") {
+    const { password } = request.body;
+    const user = this.#users.find(
+      (entry) =>
+        entry[field] === request.body[field] && entry.password === password
+    );
+    if (!user)
+      throw new ClientError(
+        "invalid_credentials",
+        `Invalid ${field} or password`
+      );
+
+    return this.#createSession(user);
+  }
+
+  /**
+   * Handles the sign in with code request.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the user and session data
+   */
+  #signInWithCode(request: MockRequest) {
+    const { phone, code } = request.query;
+    this.#checkCode(phone, code);
+    return this.#createSession(this.#findUser("phone", phone));
+  }
+
+  /**
+   * Handles the verify phone request.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the user and session data
+   */
+  #verifyPhone(request: MockRequest) {
+    const { phone, code } = request.query;
+    this.#checkCode(phone, code);
+    return this.#createSession(this.#findUser("phone", phone));
+  }
+
+  /**
+   * Handles the sign out request. Signs out the specified session or the session of the request.
+   * @private
+   * @param {MockRequest} request The request
+   */
+  #signOut(request: MockRequest) {
+    const { session } = this.#requireSession(request);
+    const token = request.body?.token ?? session.token;
+    this.#sessions = this.#sessions.filter((entry) => entry.token !== token);
+  }
+
+  /**
+   * Handles the sign out from all sessions requests.
+   * @private
+   * @param {MockRequest} request The request
+   * @param {boolean} exceptCurrent Whether to keep the session of the request or not
+   */
+  #signOutAll(request: MockRequest, exceptCurrent: boolean) {
+    const { session } = this.#requireSession(request);
+    this.#sessions = this.#sessions.filter(
+      (entry) =>
+        entry.userId !== session.userId ||
+        (exceptCurrent && entry.token === session.token)
+    );
+  }
+
+  /**
+   * Handles the get all sessions request.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the active sessions of the user
+   */
+  #getSessions(request: MockRequest) {
+    const { session } = this.#requireSession(request);
+    return this.#sessions.filter((entry) => entry.userId === session.userId);
+  }
+
+  /**
+   * Handles the get user request.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the user data of the session
+   */
+  #getUser(request: MockRequest) {
+    return this.#toUserData(this.#requireSession(request).user);
+  }
+
+  /**
+   * Handles the auth grant request, which signs in the user with the access token sent to the email address of the user.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the user and session data
+   */
+  #getAuthGrant(request: MockRequest) {
+    const key = request.query.key;
+    const email = Array.from(this.#codes.keys()).find(
+      (entry) => this.#codes.get(entry) === key
+    );
+    this.#checkCode(email ?? "", key);
+    return this.#createSession(this.#findUser("email", email!));
+  }
+
+  /**
+   * Handles the change password request.
+   * @private
+   * @param {MockRequest} request The request
+   */
+  #changePassword(request: MockRequest) {
+    const { user } = this.#requireSession(request);
+    const { newPassword, oldPassword } = request.body;
+    this.#checkRequired("newPassword", newPassword);
+    if (user.password !== oldPassword)
+      throw new ClientError(
+        "invalid_credentials",
+        "The current password is not valid"
+      );
+
+    user.password = newPassword;
+  }
+
+  /**
+   * Handles the change email and change phone requests.
+   * @private
+   * @param {MockRequest} request The request
+   * @param {'email' | 'phone'} field The contact field to change
+   * @returns Returns the updated user data
+   */
+  #changeContact(request: MockRequest, field: "email" | "phone") {
+    const { user } = this.#requireSession(request);
+    const { currentPassword } = request.body;
+    const value =
+      field === "email" ? request.body.newEmail : request.body.newPhone;
+    this.#checkRequired(field, value);
+    if (user.password !== currentPassword)
+      throw new ClientError(
+        "invalid_credentials",
+        "The current password is not valid"
+      );
+    if (this.#users.some((entry) => entry !== user && entry[field] === value))
+      throw new ClientError(
+        `${field}_not_unique`,
+        `A user with ${field} '${value}' already exists`
+      );
+
+    user[field] = value;
+    return this.#toUserData(user);
+  }
+
+  /**
+   * Creates a verification code or access token for the email address or phone number, which can be retrieved using the {@link MockBackend.getVerificationCode} method.
+   * @private
+   * @param {string} emailOrPhone The email address or phone number
+   * @param {boolean} isPhone Whether to create a 6 digit code for a phone number or an access token for an email address
+   */
+  #sendCode(emailOrPhone: string, isPhone: boolean) {
+    this.#checkRequired(isPhone ? "phone" : "email", emailOrPhone);
+    this.#codes.set(
+      emailOrPhone,
+      isPhone
+        ? String(Math.floor(100000 + Math.random() * 900000))
+        : createId() + createId()
+    );
+  }
+
+  /**
+   * Handles the reset password requests.
+   * @private
+   * @param {MockRequest} request The request
+   * @param {'email' | 'phone'} field The contact field where the access token or code is sent to
+   */
+  #resetPassword(request: MockRequest, field: "email" | "phone") {
+    const { newPassword } = request.body;
+    this.#checkRequired("newPassword", newPassword);
+
+    let contact: string | undefined = request.query.phone;
+    const code = field === "email" ? request.query.key : request.query.code;
+    if (field === "email")
+      contact = Array.from(this.#codes.keys()).find(
+        (entry) => this.#codes.get(entry) === code
+      );
+
+    this.#checkCode(contact ?? "", code);
+    this.#findUser(field, contact!).password = newPassword;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Storage
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Returns the bucket with the specified name or id, throws an error if not found.
+   * @private
+   * @param {string} nameOrId The name or id of the bucket
+   * @returns Returns the bucket
+   */
+  #findBucket(nameOrId: string): KeyValuePair {
+    const bucket = this.#buckets.find(
+      (entry) => entry.name === nameOrId || entry._id === nameOrId
+    );
+    if (!bucket)
+      throw new ClientError(
+        "not_found",
+        `Cannot find the bucket '${nameOrId}'`
+      );
+
+    return bucket;
+  }
+
+  /**
+   * Returns the file with the specified name or id in the bucket, throws an error if not found.
+   * @private
+   * @param {string} bucketNameOrId The name or id of the bucket
+   * @param {string} nameOrId The name or id of the file
+   * @returns Returns the file metadata
+   */
+  #findFile(bucketNameOrId: string, nameOrId: string): KeyValuePair {
+    const bucket = this.#findBucket(bucketNameOrId);
+    const file = this.#files.find(
+      (entry) =>
+        entry.bucketId === bucket._id &&
+        (entry.fileName === nameOrId || entry._id === nameOrId)
+    );
+    if (!file)
+      throw new ClientError("not_found", `Cannot find the file '${nameOrId}'`);
+
+    return file;
+  }
+
+  /**
+   * Returns a file name that is unique in the bucket by adding a number suffix if needed.
+   * @private
+   * @param {KeyValuePair} bucket The bucket
+   * @param {string} fileName The file name
+   * @param {KeyValuePair} [excludedFile] The file that will be excluded while checking the uniqueness
+   * @returns Returns the unique file name
+   */
+  #getUniqueFileName(
+    bucket: KeyValuePair,
+    fileName: string,
+    excludedFile?: KeyValuePair
+  ): string {
+    const exists = (value: string) =>
+      this.#files.some(
+        (entry) =>
+          entry !== excludedFile &&
+          entry.bucketId === bucket._id &&
+          entry.fileName === value
+      );
+
+    const index = fileName.lastIndexOf(".");
+    const base = index > 0 ? fileName.substring(0, index) : fileName;
+    const extension = index > 0 ? fileName.substring(index) : "";
+    let name = fileName;
+    for (let counter = 1; exists(name); counter++)
+      name = `${base}-${counter}${extension}`;
+
+    return name;
+  }
+
+  /**
+   * Returns the paginated and sorted list of storage items matching the filter expression.
+   * @private
+   * @param {KeyValuePair[]} items The buckets or files
+   * @param {string} expression The filter expression
+   * @param {KeyValuePair} options The pagination and sorting options
+   * @returns Returns the list of items or the count information and the list of items
+   */
+  #toStorageListResult(
+    items: KeyValuePair[],
+    expression: string | null,
+    options: KeyValuePair | null
+  ) {
+    let list = items;
+    if (expression) list = list.filter(compileFilter(expression));
+    list = sortItems(
+      list,
+      options?.sort ? [options.sort] : null,
+      (item) => item
+    );
+
+    const { items: result, countInfo } = paginate(
+      clone(list),
+      options?.page,
+      options?.limit
+    );
+    return options?.returnCountInfo ? { result, countInfo } : result;
+  }
+
+  /**
+   * Reads the file contents of the upload request.
+   * @private
+   * @param {MockRequest} request The upload request
+   * @returns Returns the file contents and mime type
+   */
+  async #readFileBody(
+    request: MockRequest
+  ): Promise<{ content: Uint8Array; mimeType: string }> {
+    const { body, query } = request;
+    const contentType =
+      query.options?.contentType ?? "text/plain;charset=UTF-8";
+    const file =
+      typeof FormData !== "undefined" && body instanceof FormData
+        ? body.get("file")
+        : body;
+
+    if (
+      file &&
+      typeof file === "object" &&
+      typeof file.arrayBuffer === "function"
+    )
+      return {
+        content: new Uint8Array(await file.arrayBuffer()),
+        mimeType: file.type || contentType,
+      };
+
+    const text = typeof file === "string" ? file : JSON.stringify(file ?? "");
+    return { content: new TextEncoder().encode(text), mimeType: contentType };
+  }
+
+  /**
+   * Handles the create bucket request.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the created bucket
+   */
+  #createBucket(request: MockRequest) {
+    const { name, isPublic, tags } = request.body;
+    this.#checkRequired("name", name);
+    if (this.#buckets.some((entry) => entry.name === name))
+      throw new ClientError(
+        "bucket_not_unique",
+        `A bucket with name '${name}' already exists`
+      );
+
+    const now = new Date().toISOString();
+    const bucket = {
+      _id: createId(),
+      name,
+      isPublic: isPublic ?? true,
+      tags: tags ?? [],
+      userId: request.session?.userId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.#buckets.push(bucket);
+    return bucket;
+  }
+
+  /**
+   * Handles the list buckets request.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the matching buckets
+   */
+  #listBuckets(request: MockRequest) {
+    const { expression, options } = request.body ?? {};
+    return this.#toStorageListResult(this.#buckets, expression, options);
+  }
+
+  /**
+   * Handles the storage stats request.
+   * @private
+   * @returns Returns the number of buckets, files and the file sizes
+   */
+  #storageStats() {
+    const sizes = this.#files.map((file) => file.size);
+    return {
+      buckets: this.#buckets.length,
+      files: sizes.length,
+      totalSize: sizes.reduce((total, size) => total + size, 0),
+      avgSize: sizes.length
+        ? sizes.reduce((total, size) => total + size, 0) / sizes.length
+        : 0,
+      minSize: sizes.length ? Math.min(...sizes) : 0,
+      maxSize: sizes.length ? Math.max(...sizes) : 0,
+    };
+  }
+
+  /**
+   * Handles the list files and search files requests.
+   * @private
+   * @param {MockRequest} request The request
+   * @param {KeyValuePair | null} bucket The bucket whose files are listed, if `null` the files of all buckets are searched
+   * @returns Returns the matching files
+   */
+  #listFiles(request: MockRequest, bucket: KeyValuePair | null) {
+    const { expression, options } = request.body ?? {};
+    return this.#toStorageListResult(
+      this.#files.filter((file) => !bucket || file.bucketId === bucket._id),
+      expression,
+      options
+    );
+  }
+
+  /**
+   * Handles the delete file request, which identifies the file by its public URL.
+   * @private
+   * @param {MockRequest} request The request
+   */
+  #deleteFileByUrl(request: MockRequest) {
+    const { fileUrl } = request.body;
+    this.#checkRequired("fileUrl", fileUrl);
+    const file = this.#files.find((entry) => entry.publicPath === fileUrl);
+    if (!file)
+      throw new ClientError(
+        "not_found",
+        `Cannot find the file with url '${fileUrl}'`
+      );
+
+    removeItem(this.#files, file);
+    this.#contents.delete(file._id);
+  }
+
+  /**
+   * Handles the bucket exists request.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns true if the bucket exists, false otherwise
+   */
+  #bucketExists(request: MockRequest) {
+    const { bucket } = request.body;
+    return this.#buckets.some(
+      (entry) => entry.name === bucket || entry._id === bucket
+    );
+  }
+
+  /**
+   * Handles the get bucket info request.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the bucket info, including the file statistics if detailed info is requested
+   */
+  #getBucket(request: MockRequest) {
+    const bucket = clone(this.#findBucket(request.body.bucket));
+    if (request.body.detailed) {
+      const sizes = this.#files
+        .filter((file) => file.bucketId === bucket._id)
+        .map((file) => file.size);
+      bucket.stats = {
+        objectsCount: sizes.length,
+        objectsTotalSize: sizes.reduce((total, size) => total + size, 0),
+      };
+    }
+
+    return bucket;
+  }
+
+  /**
+   * Handles the empty bucket request.
+   * @private
+   * @param {MockRequest} request The request
+   */
+  #emptyBucket(request: MockRequest) {
+    const bucket = this.#findBucket(request.body.bucket);
+    for (const file of this.#files.filter(
+      (entry) => entry.bucketId === bucket._id
+    )) {
+      removeItem(this.#files, file);
+      this.#contents.delete(file._id);
+    }
+  }
+
+  /**
+   * Handles the rename and update bucket requests.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the updated bucket
+   */
+  #updateBucket(request: MockRequest) {
+    const { newName, isPublic, tags, includeFiles } = request.body;
+    const bucket = this.#findBucket(request.body.bucket);
+    if (newName !== undefined && newName !== bucket.name) {
+      if (bucket.name === "root" || newName === "root")
+        throw new ClientError(
+          "validation_error",
+          "The root bucket cannot be renamed"
+        );
+      if (this.#buckets.some((entry) => entry.name === newName))
+        throw new ClientError(
+          "bucket_not_unique",
+          `A bucket with name '${newName}' already exists`
+        );
+      bucket.name = newName;
+    }
+
+    if (typeof isPublic === "boolean") {
+      bucket.isPublic = isPublic;
+      if (includeFiles)
+        for (const file of this.#files)
+          if (file.bucketId === bucket._id) file.isPublic = isPublic;
+    }
+    if (tags !== undefined) bucket.tags = Array.isArray(tags) ? tags : [tags];
+
+    bucket.updatedAt = new Date().toISOString();
+    return bucket;
+  }
+
+  /**
+   * Handles the delete bucket request.
+   * @private
+   * @param {MockRequest} request The request
+   */
+  #deleteBucket(request: MockRequest) {
+    const bucket = this.#findBucket(request.body.bucket);
+    if (bucket.name === "root")
+      throw new ClientError(
+        "validation_error",
+        "The root bucket cannot be deleted"
+      );
+
+    this.#emptyBucket(request);
+    removeItem(this.#buckets, bucket);
+  }
+
+  /**
+   * Handles the make public and make private requests of a bucket.
+   * @private
+   * @param {MockRequest} request The request
+   * @param {boolean} isPublic The privacy setting
+   * @returns Returns the updated bucket
+   */
+  #setBucketPrivacy(request: MockRequest, isPublic: boolean) {
+    return this.#updateBucket({
+      ...request,
+      body: { ...request.body, isPublic },
+    });
+  }
+
+  /**
+   * Handles the add tags and remove tags requests of a bucket.
+   * @private
+   * @param {MockRequest} request The request
+   * @param {boolean} isAdd Whether to add or remove the tags
+   * @returns Returns the updated bucket
+   */
+  #updateBucketTags(request: MockRequest, isAdd: boolean) {
+    const bucket = this.#findBucket(request.body.bucket);
+    bucket.tags = this.#mergeTags(bucket.tags, request.body.tags, isAdd);
+    bucket.updatedAt = new Date().toISOString();
+    return bucket;
+  }
+
+  /**
+   * Adds the tags to or removes the tags from the current tags.
+   * @private
+   * @param {string[]} current The current tags
+   * @param {string | string[]} tags The tags to add or remove
+   * @param {boolean} isAdd Whether to add or remove the tags
+   * @returns Returns the updated tags
+   */
+  #mergeTags(current: string[], tags: string | string[], isAdd: boolean) {
+    const list = Array.isArray(tags) ? tags : [tags];
+    if (!isAdd) return (current ?? []).filter((tag) => !list.includes(tag));
+    return Array.from(new Set([...(current ?? []), ...list]));
+  }
+
+  /**
+   * Handles the upload file requests.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the metadata of the uploaded file
+   */
+  async #uploadFile(request: MockRequest) {
+    const { bucket: bucketNameOrId, fileName, options } = request.query;
+    this.#checkRequired("fileName", fileName);
+
+    let bucket = this.#buckets.find(
+      (entry) => entry.name === bucketNameOrId || entry._id === bucketNameOrId
+    );
+    if (!bucket && options?.createBucket)
+      bucket = this.#createBucket({
+        ...request,
+        body: { name: bucketNameOrId },
+      });
+    if (!bucket) bucket = this.#findBucket(bucketNameOrId);
+
+    const { content, mimeType } = await this.#readFileBody(request);
+    const now = new Date().toISOString();
+    const _id = createId();
+    const file = {
+      _id,
+      bucketId: bucket._id,
+      fileName: this.#getUniqueFileName(bucket, fileName),
+      size: content.length,
+      encoding: "7bit",
+      mimeType,
+      isPublic: options?.isPublic ?? bucket.isPublic,
+      publicPath: `${request.origin}/_storage/${bucket._id}/${_id}`,
+      tags: options?.tags ?? [],
+      userId: request.session?.userId ?? null,
+      uploadedAt: now,
+      updatedAt: now,
+    };
+
+    this.#files.push(file);
+    this.#contents.set(_id, content);
+    return file;
+  }
+
+  /**
+   * Handles the file exists request.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns true if the file exists, false otherwise
+   */
+  #fileExists(request: MockRequest) {
+    try {
+      this.#findFile(request.body.bucket, request.body.file);
+      return true;
+    } catch (err) {
+      if (err instanceof ClientError && err.code === "not_found") return false;
+      throw err;
+    }
+  }
+
+  /**
+   * Handles the file metadata update requests.
+   * @private
+   * @param {MockRequest} request The request
+   * @param {KeyValuePair} changes The changed metadata fields, the `undefined` fields are not changed
+   * @returns Returns the updated file metadata
+   */
+  #updateFile(request: MockRequest, changes: KeyValuePair) {
+    const file = this.#findFile(request.body.bucket, request.body.file);
+    const bucket = this.#findBucket(request.body.bucket);
+    const { fileName, isPublic, tags } = changes;
+
+    if (fileName !== undefined && fileName !== file.fileName) {
+      if (this.#getUniqueFileName(bucket, fileName, file) !== fileName)
+        throw new ClientError(
+          "file_not_unique",
+          `A file with name '${fileName}' already exists in the bucket`
+        );
+      file.fileName = fileName;
+    }
+
+    if (typeof isPublic === "boolean") file.isPublic = isPublic;
+    if (tags !== undefined) file.tags = Array.isArray(tags) ? tags : [tags];
+    file.updatedAt = new Date().toISOString();
+    return file;
+  }
+
+  /**
+   * Handles the add tags and remove tags requests of a file.
+   * @private
+   * @param {MockRequest} request The request
+   * @param {boolean} isAdd Whether to add or remove the tags
+   * @returns Returns the updated file metadata
+   */
+  #updateFileTags(request: MockRequest, isAdd: boolean) {
+    const file = this.#findFile(request.body.bucket, request.body.file);
+    return this.#updateFile(request, {
+      tags: this.#mergeTags(file.tags, request.body.tags, isAdd),
+    });
+  }
+
+  /**
+   * Handles the download file request.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the file contents
+   */
+  #downloadFile(request: MockRequest) {
+    const file = this.#findFile(request.body.bucket, request.body.file);
+    return this.#contents.get(file._id) ?? new Uint8Array(0);
+  }
+
+  /**
+   * Handles the delete file request.
+   * @private
+   * @param {MockRequest} request The request
+   */
+  #deleteFile(request: MockRequest) {
+    const file = this.#findFile(request.body.bucket, request.body.file);
+    removeItem(this.#files, file);
+    this.#contents.delete(file._id);
+  }
+
+  /**
+   * Handles the delete files request of a bucket.
+   * @private
+   * @param {MockRequest} request The request
+   */
+  #deleteFiles(request: MockRequest) {
+    for (const file of request.body.fileNamesOrIds ?? [])
+      this.#deleteFile({
+        ...request,
+        body: { bucket: request.body.bucket, file },
+      });
+  }
+
+  /**
+   * Handles the replace file requests.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the updated file metadata
+   */
+  async #replaceFile(request: MockRequest) {
+    const { bucket, file: fileNameOrId } = request.query;
+    const file = this.#findFile(bucket, fileNameOrId);
+    const { content, mimeType } = await this.#readFileBody(request);
+
+    file.size = content.length;
+    file.mimeType = mimeType;
+    file.updatedAt = new Date().toISOString();
+    this.#contents.set(file._id, content);
+    return file;
+  }
+
+  /**
+   * Handles the move file request.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the updated file metadata
+   */
+  #moveFile(request: MockRequest) {
+    const file = this.#findFile(request.body.bucket, request.body.file);
+    const target = this.#findBucket(request.body.bucketNameOrId);
+
+    file.fileName = this.#getUniqueFileName(target, file.fileName, file);
+    file.bucketId = target._id;
+    file.publicPath = file.publicPath.replace(
+      /\/_storage\/[^/]+\//,
+      `/_storage/${target._id}/`
+    );
+    file.updatedAt = new Date().toISOString();
+    return file;
+  }
+
+  /**
+   * Handles the copy and duplicate file requests.
+   * @private
+   * @param {MockRequest} request The request
+   * @returns Returns the metadata of the new file
+   */
+  #copyFile(request: MockRequest) {
+    const { bucketNameOrId, duplicateName } = request.body;
+    const file = this.#findFile(request.body.bucket, request.body.file);
+    const target = this.#findBucket(bucketNameOrId ?? request.body.bucket);
+
+    const now = new Date().toISOString();
+    const _id = createId();
+    const copy = {
+      ...clone(file),
+      _id,
+      bucketId: target._id,
+      fileName: this.#getUniqueFileName(target, duplicateName ?? file.fileName),
+      publicPath: file.publicPath.replace(
+        /\/_storage\/.*$/,
+        `/_storage/${target._id}/${_id}`
+      ),
+      userId: request.session?.userId ?? null,
+      uploadedAt: now,
+      updatedAt: now,
+    };
+
+    this.#files.push(copy);
+    this.#contents.set(_id, this.#contents.get(file._id) ?? new Uint8Array(0));
+    return copy;
+  }
+}
@@ -0,0 +1,19 @@
+import { RequestError } from "./RequestError";
+import { APIError } from "../types";
+
+/**
+ * Thrown in `throwOnError` mode when a response is not received from the app backend, namely when the request cannot be sent due to a network error, times out (`request_timeout`) or is aborted through its abort signal (`request_aborted`). For network errors the `status` is `0` and the error code is `network_error`.
+ * @export
+ * @class NetworkError
+ * @extends {RequestError}
+ */
+export class NetworkError extends RequestError {
+  /**
+   * Creates an instance of NetworkError.
+   * @param {APIError} errors The errors returned by the request
+   */
+  constructor(errors: APIError) {
+    super(errors);
+    this.name = "NetworkError";
+  }
+}
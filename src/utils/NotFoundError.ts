@@ -0,0 +1,19 @@
+import { RequestError } from "./RequestError";
+import { APIError } from "../types";
+
+/**
+ * Thrown in `throwOnError` mode when the requested resource cannot be found, namely when the response status is `404`.
+ * @export
+ * @class NotFoundError
+ * @extends {RequestError}
+ */
+export class NotFoundError extends RequestError {
+  /**
+   * Creates an instance of NotFoundError.
+   * @param {APIError} errors The errors returned by the request
+   */
+  constructor(errors: APIError) {
+    super(errors);
+    this.name = "NotFoundError";
+  }
+}
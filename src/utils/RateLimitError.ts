@@ -0,0 +1,19 @@
+import { RequestError } from "./RequestError";
+import { APIError } from "../types";
+
+/**
+ * Thrown in `throwOnError` mode when the request is rejected due to too many requests, namely when the response status is `429`. You can use the `retry` option of {@link ClientOptions} to automatically retry these requests.
+ * @export
+ * @class RateLimitError
+ * @extends {RequestError}
+ */
+export class RateLimitError extends RequestError {
+  /**
+   * Creates an instance of RateLimitError.
+   * @param {APIError} errors The errors returned by the request
+   */
+  constructor(errors: APIError) {
+    super(errors);
+    this.name = "RateLimitError";
+  }
+}
@@ -0,0 +1,60 @@
+import { ClientError } from "./ClientError";
+import { APIError, ErrorEntry } from "../types";
+
+/**
+ * Base class of the errors thrown when the `throwOnError` option of {@link ClientOptions} is enabled and a RESTful API request returns an error. The error `code`, `message` and `details` are taken from the first error entry of the response, the full list of error entries is available in `items`.
+ *
+ * Errors with a specific meaning are thrown as subclasses of this class, namely {@link AuthError}, {@link ValidationError}, {@link NotFoundError}, {@link ConflictError}, {@link RateLimitError} and {@link NetworkError}.
+ * @export
+ * @class RequestError
+ * @extends {ClientError}
+ */
+export class RequestError extends ClientError {
+  /**
+   * HTTP response code of the request. For the errors that occur before a response is received, it is `0`.
+   * @type {number}
+   */
+  status: number;
+
+  /**
+   * Status text of the response, e.g. "Unauthorized"
+   * @type {string}
+   */
+  statusText: string;
+
+  /**
+   * Array of error entries that provide detailed information about the errors occured during excution of the request
+   * @type {ErrorEntry[]}
+   */
+  items: ErrorEntry[];
+
+  /**
+   * Creates an instance of RequestError.
+   * @param {APIError} errors The errors returned by the request
+   */
+  constructor(errors: APIError) {
+    const [entry] = errors.items ?? [];
+    super(
+      entry?.code ?? "request_error",
+      entry?.message ?? errors.statusText,
+      entry?.details
+    );
+    this.name = "RequestError";
+    this.origin = entry?.origin ?? "client_error";
+    this.status = errors.status;
+    this.statusText = errors.statusText;
+    this.items = errors.items ?? [];
+  }
+
+  /**
+   * Returns the errors in the {@link APIError} format, namely the `errors` component of the tuple style responses.
+   * @returns Returns the status and error entries of the request
+   */
+  toAPIError(): APIError {
+    return {
+      status: this.status,
+      statusText: this.statusText,
+      items: this.items,
+    };
+  }
+}
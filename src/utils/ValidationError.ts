@@ -0,0 +1,19 @@
+import { RequestError } from "./RequestError";
+import { APIError } from "../types";
+
+/**
+ * Thrown in `throwOnError` mode when the request parameters are not valid, namely when the response status is `400` or `422`.
+ * @export
+ * @class ValidationError
+ * @extends {RequestError}
+ */
+export class ValidationError extends RequestError {
+  /**
+   * Creates an instance of ValidationError.
+   * @param {APIError} errors The errors returned by the request
+   */
+  constructor(errors: APIError) {
+    super(errors);
+    this.name = "ValidationError";
+  }
+}
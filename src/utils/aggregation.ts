@@ -0,0 +1,71 @@
+import { compareValues } from "./expression";
+
+/**
+ * Converts the group computation results of {@link QueryBuilder.compute} into a map keyed by the `groupby` values of the groups, e.g., to look up the results of a group by its value.
+ * @export
+ * @param {R[]} results The computation results of the grouped query
+ * @param {(groupby: R["groupby"]) => K} [getKey] Returns the map key of a group. By default the `groupby` value itself is used, specify a key function for the groups of multiple fields, whose `groupby` values are objects.
+ * @returns {Map<K, R>} The map of the computation results
+ */
+export function toMap<R extends { groupby: any }, K = R["groupby"]>(
+  results: R[],
+  getKey?: (groupby: R["groupby"]) => K
+): Map<K, R> {
+  return new Map(
+    results.map((result) => [
+      getKey ? getKey(result.groupby) : result.groupby,
+      result,
+    ])
+  );
+}
+
+/**
+ * Pivots the computation results of a query grouped by two fields into a table, whose rows are keyed by the values of the first field and whose columns are keyed by the values of the second field. The cells hold the value of the specified computation, the missing combinations are not included.
+ *
+ * > **Example:**
+ * > ```
+ * > const { data } = await orders.group(["region", "status"]).compute({ n: count() });
+ * > const table = pivot(data, "region", "status", "n");
+ * > // { EU: { open: 3, closed: 5 }, US: { open: 1 } }
+ * > ```
+ * @export
+ * @param {R[]} results The computation results of the grouped query
+ * @param {string} rowField The grouping field whose values are the row keys
+ * @param {string} columnField The grouping field whose values are the column keys
+ * @param {string} name The name of the computation whose values are the cells
+ * @returns The table of the computed values
+ */
+export function pivot<
+  R extends { groupby: { [field: string]: any } },
+  N extends Exclude<keyof R, "groupby">
+>(
+  results: R[],
+  rowField: keyof R["groupby"] & string,
+  columnField: keyof R["groupby"] & string,
+  name: N
+): { [row: string]: { [column: string]: R[N] } } {
+  const table: { [row: string]: { [column: string]: R[N] } } = {};
+  for (const result of results) {
+    const row = String(result.groupby?.[rowField]);
+    const column = String(result.groupby?.[columnField]);
+    table[row] = { ...table[row], [column]: result[name] };
+  }
+
+  return table;
+}
+
+/**
+ * Converts the computation results of a grouped query into a series of the `groupby` values and the values of the specified computation, ordered by the `groupby` values, e.g., to chart the computed values by month.
+ * @export
+ * @param {R[]} results The computation results of the grouped query
+ * @param {string} name The name of the computation whose values are included in the series
+ * @returns The ordered series of the group keys and computed values
+ */
+export function toSeries<
+  R extends { groupby: any },
+  N extends Exclude<keyof R, "groupby">
+>(results: R[], name: N): { key: R["groupby"]; value: R[N] }[] {
+  return results
+    .map((result) => ({ key: result.groupby, value: result[name] }))
+    .sort((left, right) => compareValues(left.key, right.key));
+}
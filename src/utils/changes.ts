@@ -0,0 +1,248 @@
+import { ClientError } from "./ClientError";
+import { getFieldValue } from "./expression";
+import { FieldUpdate, KeyValuePair } from "../types";
+
+// System managed fields are never included in the field updates
+const SYSTEM_FIELDS = ["_id", "_parent", "createdAt", "updatedAt"];
+
+/**
+ * Computes the minimal list of field updates that turns the original object into the current object. Sub-model objects are compared field by field and their changes are specified in dot-notation. Changes of integer fields are specified as increments, appended and removed values of basic values lists as pushes and pulls, and cleared fields as unsets. All other changes overwrite the field value.
+ * @export
+ * @param {KeyValuePair} original The original object
+ * @param {KeyValuePair} current The current object
+ * @param {string} [prefix] The dot-notation path of the sub-model object
+ * @returns The field update instructions
+ */
+export function getFieldChanges(
+  original: KeyValuePair,
+  current: KeyValuePair,
+  prefix: string = ""
+): FieldUpdate[] {
+  const updates: FieldUpdate[] = [];
+  const fields = new Set([...Object.keys(original), ...Object.keys(current)]);
+
+  for (const key of fields) {
+    if (SYSTEM_FIELDS.includes(key)) continue;
+
+    const field = `${prefix}${key}`;
+    const prev = original[key];
+    const next = current[key];
+    if (isEqual(prev, next)) continue;
+
+    if (next === undefined || next === null) {
+      if (prev !== undefined && prev !== null)
+        updates.push({ field, updateType: "unset" });
+    } else if (Number.isInteger(prev) && Number.isInteger(next)) {
+      updates.push({ field, updateType: "increment", value: next - prev });
+    } else if (Array.isArray(prev) && Array.isArray(next)) {
+      updates.push(...getListChanges(field, prev, next));
+    } else if (
+      isPlainObject(prev) &&
+      isPlainObject(next) &&
+      (prev._id === undefined || prev._id === next._id)
+    ) {
+      updates.push(...getFieldChanges(prev, next, `${field}.`));
+    } else {
+      updates.push({ field, updateType: "set", value: next });
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Applies the field updates to the object.
+ * @export
+ * @param {KeyValuePair} object The object to update
+ * @param {FieldUpdate[]} updates The field update instructions
+ */
+export function applyFieldUpdates(
+  object: KeyValuePair,
+  updates: FieldUpdate[]
+) {
+  for (const { field, updateType, value } of updates) {
+    if (SYSTEM_FIELDS.includes(field))
+      throw new ClientError(
+        "validation_error",
+        `System managed field '${field}' cannot be updated`
+      );
+
+    const current = getFieldValue(object, field);
+    const list = Array.isArray(current) ? [...current] : [];
+    switch (updateType) {
+      case "set":
+        setFieldValue(object, field, copy(value));
+        break;
+      case "unset":
+        deleteFieldValue(object, field);
+        break;
+      case "increment":
+        setFieldValue(object, field, (current ?? 0) + value);
+        break;
+      case "decrement":
+        setFieldValue(object, field, (current ?? 0) - value);
+        break;
+      case "multiply":
+        setFieldValue(object, field, (current ?? 0) * value);
+        break;
+      case "min":
+        if (current === undefined || current === null || value < current)
+          setFieldValue(object, field, value);
+        break;
+      case "max":
+        if (current === undefined || current === null || value > current)
+          setFieldValue(object, field, value);
+        break;
+      case "push":
+        setFieldValue(object, field, [...list, copy(value)]);
+        break;
+      case "pull":
+        setFieldValue(
+          object,
+          field,
+          list.filter(
+            (entry) => JSON.stringify(entry) !== JSON.stringify(value)
+          )
+        );
+        break;
+      case "pop":
+        setFieldValue(object, field, list.slice(0, -1));
+        break;
+      case "shift":
+        setFieldValue(object, field, list.slice(1));
+        break;
+      default:
+        throw new ClientError(
+          "validation_error",
+          `Unknown update type '${updateType}'`
+        );
+    }
+  }
+}
+
+/**
+ * Sets the value of the field at the specified path of the object, creates the missing sub-objects on the path.
+ * @export
+ * @param {KeyValuePair} object The object to update
+ * @param {string} path The field name, can be in dot-notation to specify sub-object fields
+ * @param {any} value The value to set
+ */
+export function setFieldValue(object: KeyValuePair, path: string, value: any) {
+  const names = path.split(".");
+  let target = object;
+  for (const name of names.slice(0, -1)) {
+    if (!target[name] || typeof target[name] !== "object") target[name] = {};
+    target = target[name];
+  }
+
+  target[names[names.length - 1]] = value;
+}
+
+/**
+ * Removes the field at the specified path of the object.
+ * @export
+ * @param {KeyValuePair} object The object to update
+ * @param {string} path The field name, can be in dot-notation to specify sub-object fields
+ */
+export function deleteFieldValue(object: KeyValuePair, path: string) {
+  const names = path.split(".");
+  let target = object;
+  for (const name of names.slice(0, -1)) {
+    target = target?.[name];
+    if (!target || typeof target !== "object") return;
+  }
+
+  if (Array.isArray(target))
+    for (const entry of target) delete entry?.[names[names.length - 1]];
+  else delete target[names[names.length - 1]];
+}
+
+/**
+ * Computes the updates of a list field. If the list is a basic values list and the values are only appended to or removed from the list, pushes or pulls the values, otherwise overwrites the list.
+ * @param {string} field The name of the list field
+ * @param {any[]} prev The original list
+ * @param {any[]} next The current list
+ * @returns The field update instructions
+ */
+function getListChanges(
+  field: string,
+  prev: any[],
+  next: any[]
+): FieldUpdate[] {
+  const overwrite: FieldUpdate[] = [{ field, updateType: "set", value: next }];
+  if ([...prev, ...next].some((entry) => typeof entry === "object"))
+    return overwrite;
+
+  // Values appended to the end of the list
+  if (
+    next.length > prev.length &&
+    prev.every((entry, index) => entry === next[index])
+  )
+    return next
+      .slice(prev.length)
+      .map((value) => ({ field, updateType: "push", value }));
+
+  // Values removed from the list, pull removes all occurrences of a value
+  const removed = prev.filter((entry) => !next.includes(entry));
+  const remaining = prev.filter((entry) => !removed.includes(entry));
+  if (removed.length > 0 && isEqual(remaining, next))
+    return Array.from(new Set(removed)).map((value) => ({
+      field,
+      updateType: "pull",
+      value,
+    }));
+
+  return overwrite;
+}
+
+/**
+ * Checks whether the value is a plain object, i.e., not a list, date or null.
+ * @param {any} value The value to check
+ * @returns True if the value is a plain object, false otherwise
+ */
+function isPlainObject(value: any): value is KeyValuePair {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+/**
+ * Checks whether the two values are deeply equal. Dates are compared by their ISO 8601 text, which is how they are returned from the database.
+ * @param {any} a The first value
+ * @param {any} b The second value
+ * @returns True if the values are equal, false otherwise
+ */
+function isEqual(a: any, b: any): boolean {
+  if (a instanceof Date) a = a.toISOString();
+  if (b instanceof Date) b = b.toISOString();
+  if (a === b) return true;
+
+  if (Array.isArray(a) && Array.isArray(b))
+    return (
+      a.length === b.length &&
+      a.every((entry, index) => isEqual(entry, b[index]))
+    );
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a).filter((key) => a[key] !== undefined);
+    return (
+      keys.length ===
+        Object.keys(b).filter((key) => b[key] !== undefined).length &&
+      keys.every((key) => isEqual(a[key], b[key]))
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Creates a deep copy of the value.
+ * @param {any} value The value to copy
+ * @returns The copied value
+ */
+function copy(value: any): any {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,154 @@
+import { ClientError } from "./ClientError";
+import { getFieldValue } from "./expression";
+import { Expression } from "../Expression";
+import { expr } from "../ExpressionBuilder";
+import { ExpressionValue, KeyValuePair, SortEntry } from "../types";
+
+// Date values are returned as ISO 8601 text, they are compared as dates in keyset expressions
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Returns the sort entries used in keyset pagination. The `_id` field is added as the last sort entry, if it is not already sorted, so that the objects have a unique order.
+ * @export
+ * @param {SortEntry[] | null} [sort] The sort entries of the query
+ * @returns The keyset sort entries
+ */
+export function getKeysetSort(sort?: SortEntry[] | null): SortEntry[] {
+  const entries = [...(sort ?? [])];
+  if (!entries.some((entry) => entry.field === "_id"))
+    entries.push({ field: "_id", direction: "asc" });
+  return entries;
+}
+
+/**
+ * Returns the sort entries in reverse direction.
+ * @export
+ * @param {SortEntry[]} sort The sort entries
+ * @returns The reversed sort entries
+ */
+export function reverseSort(sort: SortEntry[]): SortEntry[] {
+  return sort.map((entry) => ({
+    field: entry.field,
+    direction: entry.direction === "asc" ? "desc" : "asc",
+  }));
+}
+
+/**
+ * Creates the opaque cursor of the object, which holds the values of the sorted fields of the object.
+ * @export
+ * @param {KeyValuePair} object The object to create the cursor for
+ * @param {SortEntry[]} sort The keyset sort entries
+ * @returns The cursor string
+ */
+export function encodeCursor(object: KeyValuePair, sort: SortEntry[]): string {
+  const data = {
+    s: sort.map((entry) => `${entry.field}:${entry.direction}`),
+    v: sort.map((entry) => getFieldValue(object, entry.field) ?? null),
+  };
+  return toBase64Url(JSON.stringify(data));
+}
+
+/**
+ * Decodes the cursor and returns the values of the sorted fields.
+ * @export
+ * @param {string} cursor The cursor string
+ * @param {SortEntry[]} sort The keyset sort entries of the query
+ * @throws Throws an `invalid_cursor` error if the cursor is malformed or it has been created for a query with different sort entries
+ * @returns The values of the sorted fields
+ */
+export function decodeCursor(cursor: string, sort: SortEntry[]): any[] {
+  let data: any;
+  try {
+    data = JSON.parse(fromBase64Url(cursor));
+  } catch (err) {
+    data = null;
+  }
+
+  if (!Array.isArray(data?.s) || !Array.isArray(data?.v))
+    throw new ClientError("invalid_cursor", "The cursor is malformed");
+
+  const signature = sort.map((entry) => `${entry.field}:${entry.direction}`);
+  if (
+    data.s.length !== signature.length ||
+    data.s.some((entry: any, index: number) => entry !== signature[index])
+  )
+    throw new ClientError(
+      "invalid_cursor",
+      "The cursor has been created for a query with different sort fields",
+      { cursorSort: data.s, querySort: signature }
+    );
+
+  return data.v;
+}
+
+/**
+ * Creates the keyset expression that selects the objects coming after (or before) the object with the specified sort field values. For sort fields `a` and `b` in ascending order, the expression is `a > va || (a == va && b > vb)`.
+ * @export
+ * @param {SortEntry[]} sort The keyset sort entries
+ * @param {any[]} values The values of the sorted fields
+ * @param {boolean} isBefore Whether to select the objects coming before the values
+ * @returns The keyset expression
+ */
+export function createKeysetExpression(
+  sort: SortEntry[],
+  values: any[],
+  isBefore: boolean
+): Expression {
+  const conditions = sort.map((entry, index) => {
+    const isAscending = (entry.direction === "asc") !== isBefore;
+    const equalities = sort
+      .slice(0, index)
+      .map((prev, prevIndex) =>
+        expr.eq(prev.field, toValue(values[prevIndex]))
+      );
+    const comparison = isAscending
+      ? expr.gt(entry.field, toValue(values[index]))
+      : expr.lt(entry.field, toValue(values[index]));
+    return expr.and(...equalities, comparison);
+  });
+
+  return expr.or(...conditions);
+}
+
+/**
+ * Converts the field value stored in the cursor to its expression value. ISO 8601 date texts are converted to dates.
+ * @param {any} value The field value
+ * @returns The expression value
+ */
+function toValue(value: any): ExpressionValue {
+  return typeof value === "string" && ISO_DATE_PATTERN.test(value)
+    ? new Date(value)
+    : value;
+}
+
+/**
+ * Encodes the text in URL-safe base64 format.
+ * @param {string} text The text to encode
+ * @returns The encoded text
+ */
+function toBase64Url(text: string): string {
+  const base64 =
+    typeof Buffer !== "undefined"
+      ? Buffer.from(text, "utf8").toString("base64")
+      : btoa(
+          Array.from(new TextEncoder().encode(text), (byte) =>
+            String.fromCharCode(byte)
+          ).join("")
+        );
+  return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decodes the text in URL-safe base64 format.
+ * @param {string} text The text to decode
+ * @returns The decoded text
+ */
+function fromBase64Url(text: string): string {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  return typeof Buffer !== "undefined"
+    ? Buffer.from(base64, "base64").toString("utf8")
+    : new TextDecoder().decode(
+        Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+      );
+}
@@ -0,0 +1,490 @@
+import { ClientError } from "./ClientError";
+import { KeyValuePair, SortEntry } from "../types";
+
+/**
+ * Defines the structure of a parsed expression node
+ * @interface ExpressionNode
+ */
+interface ExpressionNode {
+  type: "literal" | "field" | "list" | "unary" | "binary" | "call";
+  value?: any;
+  operator?: string;
+  operands?: ExpressionNode[];
+}
+
+/**
+ * Defines the structure of an expression token
+ * @interface Token
+ */
+interface Token {
+  type: "number" | "string" | "identifier" | "operator" | "punctuation";
+  value: string;
+}
+
+const OPERATORS = [
+  "&&",
+  "||",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "!",
+];
+const PUNCTUATIONS = ["(", ")", "[", "]", ","];
+// Binary operators grouped by their precedence, the lowest precedence comes first
+const BINARY_PRECEDENCE = [
+  ["||"],
+  ["&&"],
+  ["==", "!="],
+  ["<", "<=", ">", ">="],
+  ["+", "-"],
+  ["*", "/"],
+];
+
+/**
+ * The functions that can be used in expressions evaluated on the client side
+ */
+const FUNCTIONS: { [name: string]: (...args: any[]) => any } = {
+  AND: (...args) => args.every((arg) => isTruthy(arg)),
+  OR: (...args) => args.some((arg) => isTruthy(arg)),
+  NOT: (value) => !isTruthy(value),
+  IF: (condition, trueValue, falseValue) =>
+    isTruthy(condition) ? trueValue : falseValue,
+  IN: (list, value) =>
+    Array.isArray(list) && list.some((entry) => isEqual(entry, value)),
+  NIN: (list, value) =>
+    !Array.isArray(list) || !list.some((entry) => isEqual(entry, value)),
+  INCLUDES: (textOrList, value) =>
+    Array.isArray(textOrList)
+      ? textOrList.some((entry) => isEqual(entry, value))
+      : typeof textOrList === "string" && textOrList.includes(String(value)),
+  STARTSWITH: (text, search) =>
+    typeof text === "string" && text.startsWith(String(search)),
+  ENDSWITH: (text, search) =>
+    typeof text === "string" && text.endsWith(String(search)),
+  LOWER: (text) => (typeof text === "string" ? text.toLowerCase() : text),
+  UPPER: (text) => (typeof text === "string" ? text.toUpperCase() : text),
+  TRIM: (text) => (typeof text === "string" ? text.trim() : text),
+  LENGTH: (text) => (typeof text === "string" ? text.length : 0),
+  SIZE: (list) => (Array.isArray(list) ? list.length : 0),
+  CONCAT: (...args) => args.map((arg) => arg ?? "").join(""),
+  EXISTS: (value) => value !== undefined && value !== null,
+  ISNULL: (value) => value === undefined || value === null,
+  ISEMPTY: (value) =>
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0),
+  ABS: (value) => Math.abs(value),
+  ROUND: (value, digits = 0) =>
+    Math.round(value * Math.pow(10, digits)) / Math.pow(10, digits),
+  FLOOR: (value) => Math.floor(value),
+  CEIL: (value) => Math.ceil(value),
+  MIN: (...args) => Math.min(...flatten(args)),
+  MAX: (...args) => Math.max(...flatten(args)),
+  SUM: (...args) => flatten(args).reduce((sum, value) => sum + value, 0),
+  PRODUCT: (...args) => flatten(args).reduce((sum, value) => sum * value, 1),
+  NOW: () => new Date().toISOString(),
+  TODATE: (value) => toDate(value)?.toISOString() ?? null,
+  YEAR: (value) => toDate(value)?.getUTCFullYear() ?? null,
+  MONTH: (value) => {
+    const date = toDate(value);
+    return date ? date.getUTCMonth() + 1 : null;
+  },
+  DAYOFMONTH: (value) => toDate(value)?.getUTCDate() ?? null,
+  DAYOFWEEK: (value) => {
+    const date = toDate(value);
+    return date ? date.getUTCDay() + 1 : null;
+  },
+  HOUR: (value) => toDate(value)?.getUTCHours() ?? null,
+  MINUTE: (value) => toDate(value)?.getUTCMinutes() ?? null,
+};
+
+/**
+ * Parses and evaluates the input expression against the specified object. Field names in the expression are resolved as the values of the object, they can be in dot-notation to access sub-object fields (e.g., `address.city`) and can be prefixed with `this.` (e.g., `this.quantity`).
+ *
+ * Only a subset of Altogic expression functions are supported, namely `AND`, `OR`, `NOT`, `IF`, `IN`, `NIN`, `INCLUDES`, `STARTSWITH`, `ENDSWITH`, `LOWER`, `UPPER`, `TRIM`, `LENGTH`, `SIZE`, `CONCAT`, `EXISTS`, `ISNULL`, `ISEMPTY`, `ABS`, `ROUND`, `FLOOR`, `CEIL`, `MIN`, `MAX`, `SUM`, `PRODUCT`, `NOW`, `TODATE`, `YEAR`, `MONTH`, `DAYOFMONTH`, `DAYOFWEEK`, `HOUR` and `MINUTE`. Date values are evaluated in UTC.
+ * @export
+ * @param {string} expression The expression string to evaluate
+ * @param {KeyValuePair} object The object whose field values will be used in the expression
+ * @throws Throws an exception if the expression cannot be parsed or uses an unsupported function
+ * @returns The evaluation result of the expression
+ */
+export function evaluateExpression(expression: string, object: KeyValuePair) {
+  return evaluateNode(parseExpression(expression), object);
+}
+
+/**
+ * Parses the input expression and returns a predicate function that checks whether an object satisfies the expression or not. Parsing the expression once is faster when the same expression is evaluated against many objects.
+ * @export
+ * @param {string} expression The query expression string
+ * @throws Throws an exception if the expression cannot be parsed or uses an unsupported function
+ * @returns The predicate function
+ */
+export function compileFilter(
+  expression: string
+): (object: KeyValuePair) => boolean {
+  const node = parseExpression(expression);
+  return (object: KeyValuePair) => isTruthy(evaluateNode(node, object));
+}
+
+/**
+ * Returns the value of the field at the specified path of the object. If a field on the path is an array of sub-objects, the values of all array entries are returned in an array.
+ * @export
+ * @param {KeyValuePair} object The object to get the field value from
+ * @param {string} path The field name, can be in dot-notation to specify sub-object fields (e.g., field.subField)
+ * @returns The field value or `undefined` if the field does not exist
+ */
+export function getFieldValue(object: KeyValuePair, path: string): any {
+  let value: any = object;
+  for (const name of path.split(".")) {
+    if (value === undefined || value === null) return undefined;
+    if (Array.isArray(value))
+      value = value
+        .map((entry) => entry?.[name])
+        .filter((entry) => entry !== undefined);
+    else value = value[name];
+  }
+
+  return value;
+}
+
+/**
+ * Checks whether the input value is considered as `true` in expressions. Empty strings, zero, `null` and `undefined` values are considered as `false`.
+ * @param {any} value The value to check
+ * @returns True if the value is truthy, false otherwise
+ */
+function isTruthy(value: any): boolean {
+  return !!value;
+}
+
+/**
+ * Converts the date value or the date text in ISO 8601 format to a date.
+ * @param {any} value The value to convert
+ * @returns The date or `null` if the value is not a valid date
+ */
+function toDate(value: any): Date | null {
+  if (value === undefined || value === null || value === "") return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Flattens the list arguments of a function into a single list of values.
+ * @param {any[]} args The function arguments
+ * @returns The flattened list of values
+ */
+function flatten(args: any[]): any[] {
+  return args.reduce((list: any[], arg) => list.concat(arg), []);
+}
+
+/**
+ * Checks whether the two values are equal. Arrays and objects are compared by their contents.
+ * @param {any} left The left operand
+ * @param {any} right The right operand
+ * @returns True if the values are equal, false otherwise
+ */
+function isEqual(left: any, right: any): boolean {
+  if (left === undefined) left = null;
+  if (right === undefined) right = null;
+  if (typeof left === "object" || typeof right === "object")
+    return JSON.stringify(left) === JSON.stringify(right);
+  return left === right;
+}
+
+/**
+ * Throws an invalid expression error.
+ * @param {string} message The error message
+ * @throws Throws the invalid expression error
+ */
+function throwInvalidExpression(message: string): never {
+  throw new ClientError("invalid_expression", message);
+}
+
+/**
+ * Splits the expression string into its tokens.
+ * @param {string} expression The expression string
+ * @returns The list of tokens
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < expression.length) {
+    const char = expression[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === "'" || char === '"') {
+      let value = "";
+      index++;
+      while (index < expression.length && expression[index] !== char) {
+        if (expression[index] === "\\" && index + 1 < expression.length)
+          index++;
+        value += expression[index++];
+      }
+
+      if (index >= expression.length)
+        throwInvalidExpression(`Unterminated text value in '${expression}'`);
+      index++;
+      tokens.push({ type: "string", value });
+    } else if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(expression.slice(index));
+      tokens.push({ type: "number", value: match![0] });
+      index += match![0].length;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match =
+        /^[A-Za-z_$][A-Za-z0-9_$]*(\.[A-Za-z_$][A-Za-z0-9_$]*)*/.exec(
+          expression.slice(index)
+        );
+      tokens.push({ type: "identifier", value: match![0] });
+      index += match![0].length;
+    } else {
+      const operator = OPERATORS.find((entry) =>
+        expression.startsWith(entry, index)
+      );
+      if (operator) {
+        tokens.push({ type: "operator", value: operator });
+        index += operator.length;
+      } else if (PUNCTUATIONS.includes(char)) {
+        tokens.push({ type: "punctuation", value: char });
+        index++;
+      } else
+        throwInvalidExpression(
+          `Unexpected character '${char}' in '${expression}'`
+        );
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses the expression string into an expression tree.
+ * @param {string} expression The expression string
+ * @returns The root node of the expression tree
+ */
+function parseExpression(expression: string): ExpressionNode {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isNext = (value: string) => peek()?.value === value;
+  const expect = (value: string) => {
+    if (!isNext(value))
+      throwInvalidExpression(`Expected '${value}' in '${expression}'`);
+    position++;
+  };
+
+  const parseList = (closing: string): ExpressionNode[] => {
+    const items: ExpressionNode[] = [];
+    if (isNext(closing)) {
+      position++;
+      return items;
+    }
+
+    for (;;) {
+      items.push(parseBinary(0));
+      if (isNext(",")) position++;
+      else break;
+    }
+
+    expect(closing);
+    return items;
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+    if (!token)
+      throwInvalidExpression(`Unexpected end of expression '${expression}'`);
+    position++;
+
+    if (token.type === "number")
+      return { type: "literal", value: Number(token.value) };
+    if (token.type === "string") return { type: "literal", value: token.value };
+    if (token.type === "identifier") {
+      const keyword = token.value.toLowerCase();
+      if (keyword === "true") return { type: "literal", value: true };
+      if (keyword === "false") return { type: "literal", value: false };
+      if (keyword === "null") return { type: "literal", value: null };
+
+      if (isNext("(")) {
+        position++;
+        const name = token.value.toUpperCase();
+        if (!FUNCTIONS[name])
+          throwInvalidExpression(
+            `Function '${token.value}' is not supported in '${expression}'`
+          );
+        return { type: "call", value: name, operands: parseList(")") };
+      }
+
+      // Field values can be accessed with the 'this.' prefix
+      const path = token.value.startsWith("this.")
+        ? token.value.substring(5)
+        : token.value;
+      return { type: "field", value: path };
+    }
+    if (token.value === "(") {
+      const node = parseBinary(0);
+      expect(")");
+      return node;
+    }
+    if (token.value === "[") return { type: "list", operands: parseList("]") };
+    if (token.value === "!" || token.value === "-" || token.value === "+")
+      return {
+        type: "unary",
+        operator: token.value,
+        operands: [parsePrimary()],
+      };
+
+    return throwInvalidExpression(
+      `Unexpected token '${token.value}' in '${expression}'`
+    );
+  };
+
+  const parseBinary = (level: number): ExpressionNode => {
+    if (level >= BINARY_PRECEDENCE.length) return parsePrimary();
+
+    let left = parseBinary(level + 1);
+    while (
+      peek()?.type === "operator" &&
+      BINARY_PRECEDENCE[level].includes(peek().value)
+    ) {
+      const operator = tokens[position++].value;
+      const right = parseBinary(level + 1);
+      left = { type: "binary", operator, operands: [left, right] };
+    }
+
+    return left;
+  };
+
+  if (tokens.length === 0)
+    throwInvalidExpression("The expression cannot be empty");
+  const root = parseBinary(0);
+  if (position < tokens.length)
+    throwInvalidExpression(
+      `Unexpected token '${tokens[position].value}' in '${expression}'`
+    );
+
+  return root;
+}
+
+/**
+ * Evaluates the expression tree node against the specified object.
+ * @param {ExpressionNode} node The expression tree node
+ * @param {KeyValuePair} object The object whose field values will be used in the expression
+ * @returns The evaluation result of the node
+ */
+function evaluateNode(node: ExpressionNode, object: KeyValuePair): any {
+  const operands = node.operands ?? [];
+  switch (node.type) {
+    case "literal":
+      return node.value;
+    case "field":
+      return getFieldValue(object, node.value);
+    case "list":
+      return operands.map((entry) => evaluateNode(entry, object));
+    case "call":
+      return FUNCTIONS[node.value](
+        ...operands.map((entry) => evaluateNode(entry, object))
+      );
+    case "unary": {
+      const value = evaluateNode(operands[0], object);
+      if (node.operator === "!") return !isTruthy(value);
+      if (node.operator === "-") return -value;
+      return +value;
+    }
+    default:
+      break;
+  }
+
+  // Short circuit the logical operators
+  if (node.operator === "&&")
+    return (
+      isTruthy(evaluateNode(operands[0], object)) &&
+      isTruthy(evaluateNode(operands[1], object))
+    );
+  if (node.operator === "||")
+    return (
+      isTruthy(evaluateNode(operands[0], object)) ||
+      isTruthy(evaluateNode(operands[1], object))
+    );
+
+  const left = evaluateNode(operands[0], object);
+  const right = evaluateNode(operands[1], object);
+  switch (node.operator) {
+    case "==":
+      return isEqual(left, right);
+    case "!=":
+      return !isEqual(left, right);
+    case "<":
+      return left !== null && right !== null && left < right;
+    case "<=":
+      return left !== null && right !== null && left <= right;
+    case ">":
+      return left !== null && right !== null && left > right;
+    case ">=":
+      return left !== null && right !== null && left >= right;
+    case "+":
+      return typeof left === "string" || typeof right === "string"
+        ? `${left ?? ""}${right ?? ""}`
+        : left + right;
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      return left / right;
+    default:
+      return throwInvalidExpression(`Unknown operator '${node.operator}'`);
+  }
+}
+
+/**
+ * Compares two field values for sorting. `null` and `undefined` values come first.
+ * @export
+ * @param {any} left The left value
+ * @param {any} right The right value
+ * @returns A negative number if the left value comes first, a positive number if the right value comes first and zero if they are equal
+ */
+export function compareValues(left: any, right: any): number {
+  const isLeftEmpty = left === undefined || left === null;
+  const isRightEmpty = right === undefined || right === null;
+  if (isLeftEmpty || isRightEmpty)
+    return isLeftEmpty && isRightEmpty ? 0 : isLeftEmpty ? -1 : 1;
+  if (left < right) return -1;
+  if (left > right) return 1;
+  return 0;
+}
+
+/**
+ * Sorts the items by the specified sort entries. The sort is stable, items with equal values keep their order.
+ * @export
+ * @param {T[]} items The items to sort
+ * @param {SortEntry[]} sort The field names and sort directions
+ * @param {Function} select The function to get the object of an item
+ * @returns The sorted copy of the items
+ */
+export function sortItems<T>(
+  items: T[],
+  sort: SortEntry[] | null | undefined,
+  select: (item: T) => KeyValuePair
+): T[] {
+  if (!sort || sort.length === 0) return [...items];
+
+  return [...items].sort((left, right) => {
+    for (const entry of sort) {
+      const result = compareValues(
+        getFieldValue(select(left), entry.field),
+        getFieldValue(select(right), entry.field)
+      );
+      if (result !== 0) return entry.direction === "desc" ? -result : result;
+    }
+
+    return 0;
+  });
+}
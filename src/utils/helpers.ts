@@ -1,5 +1,12 @@
 import { ClientError } from "./ClientError";
-import { CookieOptions, KeyValuePair } from "../types";
+import { RequestError } from "./RequestError";
+import { AuthError } from "./AuthError";
+import { ValidationError } from "./ValidationError";
+import { NotFoundError } from "./NotFoundError";
+import { RateLimitError } from "./RateLimitError";
+import { NetworkError } from "./NetworkError";
+import { ConflictError } from "./ConflictError";
+import { APIError, CookieOptions, KeyValuePair } from "../types";
 
 /**
  * Removes trailing slash character from input url string.
@@ -360,3 +367,135 @@ export function parseRealtimeEnvUrl(envUrl: string): any {
   // Not a valid env url
   return { subdomain: "", realtimeUrl: "", envId: "" };
 }
+
+/**
+ * Creates the typed error that is thrown in `throwOnError` mode from the errors returned by a request. The error class is determined by the response status and the error code of the first error entry.
+ * @export
+ * @param {APIError} errors The errors returned by the request
+ * @returns {RequestError} The error instance
+ */
+export function createRequestError(errors: APIError): RequestError {
+  const code = errors.items?.[0]?.code;
+  const { status } = errors;
+
+  if (
+    status === 0 ||
+    code === "network_error" ||
+    code === "request_timeout" ||
+    code === "request_aborted"
+  )
+    return new NetworkError(errors);
+  if (
+    status === 401 ||
+    status === 403 ||
+    code === "missing_session_token" ||
+    code === "invalid_session_token"
+  )
+    return new AuthError(errors);
+  if (status === 404) return new NotFoundError(errors);
+  if (code === "conflict") return new ConflictError(errors);
+  if (status === 429) return new RateLimitError(errors);
+  if (status === 400 || status === 422) return new ValidationError(errors);
+  return new RequestError(errors);
+}
+
+/**
+ * Creates the {@link NetworkError} that is thrown in `throwOnError` mode when a request cannot be sent, e.g., due to a connection failure.
+ * @export
+ * @param {any} error The error raised by the fetch or upload function
+ * @returns {NetworkError} The error instance
+ */
+export function createNetworkError(error: any): NetworkError {
+  return new NetworkError({
+    status: 0,
+    statusText: "Network Error",
+    items: [
+      {
+        origin: "client_error",
+        code: "network_error",
+        message:
+          error?.message ?? "The request could not be sent to the app backend",
+      },
+    ],
+  });
+}
+
+/**
+ * Runs the request and returns its result in `{ data, errors }` format regardless of the `throwOnError` mode, namely the {@link RequestError} thrown in `throwOnError` mode is converted back to the `errors` of the result.
+ * @export
+ * @param {() => Promise<{ data: R | null; errors: APIError | null }>} run The function that runs the request
+ * @throws Rethrows the errors other than {@link RequestError}
+ * @returns The data and errors of the request
+ */
+export async function settleRequest<R>(
+  run: () => Promise<{ data: R | null; errors: APIError | null }>
+): Promise<{ data: R | null; errors: APIError | null }> {
+  try {
+    return await run();
+  } catch (err) {
+    if (err instanceof RequestError)
+      return { data: null, errors: err.toAPIError() };
+    throw err;
+  }
+}
+
+/**
+ * Checks whether the errors of a request are caused by a unique constraint violation, namely whether any of the error entries has a `not_unique` or `<field>_not_unique` code.
+ * @export
+ * @param {APIError} errors The errors of the request
+ * @returns True if the request has failed due to a unique constraint violation, false otherwise
+ */
+export function isUniqueConstraintError(errors: APIError): boolean {
+  return (errors.items ?? []).some(
+    (item) => item.code === "not_unique" || item.code?.endsWith("_not_unique")
+  );
+}
+
+/**
+ * Returns the copy of the value that includes only the specified fields and the `_id` field. The fields of the objects in lists are picked separately.
+ * @export
+ * @param {any} value The object or list of objects
+ * @param {string[]} paths The field names, can be in dot-notation to specify sub-object fields
+ * @returns The copy of the value with the specified fields
+ */
+export function selectFields(value: any, paths: string[]): any {
+  if (Array.isArray(value))
+    return value.map((entry) => selectFields(entry, paths));
+  if (typeof value !== "object" || value === null) return value;
+
+  const output: KeyValuePair = {};
+  if (value._id !== undefined) output._id = value._id;
+  for (const name of new Set(paths.map((path) => path.split(".")[0]))) {
+    if (value[name] === undefined) continue;
+    // The whole field is picked if it is specified without its sub-object fields
+    const subPaths = paths
+      .filter((path) => path.startsWith(`${name}.`))
+      .map((path) => path.substring(name.length + 1));
+    output[name] = paths.includes(name)
+      ? value[name]
+      : selectFields(value[name], subPaths);
+  }
+
+  return output;
+}
+
+/**
+ * Runs the tasks with bounded concurrency, namely at most `concurrency` tasks run at the same time. Tasks are started in the order they are listed.
+ * @export
+ * @param {(() => Promise<void>)[]} tasks The tasks to run
+ * @param {number} concurrency The maximum number of tasks that can run at the same time
+ * @returns Resolves when all tasks are completed
+ */
+export async function runConcurrently(
+  tasks: (() => Promise<void>)[],
+  concurrency: number
+): Promise<void> {
+  let next = 0;
+  const runNext = async () => {
+    while (next < tasks.length) await tasks[next++]();
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, tasks.length) }, runNext)
+  );
+}
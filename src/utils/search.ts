@@ -0,0 +1,35 @@
+import { KeyValuePair } from "../types";
+
+/**
+ * Defines the results of the search of a field, ordered by their relevance
+ * @interface FieldSearchResults
+ */
+export interface FieldSearchResults {
+  weight: number;
+  objects: KeyValuePair[];
+}
+
+/**
+ * Merges the search results of multiple fields into a single list ordered by relevance, using weighted reciprocal rank fusion. An object at the zero-based rank `r` in the results of a field with weight `w` scores `w / (r + 1)`, and the scores of the object in the results of different fields are added up, so that the objects matching multiple fields rank higher. The objects are identified by their `_id` values, and the objects with equal scores keep the order of the fields and of their ranks.
+ * @export
+ * @param {FieldSearchResults[]} results The search results of the fields
+ * @param {number} limit The max number of objects to return
+ * @returns The copies of the most relevant objects with their scores in the `_score` field, ordered by descending score
+ */
+export function mergeSearchResults(
+  results: FieldSearchResults[],
+  limit: number
+): KeyValuePair[] {
+  const merged = new Map<string, KeyValuePair>();
+  for (const { weight, objects } of results)
+    objects.forEach((object, rank) => {
+      const score = weight / (rank + 1);
+      const existing = merged.get(object._id);
+      if (existing) existing._score += score;
+      else merged.set(object._id, { ...object, _score: score });
+    });
+
+  return Array.from(merged.values())
+    .sort((left, right) => right._score - left._score)
+    .slice(0, limit);
+}
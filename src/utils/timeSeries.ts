@@ -0,0 +1,358 @@
+import { ClientError } from "./ClientError";
+import { Expression, combineExpressions } from "../Expression";
+import { expr } from "../ExpressionBuilder";
+import {
+  ComputationMap,
+  GroupComputation,
+  KeyValuePair,
+  TimeSeriesOptions,
+} from "../types";
+
+const MINUTE = 60000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const MAX_BUCKETS = 10000;
+// The prefix of the hidden computations that count the values of the averages, which are needed to merge the averages of the groups
+const WEIGHT_PREFIX = "__weight_";
+// The date parts of the numeric group keys, each part takes two decimal digits of the key except the year
+const KEY_PARTS = {
+  month: ["YEAR", "MONTH"],
+  day: ["YEAR", "MONTH", "DAYOFMONTH"],
+  hour: ["YEAR", "MONTH", "DAYOFMONTH", "HOUR"],
+  minute: ["YEAR", "MONTH", "DAYOFMONTH", "HOUR", "MINUTE"],
+};
+// The date formatters of the time zones, which are used to calculate the time zone offsets
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * The resolution of the groups computed by the app backend, which are merged into the buckets of the time series
+ */
+export type GroupResolution = keyof typeof KEY_PARTS;
+
+/**
+ * The buckets of a time series
+ */
+export interface TimeSeriesBuckets {
+  /**
+   * The start of the series in milliseconds since epoch
+   */
+  from: number;
+  /**
+   * The end of the series (exclusive) in milliseconds since epoch
+   */
+  to: number;
+  /**
+   * The start times of the buckets in ascending order
+   */
+  starts: number[];
+  /**
+   * The resolution of the groups that can be merged into the buckets
+   */
+  resolution: GroupResolution;
+}
+
+/**
+ * Throws an invalid time series error.
+ * @param {string} message The error message
+ * @param {object} [details] The error details
+ * @throws Throws the invalid time series error
+ */
+function throwInvalidTimeSeries(message: string, details?: object): never {
+  throw new ClientError("invalid_time_series", message, details);
+}
+
+/**
+ * Returns the offset of the time zone from UTC at the specified time, in minutes.
+ * @param {string | undefined} timezone The IANA time zone name, UTC if not specified
+ * @param {number} time The time in milliseconds since epoch
+ * @throws Throws an `invalid_time_series` error if the time zone is not supported
+ * @returns The offset in minutes, positive for the time zones ahead of UTC
+ */
+function getTimeZoneOffset(timezone: string | undefined, time: number): number {
+  if (!timezone || timezone === "UTC") return 0;
+
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        hour12: false,
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+      });
+    } catch (err) {
+      return throwInvalidTimeSeries(
+        `Time zone '${timezone}' is not supported`,
+        { timezone }
+      );
+    }
+    formatters.set(timezone, formatter);
+  }
+
+  // The date is formatted as "M/D/YYYY, HH:mm", where the midnight can be formatted as hour 24 of the same day
+  const match = /(\d+)\/(\d+)\/(\d+),?\s+(\d+):(\d+)/.exec(
+    formatter.format(new Date(time))
+  );
+  if (!match)
+    return throwInvalidTimeSeries(`Time zone '${timezone}' is not supported`, {
+      timezone,
+    });
+
+  const [, month, day, year, hour, minute] = match.map(Number);
+  const wallTime = Date.UTC(year, month - 1, day, hour % 24, minute);
+  return Math.round((wallTime - Math.floor(time / MINUTE) * MINUTE) / MINUTE);
+}
+
+/**
+ * Converts the wall clock time of the time zone, which is expressed as a UTC time, to the actual time. If the wall clock time is skipped by a daylight saving time change, a time after the change is returned.
+ * @param {number} wallTime The wall clock time
+ * @param {string} [timezone] The IANA time zone name, UTC if not specified
+ * @returns The time in milliseconds since epoch
+ */
+function fromWallTime(wallTime: number, timezone?: string): number {
+  const guess = wallTime - getTimeZoneOffset(timezone, wallTime) * MINUTE;
+  return wallTime - getTimeZoneOffset(timezone, guess) * MINUTE;
+}
+
+/**
+ * Returns the start of the day, week or month that contains the time, as the wall clock time of the time zone expressed as a UTC time. The weeks start on Monday.
+ * @param {number} time The time in milliseconds since epoch
+ * @param {TimeSeriesOptions} options The time series options
+ * @returns The wall clock time of the bucket start
+ */
+function getBucketWallTime(time: number, options: TimeSeriesOptions): number {
+  const wall = new Date(
+    time + getTimeZoneOffset(options.timezone, time) * MINUTE
+  );
+  const year = wall.getUTCFullYear();
+  const month = wall.getUTCMonth();
+  const day = wall.getUTCDate();
+
+  switch (options.interval) {
+    case "hour":
+      return Date.UTC(year, month, day, wall.getUTCHours());
+    case "week":
+      // getUTCDay returns 0 for Sunday
+      return Date.UTC(year, month, day - ((wall.getUTCDay() + 6) % 7));
+    case "month":
+      return Date.UTC(year, month, 1);
+    default:
+      return Date.UTC(year, month, day);
+  }
+}
+
+/**
+ * Converts the date option of the time series to time, and checks that it is a valid date.
+ * @param {string} name The name of the option
+ * @param {Date | string} value The date or the date string in ISO 8601 format
+ * @throws Throws an `invalid_time_series` error if the value is not a valid date
+ * @returns The time in milliseconds since epoch
+ */
+function toTime(name: string, value: Date | string): number {
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time))
+    throwInvalidTimeSeries(`'${name}' of the time series needs to be a date`, {
+      [name]: value,
+    });
+  return time;
+}
+
+/**
+ * Calculates the buckets of the time series and the resolution of the groups that can be merged into these buckets. The date parts of the group keys are evaluated in UTC by the app backend, so the groups are computed by the hour, or by the minute for the time zones with partial hour offsets, unless the buckets are in UTC.
+ * @export
+ * @param {TimeSeriesOptions} options The time series options
+ * @throws Throws an `invalid_time_series` error if the interval, the dates or the time zone is not valid, `from` is not before `to`, or the series has more than 10,000 buckets
+ * @returns The buckets of the time series
+ */
+export function getTimeSeriesBuckets(
+  options: TimeSeriesOptions
+): TimeSeriesBuckets {
+  const { interval, timezone } = options;
+  if (!["hour", "day", "week", "month"].includes(interval))
+    throwInvalidTimeSeries(
+      `Interval of the time series needs to be 'hour', 'day', 'week' or 'month'`,
+      { interval }
+    );
+
+  const from = toTime("from", options.from);
+  const to = toTime("to", options.to ?? new Date());
+  if (from >= to)
+    throwInvalidTimeSeries(
+      "'from' of the time series needs to be before 'to'",
+      { from: options.from, to: options.to }
+    );
+
+  // The hours are stepped in actual time so that the repeated hours of daylight saving time changes have their own buckets
+  const starts: number[] = [];
+  let wallTime = getBucketWallTime(from, options);
+  let start = fromWallTime(wallTime, timezone);
+  while (start < to) {
+    if (starts.length === MAX_BUCKETS)
+      throwInvalidTimeSeries(
+        `Time series cannot have more than ${MAX_BUCKETS} buckets`,
+        { interval, from: options.from, to: options.to }
+      );
+
+    starts.push(start);
+    if (interval === "hour") start += HOUR;
+    else {
+      const date = new Date(wallTime);
+      wallTime =
+        interval === "month"
+          ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)
+          : wallTime + (interval === "week" ? 7 : 1) * DAY;
+      start = fromWallTime(wallTime, timezone);
+    }
+  }
+
+  let resolution: GroupResolution;
+  if (starts.some((time) => time % HOUR !== 0)) resolution = "minute";
+  else if (interval === "hour" || starts.some((time) => time % DAY !== 0))
+    resolution = "hour";
+  else resolution = interval === "month" ? "month" : "day";
+
+  return { from, to, starts, resolution };
+}
+
+/**
+ * Creates the group expression that computes a numeric key from the UTC date parts of the field, e.g., `YEAR(this.createdAt) * 10000 + MONTH(this.createdAt) * 100 + DAYOFMONTH(this.createdAt)` for the daily groups.
+ * @export
+ * @param {string} field The name of the date field
+ * @param {GroupResolution} resolution The resolution of the groups
+ * @returns {Expression} The group expression
+ */
+export function getGroupExpression(
+  field: string,
+  resolution: GroupResolution
+): Expression {
+  const parts = KEY_PARTS[resolution];
+  return combineExpressions(
+    "+",
+    parts.map((name, index) => {
+      const part = expr.fn(name, expr.field(field));
+      const scale = Math.pow(100, parts.length - index - 1);
+      return scale > 1
+        ? combineExpressions("*", [part, expr.value(scale)])
+        : part;
+    })
+  );
+}
+
+/**
+ * Returns the group computations of the time series. The sort directions of the computations are ignored, and the values of the averages are counted so that the averages of the groups in the same bucket can be merged.
+ * @export
+ * @param {ComputationMap} computations The computations of the time series
+ * @returns {GroupComputation[]} The group computations sent to the app backend
+ */
+export function getTimeSeriesComputations(
+  computations: ComputationMap
+): GroupComputation[] {
+  const result: GroupComputation[] = [];
+  for (const [name, computation] of Object.entries(computations)) {
+    result.push({
+      name,
+      type: computation.type,
+      expression: computation.expression,
+    });
+    if (computation.type === "avg")
+      result.push({
+        name: WEIGHT_PREFIX + name,
+        type: "countif",
+        expression: `!ISNULL(${computation.expression})`,
+      });
+  }
+
+  return result;
+}
+
+/**
+ * Returns the start time of the group from its numeric key computed by the group expression.
+ * @param {number} key The group key
+ * @param {GroupResolution} resolution The resolution of the groups
+ * @returns The start time of the group in milliseconds since epoch
+ */
+function getGroupTime(key: number, resolution: GroupResolution): number {
+  const names = KEY_PARTS[resolution];
+  const parts = names.map((_, index) => {
+    const value = Math.floor(key / Math.pow(100, names.length - index - 1));
+    // The year takes all remaining digits of the key
+    return index === 0 ? value : value % 100;
+  });
+  const [year, month, day = 1, hour = 0, minute = 0] = parts;
+  return Date.UTC(year, month - 1, day, hour, minute);
+}
+
+/**
+ * Returns the index of the bucket that contains the time, namely the index of the last bucket that starts at or before the time.
+ * @param {number[]} starts The start times of the buckets in ascending order
+ * @param {number} time The time in milliseconds since epoch
+ * @returns The bucket index, `-1` if the time is before the first bucket
+ */
+function findBucket(starts: number[], time: number): number {
+  let low = 0;
+  let high = starts.length - 1;
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (starts[middle] <= time) low = middle + 1;
+    else high = middle - 1;
+  }
+
+  return high;
+}
+
+/**
+ * Merges the computation results of the groups into the buckets of the time series. The counts and sums of the groups in the same bucket are added up, the minimum of the minimums and the maximum of the maximums are taken, and the averages are weighted by their value counts. The buckets without any groups have zero counts and sums, and `null` averages, minimums and maximums.
+ * @export
+ * @param {KeyValuePair[]} results The computation results of the groups, whose `groupby` values are the numeric group keys
+ * @param {TimeSeriesBuckets} buckets The buckets of the time series
+ * @param {ComputationMap} computations The computations of the time series
+ * @returns The dense time series ordered by the bucket start
+ */
+export function toTimeSeries(
+  results: KeyValuePair[],
+  buckets: TimeSeriesBuckets,
+  computations: ComputationMap
+): KeyValuePair[] {
+  const entries = Object.entries(computations);
+  const series: KeyValuePair[] = buckets.starts.map((start) => {
+    const point: KeyValuePair = { date: new Date(start).toISOString() };
+    for (const [name, { type }] of entries)
+      point[name] = ["count", "countif", "sum"].includes(type) ? 0 : null;
+    return point;
+  });
+  const weights = series.map(() => ({} as { [name: string]: number }));
+
+  for (const result of results) {
+    if (typeof result?.groupby !== "number") continue;
+    const index = findBucket(
+      buckets.starts,
+      getGroupTime(result.groupby, buckets.resolution)
+    );
+    if (index < 0) continue;
+
+    const point = series[index];
+    for (const [name, { type }] of entries) {
+      const value = result[name];
+      if (typeof value !== "number") continue;
+
+      const current = point[name];
+      if (type === "avg") {
+        const weight = Number(result[WEIGHT_PREFIX + name]) || 0;
+        const total = weights[index][name] ?? 0;
+        if (weight === 0) continue;
+        point[name] =
+          ((current ?? 0) * total + value * weight) / (total + weight);
+        weights[index][name] = total + weight;
+      } else if (type === "min")
+        point[name] = current === null ? value : Math.min(current, value);
+      else if (type === "max")
+        point[name] = current === null ? value : Math.max(current, value);
+      else point[name] = current + value;
+    }
+  }
+
+  return series;
+}